@@ -145,4 +145,22 @@ describe('ConfigurationManager', () => {
       expect(endpoint).toBe('http://custom:11434');
     });
   });
+
+  describe('getOpenAICompatibleProfiles', () => {
+    it('should keep valid profiles under their provider id with defaults filled in', () => {
+      mockConfig.get.mockReturnValue([
+        { id: 'litellm', name: 'Team LiteLLM', baseUrl: 'https://llm.example/', defaultModel: 'gpt-4o', headers: { 'X-Team': 'docs', bad: 1 } },
+        { id: 'lmstudio', baseUrl: 'http://localhost:1234/v1', timeoutSeconds: 5000 },
+        { id: 'litellm', baseUrl: 'https://duplicate.example' },
+        { id: 'has space', baseUrl: 'http://localhost:8000' },
+        { id: 'vllm', baseUrl: 'localhost:8000' },
+      ]);
+
+      expect(configManager.getOpenAICompatibleProfiles()).toEqual([
+        { providerId: 'openai-compatible.litellm', name: 'Team LiteLLM', baseUrl: 'https://llm.example/', defaultModel: 'gpt-4o', headers: { 'X-Team': 'docs' }, timeoutMs: 60000 },
+        { providerId: 'openai-compatible.lmstudio', name: 'lmstudio', baseUrl: 'http://localhost:1234/v1', defaultModel: undefined, headers: {}, timeoutMs: 600000 },
+      ]);
+      expect(configManager.getOpenAICompatibleProfile('openai-compatible.lmstudio')?.name).toBe('lmstudio');
+    });
+  });
 });
@@ -1,11 +1,15 @@
-import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi, Mock } from 'vitest';
 import { PromptRefinerService } from '../services/PromptRefinerService';
 import { IProviderManager } from '../services/IProviderManager';
 import { TemplateManager } from '../services/TemplateManager';
 import { ConfigurationManager } from '../services/ConfigurationManager';
+import { BudgetManager } from '../services/BudgetManager';
 import { IAIProvider } from '../providers/IAIProvider';
 import { refinementCache } from '../utils/Cache';
-import { clearCircuitBreakers } from '../utils/CircuitBreaker';
+import { CircuitBreakerError, CircuitBreakerState, clearCircuitBreakers, getCircuitBreaker } from '../utils/CircuitBreaker';
+import { estimateTokens } from '../utils/tokenBudget';
+import { PluginManager } from '../plugins/PluginManager';
+import { createRefinerMethods } from '../server/methods';
 import * as fs from 'fs';
 import * as vscode from 'vscode';
 
@@ -32,10 +36,19 @@ describe('PromptRefinerService with DI', () => {
     (ConfigurationManager.getInstance as any).mockReturnValue({
       initialize: vi.fn(),
       isStrictMode: vi.fn().mockReturnValue(true),
+      getSelectedTemplateId: vi.fn().mockReturnValue('default'),
+      getMaxHistoryTokens: vi.fn().mockReturnValue(4000),
       getProviderId: vi.fn().mockReturnValue('mock'),
       getModelId: vi.fn().mockReturnValue('gpt-4o-mini'),
       getOllamaEndpoint: vi.fn().mockReturnValue('http://localhost:11434'),
       getUseRoleTemplates: vi.fn().mockReturnValue(true),
+      getFallbackProviders: vi.fn().mockReturnValue([]),
+      isProviderConfigured: vi.fn().mockResolvedValue(false),
+      resolveModelId: vi.fn((_providerId: string, override?: string) => override ?? 'gpt-4o-mini'),
+      getAutoRepairSettings: vi.fn().mockReturnValue({ enabled: false, maxRounds: 2 }),
+      getDisabledPipelineStages: vi.fn().mockReturnValue([]),
+      getRedactionSettings: vi.fn().mockReturnValue({ enabled: true, disabledDetectors: [], customPatterns: [], onSecret: 'redact' }),
+      isLocalProvider: vi.fn((providerId: string) => providerId === 'ollama'),
     });
     
     // Create mock provider
@@ -52,6 +65,7 @@ describe('PromptRefinerService with DI', () => {
     // Create mock provider manager
     mockProviderManager = {
       getActiveProvider: vi.fn().mockReturnValue(mockProvider),
+      getProvider: vi.fn(),
       preloadProvider: vi.fn(),
       getLoadedCount: vi.fn().mockReturnValue(1),
       clear: vi.fn(),
@@ -123,10 +137,16 @@ describe('PromptRefinerService with DI', () => {
       (ConfigurationManager.getInstance as any).mockReturnValue({
         initialize: vi.fn(),
         isStrictMode: vi.fn().mockReturnValue(true),
+        getSelectedTemplateId: vi.fn().mockReturnValue('default'),
         getProviderId: vi.fn().mockReturnValue('mock'),
         getModelId: vi.fn().mockReturnValue('gpt-4o-mini'),
         getOllamaEndpoint: vi.fn().mockReturnValue('http://localhost:11434'),
         getUseRoleTemplates: vi.fn().mockReturnValue(false),
+        getFallbackProviders: vi.fn().mockReturnValue([]),
+        getAutoRepairSettings: vi.fn().mockReturnValue({ enabled: false, maxRounds: 2 }),
+        getDisabledPipelineStages: vi.fn().mockReturnValue([]),
+        getRedactionSettings: vi.fn().mockReturnValue({ enabled: true, disabledDetectors: [], customPatterns: [], onSecret: 'redact' }),
+        isLocalProvider: vi.fn((providerId: string) => providerId === 'ollama'),
       });
 
       // Mock strict mode by checking template file path
@@ -157,6 +177,24 @@ describe('PromptRefinerService with DI', () => {
       expect(result.templateUsed).toBeDefined();
     });
 
+    it('should prefer provider-reported usage and count tokens offline otherwise', async () => {
+      (mockProvider.refine as any).mockResolvedValueOnce({
+        refined: 'improved prompt',
+        tokens: 1500,
+        usage: { promptTokens: 1000, completionTokens: 500 },
+      });
+      const reported = await service.refine('first prompt');
+      expect(reported.usage).toEqual({ promptTokens: 1000, completionTokens: 500, cost: 0, source: 'provider' });
+
+      // No offline tokenizer for Llama models, so the counts are estimated
+      ConfigurationManager.getInstance().getModelId = vi.fn().mockReturnValue('llama-3.3-70b-versatile');
+      (mockProvider.refine as any).mockResolvedValueOnce({ refined: 'improved prompt', tokens: 0 });
+      const counted = await service.refine('second prompt');
+      expect(counted.usage.source).toBe('estimate');
+      expect(counted.usage.completionTokens).toBe(estimateTokens('improved prompt'));
+      expect(counted.tokens).toBe(counted.usage.promptTokens + counted.usage.completionTokens);
+    });
+
     it('should propagate provider errors', async () => {
       (mockProvider.refine as any).mockRejectedValue(new Error('Provider error'));
 
@@ -174,10 +212,16 @@ describe('PromptRefinerService with DI', () => {
       (ConfigurationManager.getInstance as any).mockReturnValue({
         initialize: vi.fn(),
         isStrictMode: vi.fn().mockReturnValue(true),
+        getSelectedTemplateId: vi.fn().mockReturnValue('default'),
         getProviderId: vi.fn().mockReturnValue('mock'),
         getModelId: vi.fn().mockReturnValue('gpt-4o-mini'),
         getOllamaEndpoint: vi.fn().mockReturnValue('http://localhost:11434'),
         getUseRoleTemplates: vi.fn().mockReturnValue(false), // Disable role templates
+        getFallbackProviders: vi.fn().mockReturnValue([]),
+        getAutoRepairSettings: vi.fn().mockReturnValue({ enabled: false, maxRounds: 2 }),
+        getDisabledPipelineStages: vi.fn().mockReturnValue([]),
+        getRedactionSettings: vi.fn().mockReturnValue({ enabled: true, disabledDetectors: [], customPatterns: [], onSecret: 'redact' }),
+        isLocalProvider: vi.fn((providerId: string) => providerId === 'ollama'),
       });
 
       let callCount = 0;
@@ -203,6 +247,48 @@ describe('PromptRefinerService with DI', () => {
         'utf-8'
       );
     });
+
+    it('should fill in the selected template\'s variables', async () => {
+      (ConfigurationManager.getInstance() as any).getSelectedTemplateId.mockReturnValue('review');
+      (mockTemplateManager.getTemplate as Mock).mockResolvedValue({
+        id: 'review',
+        name: 'Review',
+        content: 'Review {{language}} for {{audience}}',
+        variables: [{ name: 'language', default: 'Go' }],
+      });
+      (mockTemplateManager as any).getVariableValues = vi.fn().mockReturnValue({ audience: 'juniors' });
+
+      const result = await service.refine('user prompt');
+
+      expect(result.templateUsed).toBe('review');
+      expect(mockProvider.refine.mock.calls[0][1]).toContain('Review Go for juniors');
+
+      await service.refine('user prompt', undefined, { templateVariables: { language: 'Rust', audience: 'seniors' } });
+
+      expect(mockProvider.refine).toHaveBeenCalledTimes(2);
+      expect(mockProvider.refine.mock.calls[1][1]).toContain('Review Rust for seniors');
+    });
+  });
+
+  describe('Editor context', () => {
+    beforeEach(() => {
+      service.initialize(mockContext);
+      vi.spyOn(fs.promises, 'readFile').mockResolvedValue('template');
+    });
+
+    it('should render the context into the system prompt and vary the cache with it', async () => {
+      await service.refine('same prompt', undefined, {
+        context: { languageId: 'python', diagnostics: [{ severity: 'error', line: 3, message: 'undefined name' }] },
+      });
+      await service.refine('same prompt');
+
+      expect(mockProvider.refine).toHaveBeenCalledTimes(2);
+      const systemPrompt = mockProvider.refine.mock.calls[0][1] as string;
+      expect(systemPrompt).toContain('Language: python');
+      expect(systemPrompt).toContain('- [error] line 3: undefined name');
+      expect(systemPrompt.indexOf('## Editor Context')).toBeLessThan(systemPrompt.indexOf('Task boundary'));
+      expect(mockProvider.refine.mock.calls[1][1]).not.toContain('## Editor Context');
+    });
   });
 
   describe('Error Handling', () => {
@@ -228,6 +314,19 @@ describe('PromptRefinerService with DI', () => {
 
       await expect(service.refine('user prompt')).rejects.toThrow('Provider manager error');
     });
+
+    it('should only ask what to do about an open circuit breaker when someone is at the editor', async () => {
+      service.initialize(mockContext);
+      vi.spyOn(fs.promises, 'readFile').mockResolvedValue('template');
+      vi.spyOn(getCircuitBreaker('mock'), 'execute')
+        .mockRejectedValue(new CircuitBreakerError('Circuit breaker is open for "mock"', 'mock', CircuitBreakerState.OPEN));
+
+      await expect(service.refine('server prompt', undefined, { headless: true })).rejects.toThrow('Circuit breaker is open');
+      expect(vscode.window.showWarningMessage).not.toHaveBeenCalled();
+
+      await expect(service.refine('editor prompt')).rejects.toThrow('Circuit breaker is open');
+      expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(expect.stringContaining('"mock" is temporarily unavailable'), 'Switch Provider', 'Configure Fallbacks', 'Dismiss');
+    });
   });
 
   describe('Caching', () => {
@@ -244,5 +343,540 @@ describe('PromptRefinerService with DI', () => {
       // Provider should only be called once due to cache
       expect(mockProvider.refine).toHaveBeenCalledTimes(1);
     });
+
+    it('should key chat follow-ups on the last few exchanges only', async () => {
+      service.initialize(mockContext);
+      vi.spyOn(fs.promises, 'readFile').mockResolvedValue('template');
+      const exchange = (n: number) => [
+        { role: 'user' as const, content: `question ${n}` },
+        { role: 'assistant' as const, content: `answer ${n}` },
+      ];
+      const recent = [...exchange(2), ...exchange(3), ...exchange(4)];
+
+      await service.refine('follow up', undefined, { history: [...exchange(0), ...recent] });
+      await service.refine('follow up', undefined, { history: [...exchange(1), ...recent] });
+      expect(mockProvider.refine).toHaveBeenCalledTimes(1);
+
+      await service.refine('follow up', undefined, { history: [...recent, ...exchange(5)] });
+      expect(mockProvider.refine).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Streaming', () => {
+    beforeEach(() => {
+      service.initialize(mockContext);
+      vi.spyOn(fs.promises, 'readFile').mockResolvedValue('template');
+    });
+
+    it('should report accumulated text when the provider streams', async () => {
+      (mockProvider as any).refineStream = async function* () {
+        yield { type: 'delta', text: 'Hello' };
+        yield { type: 'delta', text: ' world' };
+        yield { type: 'done', tokens: 12 };
+      };
+      const progress: string[] = [];
+
+      const result = await service.refine('stream me', undefined, {
+        onProgress: (partial) => progress.push(partial),
+      });
+
+      expect(progress).toEqual(['', 'Hello', 'Hello world']);
+      expect(result.refined).toBe('Hello world');
+      expect(result.tokens).toBe(12);
+      expect(mockProvider.refine).not.toHaveBeenCalled();
+    });
+
+    it('should use non-streaming refine when no progress callback is given', async () => {
+      (mockProvider as any).refineStream = vi.fn();
+
+      await service.refine('no stream');
+
+      expect(mockProvider.refine).toHaveBeenCalledTimes(1);
+      expect((mockProvider as any).refineStream).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Provider fallback', () => {
+    let fallbackProvider: IAIProvider & { refine: Mock };
+
+    beforeEach(() => {
+      service.initialize(mockContext);
+      vi.spyOn(fs.promises, 'readFile').mockResolvedValue('template');
+
+      fallbackProvider = {
+        id: 'groq',
+        name: 'Groq',
+        isConfigured: vi.fn().mockReturnValue(true),
+        refine: vi.fn().mockResolvedValue({ refined: 'fallback result', tokens: 20 }),
+      } as any;
+      (mockProviderManager.getProvider as Mock).mockImplementation((id: string) =>
+        id === 'groq' ? fallbackProvider : undefined
+      );
+
+      const config = ConfigurationManager.getInstance() as any;
+      config.getFallbackProviders.mockReturnValue([{ providerId: 'groq' }]);
+      config.isProviderConfigured.mockImplementation(async (id: string) => id === 'groq');
+    });
+
+    it('should fall back on rate limit errors and report the answering provider', async () => {
+      mockProvider.refine.mockRejectedValue(new Error('RATE_LIMIT|Too many requests'));
+
+      const result = await service.refine('fallback prompt');
+
+      expect(fallbackProvider.refine).toHaveBeenCalledWith(
+        'fallback prompt',
+        expect.any(String),
+        expect.objectContaining({ model: 'groq-llama3-70b' })
+      );
+      expect(result.refined).toBe('fallback result');
+      expect(result.provider).toBe('groq');
+      expect(result.model).toBe('groq-llama3-70b');
+    });
+
+    it('should not fall back on authentication errors', async () => {
+      mockProvider.refine.mockRejectedValue(new Error('AUTH_ERROR|Invalid API key'));
+
+      await expect(service.refine('auth prompt')).rejects.toThrow('AUTH_ERROR');
+      expect(fallbackProvider.refine).not.toHaveBeenCalled();
+    });
+
+    it('should skip fallback providers without an API key', async () => {
+      (ConfigurationManager.getInstance() as any).isProviderConfigured.mockResolvedValue(false);
+      mockProvider.refine.mockRejectedValue(new Error('RATE_LIMIT|Too many requests'));
+
+      await expect(service.refine('unconfigured prompt')).rejects.toThrow('RATE_LIMIT');
+      expect(fallbackProvider.refine).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Budget limits', () => {
+    const memento = () => {
+      const values = new Map<string, unknown>();
+      return {
+        get: vi.fn((key: string, fallback?: unknown) => values.get(key) ?? fallback),
+        update: vi.fn(async (key: string, value: unknown) => { values.set(key, value); }),
+      };
+    };
+
+    beforeEach(() => {
+      service.initialize(mockContext);
+      vi.spyOn(fs.promises, 'readFile').mockResolvedValue('template');
+      BudgetManager.getInstance().initialize({ globalState: memento(), workspaceState: memento() } as any);
+      (ConfigurationManager.getInstance() as any).getBudgetSettings = vi.fn().mockReturnValue({
+        limits: [{ provider: 'mock', period: 'daily', maxRequests: 1 }],
+        warnThreshold: 0.8,
+        onLimit: 'block',
+      });
+    });
+
+    afterEach(() => {
+      BudgetManager.resetInstance();
+    });
+
+    it('should block the provider once its cap is used up', async () => {
+      await service.refine('first prompt');
+
+      await expect(service.refine('second prompt')).rejects.toThrow('BUDGET_EXCEEDED|Daily request cap for mock: 1 / 1');
+      expect(mockProvider.refine).toHaveBeenCalledTimes(1);
+    });
+
+    it('should warn once that spend caps cannot count models without a price', async () => {
+      (mockProviderManager.getActiveProvider as Mock).mockReturnValue({ ...mockProvider, id: 'acme' });
+      (ConfigurationManager.getInstance() as any).getBudgetSettings().limits = [{ provider: 'acme', period: 'daily', maxCost: 1 }];
+
+      await service.refine('first prompt');
+      await service.refine('second prompt');
+
+      expect(mockProvider.refine).toHaveBeenCalledTimes(2);
+      expect(vscode.window.showWarningMessage).toHaveBeenCalledTimes(1);
+      expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(expect.stringContaining('gpt-4o-mini (acme) has no known price'), 'Open Settings');
+    });
+
+    it('should answer with Ollama when configured to fall back', async () => {
+      const ollama = {
+        id: 'ollama',
+        name: 'Ollama',
+        isConfigured: vi.fn().mockReturnValue(true),
+        refine: vi.fn().mockResolvedValue({ refined: 'local result', tokens: 10 }),
+      };
+      (mockProviderManager.getProvider as Mock).mockImplementation((id: string) => id === 'ollama' ? ollama : undefined);
+      (ConfigurationManager.getInstance() as any).getBudgetSettings().onLimit = 'fallbackToOllama';
+
+      await service.refine('first prompt');
+      const result = await service.refine('second prompt');
+
+      expect(result.provider).toBe('ollama');
+      expect(result.refined).toBe('local result');
+      expect(mockProvider.refine).toHaveBeenCalledTimes(1);
+
+      // Not cached under mock's key, so the same prompt asks Ollama again
+      await service.refine('second prompt');
+      expect(ollama.refine).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Conversation history', () => {
+    beforeEach(() => {
+      service.initialize(mockContext);
+      vi.spyOn(fs.promises, 'readFile').mockResolvedValue('template');
+    });
+
+    it('should send reRefine as a follow-up turn after the original exchange', async () => {
+      const result = await service.reRefine('make an api', 'Build a REST API', 'mention auth');
+
+      const [userPrompt, , callOptions] = mockProvider.refine.mock.calls[0];
+      expect(userPrompt).toContain('mention auth');
+      expect(callOptions.history).toEqual([
+        { role: 'user', content: 'make an api' },
+        { role: 'assistant', content: 'Build a REST API' },
+      ]);
+      expect(result.iteration).toBe(2);
+    });
+
+    it('should trim the oldest turns to the history budget and summarize them', async () => {
+      (ConfigurationManager.getInstance() as any).getMaxHistoryTokens.mockReturnValue(100);
+      const history = [1, 2, 3].flatMap(n => [
+        { role: 'user' as const, content: `draft ${n} `.padEnd(100, 'x') },
+        { role: 'assistant' as const, content: `refined ${n} `.padEnd(100, 'y') },
+      ]);
+
+      await service.refine('next', undefined, { history });
+
+      const [, systemPrompt, callOptions] = mockProvider.refine.mock.calls[0];
+      expect(callOptions.history).toEqual(history.slice(4));
+      expect(systemPrompt).toContain('Earlier in this conversation (condensed):\n- User asked: draft 1');
+      expect(systemPrompt.trimEnd().endsWith('solution commentary.')).toBe(true);
+    });
+  });
+
+  describe('Auto-repair', () => {
+    const passing = '[Objective]\nCreate a CSV parser in TypeScript.\n\n[Expected Output]\nA single exported function with unit tests.';
+    const answer = (refined: string) => ({ refined, tokens: 30, usage: { promptTokens: 20, completionTokens: 10 } });
+
+    beforeEach(() => {
+      service.initialize(mockContext);
+      vi.spyOn(fs.promises, 'readFile').mockResolvedValue('template');
+    });
+
+    it('should send the validation issues back and keep the answer that passes', async () => {
+      mockProvider.refine
+        .mockResolvedValueOnce(answer('Sure, here is your refined prompt: parse CSV'))
+        .mockResolvedValueOnce(answer(passing));
+
+      const result = await service.refine('csv parser', undefined, { autoRepair: true });
+
+      expect(mockProvider.refine).toHaveBeenCalledTimes(2);
+      const [repairPrompt, , callOptions] = mockProvider.refine.mock.calls[1];
+      expect(repairPrompt).toContain('Missing required section: Objective');
+      expect(callOptions.history).toEqual([
+        { role: 'user', content: 'csv parser' },
+        { role: 'assistant', content: 'Sure, here is your refined prompt: parse CSV' },
+      ]);
+      expect(result.refined).toBe(passing);
+      expect(result.validation?.valid).toBe(true);
+      expect(result.repair).toEqual({
+        rounds: [expect.objectContaining({ round: 0, valid: false }), expect.objectContaining({ round: 1, score: 85, valid: true })],
+        chosenRound: 1,
+      });
+      expect(result.usage).toEqual({ promptTokens: 40, completionTokens: 20, cost: 0, source: 'provider' });
+      expect(result.tokens).toBe(60);
+    });
+
+    it('should stop after the configured rounds and keep the best-scoring answer', async () => {
+      (ConfigurationManager.getInstance() as any).getAutoRepairSettings.mockReturnValue({ enabled: true, maxRounds: 2 });
+      mockProvider.refine
+        .mockResolvedValueOnce(answer('[Objective]\nParse CSV'))
+        .mockResolvedValueOnce(answer('parse csv'))
+        .mockResolvedValueOnce(answer('csv'));
+
+      const result = await service.refine('csv parser');
+
+      expect(mockProvider.refine).toHaveBeenCalledTimes(3);
+      expect(result.refined).toBe('[Objective]\nParse CSV');
+      expect(result.repair?.rounds).toHaveLength(3);
+      expect(result.repair?.chosenRound).toBe(0);
+    });
+  });
+
+  describe('Plugin events', () => {
+    const events: string[] = [];
+
+    beforeEach(async () => {
+      events.length = 0;
+      PluginManager.resetInstance();
+      service.initialize(mockContext);
+      vi.spyOn(fs.promises, 'readFile').mockResolvedValue('template');
+      vi.mocked(vscode.window.showWarningMessage).mockResolvedValueOnce('Allow' as any);
+      await PluginManager.getInstance().loadPlugin({
+        id: 'ticket-links',
+        name: 'Ticket Links',
+        version: '1.0.0',
+        permissions: ['modifyPrompt'],
+        initialize: context => {
+          context.on('beforeRefine', ({ prompt }) => `${prompt} (see JIRA-42)`);
+          context.on('afterRefine', ({ result, fromCache }) => {
+            events.push(`afterRefine:${fromCache}`);
+            return `${result.refined}\n\nTicket: JIRA-42`;
+          });
+          context.on('onCacheHit', () => { events.push('onCacheHit'); });
+          context.on('onCacheMiss', ({ bypassed }) => { events.push(`onCacheMiss:${bypassed}`); });
+          context.on('onError', ({ error }) => { events.push(`onError:${error.message}`); });
+        },
+      });
+    });
+
+    afterEach(() => {
+      PluginManager.resetInstance();
+    });
+
+    it('should let handlers rewrite the prompt and the answer', async () => {
+      const first = await service.refine('fix login');
+      const second = await service.refine('fix login');
+
+      expect(mockProvider.refine).toHaveBeenCalledTimes(1);
+      expect(mockProvider.refine.mock.calls[0][0]).toBe('fix login (see JIRA-42)');
+      // The cache keeps the provider's answer, so the rewrite isn't applied twice
+      expect(first.refined).toBe('refined result\n\nTicket: JIRA-42');
+      expect(second.refined).toBe(first.refined);
+      expect(events).toEqual(['onCacheMiss:false', 'afterRefine:false', 'onCacheHit', 'afterRefine:true']);
+    });
+
+    it('should report failures and disable plugins whose handlers throw', async () => {
+      await PluginManager.getInstance().loadPlugin({
+        id: 'broken',
+        name: 'Broken',
+        version: '0.0.1',
+        initialize: context => context.on('beforeRefine', () => { throw new Error('boom'); }),
+      });
+      mockProvider.refine.mockRejectedValue(new Error('AUTH_ERROR|Invalid key'));
+
+      await expect(service.refine('fix login')).rejects.toThrow('AUTH_ERROR');
+      expect(events).toEqual(['onCacheMiss:false', 'onError:AUTH_ERROR|Invalid key']);
+      expect(mockProvider.refine.mock.calls[0][0]).toBe('fix login (see JIRA-42)');
+      expect(PluginManager.getInstance().getPlugins().map(({ plugin, status, error }) => [plugin.id, status, error])).toEqual([
+        ['ticket-links', 'active', undefined],
+        ['broken', 'failed', 'its beforeRefine handler: boom'],
+      ]);
+    });
+  });
+
+  describe('Pipeline stages', () => {
+    beforeEach(() => {
+      PluginManager.resetInstance();
+      service.initialize(mockContext);
+      vi.spyOn(fs.promises, 'readFile').mockResolvedValue('template');
+    });
+
+    afterEach(() => {
+      PluginManager.resetInstance();
+    });
+
+    it('should run plugin stages that answer without the provider, and validate and cache their answer', async () => {
+      vi.mocked(vscode.window.showWarningMessage).mockResolvedValueOnce('Allow' as any);
+      await PluginManager.getInstance().loadPlugin({
+        id: 'canned',
+        name: 'Canned Answers',
+        version: '1.0.0',
+        permissions: ['modifyPrompt'],
+        initialize: context => context.registerStage({
+          id: 'canned-answers',
+          run: async (stageContext, next) => {
+            if (!stageContext.prompt.startsWith('faq:')) {
+              return next();
+            }
+            return {
+              refined: `canned: ${stageContext.prompt}`,
+              tokens: 0,
+              usage: { promptTokens: 0, completionTokens: 0, source: 'cache' },
+              templateUsed: stageContext.templateId,
+              iteration: stageContext.iteration,
+              provider: 'canned',
+              model: 'none',
+            };
+          },
+        }, { after: 'cache' }),
+      });
+
+      expect((await service.refine('fix login')).refined).toBe('refined result');
+      const canned = await service.refine('faq: reset password');
+      expect(canned.refined).toBe('canned: faq: reset password');
+      expect(canned.validation).toBeDefined();
+      expect(mockProvider.refine).toHaveBeenCalledTimes(1);
+
+      // A cache hit names the stage that answered, not the configured provider
+      const again = await service.refine('faq: reset password');
+      expect(again).toMatchObject({ refined: canned.refined, provider: 'canned', model: 'none', usage: { source: 'cache' } });
+    });
+
+    it('should disable plugins whose stage throws and carry on without it', async () => {
+      vi.mocked(vscode.window.showWarningMessage).mockResolvedValueOnce('Allow' as any);
+      await PluginManager.getInstance().loadPlugin({
+        id: 'flaky',
+        name: 'Flaky',
+        version: '1.0.0',
+        permissions: ['modifyPrompt'],
+        initialize: context => context.registerStage({ id: 'flaky-stage', run: async () => { throw new Error('boom'); } }),
+      });
+
+      const result = await service.refine('fix login');
+      expect(result.refined).toBe('refined result');
+      expect(PluginManager.getInstance().getPlugins()[0]).toEqual(expect.objectContaining({
+        status: 'failed',
+        error: 'its pipeline stage "flaky-stage": boom',
+      }));
+      expect(PluginManager.getInstance().getStages()).toEqual([]);
+    });
+
+    it('should refuse stages from plugins without the modifyPrompt permission', async () => {
+      await PluginManager.getInstance().loadPlugin({
+        id: 'quiet',
+        name: 'Quiet',
+        version: '1.0.0',
+        initialize: context => context.registerStage({ id: 'quiet-stage', run: (_context, next) => next() }),
+      });
+
+      expect(PluginManager.getInstance().getPlugins()[0].error).toContain('needs the "modifyPrompt" permission');
+    });
+
+    it('should skip the stages turned off in settings', async () => {
+      const config = ConfigurationManager.getInstance() as any;
+      config.getDisabledPipelineStages.mockReturnValue(['cache', 'validateOutput', 'autoRepair', 'provider']);
+
+      await service.refine('fix login');
+      const second = await service.refine('fix login');
+
+      // No cache, so the provider answers twice; the required provider stage can't be turned off
+      expect(mockProvider.refine).toHaveBeenCalledTimes(2);
+      expect(second.validation).toBeUndefined();
+    });
+  });
+
+  describe('Redaction', () => {
+    beforeEach(() => {
+      service.initialize(mockContext);
+      vi.spyOn(fs.promises, 'readFile').mockResolvedValue('template');
+    });
+
+    it('should send placeholders to the provider and put the values back in the answer', async () => {
+      const progress: string[] = [];
+      mockProvider.refineStream = vi.fn(async function* () {
+        yield { type: 'delta', text: 'Email [REDACTED_EMAIL_1]' };
+        yield { type: 'done', tokens: 5 };
+      }) as any;
+
+      const result = await service.refine('Login fails for jane@example.com', undefined, {
+        history: [{ role: 'user', content: 'Same bug as jane@example.com reported' }],
+        onProgress: partial => progress.push(partial),
+      });
+
+      const [prompt, , callOptions] = (mockProvider.refineStream as Mock).mock.calls[0];
+      expect(prompt).toBe('Login fails for [REDACTED_EMAIL_1]');
+      expect(callOptions.history[0].content).toBe('Same bug as [REDACTED_EMAIL_1] reported');
+      expect(progress.at(-1)).toBe('Email jane@example.com');
+      expect(result.refined).toBe('Email jane@example.com');
+      expect(result.redactions).toEqual([{ placeholder: '[REDACTED_EMAIL_1]', detector: 'email', kind: 'pii' }]);
+    });
+
+    it('should keep prompts with secrets away from cloud providers when the policy says so', async () => {
+      const config = ConfigurationManager.getInstance() as any;
+      config.getRedactionSettings.mockReturnValue({ enabled: true, disabledDetectors: [], customPatterns: [], onSecret: 'blockCloud' });
+      const token = `ghp_${'a1B2'.repeat(9)}`;
+
+      await expect(service.refine(`Why does ${token} get a 401?`)).rejects.toThrow('SECRET_DETECTED');
+      expect(mockProvider.refine).not.toHaveBeenCalled();
+
+      // Personal data alone is only redacted
+      await service.refine('Why does jane@example.com get a 401?');
+      expect(mockProvider.refine).toHaveBeenCalledWith('Why does [REDACTED_EMAIL_1] get a 401?', expect.any(String), expect.any(Object));
+    });
+
+    it('should redact Compare and server requests for an explicit model too', async () => {
+      (mockProviderManager.getProvider as Mock).mockImplementation((id: string) => id === 'mock' ? mockProvider : undefined);
+      mockProvider.refine.mockImplementation(async (prompt: string) => ({ refined: `Refined: ${prompt}`, tokens: 5 }));
+      const token = `ghp_${'a1B2'.repeat(9)}`;
+      const methods = createRefinerMethods({ service, templateManager: mockTemplateManager });
+
+      const compared = await service.refineWithModel(`Why does ${token} get a 401?`, 'mock', 'custom-model');
+      const served = await methods.refine(
+        { prompt: `Why does ${token} get a 401?`, providerId: 'mock', modelId: 'custom-model' },
+        new vscode.CancellationTokenSource().token
+      ) as { refined: string; redactions: unknown[] };
+
+      expect(mockProvider.refine.mock.calls.map(([prompt]) => prompt)).toEqual([
+        'Why does [REDACTED_GITHUB_TOKEN_1] get a 401?',
+        'Why does [REDACTED_GITHUB_TOKEN_1] get a 401?',
+      ]);
+      expect(compared.refined).toBe(`Refined: Why does ${token} get a 401?`);
+      expect(served.refined).toBe(compared.refined);
+      expect(served.redactions).toEqual([{ placeholder: '[REDACTED_GITHUB_TOKEN_1]', detector: 'githubToken', kind: 'secret' }]);
+
+      const config = ConfigurationManager.getInstance() as any;
+      config.getRedactionSettings.mockReturnValue({ enabled: true, disabledDetectors: [], customPatterns: [], onSecret: 'blockCloud' });
+      await expect(service.refineWithModel(`Why does ${token} get a 401?`, 'mock', 'custom-model')).rejects.toThrow('SECRET_DETECTED');
+      expect(mockProvider.refine).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep redacting when the stage is listed in disabledStages', async () => {
+      (ConfigurationManager.getInstance() as any).getDisabledPipelineStages.mockReturnValue(['redact']);
+
+      await service.refine('Login fails for jane@example.com');
+
+      expect(mockProvider.refine.mock.calls[0][0]).toBe('Login fails for [REDACTED_EMAIL_1]');
+    });
+  });
+
+  describe('refineWithModel', () => {
+    beforeEach(() => {
+      service.initialize(mockContext);
+      vi.spyOn(fs.promises, 'readFile').mockResolvedValue('template');
+      (mockProviderManager.getProvider as Mock).mockImplementation((id: string) =>
+        id === 'mock' ? mockProvider : undefined
+      );
+    });
+
+    it('should call the requested provider with the model override', async () => {
+      const result = await service.refineWithModel('compare prompt', 'mock', 'custom-model');
+
+      expect(mockProvider.refine).toHaveBeenCalledWith(
+        'compare prompt',
+        expect.any(String),
+        expect.objectContaining({ model: 'custom-model' })
+      );
+      expect(result.provider).toBe('mock');
+      expect(result.model).toBe('custom-model');
+      expect(result.validation).toBeDefined();
+    });
+
+    it('should reject unknown providers', async () => {
+      await expect(service.refineWithModel('compare prompt', 'nope', 'x')).rejects.toThrow('PROVIDER_ERROR');
+    });
+
+    it('should fire the same plugin events as refine, without the cache', async () => {
+      PluginManager.resetInstance();
+      const events: string[] = [];
+      vi.mocked(vscode.window.showWarningMessage).mockResolvedValueOnce('Allow' as any);
+      await PluginManager.getInstance().loadPlugin({
+        id: 'ticket-links',
+        name: 'Ticket Links',
+        version: '1.0.0',
+        permissions: ['modifyPrompt'],
+        initialize: context => {
+          context.on('beforeRefine', ({ prompt, model }) => { events.push(`beforeRefine:${model}`); return `${prompt} (see JIRA-42)`; });
+          context.on('afterRefine', ({ result }) => `${result.refined}\n\nTicket: JIRA-42`);
+          context.on('onCacheMiss', () => { events.push('onCacheMiss'); });
+          context.on('onError', ({ provider, model }) => { events.push(`onError:${provider}/${model}`); });
+        },
+      });
+
+      const result = await service.refineWithModel('compare prompt', 'mock', 'custom-model');
+      await service.refineWithModel('compare prompt', 'mock', 'custom-model');
+      await expect(service.refineWithModel('compare prompt', 'nope', 'x')).rejects.toThrow('PROVIDER_ERROR');
+
+      expect(mockProvider.refine).toHaveBeenCalledTimes(2);
+      expect(mockProvider.refine.mock.calls[0][0]).toBe('compare prompt (see JIRA-42)');
+      expect(result.refined).toBe('refined result\n\nTicket: JIRA-42');
+      expect(events).toEqual(['beforeRefine:custom-model', 'beforeRefine:custom-model', 'onError:nope/x']);
+      PluginManager.resetInstance();
+    });
   });
 });
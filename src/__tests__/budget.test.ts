@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { addUsage, describeBudgetStatus, evaluateBudget, periodKeys, rollOverUsage, BudgetLimit } from '../utils/budget';
+
+describe('budget', () => {
+  const may3 = new Date(2026, 4, 3, 23, 59);
+
+  it('should key periods by local calendar day and month', () => {
+    expect(periodKeys(may3)).toEqual({ day: '2026-05-03', month: '2026-05' });
+  });
+
+  it('should reset counters when the day or month changes', () => {
+    const usage = addUsage(rollOverUsage(undefined, may3), 100, 0.5);
+
+    const nextDay = rollOverUsage(usage, new Date(2026, 4, 4, 0, 1));
+    expect(nextDay.daily).toEqual({ requests: 0, tokens: 0, cost: 0 });
+    expect(nextDay.monthly).toEqual({ requests: 1, tokens: 100, cost: 0.5 });
+
+    const nextMonth = rollOverUsage(usage, new Date(2026, 5, 1));
+    expect(nextMonth.monthly.requests).toBe(0);
+  });
+
+  it('should report the tightest applicable cap first', () => {
+    const limits: BudgetLimit[] = [
+      { provider: 'openai', period: 'monthly', maxCost: 10 },
+      { period: 'daily', maxTokens: 1000, maxRequests: 100 },
+      { provider: 'groq', period: 'daily', maxRequests: 1 },
+    ];
+    let usage = rollOverUsage(undefined, new Date());
+    usage = addUsage(usage, 850, 2);
+
+    const statuses = evaluateBudget(limits, 'openai', () => usage, 0.8);
+
+    expect(statuses.map(s => [s.metric, s.state])).toEqual([
+      ['tokens', 'warning'],
+      ['cost', 'ok'],
+      ['requests', 'ok'],
+    ]);
+    expect(describeBudgetStatus(statuses[0])).toBe('Daily token cap for this workspace: 850 / 1,000');
+  });
+
+  it('should mark a cap exceeded once it is reached', () => {
+    const usage = addUsage(rollOverUsage(undefined, new Date()), 10, 5);
+    const [status] = evaluateBudget([{ provider: 'openai', period: 'monthly', maxCost: 5 }], 'openai', () => usage, 0.8);
+
+    expect(status.state).toBe('exceeded');
+    expect(status.remaining).toBe(0);
+    expect(describeBudgetStatus(status)).toBe('Monthly spend cap for openai: $5.00 / $5.00');
+  });
+});
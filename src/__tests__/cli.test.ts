@@ -0,0 +1,92 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadCliConfig, getApiKeyFromEnv, readApplicationSettings, readSettingDefaults } from '../cli/cliConfig';
+import { CliHost, createExtensionContext, createVscodeHost, globToRegExp } from '../cli/vscodeHost';
+
+const defaults = readSettingDefaults(path.join(process.cwd(), 'package.json'));
+const applicationSettings = readApplicationSettings(path.join(process.cwd(), 'package.json'));
+
+describe('command line', () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) fs.rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  const writeConfig = (content: unknown) => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'prompt-refiner-cli-'));
+    fs.writeFileSync(path.join(dir, '.prompt-refiner.json'), JSON.stringify(content));
+    return dir;
+  };
+
+  it('should read nested and dotted settings from the config file, then the environment', () => {
+    const cwd = writeConfig({
+      provider: 'groq',
+      'promptRefiner.strictMode': false,
+      validation: { ruleSet: 'code', ruleSetByRole: { writer: 'editorial' } },
+    });
+
+    const config = loadCliConfig({ cwd, env: { PROMPT_REFINER_MODEL: 'groq-llama3-70b', PROMPT_REFINER_STRICT_MODE: '1' }, defaults });
+
+    expect(config.source).toBe(path.join(cwd, '.prompt-refiner.json'));
+    expect(config.settings).toEqual({
+      provider: 'groq',
+      model: 'groq-llama3-70b',
+      strictMode: true,
+      'validation.ruleSet': 'code',
+      'validation.ruleSetByRole': { writer: 'editorial' },
+    });
+    expect(() => loadCliConfig({ cwd, configPath: 'missing.json', env: {}, defaults })).toThrow('Could not read');
+  });
+
+  it('should ignore user-only settings in a config file found in the working directory', () => {
+    const profiles = [{ id: 'team', baseUrl: 'https://llm.example.com' }];
+    const cwd = writeConfig({
+      provider: 'groq',
+      openaiCompatible: { profiles },
+      azureOpenAI: { endpoint: 'https://attacker.example.com', deployments: ['gpt-4o'] },
+      bedrock: { endpoint: 'https://attacker.example.com' },
+    });
+
+    const found = loadCliConfig({ cwd, env: {}, defaults, applicationSettings });
+    expect(found.settings).toEqual({ provider: 'groq', 'azureOpenAI.deployments': ['gpt-4o'] });
+    expect(found.ignored).toEqual(['openaiCompatible.profiles', 'azureOpenAI.endpoint', 'bedrock.endpoint']);
+
+    const named = loadCliConfig({ cwd, configPath: '.prompt-refiner.json', env: {}, defaults, applicationSettings });
+    expect(named.settings['openaiCompatible.profiles']).toEqual(profiles);
+  });
+
+  it('should answer settings and API keys through the vscode host', async () => {
+    const host: CliHost = {
+      config: { settings: { provider: 'groq' }, defaults },
+      cwd: process.cwd(),
+      env: { GROQ_API_KEY: ' gsk-env ', PROMPT_REFINER_OPENAI_API_KEY: 'sk-cli', OPENAI_API_KEY: 'sk-other' },
+      root: process.cwd(),
+      notify: () => undefined,
+    };
+    const vscode = createVscodeHost(host) as any;
+    const config = vscode.workspace.getConfiguration('promptRefiner');
+
+    expect(config.get('provider', 'github')).toBe('groq');
+    expect(config.get('strictMode')).toBe(true);
+    expect(config.inspect('customRoles')).toEqual({ key: 'customRoles', defaultValue: [], workspaceValue: undefined });
+    expect(vscode.workspace.getConfiguration().get('promptRefiner.provider')).toBe('groq');
+
+    const context = createExtensionContext(host) as any;
+    expect(await context.secrets.get('promptRefiner.groq.apiKey')).toBe('gsk-env');
+    expect(await context.secrets.get('promptRefiner.openai.apiKey')).toBe('sk-cli');
+    expect(getApiKeyFromEnv('anthropic', {})).toBeUndefined();
+  });
+
+  it('should match library globs like the editor does', () => {
+    const pattern = globToRegExp('.prompts/**/*.{md,txt}');
+
+    expect(pattern.test('.prompts/a.md')).toBe(true);
+    expect(pattern.test('.prompts/templates/b.txt')).toBe(true);
+    expect(pattern.test('prompts/a.md')).toBe(false);
+    expect(pattern.test('.prompts/a.json')).toBe(false);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { buildChatMessages, toChatHistory, fitHistoryToBudget } from '../utils/conversation';
+import { estimateTokens } from '../utils/tokenBudget';
+import { getContextWindow, DEFAULT_CONTEXT_WINDOW } from '../utils/ModelMappings';
+import type { ChatMessage } from '../services/SessionManager';
+import type { ChatTurn } from '../providers/IAIProvider';
+
+const message = (role: ChatMessage['role'], content: string): ChatMessage => ({
+  id: `${role}-${content}`,
+  role,
+  content,
+  timestamp: 0,
+});
+
+const exchange = (n: number, size = 40): ChatTurn[] => [
+  { role: 'user', content: `question ${n} `.padEnd(size, 'q') },
+  { role: 'assistant', content: `answer ${n} `.padEnd(size, 'a') },
+];
+
+describe('conversation', () => {
+  it('should put the system prompt first and the new prompt last', () => {
+    const messages = buildChatMessages('system', 'now', [{ role: 'user', content: 'before' }, { role: 'assistant', content: 'reply' }]);
+    expect(messages.map(m => m.role)).toEqual(['system', 'user', 'assistant', 'user']);
+    expect(messages[3].content).toBe('now');
+  });
+
+  describe('toChatHistory', () => {
+    it('should keep answered exchanges and drop errors and unanswered prompts', () => {
+      const history = toChatHistory([
+        message('user', 'first'),
+        message('assistant', 'first refined'),
+        message('user', 'failed'),
+        message('error', 'Rate limited'),
+        message('user', 'second'),
+        message('assistant', 'second refined'),
+        message('user', 'stopped'),
+        { ...message('assistant', 'half an ans'), partial: true },
+        message('user', 'pending'),
+      ]);
+
+      expect(history).toEqual([
+        { role: 'user', content: 'first' },
+        { role: 'assistant', content: 'first refined' },
+        { role: 'user', content: 'second' },
+        { role: 'assistant', content: 'second refined' },
+      ]);
+    });
+  });
+
+  describe('fitHistoryToBudget', () => {
+    it('should return the history unchanged when it fits', () => {
+      const history = exchange(1);
+      expect(fitHistoryToBudget(history, 1000)).toEqual({ turns: history, summary: '', trimmedTurns: 0 });
+    });
+
+    it('should drop the oldest exchanges first and summarize them', () => {
+      const history = [...exchange(1), ...exchange(2), ...exchange(3)];
+
+      const fitted = fitHistoryToBudget(history, 80);
+
+      expect(fitted.turns).toEqual(exchange(3));
+      expect(fitted.trimmedTurns).toBe(4);
+      expect(fitted.summary.startsWith('- User asked: question 1')).toBe(true);
+      expect(estimateTokens(fitted.summary)).toBeLessThanOrEqual(20);
+    });
+
+    it('should send no turns when the budget is exhausted', () => {
+      const fitted = fitHistoryToBudget(exchange(1), 0);
+      expect(fitted.turns).toEqual([]);
+      expect(fitted.summary).toBe('');
+    });
+  });
+
+  it('should look up context windows by model id', () => {
+    expect(getContextWindow('gpt-4o-mini')).toBe(128000);
+    expect(getContextWindow('claude-3-haiku-20240307')).toBe(200000);
+    expect(getContextWindow('qwen2.5-coder:7b')).toBe(DEFAULT_CONTEXT_WINDOW);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RoleManager } from '../services/RoleManager';
+import { SessionManager } from '../services/SessionManager';
+import { REFINER_MODE_PREAMBLE, buildCustomRole } from '../types/Role';
+
+const sqlReviewer = { id: 'sql-reviewer', name: 'SQL Reviewer', systemPrompt: 'You apply a database lens.' };
+
+function mockCustomRoles(globalValue?: unknown[], workspaceValue?: unknown[]) {
+  (vscode.workspace.getConfiguration as any).mockReturnValue({
+    get: vi.fn(),
+    update: vi.fn(),
+    inspect: vi.fn(() => ({ key: 'promptRefiner.customRoles', globalValue, workspaceValue })),
+  });
+}
+
+describe('custom roles', () => {
+  beforeEach(() => {
+    RoleManager.resetInstance();
+    mockCustomRoles();
+  });
+
+  it('should wrap custom prompts in the refinement-mode rules', () => {
+    const role = buildCustomRole(sqlReviewer, 'global');
+
+    expect(role?.systemPrompt.startsWith(REFINER_MODE_PREAMBLE)).toBe(true);
+    expect(role?.systemPrompt).toContain('You apply a database lens.');
+    expect(role?.icon).toBeTruthy();
+    expect(buildCustomRole({ ...sqlReviewer, id: '../escape' }, 'global')).toBeUndefined();
+    expect(buildCustomRole({ ...sqlReviewer, systemPrompt: ' ' }, 'global')).toBeUndefined();
+  });
+
+  it('should list custom roles after the predefined ones, workspace overriding global', () => {
+    mockCustomRoles(
+      [sqlReviewer, { id: 'writer', name: 'My Writer', systemPrompt: 'x' }],
+      [{ ...sqlReviewer, name: 'SQL Reviewer (team)' }, { id: 'security-auditor', name: 'Security Auditor', systemPrompt: 'y' }]
+    );
+
+    const roles = RoleManager.getInstance().getAllRoles();
+
+    expect(roles.map(role => role.id)).toEqual([
+      'programmer', 'writer', 'researcher', 'analyst', 'sql-reviewer', 'security-auditor',
+    ]);
+    expect(roles.find(role => role.id === 'writer')?.name).toBe('Writer');
+    expect(roles.find(role => role.id === 'sql-reviewer')).toMatchObject({ name: 'SQL Reviewer (team)', scope: 'workspace' });
+  });
+
+  it('should fall back to the default role for ids that are no longer defined', () => {
+    mockCustomRoles([sqlReviewer]);
+    const roles = RoleManager.getInstance();
+
+    expect(roles.resolveRole('sql-reviewer').name).toBe('SQL Reviewer');
+    expect(roles.resolveRole('deleted-role').id).toBe('programmer');
+    expect(roles.isKnownRole('deleted-role')).toBe(false);
+  });
+
+  it('should keep custom roles on sessions across reloads', async () => {
+    mockCustomRoles([sqlReviewer]);
+    const globalState = { get: vi.fn().mockResolvedValue(null), update: vi.fn().mockResolvedValue(undefined) };
+    (SessionManager as any).instance = undefined;
+    const sessions = SessionManager.getInstance();
+    await sessions.initialize({ globalState } as any);
+
+    const session = await sessions.createSession('Queries', 'sql-reviewer');
+    expect(session.metadata.role).toBe('sql-reviewer');
+
+    // Reload after the role was removed from settings: the id survives the migration
+    const saved = globalState.update.mock.calls.at(-1)?.[1];
+    mockCustomRoles([]);
+    (SessionManager as any).instance = undefined;
+    globalState.get.mockResolvedValue(saved);
+    const reloaded = SessionManager.getInstance();
+    await reloaded.initialize({ globalState } as any);
+
+    expect(reloaded.getSessionRole(session.id)).toBe('sql-reviewer');
+  });
+
+  it('should only read role templates from inside the workspace folder', async () => {
+    const root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'refiner-roles-'));
+    const workspace = vscode.workspace as any;
+    try {
+      await fs.promises.mkdir(path.join(root, 'project', '.prompts'), { recursive: true });
+      await fs.promises.writeFile(path.join(root, 'project', '.prompts', 'sql.md'), 'SQL template');
+      await fs.promises.writeFile(path.join(root, 'outside.md'), 'secret');
+      workspace.workspaceFolders = [{ uri: { fsPath: path.join(root, 'project') } }];
+      const roles = RoleManager.getInstance();
+      const load = (templateFile: string) =>
+        roles.loadRoleTemplate({ ...buildCustomRole(sqlReviewer, 'workspace')!, templateFile });
+
+      expect(await load('.prompts/sql.md')).toBe('SQL template');
+      expect(await load('../outside.md')).toBeUndefined();
+      expect(await load(path.join(root, 'outside.md'))).toBeUndefined();
+      expect(await load('~/outside.md')).toBeUndefined();
+    } finally {
+      delete workspace.workspaceFolders;
+      await fs.promises.rm(root, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as http from 'http';
+import * as vscode from 'vscode';
+import { AddressInfo } from 'net';
+import { AzureOpenAIProvider } from '../providers/AzureOpenAIProvider';
+import { BedrockProvider } from '../providers/BedrockProvider';
+import { ConfigurationManager, AzureOpenAISettings, BedrockSettings } from '../services/ConfigurationManager';
+import { ErrorHandler, ErrorType } from '../utils/ErrorHandler';
+import { signRequest } from '../utils/sigv4';
+
+vi.mock('../services/ConfigurationManager', () => ({
+  ConfigurationManager: {
+    getInstance: vi.fn(),
+  }
+}));
+
+interface Received {
+  method?: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+type Reply = { status?: number; headers?: Record<string, string>; body: string };
+
+const AWS_SECRET = 'AKIDEXAMPLE:wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY:session-token';
+
+describe('enterprise providers', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let reply: (req: Received) => Reply;
+  const requests: Received[] = [];
+  let azure: AzureOpenAISettings;
+  let bedrock: BedrockSettings;
+
+  beforeEach(async () => {
+    requests.length = 0;
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        const received = { method: req.method, url: req.url ?? '', headers: req.headers, body };
+        requests.push(received);
+        const { status = 200, headers = { 'Content-Type': 'application/json' }, body: payload } = reply(received);
+        res.writeHead(status, headers);
+        res.end(payload);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    azure = { endpoint: baseUrl, apiVersion: '2024-10-21', deployments: ['gpt4o-prod', 'gpt4o-mini-eu'], authentication: 'apiKey' };
+    bedrock = { region: 'eu-central-1', endpoint: baseUrl, models: ['anthropic.claude-3-haiku-20240307-v1:0'] };
+    (ConfigurationManager.getInstance as any).mockReturnValue({
+      getAzureOpenAISettings: vi.fn(() => azure),
+      getBedrockSettings: vi.fn(() => bedrock),
+      getApiKey: vi.fn(async (id: string) => ({ 'azure-openai': 'azure-key', 'bedrock': AWS_SECRET } as Record<string, string>)[id]),
+      resolveModelId: vi.fn((_providerId: string, override?: string) => override ?? 'gpt-4o-mini'),
+    });
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  describe('Azure OpenAI', () => {
+    it('should stream from the first deployment with the resource key and api-version', async () => {
+      reply = () => ({
+        headers: { 'Content-Type': 'text/event-stream' },
+        body: [
+          'data: {"choices":[{"index":0,"delta":{"content":"Refined "}}]}',
+          'data: {"choices":[{"index":0,"delta":{"content":"prompt"}}]}',
+          'data: {"choices":[],"usage":{"prompt_tokens":20,"completion_tokens":2,"total_tokens":22}}',
+          'data: [DONE]',
+          '',
+        ].join('\n\n'),
+      });
+
+      const events = [];
+      for await (const event of new AzureOpenAIProvider().refineStream('fix bug', 'You refine prompts')) {
+        events.push(event);
+      }
+
+      expect(events).toEqual([
+        { type: 'delta', text: 'Refined ' },
+        { type: 'delta', text: 'prompt' },
+        { type: 'done', tokens: 22, usage: { promptTokens: 20, completionTokens: 2 } },
+      ]);
+      // The configured model belongs to another provider, so the first deployment is used
+      expect(requests[0].url).toBe('/openai/deployments/gpt4o-prod/chat/completions?api-version=2024-10-21');
+      expect(requests[0].headers['api-key']).toBe('azure-key');
+    });
+
+    it('should sign in with Entra ID and map quota and credential failures', async () => {
+      azure.authentication = 'entraId';
+      vi.mocked(vscode.authentication.getSession).mockResolvedValue({ accessToken: 'entra-token' } as any);
+      let status = 429;
+      reply = () => ({ status, body: JSON.stringify({ error: { code: status === 429 ? '429' : 'PermissionDenied', message: 'Denied' } }) });
+      const provider = new AzureOpenAIProvider();
+
+      const quota = await provider.refine('a', 'b', { model: 'gpt4o-mini-eu' }).catch(e => e);
+      expect(quota.message).toMatch(/^QUOTA_EXCEEDED\|/);
+      expect(ErrorHandler.classifyError(quota).type).toBe(ErrorType.RATE_LIMIT);
+      expect(requests[0].url).toContain('/deployments/gpt4o-mini-eu/');
+      expect(requests[0].headers.authorization).toBe('Bearer entra-token');
+      expect(requests[0].headers['api-key']).toBeUndefined();
+      expect(vscode.authentication.getSession).toHaveBeenCalledWith('microsoft', ['https://cognitiveservices.azure.com/.default'], { createIfNone: true });
+
+      status = 403;
+      const denied = await provider.refine('a', 'b').catch(e => e);
+      expect(ErrorHandler.classifyError(denied).type).toBe(ErrorType.AUTHENTICATION);
+      expect(requests).toHaveLength(2);
+    });
+  });
+
+  describe('Bedrock', () => {
+    it('should send a SigV4-signed Converse request', async () => {
+      reply = () => ({
+        body: JSON.stringify({
+          output: { message: { role: 'assistant', content: [{ text: 'Refined ' }, { text: 'prompt' }] } },
+          usage: { inputTokens: 30, outputTokens: 3, totalTokens: 33 },
+          stopReason: 'end_turn',
+        }),
+      });
+
+      const result = await new BedrockProvider().refine('fix bug', 'You refine prompts', {
+        history: [{ role: 'user', content: 'draft' }, { role: 'assistant', content: 'answer' }],
+      });
+
+      expect(result).toEqual({ refined: 'Refined prompt', tokens: 33, usage: { promptTokens: 30, completionTokens: 3 } });
+      const [request] = requests;
+      expect(request.url).toBe('/model/anthropic.claude-3-haiku-20240307-v1%3A0/converse');
+      expect(JSON.parse(request.body)).toEqual({
+        system: [{ text: 'You refine prompts' }],
+        messages: [
+          { role: 'user', content: [{ text: 'draft' }] },
+          { role: 'assistant', content: [{ text: 'answer' }] },
+          { role: 'user', content: [{ text: 'fix bug' }] },
+        ],
+      });
+
+      // Re-sign what the server received; a match means path, headers and body were signed as sent
+      const authorization = String(request.headers.authorization);
+      const signedNames = authorization.match(/SignedHeaders=([^,]+)/)?.[1].split(';') ?? [];
+      expect(signedNames).toEqual(['accept', 'content-type', 'host', 'x-amz-date', 'x-amz-security-token']);
+      const amzDate = String(request.headers['x-amz-date']);
+      const expected = signRequest({
+        method: 'POST',
+        url: `${baseUrl}${request.url}`,
+        headers: { 'accept': String(request.headers.accept), 'content-type': String(request.headers['content-type']) },
+        body: request.body,
+      }, {
+        credentials: { accessKeyId: 'AKIDEXAMPLE', secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY', sessionToken: 'session-token' },
+        region: 'eu-central-1',
+        service: 'bedrock',
+        date: new Date(amzDate.replace(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/, '$1-$2-$3T$4:$5:$6Z')),
+      });
+      expect(authorization).toBe(expected.Authorization);
+      expect(authorization).toContain(`Credential=AKIDEXAMPLE/${amzDate.slice(0, 8)}/eu-central-1/bedrock/aws4_request`);
+    });
+
+    it('should map AWS exceptions to the classified codes', async () => {
+      const classify = async (status: number, exception: string, message: string) => {
+        reply = () => ({ status, headers: { 'Content-Type': 'application/json', 'x-amzn-ErrorType': `${exception}:http://internal.amazon.com/coral/com.amazon.bedrock/` }, body: JSON.stringify({ message }) });
+        return new BedrockProvider().refine('a', 'b').catch(e => e);
+      };
+
+      const throttled = await classify(429, 'ThrottlingException', 'Too many requests, please wait before trying again.');
+      expect(throttled.message).toMatch(/^QUOTA_EXCEEDED\|/);
+      expect(ErrorHandler.classifyError(throttled).type).toBe(ErrorType.RATE_LIMIT);
+
+      const unknownKey = await classify(403, 'UnrecognizedClientException', 'The security token included in the request is invalid.');
+      expect(unknownKey.message).toMatch(/^AUTH_ERROR\|/);
+
+      const badModel = await classify(400, 'ValidationException', 'The provided model identifier is invalid.');
+      expect(ErrorHandler.classifyError(badModel)).toEqual(expect.objectContaining({ type: ErrorType.PROVIDER_ERROR, action: 'Switch Model' }));
+    });
+  });
+
+  it('should match the AWS SigV4 test suite', () => {
+    const headers = signRequest(
+      { method: 'GET', url: 'https://example.amazonaws.com/?Param2=value2&Param1=value1', headers: {}, body: '' },
+      { credentials: { accessKeyId: 'AKIDEXAMPLE', secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY' }, region: 'us-east-1', service: 'service', date: new Date('2015-08-30T12:36:00Z') },
+    );
+    expect(headers).toEqual({
+      'X-Amz-Date': '20150830T123600Z',
+      'Authorization': 'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, SignedHeaders=host;x-amz-date, Signature=b97d918cfa904a5beff61c982a1b6f458b799221646efd99d3219ec94cdf2500',
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PromptRefinerService } from '../services/PromptRefinerService';
+import { ConfigurationManager } from '../services/ConfigurationManager';
+import { TemplateManager } from '../services/TemplateManager';
+import { MockProvider } from '../providers/MockProvider';
+import {
+  EvalReport,
+  assertRefinement,
+  compareWithBaseline,
+  detectLanguage,
+  parseDataset,
+  runEvaluation,
+} from '../utils/evaluation';
+import { renderEvaluationHtml } from '../utils/evaluationReport';
+
+vi.mock('../services/ConfigurationManager', () => ({
+  ConfigurationManager: {
+    getInstance: vi.fn(),
+  }
+}));
+
+const report = (cases: Array<[string, number, boolean]>): EvalReport => ({
+  dataset: 'golden',
+  provider: 'mock',
+  model: 'mock',
+  startedAt: '2026-01-01T00:00:00.000Z',
+  cases: cases.map(([id, score, passed]) => ({ id, prompt: id, score, passed, assertions: [], durationMs: 0 })),
+  summary: {
+    total: cases.length,
+    passed: cases.filter(([, , passed]) => passed).length,
+    failed: cases.filter(([, , passed]) => !passed).length,
+    averageScore: cases.reduce((sum, [, score]) => sum + score, 0) / cases.length,
+  },
+});
+
+describe('refinement evaluation', () => {
+  it('should parse datasets and name the broken line', () => {
+    const cases = parseDataset('// comment\n{"prompt": "parse csv", "role": "programmer", "expect": {"mustMention": ["CSV"]}}\n', 'golden.jsonl');
+
+    expect(cases).toEqual([expect.objectContaining({ id: 'case-2', role: 'programmer', expect: expect.objectContaining({ mustMention: ['CSV'] }) })]);
+    expect(() => parseDataset('{"id": "a"}', 'golden.jsonl')).toThrow('golden.jsonl line 1: "prompt" is required');
+    expect(() => parseDataset('{"prompt": "x", "expect": {"mustMention": "CSV"}}', 'golden.jsonl')).toThrow('expect.mustMention');
+  });
+
+  it('should check the expected properties of a refinement', () => {
+    const evalCase = parseDataset(JSON.stringify({
+      id: 'es',
+      prompt: 'Escribe una función que lea los archivos CSV del usuario',
+      expect: { mustMention: ['CSV'], mustNotMention: ['Sure'], noCodeFences: true, preserveLanguage: true, minScore: 80 },
+    }), 'x')[0];
+
+    const results = assertRefinement(evalCase, {
+      refined: 'Sure, write a parser that reads the CSV files of the user\n```ts\n```',
+      validation: { valid: true, score: 75, issues: [], suggestions: [] },
+    });
+
+    expect(results.filter(result => !result.passed).map(result => result.name)).toEqual([
+      'validation',
+      'mustNotMention:Sure',
+      'noCodeFences',
+      'preserveLanguage',
+    ]);
+    expect(detectLanguage('Создайте функцию')).toBe('ru');
+    expect(detectLanguage('CSV')).toBeUndefined();
+  });
+
+  it('should compare a run with the baseline case by case', () => {
+    const comparison = compareWithBaseline(
+      report([['a', 80, true], ['b', 60, false], ['c', 90, true]]),
+      report([['a', 70, true], ['b', 75, true], ['d', 50, false]])
+    );
+
+    expect(comparison.cases.map(result => [result.id, result.status])).toEqual([
+      ['a', 'improved'],
+      ['b', 'regressed'],
+      ['c', 'new'],
+      ['d', 'removed'],
+    ]);
+    expect(comparison.averageScoreDelta).toBeCloseTo(76.7 - 65, 0);
+    expect(renderEvaluationHtml({ ...report([['<a>', 80, true]]), comparison })).toContain('&lt;a&gt;');
+  });
+
+  it('should run the golden dataset headlessly with the mock provider', async () => {
+    (ConfigurationManager.getInstance as any).mockReturnValue({
+      initialize: vi.fn(),
+      isStrictMode: vi.fn().mockReturnValue(false),
+      getSelectedTemplateId: vi.fn().mockReturnValue('default'),
+      getUseRoleTemplates: vi.fn().mockReturnValue(true),
+      resolveModelId: vi.fn((_providerId: string, modelId: string) => modelId),
+      getDisabledPipelineStages: vi.fn().mockReturnValue([]),
+      getRedactionSettings: vi.fn().mockReturnValue({ enabled: true, disabledDetectors: [], customPatterns: [], onSecret: 'redact' }),
+      isLocalProvider: vi.fn().mockReturnValue(true),
+    });
+    const mock = new MockProvider();
+    const service = PromptRefinerService.createWithDependencies(
+      { getProvider: vi.fn().mockReturnValue(mock) } as any,
+      { initialize: vi.fn(), getTemplate: vi.fn() } as unknown as TemplateManager
+    );
+    service.initialize({ asAbsolutePath: (relative: string) => path.join(process.cwd(), relative) } as any);
+
+    const dataset = path.join(process.cwd(), 'evals', 'golden.eval.jsonl');
+    const cases = parseDataset(await fs.promises.readFile(dataset, 'utf8'), dataset);
+    const result = await runEvaluation(
+      cases,
+      evalCase => service.refineWithModel(evalCase.prompt, 'mock', 'mock', undefined, { templateId: evalCase.template, roleId: evalCase.role }),
+      { dataset: 'golden', provider: 'mock', model: 'mock' }
+    );
+
+    expect(result.cases.map(evalCase => evalCase.error)).toEqual(cases.map(() => undefined));
+    expect(result.summary).toEqual(expect.objectContaining({ total: cases.length, passed: cases.length, failed: 0 }));
+  }, 10000);
+});
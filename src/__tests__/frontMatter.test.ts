@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { parseFrontMatter, stringifyFrontMatter, FrontMatterError } from '../utils/frontMatter';
+
+describe('frontMatter', () => {
+  describe('parseFrontMatter', () => {
+    it('should return the whole text as body when there is no front matter', () => {
+      const result = parseFrontMatter('# Just markdown\n');
+      expect(result.data).toEqual({});
+      expect(result.body).toBe('# Just markdown\n');
+    });
+
+    it('should parse scalars, flow lists and the body', () => {
+      const result = parseFrontMatter([
+        '---',
+        'id: code-review',
+        'name: "Code Review: Strict"',
+        'priority: 3',
+        'shared: true',
+        'tags: [review, "team, core"]',
+        '---',
+        '',
+        'Review the code.',
+      ].join('\n'));
+
+      expect(result.data).toEqual({
+        id: 'code-review',
+        name: 'Code Review: Strict',
+        priority: 3,
+        shared: true,
+        tags: ['review', 'team, core'],
+      });
+      expect(result.body).toBe('Review the code.');
+    });
+
+    it('should parse nested maps and lists of maps', () => {
+      const result = parseFrontMatter([
+        '---',
+        'variables:',
+        '  - name: language',
+        '    default: TypeScript',
+        '    choices: [TypeScript, Python]',
+        '  - name: audience',
+        'meta:',
+        '  owner: platform # trailing comment',
+        '---',
+        'Body',
+      ].join('\n'));
+
+      expect(result.data).toEqual({
+        variables: [
+          { name: 'language', default: 'TypeScript', choices: ['TypeScript', 'Python'] },
+          { name: 'audience' },
+        ],
+        meta: { owner: 'platform' },
+      });
+    });
+
+    it('should parse literal and folded block scalars', () => {
+      const result = parseFrontMatter([
+        '---',
+        'literal: |',
+        '  line one',
+        '  line two',
+        'folded: >-',
+        '  joined',
+        '  together',
+        '---',
+        '',
+      ].join('\n'));
+
+      expect(result.data.literal).toBe('line one\nline two\n');
+      expect(result.data.folded).toBe('joined together');
+    });
+
+    it('should reject unclosed front matter and duplicate keys', () => {
+      expect(() => parseFrontMatter('---\nid: x\n')).toThrow(FrontMatterError);
+      expect(() => parseFrontMatter('---\nid: a\nid: b\n---\n')).toThrow('Duplicate key "id"');
+    });
+  });
+
+  describe('stringifyFrontMatter', () => {
+    it('should round-trip through parseFrontMatter', () => {
+      const data = {
+        id: 'release-notes',
+        name: 'Release: notes',
+        category: 'writing',
+        tags: ['docs', 'true'],
+        variables: [{ name: 'audience', default: 'developers', choices: ['developers', 'users'] }],
+        description: 'First line\nSecond line',
+      };
+
+      const text = stringifyFrontMatter(data, 'Write release notes.');
+      const parsed = parseFrontMatter(text);
+
+      expect(parsed.data).toEqual(data);
+      expect(parsed.body).toBe('Write release notes.');
+    });
+  });
+});
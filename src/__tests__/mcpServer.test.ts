@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import { PromptRefinerService } from '../services/PromptRefinerService';
+import { ConfigurationManager } from '../services/ConfigurationManager';
+import { TemplateManager } from '../services/TemplateManager';
+import { RoleManager } from '../services/RoleManager';
+import { MockProvider } from '../providers/MockProvider';
+import { McpServer } from '../server/McpServer';
+import { createRefinerMethods } from '../server/methods';
+
+vi.mock('../services/ConfigurationManager', () => ({
+  ConfigurationManager: {
+    getInstance: vi.fn(),
+  }
+}));
+
+const codingTemplate = {
+  id: 'coding',
+  name: 'Coding',
+  description: 'For programming tasks',
+  content: 'Refine this coding prompt.',
+  isBuiltIn: true,
+  category: 'coding',
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+/** Minimal MCP client speaking newline-delimited JSON-RPC to the server in-process */
+function connect(server: McpServer) {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const waiting = new Map<number, (message: any) => void>();
+  let buffered = '';
+  output.on('data', chunk => {
+    buffered += chunk;
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    for (const line of lines) {
+      const message = JSON.parse(line);
+      waiting.get(message.id)?.(message);
+    }
+  });
+  const done = server.listen(input, output);
+
+  let nextId = 1;
+  return {
+    request(method: string, params?: unknown): Promise<any> {
+      const id = nextId++;
+      input.write(`${JSON.stringify({ jsonrpc: '2.0', id, method, params })}\n`);
+      return new Promise(resolve => waiting.set(id, resolve));
+    },
+    notify(method: string, params?: unknown) {
+      input.write(`${JSON.stringify({ jsonrpc: '2.0', method, params })}\n`);
+    },
+    close() {
+      input.end();
+      return done;
+    },
+  };
+}
+
+describe('MCP server', () => {
+  let client: ReturnType<typeof connect>;
+
+  beforeEach(() => {
+    (ConfigurationManager.getInstance as any).mockReturnValue({
+      initialize: vi.fn(),
+      isStrictMode: vi.fn().mockReturnValue(true),
+      getSelectedTemplateId: vi.fn().mockReturnValue('default'),
+      getMaxHistoryTokens: vi.fn().mockReturnValue(4000),
+      getProviderId: vi.fn().mockReturnValue('mock'),
+      getModelId: vi.fn().mockReturnValue('mock'),
+      getUseRoleTemplates: vi.fn().mockReturnValue(true),
+      getFallbackProviders: vi.fn().mockReturnValue([]),
+      resolveModelId: vi.fn(() => 'mock'),
+      getAutoRepairSettings: vi.fn().mockReturnValue({ enabled: false, maxRounds: 2 }),
+      getDisabledPipelineStages: vi.fn().mockReturnValue([]),
+      getRedactionSettings: vi.fn().mockReturnValue({ enabled: true, disabledDetectors: [], customPatterns: [], onSecret: 'redact' }),
+      isLocalProvider: vi.fn((providerId: string) => providerId === 'ollama'),
+    });
+    (vscode.workspace.getConfiguration as any).mockReturnValue({ get: vi.fn(), update: vi.fn(), inspect: vi.fn() });
+    RoleManager.resetInstance();
+
+    const templateManager = {
+      initialize: vi.fn(),
+      getAllTemplates: vi.fn().mockResolvedValue([codingTemplate]),
+      getTemplate: vi.fn(async (id: string) => (id === 'coding' ? codingTemplate : undefined)),
+      getVariableValues: vi.fn().mockReturnValue({}),
+    } as unknown as TemplateManager;
+    const service = PromptRefinerService.createWithDependencies(
+      { getActiveProvider: vi.fn().mockReturnValue(new MockProvider()), getProvider: vi.fn() } as any,
+      templateManager
+    );
+    service.initialize({ asAbsolutePath: (relative: string) => path.join(process.cwd(), relative) } as any);
+
+    client = connect(new McpServer(createRefinerMethods({ service, templateManager }), { version: '1.0.0', templateManager }));
+  });
+
+  it('should negotiate the protocol and list its tools and resources', async () => {
+    const initialized = await client.request('initialize', { protocolVersion: '2024-11-05', capabilities: {}, clientInfo: { name: 'test', version: '0' } });
+    client.notify('notifications/initialized');
+
+    expect(initialized.result).toEqual(expect.objectContaining({
+      protocolVersion: '2024-11-05',
+      capabilities: { tools: {}, resources: {} },
+      serverInfo: { name: 'prompt-refiner', version: '1.0.0' },
+    }));
+    expect((await client.request('tools/list')).result.tools.map((tool: { name: string }) => tool.name))
+      .toEqual(['refine_prompt', 'validate_prompt', 'list_templates']);
+
+    const { resources } = (await client.request('resources/list')).result;
+    expect(resources.map((resource: { uri: string }) => resource.uri)).toContain('prompt-refiner://templates/coding');
+    expect(resources.map((resource: { uri: string }) => resource.uri)).toContain('prompt-refiner://roles/programmer');
+
+    const read = await client.request('resources/read', { uri: 'prompt-refiner://templates/coding' });
+    expect(read.result.contents[0].text).toBe('Refine this coding prompt.');
+    expect((await client.request('resources/read', { uri: 'prompt-refiner://roles/nobody' })).error.code).toBe(-32002);
+    await client.close();
+  });
+
+  it('should refine and validate through the configured provider', async () => {
+    const refined = await client.request('tools/call', { name: 'refine_prompt', arguments: { prompt: 'sort the users', templateId: 'coding' } });
+    expect(refined.result.isError).toBeUndefined();
+    expect(refined.result.content[0].text).toContain('Refined version of: "sort the users"');
+    expect(refined.result.structuredContent).toEqual(expect.objectContaining({ provider: 'mock', template: 'coding' }));
+
+    const validated = await client.request('tools/call', { name: 'validate_prompt', arguments: { prompt: 'Sure! Here you go' } });
+    expect(validated.result.content[0].text).toContain('Validation Score');
+    expect(validated.result.structuredContent.valid).toBe(false);
+
+    const unknownRole = await client.request('tools/call', { name: 'refine_prompt', arguments: { prompt: 'x', roleId: 'nobody' } });
+    expect(unknownRole.result).toEqual(expect.objectContaining({ isError: true, content: [{ type: 'text', text: 'Unknown role "nobody"' }] }));
+    expect((await client.request('tools/call', { name: 'delete_everything' })).error.code).toBe(-32602);
+    await client.close();
+  }, 10000);
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { OpenAICompatibleProvider } from '../providers/OpenAICompatibleProvider';
+import { ConfigurationManager, OpenAICompatibleProfile } from '../services/ConfigurationManager';
+import { ErrorHandler, ErrorType } from '../utils/ErrorHandler';
+
+vi.mock('../services/ConfigurationManager', () => ({
+  ConfigurationManager: {
+    getInstance: vi.fn(),
+  }
+}));
+
+interface Received {
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+/** Stand-in for a LiteLLM / vLLM gateway */
+function startGateway(handle: (req: Received, res: http.ServerResponse) => void): Promise<{ server: http.Server; baseUrl: string }> {
+  const server = http.createServer((req, res) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => handle({ url: req.url, headers: req.headers, body: data ? JSON.parse(data) : undefined }, res));
+  });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () =>
+    resolve({ server, baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}` })));
+}
+
+describe('OpenAI-compatible provider', () => {
+  let server: http.Server;
+  let profile: OpenAICompatibleProfile;
+  const requests: Received[] = [];
+
+  const useGateway = async (handle: (req: Received, res: http.ServerResponse) => void, overrides: Partial<OpenAICompatibleProfile> = {}) => {
+    const gateway = await startGateway((req, res) => {
+      requests.push(req);
+      handle(req, res);
+    });
+    server = gateway.server;
+    profile = {
+      providerId: 'openai-compatible.litellm',
+      name: 'Team LiteLLM',
+      baseUrl: gateway.baseUrl,
+      headers: { 'X-Team': 'docs' },
+      timeoutMs: 2000,
+      ...overrides,
+    };
+  };
+
+  beforeEach(() => {
+    requests.length = 0;
+    (ConfigurationManager.getInstance as any).mockReturnValue({
+      getOpenAICompatibleProfile: vi.fn((id: string) => (id === profile.providerId ? profile : undefined)),
+      getApiKey: vi.fn(async (id: string) => (id === 'openai-compatible.litellm' ? 'sk-gateway' : undefined)),
+      getProviderId: vi.fn().mockReturnValue('openai'),
+      getModelId: vi.fn().mockReturnValue('gpt-4o-mini'),
+    });
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should stream from the first listed model with the profile headers and key', async () => {
+    await useGateway((req, res) => {
+      if (req.url === '/v1/models') {
+        res.end(JSON.stringify({ data: [{ id: 'qwen2.5-coder' }, { id: 'text-embedding-3-small' }] }));
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write('data: {"choices":[{"delta":{"content":"Refined "}}]}\n\n');
+      res.write('data: {"choices":[{"delta":{"content":"prompt"}}]}\n\n');
+      res.write('data: {"choices":[],"usage":{"prompt_tokens":12,"completion_tokens":2}}\n\n');
+      res.end('data: [DONE]\n\n');
+    });
+
+    const events = [];
+    for await (const event of new OpenAICompatibleProvider('openai-compatible.litellm').refineStream('fix bug', 'You refine prompts')) {
+      events.push(event);
+    }
+
+    expect(events).toEqual([
+      { type: 'delta', text: 'Refined ' },
+      { type: 'delta', text: 'prompt' },
+      { type: 'done', tokens: 14, usage: { promptTokens: 12, completionTokens: 2 } },
+    ]);
+    const chat = requests[1];
+    expect(chat.url).toBe('/v1/chat/completions');
+    expect(chat.headers).toEqual(expect.objectContaining({ 'authorization': 'Bearer sk-gateway', 'x-team': 'docs' }));
+    expect(chat.body).toEqual(expect.objectContaining({ model: 'qwen2.5-coder', stream: true }));
+    expect(chat.body.messages[0]).toEqual({ role: 'system', content: 'You refine prompts' });
+  });
+
+  it('should use the profile default model and map gateway failures', async () => {
+    let status = 401;
+    await useGateway((_req, res) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { message: status === 404 ? 'The model `o9` does not exist' : 'Invalid key' } }));
+    }, { defaultModel: 'gpt-4o' });
+    profile.baseUrl += '/v1/';
+    const provider = new OpenAICompatibleProvider('openai-compatible.litellm');
+
+    const auth = await provider.refine('a', 'b').catch(e => e);
+    expect(ErrorHandler.classifyError(auth).type).toBe(ErrorType.AUTHENTICATION);
+    expect(requests[0].body.model).toBe('gpt-4o');
+
+    status = 404;
+    const missing = await provider.refine('a', 'b', { model: 'o9' }).catch(e => e);
+    expect(ErrorHandler.classifyError(missing)).toEqual(expect.objectContaining({ action: 'Switch Model' }));
+    expect(requests.map(req => req.url)).toEqual(['/v1/chat/completions', '/v1/chat/completions']);
+  });
+
+  it('should give up after the profile timeout', async () => {
+    await useGateway(() => { /* never answers */ }, { defaultModel: 'slow', timeoutMs: 50 });
+
+    const error = await new OpenAICompatibleProvider('openai-compatible.litellm').refine('a', 'b').catch(e => e);
+    expect(error.message).toContain('did not answer within 0.05s');
+    expect(ErrorHandler.classifyError(error).type).toBe(ErrorType.TIMEOUT);
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { PluginManager } from '../plugins/PluginManager';
+import { WorkspacePluginLoader } from '../plugins/WorkspacePluginLoader';
+import { createPromptRefinerApi } from '../plugins/extensionApi';
+import { ProviderManager } from '../services/ProviderManager';
+import { TemplateManager } from '../services/TemplateManager';
+
+const PLUGIN_SOURCE = `
+module.exports = class {
+  constructor() { this.id = 'shout'; this.name = 'Shout'; this.version = '%VERSION%'; this.permissions = ['modifyPrompt']; }
+  initialize(context) { context.on('afterRefine', ({ result }) => result.refined.toUpperCase()); }
+};
+`;
+
+const PROBE_SOURCE = `
+let requireError;
+try { require('fs'); } catch (error) { requireError = error.message; }
+module.exports = {
+  id: 'probe',
+  name: 'Probe',
+  version: '1.0.0',
+  requireError,
+  hasProcess: typeof process !== 'undefined',
+  probe: () => fetch('https://example.com'),
+};
+`;
+
+describe('plugins', () => {
+  beforeEach(() => {
+    PluginManager.resetInstance();
+  });
+
+  it('should merge plugin providers and templates until the plugin is disposed', async () => {
+    const api = createPromptRefinerApi();
+    const provider = { id: 'acme-llm', name: 'Acme LLM', isConfigured: () => true, refine: vi.fn() };
+    vi.mocked(vscode.window.showWarningMessage).mockResolvedValueOnce('Allow' as any).mockResolvedValueOnce('Allow' as any);
+    const registration = await api.registerPlugin({
+      id: 'acme',
+      name: 'Acme',
+      version: '2.0.0',
+      permissions: ['registerProvider'],
+      initialize: context => {
+        context.registerProvider(provider);
+        context.registerTemplate({ id: 'acme-rfc', name: 'Acme RFC', description: 'RFC prompts', content: 'Write an RFC', category: 'docs' });
+      },
+    });
+
+    const providers = new ProviderManager();
+    expect(providers.getProvider('acme-llm')).toBe(provider);
+    expect(await TemplateManager.getInstance().getTemplate('acme-rfc')).toEqual(expect.objectContaining({ scope: 'plugin', category: 'custom', isBuiltIn: false }));
+
+    // A second plugin can't take over the first one's ids, and its partial registrations are dropped
+    await api.registerPlugin({
+      id: 'copycat',
+      name: 'Copycat',
+      version: '1.0.0',
+      permissions: ['registerProvider'],
+      initialize: context => {
+        context.registerValidator({ id: 'copycat-rules', name: 'Copycat' });
+        context.registerProvider(provider);
+      },
+    });
+    expect(PluginManager.getInstance().getPlugins().find(info => info.plugin.id === 'copycat')).toEqual(expect.objectContaining({
+      status: 'failed',
+      error: expect.stringContaining('another plugin already did'),
+    }));
+    expect(PluginManager.getInstance().getValidator('copycat-rules')).toBeUndefined();
+
+    registration.dispose();
+    await vi.waitFor(() => expect(PluginManager.getInstance().isLoaded('acme')).toBe(false));
+    expect(providers.getProvider('acme-llm')).toBeUndefined();
+    expect(await TemplateManager.getInstance().getTemplate('acme-rfc')).toBeUndefined();
+  });
+
+  it('should hold plugins to the permissions they declared and the user approved', async () => {
+    const manager = PluginManager.getInstance();
+    const confirm = vi.mocked(vscode.window.showWarningMessage);
+    const payload = { prompt: 'p', result: { refined: 'done' } as any, fromCache: false };
+
+    confirm.mockResolvedValueOnce(undefined);
+    await manager.loadPlugin({ id: 'greedy', name: 'Greedy', version: '1.0.0', permissions: ['network'] });
+    expect(confirm).toHaveBeenCalledWith(expect.stringContaining('Greedy'), expect.objectContaining({
+      modal: true,
+      detail: expect.stringContaining('make network requests'),
+    }), 'Allow');
+    expect(manager.getPlugins()[0]).toEqual(expect.objectContaining({ status: 'denied' }));
+    expect(manager.hasPermission('greedy', 'network')).toBe(false);
+
+    await manager.loadPlugin({ id: 'nosy', name: 'Nosy', version: '1.0.0', initialize: context => { context.getConfig(); } });
+    expect(manager.getPlugins()[1].error).toContain('needs the "readConfig" permission');
+
+    await manager.loadPlugin({
+      id: 'sneaky',
+      name: 'Sneaky',
+      version: '1.0.0',
+      initialize: context => context.on('afterRefine', () => 'rewritten'),
+    });
+    expect((await manager.emit('afterRefine', payload)).result.refined).toBe('done');
+    expect(manager.isLoaded('sneaky')).toBe(true);
+
+    await expect(manager.loadPlugin({ id: 'odd', name: 'Odd', version: '1.0.0', permissions: ['filesystem' as any] }))
+      .rejects.toThrow('unknown permission "filesystem"');
+  });
+
+  it('should disable a plugin whose handler hangs until it is turned back on', async () => {
+    const manager = PluginManager.getInstance();
+    vi.mocked(vscode.workspace.getConfiguration).mockReturnValue({ get: (key: string, fallback: unknown) => (key === 'plugins.hookTimeoutMs' ? 100 : fallback) } as any);
+    const initialize = vi.fn((context: any) => context.on('onCacheMiss', () => new Promise<void>(() => undefined)));
+    await manager.loadPlugin({ id: 'slow', name: 'Slow', version: '1.0.0', initialize });
+
+    await manager.emit('onCacheMiss', { prompt: 'p', bypassed: false });
+    expect(manager.getPlugins()[0]).toEqual(expect.objectContaining({ status: 'failed', error: 'its onCacheMiss handler: did not finish within 100ms' }));
+    expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(expect.stringContaining('disabled the plugin "Slow"'), 'Show Plugins');
+
+    // Disabled plugins aren't started on the next load either
+    await manager.setEnabled('slow', false);
+    await manager.unloadPlugin('slow');
+    await manager.loadPlugin({ id: 'slow', name: 'Slow', version: '1.0.0', initialize });
+    expect(manager.getPlugins()[0].status).toBe('disabled');
+    expect(initialize).toHaveBeenCalledTimes(1);
+
+    await manager.setEnabled('slow', true);
+    expect(manager.isLoaded('slow')).toBe(true);
+    expect(initialize).toHaveBeenCalledTimes(2);
+  });
+
+  describe('workspace plugins', () => {
+    let root: string;
+    let pluginFile: string;
+    let loader: WorkspacePluginLoader;
+    const workspace = vscode.workspace as any;
+
+    beforeEach(async () => {
+      root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'refiner-plugins-'));
+      pluginFile = path.join(root, '.prompts', 'plugins', 'shout.js');
+      await fs.promises.mkdir(path.dirname(pluginFile), { recursive: true });
+      await fs.promises.writeFile(pluginFile, PLUGIN_SOURCE.replace('%VERSION%', '1.0.0'));
+
+      workspace.workspaceFolders = [{ uri: { fsPath: root } }];
+      vi.mocked(vscode.workspace.getConfiguration).mockReturnValue({ get: (_key: string, fallback: unknown) => fallback } as any);
+      const state = new Map<string, unknown>();
+      loader = new WorkspacePluginLoader({
+        workspaceState: {
+          get: (key: string, fallback: unknown) => (state.has(key) ? state.get(key) : fallback),
+          update: async (key: string, value: unknown) => { state.set(key, value); },
+        },
+      } as any);
+    });
+
+    afterEach(async () => {
+      delete workspace.workspaceFolders;
+      delete workspace.isTrusted;
+      await fs.promises.rm(root, { recursive: true, force: true });
+    });
+
+    it('should load only in a trusted workspace and after consent to the current file content', async () => {
+      const manager = PluginManager.getInstance();
+      const confirm = vi.mocked(vscode.window.showWarningMessage);
+
+      workspace.isTrusted = false;
+      await loader.reload();
+      expect(confirm).not.toHaveBeenCalled();
+      expect(manager.isLoaded('shout')).toBe(false);
+
+      workspace.isTrusted = true;
+      confirm.mockResolvedValueOnce('Load Plugins' as any).mockResolvedValueOnce('Allow' as any);
+      await loader.reload();
+      expect(confirm).toHaveBeenCalledWith(expect.stringContaining('plugin'), expect.objectContaining({
+        modal: true,
+        detail: expect.stringContaining('.prompts/plugins/shout.js'),
+      }), 'Load Plugins', 'Don\'t Ask Again');
+      expect(confirm).toHaveBeenCalledWith(expect.stringContaining('from this workspace'), expect.anything(), 'Allow');
+      const result = { refined: 'done', tokens: 1 } as any;
+      expect((await manager.emit('afterRefine', { prompt: 'p', result, fromCache: false })).result.refined).toBe('DONE');
+
+      // Same content: no question; changed content: asked again, but approved permissions stay approved
+      await loader.reload();
+      expect(confirm).toHaveBeenCalledTimes(2);
+      expect(manager.isLoaded('shout')).toBe(true);
+
+      await fs.promises.writeFile(pluginFile, PLUGIN_SOURCE.replace('%VERSION%', '1.1.0'));
+      confirm.mockResolvedValueOnce('Don\'t Ask Again' as any);
+      await loader.reload();
+      expect(confirm).toHaveBeenCalledTimes(3);
+      expect(manager.isLoaded('shout')).toBe(false);
+
+      await loader.reload();
+      expect(confirm).toHaveBeenCalledTimes(3);
+
+      confirm.mockResolvedValueOnce('Load Plugins' as any);
+      await loader.reload(true);
+      expect(confirm).toHaveBeenCalledTimes(4);
+      expect(manager.getLoadedPlugins().map(plugin => plugin.version)).toEqual(['1.1.0']);
+    });
+
+    it('should run plugin files without Node globals, denied modules or undeclared network access', async () => {
+      workspace.isTrusted = true;
+      await fs.promises.writeFile(pluginFile, PROBE_SOURCE);
+      vi.mocked(vscode.window.showWarningMessage).mockResolvedValueOnce('Load Plugins' as any);
+      await loader.reload();
+
+      const probe = PluginManager.getInstance().getLoadedPlugins()[0] as any;
+      expect(probe.id).toBe('probe');
+      expect(probe.hasProcess).toBe(false);
+      expect(probe.requireError).toContain('cannot require "fs"');
+      await expect(probe.probe()).rejects.toThrow('needs the "network" permission');
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { lintPrompt, sectionInsertion, promptBodyStartLine } from '../utils/promptLinter';
+
+const complete = `## Objective
+Write a CSV parser in TypeScript.
+
+## Expected Output
+A single function with unit tests.`;
+
+const rules = (text: string, maxTokens = 1500) => lintPrompt(text, { maxTokens }).map(issue => issue.rule);
+
+describe('prompt linter', () => {
+  it('should accept a complete prompt and ignore empty files', () => {
+    expect(lintPrompt(complete, { maxTokens: 1500 })).toEqual([]);
+    expect(lintPrompt('---\nname: Draft\n---\n\n', { maxTokens: 1500 })).toEqual([]);
+  });
+
+  it('should report missing sections with the section to insert', () => {
+    const issues = lintPrompt('Write a CSV parser', { maxTokens: 1500 });
+
+    expect(issues.map(issue => issue.section)).toEqual(['Objective', 'Expected Output']);
+    expect(issues[0].range).toEqual({ line: 0, start: 0, end: 18 });
+  });
+
+  it('should flag vague quantifiers outside code blocks', () => {
+    const text = `${complete}\nHandle some edge cases, quoting etc.\n\`\`\`\nsome code\n\`\`\``;
+    const vague = lintPrompt(text, { maxTokens: 1500 }).filter(issue => issue.rule === 'vague-quantifier');
+
+    expect(vague.map(issue => issue.range)).toEqual([
+      { line: 5, start: 7, end: 11 },
+      { line: 5, start: 32, end: 36 },
+    ]);
+  });
+
+  it('should point conflicting instructions at each other', () => {
+    const text = `${complete}\nBe concise.\nGive a detailed explanation of every step.`;
+    const [conflict] = lintPrompt(text, { maxTokens: 1500 }).filter(issue => issue.rule === 'conflicting-instructions');
+
+    expect(conflict.range.line).toBe(6);
+    expect(conflict.related?.range.line).toBe(5);
+    expect(conflict.message).toContain('"concise" on line 6');
+  });
+
+  it('should not read a negated instruction as its opposite', () => {
+    expect(rules(`${complete}\nDo not use bullet points.`)).not.toContain('conflicting-instructions');
+    expect(rules(`${complete}\nDo not include code examples.`)).not.toContain('conflicting-instructions');
+    expect(rules(`${complete}\nUse bullet points.\nDon't use bullet points.`)).toContain('conflicting-instructions');
+  });
+
+  it('should flag undeclared variables and excessive length', () => {
+    const text = `---\nvariables:\n  - name: language\n---\n${complete}\nUse {{language}} and {{framework}}.`;
+    const issues = lintPrompt(text, { maxTokens: 1500 });
+
+    expect(issues.map(issue => issue.message)).toEqual([
+      expect.stringContaining('{{framework}}'),
+    ]);
+    expect(rules(complete, 5)).toEqual(['excessive-length']);
+    expect(lintPrompt(text, { maxTokens: 1500, disabledRules: ['unresolved-variable'] })).toEqual([]);
+  });
+
+  it('should insert sections in the style the prompt already uses', () => {
+    expect(promptBodyStartLine('---\nid: x\n---\nBody')).toBe(3);
+    expect(sectionInsertion('---\nid: x\n---\nBody', 'Objective')).toEqual({ line: 3, character: 0, text: '## Objective\n\n' });
+    expect(sectionInsertion('[Objective]\nParse CSV', 'Expected Output')).toEqual({
+      line: 1,
+      character: 9,
+      text: '\n\n[Expected Output]\n',
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { estimateSimilarity, minHashSignature, normalizePrompt } from '../utils/minhash';
+import { RefinementCacheStore } from '../services/RefinementCacheStore';
+import { ConfigurationManager } from '../services/ConfigurationManager';
+
+vi.mock('../services/ConfigurationManager', () => ({
+  ConfigurationManager: {
+    getInstance: vi.fn(),
+  }
+}));
+
+describe('refinement cache', () => {
+  describe('minhash', () => {
+    it('should ignore casing and whitespace', () => {
+      expect(normalizePrompt('  Write a\n\nREST   API ')).toBe('write a rest api');
+      expect(minHashSignature('Write a REST API')).toEqual(minHashSignature('write a  rest api\n'));
+    });
+
+    it('should score near-duplicates high and unrelated prompts low', () => {
+      const base = minHashSignature('Write a function that parses CSV files and returns an array of row objects');
+      const edited = minHashSignature('Write a function that parses CSV files and returns an array of row objects.');
+      const other = minHashSignature('Explain the difference between TCP and UDP for a networking class');
+
+      expect(estimateSimilarity(base, edited)).toBeGreaterThan(0.85);
+      expect(estimateSimilarity(base, other)).toBeLessThan(0.2);
+    });
+  });
+
+  describe('RefinementCacheStore', () => {
+    let storageDir: string;
+    const settings = { ttlHours: 168, maxSizeMB: 5, nearDuplicate: true, similarityThreshold: 0.85 };
+    const entry = (key: string, prompt: string, scope = 'scope') =>
+      ({ key, scope, prompt, refined: `refined ${prompt}`, provider: 'openai', model: 'gpt-4o-mini' });
+
+    const load = async () => {
+      RefinementCacheStore.resetInstance();
+      const store = RefinementCacheStore.getInstance();
+      await store.initialize({ globalStorageUri: { fsPath: storageDir } } as any);
+      return store;
+    };
+
+    beforeEach(() => {
+      storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'refinement-cache-'));
+      (ConfigurationManager.getInstance as any).mockReturnValue({ getCacheSettings: () => settings });
+    });
+
+    afterEach(async () => {
+      await RefinementCacheStore.getInstance().flush();
+      RefinementCacheStore.resetInstance();
+      fs.rmSync(storageDir, { recursive: true, force: true });
+    });
+
+    it('should keep entries across reloads', async () => {
+      const store = await load();
+      store.set(entry('a', 'Write a REST API'));
+      await store.flush();
+
+      const reloaded = await load();
+      expect(reloaded.get('a')?.refined).toBe('refined Write a REST API');
+    });
+
+    it('should keep entries set while the file is still loading', async () => {
+      const store = await load();
+      store.set(entry('a', 'Write a REST API'));
+      store.set(entry('b', 'Write a CLI'));
+      await store.flush();
+
+      RefinementCacheStore.resetInstance();
+      const reloading = RefinementCacheStore.getInstance();
+      const loading = reloading.initialize({ globalStorageUri: { fsPath: storageDir } } as any);
+      reloading.set({ ...entry('b', 'Write a CLI'), refined: 'newer CLI' });
+      await loading;
+
+      expect(reloading.get('a')?.refined).toBe('refined Write a REST API');
+      expect(reloading.get('b')?.refined).toBe('newer CLI');
+
+      await reloading.flush();
+      const reloaded = await load();
+      expect(reloaded.get('a')?.refined).toBe('refined Write a REST API');
+      expect(reloaded.get('b')?.refined).toBe('newer CLI');
+    });
+
+    it('should offer near-duplicates from the same scope only', async () => {
+      const store = await load();
+      store.set(entry('a', 'Write a function that parses CSV files and returns an array of row objects'));
+
+      const match = store.findSimilar('write a function that parses CSV files and returns an array of row objects.', 'scope');
+      expect(match?.entry.key).toBe('a');
+      expect(store.findSimilar('write a function that parses CSV files and returns an array of row objects.', 'other')).toBeUndefined();
+    });
+
+    it('should evict least recently used entries past the size limit', async () => {
+      let now = 1_000;
+      const clock = vi.spyOn(Date, 'now').mockImplementation(() => now++);
+      const store = await load();
+      store.set(entry('old', 'first prompt'));
+      const entrySize = store.getStats().bytes;
+      settings.maxSizeMB = (entrySize * 2.5) / (1024 * 1024);
+      try {
+        store.set(entry('middle', 'second prompt'));
+        store.get('old');
+        store.set(entry('new', 'third prompt'));
+
+        expect(store.list().map(e => e.key).sort()).toEqual(['new', 'old']);
+      } finally {
+        settings.maxSizeMB = 5;
+        clock.mockRestore();
+      }
+    });
+  });
+});
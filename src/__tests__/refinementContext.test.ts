@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { formatRefinementContext } from '../types/RefinementContext';
+import { estimateTokens, truncateToTokens, takeLinesWithinBudget } from '../utils/tokenBudget';
+
+describe('RefinementContext', () => {
+  describe('formatRefinementContext', () => {
+    it('should return an empty string when there is nothing to attach', () => {
+      expect(formatRefinementContext(undefined)).toBe('');
+      expect(formatRefinementContext({})).toBe('');
+    });
+
+    it('should render each piece under its own heading', () => {
+      const text = formatRefinementContext({
+        languageId: 'typescript',
+        fileName: 'src/auth.ts',
+        symbols: ['- class AuthService (lines 1-40) [contains selection]'],
+        diagnostics: [{ severity: 'error', line: 12, message: "Cannot find name 'token'", source: 'ts' }],
+        files: [{ path: 'src/types.ts', content: 'export type Token = string;', languageId: 'typescript', truncated: true }],
+      });
+
+      expect(text).toContain('## Editor Context');
+      expect(text).toContain('Language: typescript (src/auth.ts)');
+      expect(text).toContain('### Surrounding symbols\n- class AuthService');
+      expect(text).toContain("- [error] line 12: Cannot find name 'token' (ts)");
+      expect(text).toContain('#### src/types.ts (truncated)\n```typescript\nexport type Token = string;\n```');
+    });
+  });
+
+  describe('token budgets', () => {
+    it('should keep text that fits and cut text that does not', () => {
+      expect(truncateToTokens('short', 10)).toEqual({ text: 'short', truncated: false });
+
+      const long = Array.from({ length: 50 }, (_, i) => `line ${i}`).join('\n');
+      const result = truncateToTokens(long, 20);
+      expect(result.truncated).toBe(true);
+      expect(estimateTokens(result.text)).toBeLessThanOrEqual(20);
+      expect(result.text.endsWith('\n')).toBe(false);
+    });
+
+    it('should keep whole lines in order until the budget runs out', () => {
+      expect(takeLinesWithinBudget(['aaaaaaa', 'bbbbbbb', 'ccccccc'], 6)).toEqual(['aaaaaaa', 'bbbbbbb']);
+      expect(takeLinesWithinBudget(['aaaaaaa'], 0)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { MockProvider } from '../providers/MockProvider';
+import { RefinementResult } from '../services/PromptRefinerService';
+import {
+  RefinementPipelineContext,
+  RefinementStage,
+  arrangeStages,
+  runStages,
+} from '../services/RefinementPipeline';
+
+function createContext(prompt: string): RefinementPipelineContext {
+  return {
+    draft: prompt,
+    prompt,
+    options: {},
+    providerId: 'mock',
+    modelId: 'mock',
+    templateId: 'default',
+    roleId: 'default',
+    strict: false,
+    iteration: 1,
+    systemTemplate: 'system',
+    fromCache: false,
+    fromFallback: false,
+    localOnly: false,
+    headless: false,
+    pinned: false,
+    state: new Map(),
+  };
+}
+
+/** Terminal stage that answers with the offline mock provider */
+function mockProviderStage(provider = new MockProvider()): RefinementStage {
+  return {
+    id: 'provider',
+    run: async context => {
+      const { refined, tokens } = await provider.refine(context.prompt, context.systemTemplate);
+      return {
+        refined,
+        tokens,
+        usage: { promptTokens: 0, completionTokens: 0, source: 'estimate' },
+        templateUsed: context.templateId,
+        iteration: context.iteration,
+        provider: provider.id,
+        model: context.modelId,
+      } as RefinementResult;
+    },
+  };
+}
+
+const passThrough = (id: string): RefinementStage => ({ id, run: (_context, next) => next() });
+
+describe('refinement pipeline', () => {
+  it('should place added stages, skip duplicates and drop disabled optional stages', () => {
+    const builtin = ['validateInput', 'systemPrompt', 'cache', 'provider'].map(passThrough);
+    const ids = arrangeStages(builtin, [
+      { stage: passThrough('redact') },
+      { stage: passThrough('inject'), placement: { after: 'validateInput' } },
+      { stage: passThrough('trace'), placement: { before: 'provider' } },
+      { stage: passThrough('lost'), placement: { before: 'missing' } },
+      { stage: passThrough('systemPrompt') },
+    ], ['cache', 'provider']).map(stage => stage.id);
+
+    // `cache` is disabled, so stages meant to go before it go before the last stage
+    expect(ids).toEqual(['validateInput', 'inject', 'systemPrompt', 'redact', 'trace', 'lost', 'provider']);
+  });
+
+  it('should keep stages placed after the provider in front of it', async () => {
+    const builtin = [passThrough('validateInput'), mockProviderStage()];
+    let ran = false;
+    const late: RefinementStage = { id: 'late', run: (_context, next) => { ran = true; return next(); } };
+    const stages = arrangeStages(builtin, [{ stage: late, placement: { after: 'provider' } }]);
+
+    expect(stages.map(stage => stage.id)).toEqual(['validateInput', 'late', 'provider']);
+    await runStages(stages, createContext('Write a CSV parser'));
+    expect(ran).toBe(true);
+  });
+
+  it('should let stages change the request and the result around the provider call', async () => {
+    const context = createContext('fix login');
+    const result = await runStages([
+      {
+        id: 'tag',
+        run: async (stageContext, next) => {
+          stageContext.prompt = `${stageContext.prompt} for ticket 42`;
+          const answer = await next();
+          return { ...answer, refined: answer.refined.replace('[MOCK REFINEMENT]', '[TAGGED]') };
+        },
+      },
+      mockProviderStage(),
+    ], context);
+
+    expect(result.refined).toContain('[TAGGED]');
+    expect(result.refined).toContain('Refined version of: "fix login for ticket 42"');
+    expect(context.draft).toBe('fix login');
+  });
+
+  it('should stop at a stage that answers on its own', async () => {
+    const provider = new MockProvider();
+    let providerCalls = 0;
+    const counted = mockProviderStage(provider);
+    const cached: RefinementStage = {
+      id: 'memo',
+      run: async context => {
+        context.fromCache = true;
+        return { refined: 'remembered', tokens: 0, usage: { promptTokens: 0, completionTokens: 0, source: 'cache' }, templateUsed: 'default', iteration: 1, provider: 'memo', model: 'memo' };
+      },
+    };
+
+    const context = createContext('fix login');
+    const result = await runStages([cached, { id: 'provider', run: (c, n) => { providerCalls++; return counted.run(c, n); } }], context);
+
+    expect(result.refined).toBe('remembered');
+    expect(context.fromCache).toBe(true);
+    expect(providerCalls).toBe(0);
+  });
+
+  it('should reject stages that run the rest twice or never produce a result', async () => {
+    await expect(runStages([
+      { id: 'twice', run: async (_context, next) => { await next(); return next(); } },
+      mockProviderStage(),
+    ], createContext('p'))).rejects.toThrow('"twice" called next() more than once');
+
+    await expect(runStages([passThrough('only')], createContext('p'))).rejects.toThrow('ended without a result');
+  });
+});
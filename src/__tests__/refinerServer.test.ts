@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as http from 'http';
+import { RefinerServer } from '../server/RefinerServer';
+import { RpcError, RpcErrorCode } from '../server/jsonRpc';
+
+const TOKEN = 'test-token';
+
+interface Reply {
+  status: number;
+  body: any;
+}
+
+function post(port: number, body: string, headers: Record<string, string> = {}): Promise<Reply> {
+  return new Promise((resolve, reject) => {
+    const req = http.request({
+      host: '127.0.0.1',
+      port,
+      path: '/rpc',
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${TOKEN}`, ...headers },
+    }, res => {
+      let data = '';
+      res.on('data', chunk => { data += chunk; });
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, body: data ? JSON.parse(data) : undefined }));
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+/** `id: null` sends a notification */
+const rpc = (method: string, params?: unknown, id: number | null = 1) =>
+  JSON.stringify({ jsonrpc: '2.0', ...(id !== null ? { id } : {}), method, params });
+
+describe('local refiner server', () => {
+  let server: RefinerServer;
+  let port: number;
+  const calls: string[] = [];
+
+  beforeEach(async () => {
+    calls.length = 0;
+    server = new RefinerServer({
+      refine: async params => {
+        calls.push(String(params.prompt));
+        return { refined: `Refined: ${params.prompt}` };
+      },
+      validate: async () => {
+        throw new RpcError(RpcErrorCode.INVALID_PARAMS, '"output" is required');
+      },
+      listModels: async () => {
+        throw new Error('PROVIDER_ERROR|Model catalog unavailable');
+      },
+    }, TOKEN);
+    port = await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should only answer authorized requests addressed to localhost', async () => {
+    expect(server.url).toBe(`http://127.0.0.1:${port}/rpc`);
+    expect((await post(port, rpc('refine', { prompt: 'a' }), { Authorization: 'Bearer wrong' })).status).toBe(401);
+    expect((await post(port, rpc('refine', { prompt: 'a' }), { Authorization: '' })).status).toBe(401);
+    expect((await post(port, rpc('refine', { prompt: 'a' }), { Host: `evil.example:${port}` })).status).toBe(403);
+    expect((await post(port, rpc('refine', { prompt: 'a' }), { 'Content-Type': 'text/plain' })).status).toBe(415);
+    expect(calls).toEqual([]);
+  });
+
+  it('should dispatch requests, batches and notifications', async () => {
+    const single = await post(port, rpc('refine', { prompt: 'sort users' }));
+    expect(single).toEqual({ status: 200, body: { jsonrpc: '2.0', id: 1, result: { refined: 'Refined: sort users' } } });
+
+    const batch = await post(port, `[${rpc('refine', { prompt: 'b' }, 2)}, ${rpc('refine', { prompt: 'c' }, null)}, ${rpc('nope', {}, 3)}]`);
+    expect(batch.body).toEqual([
+      { jsonrpc: '2.0', id: 2, result: { refined: 'Refined: b' } },
+      { jsonrpc: '2.0', id: 3, error: { code: RpcErrorCode.METHOD_NOT_FOUND, message: 'Unknown method "nope"' } },
+    ]);
+    expect(calls).toEqual(['sort users', 'b', 'c']);
+
+    expect((await post(port, rpc('refine', { prompt: 'd' }, null))).status).toBe(204);
+  });
+
+  it('should report bad input and failed calls as JSON-RPC errors', async () => {
+    expect((await post(port, '{oops')).body.error.code).toBe(RpcErrorCode.PARSE_ERROR);
+    expect((await post(port, rpc('refine', ['positional']))).body.error.code).toBe(RpcErrorCode.INVALID_PARAMS);
+    expect((await post(port, rpc('validate', {}))).body.error).toEqual({ code: RpcErrorCode.INVALID_PARAMS, message: '"output" is required' });
+
+    const failed = (await post(port, rpc('listModels'))).body.error;
+    expect(failed.code).toBe(RpcErrorCode.REFINEMENT_FAILED);
+    expect(failed.data).toEqual({ type: 'PROVIDER_ERROR' });
+  });
+});
@@ -43,6 +43,46 @@ vi.mock('vscode', () => ({
             toString: () => `file://${path}`,
         })),
     },
+    EventEmitter: class {
+        private listeners: Array<(value: unknown) => void> = [];
+        event = (listener: (value: unknown) => void) => {
+            this.listeners.push(listener);
+            return { dispose: () => { this.listeners = this.listeners.filter(l => l !== listener); } };
+        };
+        fire(value?: unknown) {
+            this.listeners.forEach(listener => listener(value));
+        }
+        dispose() {
+            this.listeners = [];
+        }
+    },
+    Disposable: class {
+        constructor(private readonly callOnDispose: () => void) {}
+        dispose() {
+            this.callOnDispose();
+        }
+    },
+    CancellationTokenSource: class {
+        token = {
+            isCancellationRequested: false,
+            onCancellationRequested: vi.fn(() => ({ dispose: vi.fn() })),
+        };
+        cancel() {
+            this.token.isCancellationRequested = true;
+        }
+        dispose = vi.fn();
+    },
+    lm: {
+        selectChatModels: vi.fn(async () => []),
+        onDidChangeChatModels: vi.fn(() => ({ dispose: vi.fn() })),
+    },
+    authentication: {
+        getSession: vi.fn(),
+    },
+    LanguageModelChatMessage: {
+        User: vi.fn((content: string) => ({ role: 'user', content })),
+        Assistant: vi.fn((content: string) => ({ role: 'assistant', content })),
+    },
     ExtensionContext: {},
     ConfigurationTarget: {
         Global: 1,
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractTemplateVariables,
+  getEffectiveVariables,
+  validateVariableValue,
+  substituteTemplateVariables,
+} from '../utils/templateVariables';
+
+describe('templateVariables', () => {
+  describe('extractTemplateVariables', () => {
+    it('should list placeholders once, in order of first use', () => {
+      expect(extractTemplateVariables('Write {{ language }} for {{audience}} in {{language}}'))
+        .toEqual(['language', 'audience']);
+    });
+
+    it('should ignore built-in and malformed placeholders', () => {
+      expect(extractTemplateVariables('${selection} {{1bad}} {{}}')).toEqual([]);
+    });
+  });
+
+  describe('getEffectiveVariables', () => {
+    it('should append undeclared placeholders after the declared variables', () => {
+      const variables = getEffectiveVariables('{{audience}} {{language}}', [{ name: 'language', default: 'TypeScript' }]);
+      expect(variables).toEqual([{ name: 'language', default: 'TypeScript' }, { name: 'audience' }]);
+    });
+  });
+
+  describe('validateVariableValue', () => {
+    it('should check numbers and enum choices', () => {
+      expect(validateVariableValue({ name: 'max_words', type: 'number' }, '200')).toBeNull();
+      expect(validateVariableValue({ name: 'max_words', type: 'number' }, 'many')).toBe('max_words must be a number');
+      expect(validateVariableValue({ name: 'tone', choices: ['formal', 'casual'] }, 'casual')).toBeNull();
+      expect(validateVariableValue({ name: 'tone', choices: ['formal', 'casual'] }, 'loud'))
+        .toBe('tone must be one of: formal, casual');
+    });
+  });
+
+  describe('substituteTemplateVariables', () => {
+    it('should prefer given values, then defaults, then an empty string', () => {
+      const result = substituteTemplateVariables(
+        '{{language}} / {{audience}} / {{max_words}}',
+        { audience: 'juniors' },
+        [{ name: 'language', default: 'Go' }]
+      );
+      expect(result).toBe('Go / juniors / ');
+    });
+
+    it('should resolve built-ins and leave unknown ${...} text alone', () => {
+      const result = substituteTemplateVariables(
+        'File ${fileName} (${languageId}) in ${workspaceName}: ${selection} ${HOME}',
+        {},
+        [],
+        { fileName: 'app.ts', languageId: 'typescript', workspaceName: 'demo', selection: 'const x = 1;' }
+      );
+      expect(result).toBe('File app.ts (typescript) in demo: const x = 1; ${HOME}');
+    });
+
+    it('should insert values literally, without expanding placeholders inside them', () => {
+      const result = substituteTemplateVariables(
+        'Goal: {{goal}}\nCode: ${selection}',
+        { goal: 'explain ${selection} and {{audience}}' },
+        [{ name: 'audience', default: 'juniors' }],
+        { selection: 'render("{{goal}}")' }
+      );
+      expect(result).toBe('Goal: explain ${selection} and {{audience}}\nCode: render("{{goal}}")');
+    });
+  });
+});
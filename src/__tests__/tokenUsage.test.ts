@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { countTokens, countChatTokens, getEncodingForModel } from '../utils/tokenizer';
+import { estimateCost, formatCost, getModelPrice } from '../utils/pricing';
+import { estimateTokens } from '../utils/tokenBudget';
+
+describe('token usage', () => {
+  describe('tokenizer', () => {
+    it('should pick the BPE vocabulary of OpenAI-family models only', () => {
+      expect(getEncodingForModel('gpt-4o-mini')).toBe('o200k_base');
+      expect(getEncodingForModel('openai/gpt-4o')).toBe('o200k_base');
+      expect(getEncodingForModel('gpt-4-turbo')).toBe('cl100k_base');
+      expect(getEncodingForModel('llama-3.3-70b-versatile')).toBeUndefined();
+    });
+
+    it('should count exactly for OpenAI models and estimate for the rest', async () => {
+      expect(await countTokens('hello world', 'gpt-4o')).toEqual({ tokens: 2, exact: true });
+
+      const text = 'Refine this prompt for a local model';
+      expect(await countTokens(text, 'qwen2.5-coder:7b')).toEqual({ tokens: estimateTokens(text), exact: false });
+    });
+
+    it('should add chat framing to prompt counts', async () => {
+      const { tokens } = await countChatTokens(
+        [{ role: 'system', content: 'hello world' }, { role: 'user', content: 'hello world' }],
+        'gpt-4o'
+      );
+      expect(tokens).toBe(2 * (3 + 2) + 3);
+    });
+  });
+
+  describe('pricing', () => {
+    it('should find prices by API id, UI id or provider wildcard', () => {
+      expect(getModelPrice('openai', 'gpt-4o-mini')).toEqual({ input: 0.15, output: 0.6 });
+      expect(getModelPrice('openai', 'openai-gpt-4o-mini')).toEqual({ input: 0.15, output: 0.6 });
+      expect(getModelPrice('ollama', 'qwen2.5-coder:7b')).toEqual({ input: 0, output: 0 });
+      expect(getModelPrice('openai', 'unknown-model')).toBeUndefined();
+    });
+
+    it('should estimate cost per million tokens', () => {
+      expect(estimateCost('openai', 'gpt-4o', 1_000_000, 100_000)).toBeCloseTo(3.5);
+      expect(estimateCost('huggingface', 'bigscience/bloom', 10, 10)).toBeUndefined();
+      expect(formatCost(0.00042)).toBe('$0.0004');
+      expect(formatCost(1.5)).toBe('$1.50');
+    });
+  });
+});
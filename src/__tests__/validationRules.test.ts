@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { OutputValidator } from '../utils/OutputValidator';
+import { normalizeRuleSet } from '../utils/validationRules';
+import { ValidationRuleRegistry } from '../services/ValidationRuleRegistry';
+import { PluginManager } from '../plugins/PluginManager';
+
+const refined = `[Objective]
+Create a CSV parser in TypeScript.
+
+[Expected Output]
+A single exported function with unit tests.`;
+
+describe('validation rule sets', () => {
+  beforeEach(() => {
+    ValidationRuleRegistry.resetInstance();
+  });
+
+  it('should keep the default scoring and name the rule behind each issue', () => {
+    const result = OutputValidator.validate('Sure, here is your refined prompt: parse CSV', true);
+
+    expect(result.ruleSet).toBe('default');
+    expect(result.valid).toBe(false);
+    expect(result.issues.map(issue => issue.rule)).toEqual([
+      'length:too-short',
+      'length:few-lines',
+      'section:Objective',
+      'section:Expected Output',
+      'phrase:conversational-filler',
+    ]);
+    // 100 - 20 - 10 - 2 * 30 - 10 - 3 * 5 optional sections - 5 actionable verbs
+    expect(result.score).toBe(0);
+    expect(OutputValidator.validate(refined).score).toBe(85);
+  });
+
+  it('should apply a custom rule set from JSON', () => {
+    const ruleSet = normalizeRuleSet({
+      id: 'code',
+      passScore: 90,
+      sections: [{ name: 'Acceptance Criteria', required: true, aliases: ['acceptance'], weight: 20 }],
+      checks: [{ id: 'language', pattern: 'python', flags: 'i', mustMatch: true, message: 'Name Python', severity: 'error', weight: 5 }],
+    }, 'rules.json');
+
+    const result = OutputValidator.validate(refined, false, ruleSet);
+
+    expect(result.issues.map(issue => [issue.rule, issue.type])).toEqual([
+      ['section:Acceptance Criteria', 'warning'],
+      ['check:language', 'error'],
+    ]);
+    expect(result.score).toBe(75);
+    expect(result.valid).toBe(false);
+  });
+
+  it('should reject rule sets with broken rules', () => {
+    expect(() => normalizeRuleSet({ name: 'No id' }, 'rules.json')).toThrow('"id" is required');
+    expect(() => normalizeRuleSet({ id: 'x', checks: [{ id: 'bad', pattern: '(', message: 'm' }] }, 'rules.json'))
+      .toThrow('checks[0]');
+    expect(() => normalizeRuleSet({ id: 'x', length: [{ metric: 'words', max: 10 }] }, 'rules.json')).toThrow('length[0]');
+  });
+
+  it('should merge plugin validator issues into the result', async () => {
+    await PluginManager.getInstance().loadPlugin({
+      id: 'house-style',
+      name: 'House Style',
+      version: '1.0.0',
+      initialize: context => context.registerValidator({
+        id: 'house-style',
+        name: 'House Style',
+        rules: { sections: [{ name: 'Objective', required: true, aliases: ['objective'] }] },
+        validate: output => ({ valid: !output.includes('TypeScript'), score: 60, issues: ['Say "TS"'] }),
+      }),
+    });
+    const registry = ValidationRuleRegistry.getInstance();
+
+    const entry = (await registry.getRuleSets()).find(candidate => candidate.ruleSet.id === 'house-style');
+    expect(entry?.source).toBe('plugin');
+
+    const result = registry.validateWith(refined, false, entry!);
+    expect(result.issues).toEqual([{ type: 'warning', message: 'Say "TS"', rule: 'plugin:house-style' }]);
+    expect(result.score).toBe(60);
+    expect(result.valid).toBe(false);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as vscode from 'vscode';
+import { VsCodeLmProvider } from '../providers/VsCodeLmProvider';
+import { ConfigurationManager } from '../services/ConfigurationManager';
+import { ErrorHandler, ErrorType } from '../utils/ErrorHandler';
+
+vi.mock('../services/ConfigurationManager', () => ({
+  ConfigurationManager: {
+    getInstance: vi.fn(),
+  }
+}));
+
+function chatModel(id: string, sendRequest: (...args: any[]) => unknown) {
+  return {
+    id,
+    name: `Copilot ${id}`,
+    vendor: 'copilot',
+    family: id,
+    version: '1',
+    maxInputTokens: 64000,
+    sendRequest: vi.fn(sendRequest),
+    countTokens: vi.fn(async (value: string | { content: string }) => (typeof value === 'string' ? value : value.content).split(' ').length),
+  };
+}
+
+async function* chunks(...parts: string[]) {
+  yield* parts;
+}
+
+function languageModelError(code: string) {
+  return Object.assign(new Error(`${code} from the editor`), { name: 'LanguageModelError', code });
+}
+
+describe('VS Code language model provider', () => {
+  const selectChatModels = vscode.lm.selectChatModels as unknown as ReturnType<typeof vi.fn>;
+  let configuredModel: string;
+
+  beforeEach(() => {
+    configuredModel = 'auto';
+    (ConfigurationManager.getInstance as any).mockReturnValue({
+      resolveModelId: vi.fn((_providerId: string, override?: string) => override ?? configuredModel),
+    });
+  });
+
+  it('should stream the answer of the first available model and count usage with its tokenizer', async () => {
+    const model = chatModel('gpt-4o', async () => ({ text: chunks('Refined ', 'prompt') }));
+    selectChatModels.mockResolvedValue([model]);
+
+    const deltas: string[] = [];
+    for await (const event of new VsCodeLmProvider().refineStream('fix bug', 'You refine prompts', {
+      history: [{ role: 'user', content: 'first draft' }, { role: 'assistant', content: 'first answer' }],
+    })) {
+      if (event.type === 'delta') deltas.push(event.text);
+      else expect(event).toEqual({ type: 'done', tokens: 11, usage: { promptTokens: 9, completionTokens: 2 } });
+    }
+
+    expect(deltas).toEqual(['Refined ', 'prompt']);
+    expect(selectChatModels).toHaveBeenCalledWith();
+    const [messages, options] = model.sendRequest.mock.calls[0];
+    expect(messages.map((message: { role: string }) => message.role)).toEqual(['user', 'user', 'assistant', 'user']);
+    expect(options.justification).toBeTruthy();
+  });
+
+  it('should fall back from model id to family and report unknown models', async () => {
+    configuredModel = 'gpt-4o';
+    const model = chatModel('gpt-4o-2024-11-20', async () => ({ text: chunks('ok') }));
+    selectChatModels.mockImplementation(async (selector: { family?: string }) => (selector?.family === 'gpt-4o' ? [model] : []));
+
+    expect((await new VsCodeLmProvider().refine('a', 'b')).refined).toBe('ok');
+
+    selectChatModels.mockResolvedValue([]);
+    const error = await new VsCodeLmProvider().refine('a', 'b', { model: 'o9' }).catch(e => e);
+    expect(error.message).toMatch(/^INVALID_MODEL\|/);
+  });
+
+  it('should map consent, quota and missing-model errors to the classified codes', async () => {
+    const classify = async (code: string) => {
+      selectChatModels.mockResolvedValue([chatModel('gpt-4o', async () => { throw languageModelError(code); })]);
+      const error = await new VsCodeLmProvider().refine('a', 'b').catch(e => e);
+      return ErrorHandler.classifyError(error);
+    };
+
+    expect((await classify('NoPermissions')).type).toBe(ErrorType.AUTHENTICATION);
+    expect((await classify('Blocked')).type).toBe(ErrorType.RATE_LIMIT);
+    expect(await classify('NotFound')).toEqual(expect.objectContaining({ type: ErrorType.PROVIDER_ERROR, action: 'Switch Model' }));
+  });
+
+  it('should cancel the request when the signal aborts', async () => {
+    const controller = new AbortController();
+    const model = chatModel('gpt-4o', async (_messages: unknown, _options: unknown, token: vscode.CancellationToken) => ({
+      text: (async function* () {
+        yield 'partial';
+        controller.abort();
+        expect(token.isCancellationRequested).toBe(true);
+        yield 'never';
+      })(),
+    }));
+    selectChatModels.mockResolvedValue([model]);
+
+    await expect(new VsCodeLmProvider().refine('a', 'b', { signal: controller.signal })).rejects.toThrow('Operation cancelled');
+  });
+});
@@ -0,0 +1,168 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Problem with how the CLI was invoked or configured, reported without the refinement error handling
+ */
+export class CliError extends Error {
+    constructor(message: string, public readonly exitCode = 2) {
+        super(message);
+        this.name = 'CliError';
+    }
+}
+
+/** Looked up in the working directory when no config file is given */
+export const CONFIG_FILE_NAME = '.prompt-refiner.json';
+
+const SETTINGS_PREFIX = 'promptRefiner.';
+
+/**
+ * Settings of a CLI run: the extension's settings, keyed without the `promptRefiner.` prefix
+ */
+export interface CliConfig {
+    settings: Record<string, unknown>;
+    /** Setting defaults declared in package.json */
+    defaults: Record<string, unknown>;
+    /** Config file the settings came from, if any */
+    source?: string;
+    /** Application-scoped settings dropped from a config file found in the working directory */
+    ignored?: string[];
+}
+
+/** Environment variables that override single settings */
+const ENV_SETTINGS: Record<string, string> = {
+    PROMPT_REFINER_PROVIDER: 'provider',
+    PROMPT_REFINER_MODEL: 'model',
+    PROMPT_REFINER_STRICT_MODE: 'strictMode',
+    PROMPT_REFINER_OLLAMA_ENDPOINT: 'ollamaEndpoint',
+};
+
+/** Conventional key variables, checked after `PROMPT_REFINER_<PROVIDER>_API_KEY` */
+const API_KEY_ENV: Record<string, string[]> = {
+    openai: ['OPENAI_API_KEY'],
+    gemini: ['GEMINI_API_KEY', 'GOOGLE_API_KEY'],
+    groq: ['GROQ_API_KEY'],
+    github: ['GITHUB_TOKEN'],
+    anthropic: ['ANTHROPIC_API_KEY'],
+    huggingface: ['HF_TOKEN', 'HUGGINGFACE_API_KEY'],
+    'azure-openai': ['AZURE_OPENAI_API_KEY'],
+};
+
+/**
+ * Setting defaults from the extension manifest, so the CLI behaves like an unconfigured install
+ */
+export function readSettingDefaults(packageJsonPath: string): Record<string, unknown> {
+    const manifest = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8'));
+    const properties: Record<string, { default?: unknown }> = manifest.contributes?.configuration?.properties ?? {};
+    const defaults: Record<string, unknown> = {};
+    for (const [key, schema] of Object.entries(properties)) {
+        if (key.startsWith(SETTINGS_PREFIX) && 'default' in schema) {
+            defaults[key.slice(SETTINGS_PREFIX.length)] = schema.default;
+        }
+    }
+    return defaults;
+}
+
+/**
+ * Settings the manifest scopes to the application. Like VS Code with workspace settings, the CLI
+ * ignores them in a config file it finds in the working directory, since that file may come with
+ * a checked-out repository.
+ */
+export function readApplicationSettings(packageJsonPath: string): Set<string> {
+    const manifest = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8'));
+    const properties: Record<string, { scope?: string }> = manifest.contributes?.configuration?.properties ?? {};
+    return new Set(Object.entries(properties)
+        .filter(([key, schema]) => key.startsWith(SETTINGS_PREFIX) && schema.scope === 'application')
+        .map(([key]) => key.slice(SETTINGS_PREFIX.length)));
+}
+
+/**
+ * Accept both `{ "validation.ruleSet": "x" }` and `{ "validation": { "ruleSet": "x" } }`.
+ * Objects are only descended into when their key isn't a setting itself, so object-valued
+ * settings such as `validation.ruleSetByRole` stay whole.
+ */
+export function flattenSettings(raw: Record<string, unknown>, known: Set<string>, prefix = ''): Record<string, unknown> {
+    const flat: Record<string, unknown> = {};
+    for (const [name, value] of Object.entries(raw)) {
+        const key = `${prefix}${name.startsWith(SETTINGS_PREFIX) ? name.slice(SETTINGS_PREFIX.length) : name}`;
+        if (!known.has(key) && value && typeof value === 'object' && !Array.isArray(value)) {
+            Object.assign(flat, flattenSettings(value as Record<string, unknown>, known, `${key}.`));
+        } else {
+            flat[key] = value;
+        }
+    }
+    return flat;
+}
+
+/**
+ * Read settings from the config file (`--config`, `PROMPT_REFINER_CONFIG` or
+ * `.prompt-refiner.json` in the working directory), then apply environment overrides.
+ * Throws when an explicitly named file can't be read.
+ */
+export function loadCliConfig(options: {
+    configPath?: string;
+    cwd: string;
+    env: NodeJS.ProcessEnv;
+    defaults: Record<string, unknown>;
+    applicationSettings?: ReadonlySet<string>;
+}): CliConfig {
+    const { cwd, env, defaults } = options;
+    const explicit = options.configPath ?? env.PROMPT_REFINER_CONFIG;
+    const source = explicit ? path.resolve(cwd, explicit) : path.join(cwd, CONFIG_FILE_NAME);
+
+    let settings: Record<string, unknown> = {};
+    let raw: string | undefined;
+    try {
+        raw = fs.readFileSync(source, 'utf8');
+    } catch (error) {
+        if (explicit || (error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            throw new CliError(`Could not read ${source}: ${(error as Error).message}`);
+        }
+    }
+    if (raw !== undefined) {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(raw);
+        } catch (error) {
+            throw new CliError(`${source} is not valid JSON: ${(error as Error).message}`);
+        }
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+            throw new CliError(`${source} must contain a JSON object of settings`);
+        }
+        settings = flattenSettings(parsed as Record<string, unknown>, new Set(Object.keys(defaults)));
+    }
+
+    const ignored = explicit ? [] : Object.keys(settings).filter(key => options.applicationSettings?.has(key));
+    for (const key of ignored) {
+        delete settings[key];
+    }
+
+    for (const [variable, key] of Object.entries(ENV_SETTINGS)) {
+        const value = env[variable];
+        if (value !== undefined && value !== '') {
+            settings[key] = typeof defaults[key] === 'boolean' ? value === 'true' || value === '1' : value;
+        }
+    }
+
+    return { settings, defaults, source: raw !== undefined ? source : undefined, ignored };
+}
+
+/**
+ * API key of a provider from the environment; the CLI has no SecretStorage
+ */
+export function getApiKeyFromEnv(providerId: string, env: NodeJS.ProcessEnv): string | undefined {
+    // `openai-compatible.litellm` reads PROMPT_REFINER_OPENAI_COMPATIBLE_LITELLM_API_KEY
+    const variable = providerId.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+    const names = [`PROMPT_REFINER_${variable}_API_KEY`, ...(API_KEY_ENV[providerId] ?? [])];
+    for (const name of names) {
+        const value = env[name]?.trim();
+        if (value) {
+            return value;
+        }
+    }
+    // Bedrock keeps its credentials as one `ACCESS_KEY_ID:SECRET_ACCESS_KEY[:SESSION_TOKEN]` secret
+    if (providerId === 'bedrock' && env.AWS_ACCESS_KEY_ID && env.AWS_SECRET_ACCESS_KEY) {
+        return [env.AWS_ACCESS_KEY_ID, env.AWS_SECRET_ACCESS_KEY, env.AWS_SESSION_TOKEN].filter(Boolean).join(':');
+    }
+    return undefined;
+}
@@ -0,0 +1,30 @@
+#!/usr/bin/env node
+import * as path from 'path';
+import { CliHost, createVscodeHost, installVscodeHost } from './vscodeHost';
+
+// dist/cli/index.js (or src/cli/index.ts) -> package root
+const root = path.resolve(__dirname, '..', '..');
+
+const host: CliHost = {
+    config: { settings: {}, defaults: {} },
+    cwd: process.cwd(),
+    env: process.env,
+    root,
+    notify: (level, message) => {
+        if (level !== 'info') {
+            process.stderr.write(`prompt-refiner: ${level}: ${message}\n`);
+        }
+    },
+};
+installVscodeHost(createVscodeHost(host));
+
+// The services import 'vscode' when loaded, so they may only be loaded once the host is installed
+import('./main')
+    .then(({ main }) => main(process.argv.slice(2), host, { stdin: process.stdin, stdout: process.stdout, stderr: process.stderr }))
+    .then(exitCode => {
+        process.exitCode = exitCode;
+    })
+    .catch((error: unknown) => {
+        process.stderr.write(`prompt-refiner: error: ${error instanceof Error ? error.message : String(error)}\n`);
+        process.exitCode = 1;
+    });
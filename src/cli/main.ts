@@ -0,0 +1,262 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { PromptRefinerService, RefinementResult } from '../services/PromptRefinerService';
+import { TemplateManager } from '../services/TemplateManager';
+import { RoleManager } from '../services/RoleManager';
+import { logger, LogLevel } from '../services/Logger';
+import { ErrorHandler } from '../utils/ErrorHandler';
+import { CliError, loadCliConfig, readApplicationSettings, readSettingDefaults } from './cliConfig';
+import { CliHost, createExtensionContext } from './vscodeHost';
+import { McpServer } from '../server/McpServer';
+import { createRefinerMethods } from '../server/methods';
+
+const USAGE = `Usage: prompt-refiner <command> [options]
+
+Commands:
+  refine [file]      Refine the draft in file, or read it from stdin
+  roles              List the predefined and configured custom roles
+  templates          List the built-in and workspace templates
+  mcp                Run as a Model Context Protocol server on stdin/stdout
+
+Options:
+  -r, --role <id>        Role to refine for (default: programmer)
+  -t, --template <id>    Template to refine with (default: the selectedTemplate setting)
+  -p, --provider <id>    Provider, e.g. openai, groq, ollama, mock
+  -m, --model <id>       Model of the provider
+  -c, --config <file>    Settings file (default: ./.prompt-refiner.json)
+      --strict           Enforce the strict output format
+      --no-strict        Allow a conversational output format
+      --auto-repair      Ask the provider to fix output that fails validation
+      --no-validate      Skip output validation
+      --fail-on-invalid  Exit with code 3 when the output fails validation
+      --json             Print a JSON object instead of the refined text
+  -v, --verbose          Log to stderr
+  -h, --help             Show this help
+
+API keys come from PROMPT_REFINER_<PROVIDER>_API_KEY or the provider's usual
+variable (OPENAI_API_KEY, GROQ_API_KEY, GITHUB_TOKEN, ...).`;
+
+/** Exit codes: 0 ok, 1 refinement failed, 2 bad invocation, 3 output failed validation */
+const EXIT_FAILED_VALIDATION = 3;
+
+export interface CliIO {
+    stdin: NodeJS.ReadableStream & { isTTY?: boolean };
+    stdout: NodeJS.WritableStream;
+    stderr: NodeJS.WritableStream;
+}
+
+/**
+ * Run the CLI; resolves with the process exit code
+ */
+export async function main(argv: string[], host: CliHost, io: CliIO): Promise<number> {
+    let json = false;
+    try {
+        const { values, positionals } = parseCommandLine(argv);
+        json = values.json === true;
+
+        const [command, ...operands] = positionals;
+        if (values.help || !command) {
+            (values.help ? io.stdout : io.stderr).write(`${USAGE}\n`);
+            return values.help ? 0 : 2;
+        }
+
+        logger.setConsoleSink(values.verbose ? line => io.stderr.write(`${line}\n`) : () => undefined);
+        logger.setLogLevel(values.verbose ? LogLevel.DEBUG : LogLevel.ERROR);
+
+        const manifestPath = path.join(host.root, 'package.json');
+        host.config = loadCliConfig({
+            configPath: values.config,
+            cwd: host.cwd,
+            env: host.env,
+            defaults: readSettingDefaults(manifestPath),
+            applicationSettings: readApplicationSettings(manifestPath),
+        });
+        if (host.config.ignored?.length) {
+            host.notify('warning', `Ignoring ${host.config.ignored.join(', ')} in ${host.config.source}; pass the file with --config to use them`);
+        }
+        const overrides: Record<string, unknown> = {
+            provider: values.provider,
+            model: values.model,
+            strictMode: values.strict ? true : values['no-strict'] ? false : undefined,
+        };
+        for (const [key, value] of Object.entries(overrides)) {
+            if (value !== undefined) {
+                host.config.settings[key] = value;
+            }
+        }
+        logger.debug('CLI settings loaded', { source: host.config.source ?? 'defaults' });
+
+        PromptRefinerService.getInstance().initialize(createExtensionContext(host) as unknown as vscode.ExtensionContext);
+
+        switch (command) {
+        case 'refine':
+            return await refine(operands[0], {
+                roleId: values.role,
+                templateId: values.template,
+                autoRepair: values['auto-repair'],
+                validate: !values['no-validate'],
+                failOnInvalid: values['fail-on-invalid'] === true,
+                json,
+            }, io);
+        case 'roles':
+            return listRoles(json, io);
+        case 'templates':
+            return await listTemplates(json, io);
+        case 'mcp':
+            return await serveMcp(host, io);
+        default:
+            throw new CliError(`Unknown command "${command}". Run prompt-refiner --help for usage.`);
+        }
+    } catch (error) {
+        const exitCode = error instanceof CliError ? error.exitCode : 1;
+        const message = error instanceof CliError
+            ? error.message
+            : ErrorHandler.classifyError(error as Error).userMessage;
+        if (json) {
+            io.stdout.write(`${JSON.stringify({ error: { message, exitCode } }, null, 2)}\n`);
+        }
+        io.stderr.write(`prompt-refiner: ${message}\n`);
+        return exitCode;
+    }
+}
+
+function parseCommandLine(argv: string[]) {
+    try {
+        return parseArgs({
+            args: argv,
+            allowPositionals: true,
+            options: {
+                role: { type: 'string', short: 'r' },
+                template: { type: 'string', short: 't' },
+                provider: { type: 'string', short: 'p' },
+                model: { type: 'string', short: 'm' },
+                config: { type: 'string', short: 'c' },
+                strict: { type: 'boolean' },
+                'no-strict': { type: 'boolean' },
+                'auto-repair': { type: 'boolean' },
+                'no-validate': { type: 'boolean' },
+                'fail-on-invalid': { type: 'boolean' },
+                json: { type: 'boolean' },
+                verbose: { type: 'boolean', short: 'v' },
+                help: { type: 'boolean', short: 'h' },
+            },
+        });
+    } catch (error) {
+        throw new CliError(`${(error as Error).message}. Run prompt-refiner --help for usage.`);
+    }
+}
+
+async function refine(
+    file: string | undefined,
+    options: { roleId?: string; templateId?: string; autoRepair?: boolean; validate: boolean; failOnInvalid: boolean; json: boolean },
+    io: CliIO
+): Promise<number> {
+    if (options.roleId && !RoleManager.getInstance().isKnownRole(options.roleId)) {
+        throw new CliError(`Unknown role "${options.roleId}". Run prompt-refiner roles to list them.`);
+    }
+    if (options.templateId && !(await TemplateManager.getInstance().getTemplate(options.templateId))) {
+        throw new CliError(`Unknown template "${options.templateId}". Run prompt-refiner templates to list them.`);
+    }
+
+    const draft = (await readDraft(file, io)).trim();
+    if (!draft) {
+        throw new CliError('Nothing to refine: the draft is empty.');
+    }
+
+    // Ctrl+C cancels the provider call instead of killing the process mid-request
+    const cancellation = new vscode.CancellationTokenSource();
+    const onInterrupt = () => cancellation.cancel();
+    process.once('SIGINT', onInterrupt);
+    let result: RefinementResult;
+    try {
+        result = await PromptRefinerService.getInstance().refine(draft, cancellation.token, {
+            roleId: options.roleId,
+            templateId: options.templateId,
+            autoRepair: options.autoRepair,
+            validateOutput: options.validate,
+            // Every run is a fresh call; there is no cache to reuse between processes
+            bypassCache: true,
+        });
+    } finally {
+        process.removeListener('SIGINT', onInterrupt);
+        cancellation.dispose();
+    }
+
+    const failed = options.failOnInvalid && result.validation?.valid === false;
+    if (options.json) {
+        io.stdout.write(`${JSON.stringify({
+            refined: result.refined,
+            provider: result.provider,
+            model: result.model,
+            template: result.templateUsed,
+            tokens: result.tokens,
+            usage: result.usage,
+            validation: result.validation,
+            repair: result.repair,
+            redactions: result.redactions,
+        }, null, 2)}\n`);
+    } else {
+        io.stdout.write(`${result.refined.trimEnd()}\n`);
+        if (result.validation && !result.validation.valid) {
+            const issues = result.validation.issues.map(issue => `\n  - ${issue.message}`).join('');
+            io.stderr.write(`prompt-refiner: output failed validation (score ${result.validation.score}/100, rule set ${result.validation.ruleSet})${issues}\n`);
+        }
+    }
+    return failed ? EXIT_FAILED_VALIDATION : 0;
+}
+
+async function readDraft(file: string | undefined, io: CliIO): Promise<string> {
+    if (file && file !== '-') {
+        try {
+            return await fs.promises.readFile(file, 'utf8');
+        } catch (error) {
+            throw new CliError(`Could not read ${file}: ${(error as Error).message}`);
+        }
+    }
+    if (io.stdin.isTTY) {
+        throw new CliError('Pass a file or pipe the draft to stdin, e.g. prompt-refiner refine < draft.md');
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of io.stdin) {
+        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Serve MCP until the client closes stdin. stdout carries the protocol, so logs stay on stderr.
+ */
+async function serveMcp(host: CliHost, io: CliIO): Promise<number> {
+    const { version } = JSON.parse(await fs.promises.readFile(path.join(host.root, 'package.json'), 'utf8'));
+    await new McpServer(createRefinerMethods(), { version }).listen(io.stdin, io.stdout);
+    return 0;
+}
+
+function listRoles(json: boolean, io: CliIO): number {
+    const roles = RoleManager.getInstance().getAllRoles().map(role => ({
+        id: role.id,
+        name: role.name,
+        scope: role.scope ?? 'builtin',
+        description: role.description,
+    }));
+    io.stdout.write(json
+        ? `${JSON.stringify(roles, null, 2)}\n`
+        : roles.map(role => `${role.id}\t${role.name} (${role.scope})`).join('\n') + '\n');
+    return 0;
+}
+
+async function listTemplates(json: boolean, io: CliIO): Promise<number> {
+    const templates = (await TemplateManager.getInstance().getAllTemplates()).map(template => ({
+        id: template.id,
+        name: template.name,
+        scope: template.scope ?? 'builtin',
+        description: template.description,
+    }));
+    io.stdout.write(json
+        ? `${JSON.stringify(templates, null, 2)}\n`
+        : templates.map(template => `${template.id}\t${template.name} (${template.scope})`).join('\n') + '\n');
+    return 0;
+}
@@ -0,0 +1,359 @@
+/**
+ * The slice of the `vscode` API the refinement services use, backed by Node: settings come from
+ * the CLI config, API keys from the environment, and UI calls resolve as if dismissed.
+ * Installed in place of the `vscode` module before any service is loaded.
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Module from 'module';
+import { CliConfig, getApiKeyFromEnv } from './cliConfig';
+
+/** State of the CLI run that the host reads lazily, so it can be filled in after installation */
+export interface CliHost {
+    config: CliConfig;
+    cwd: string;
+    env: NodeJS.ProcessEnv;
+    /** Root of the extension package (holds `package.json` and the templates) */
+    root: string;
+    /** Messages the extension would show in a notification */
+    notify: (level: 'info' | 'warning' | 'error', message: string) => void;
+}
+
+type Listener<T> = (value: T) => unknown;
+
+class EventEmitter<T> {
+    private listeners: Array<Listener<T>> = [];
+
+    public readonly event = (listener: Listener<T>) => {
+        this.listeners.push(listener);
+        return new Disposable(() => {
+            this.listeners = this.listeners.filter(candidate => candidate !== listener);
+        });
+    };
+
+    public fire(value: T): void {
+        [...this.listeners].forEach(listener => listener(value));
+    }
+
+    public dispose(): void {
+        this.listeners = [];
+    }
+}
+
+class Disposable {
+    constructor(private readonly callOnDispose: () => unknown = () => undefined) {}
+
+    public static from(...disposables: Array<{ dispose(): unknown }>): Disposable {
+        return new Disposable(() => disposables.forEach(disposable => disposable.dispose()));
+    }
+
+    public dispose(): void {
+        this.callOnDispose();
+    }
+}
+
+class CancellationTokenSource {
+    private readonly emitter = new EventEmitter<void>();
+    private cancelled = false;
+
+    public readonly token = {
+        isCancellationRequested: false,
+        onCancellationRequested: this.emitter.event,
+    };
+
+    public cancel(): void {
+        if (this.cancelled) return;
+        this.cancelled = true;
+        this.token.isCancellationRequested = true;
+        this.emitter.fire();
+    }
+
+    public dispose(): void {
+        this.emitter.dispose();
+    }
+}
+
+class Uri {
+    private constructor(public readonly scheme: string, public readonly fsPath: string) {}
+
+    public get path(): string {
+        return this.fsPath.split(path.sep).join('/');
+    }
+
+    public static file(filePath: string): Uri {
+        return new Uri('file', path.resolve(filePath));
+    }
+
+    public static parse(value: string): Uri {
+        const match = value.match(/^([a-z][\w+.-]*):(?:\/\/)?(.*)$/i);
+        return match ? new Uri(match[1], match[2]) : Uri.file(value);
+    }
+
+    public static joinPath(base: Uri, ...segments: string[]): Uri {
+        return new Uri(base.scheme, path.join(base.fsPath, ...segments));
+    }
+
+    public with(change: { path?: string }): Uri {
+        return change.path !== undefined ? new Uri(this.scheme, change.path) : this;
+    }
+
+    public toString(): string {
+        return `${this.scheme}://${this.path}`;
+    }
+}
+
+class RelativePattern {
+    public readonly baseUri: Uri;
+
+    constructor(base: Uri | string | { uri: Uri }, public readonly pattern: string) {
+        this.baseUri = typeof base === 'string' ? Uri.file(base) : base instanceof Uri ? base : base.uri;
+    }
+}
+
+const noopEvent = () => new Disposable();
+
+/**
+ * `**`, `*`, `?` and `{a,b}` globs, matched against `/`-separated relative paths
+ */
+export function globToRegExp(glob: string): RegExp {
+    let source = '';
+    for (let index = 0; index < glob.length; index++) {
+        const char = glob[index];
+        if (char === '*' && glob[index + 1] === '*') {
+            const slash = glob[index + 2] === '/';
+            source += slash ? '(?:.*/)?' : '.*';
+            index += slash ? 2 : 1;
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '{') {
+            source += '(?:';
+        } else if (char === '}') {
+            source += ')';
+        } else if (char === ',') {
+            source += '|';
+        } else {
+            source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+async function walk(dir: string, root: string, matches: (relative: string) => boolean, found: string[]): Promise<void> {
+    let entries: fs.Dirent[];
+    try {
+        entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch {
+        return;
+    }
+    for (const entry of entries) {
+        const full = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            if (entry.name !== 'node_modules' && entry.name !== '.git') {
+                await walk(full, root, matches, found);
+            }
+        } else if (matches(path.relative(root, full).split(path.sep).join('/'))) {
+            found.push(full);
+        }
+    }
+}
+
+function createConfiguration(host: CliHost, section?: string) {
+    const settingKey = (key: string) => {
+        const full = section ? `${section}.${key}` : key;
+        return full.startsWith('promptRefiner.') ? full.slice('promptRefiner.'.length) : undefined;
+    };
+    return {
+        get<T>(key: string, defaultValue?: T): T | undefined {
+            const name = settingKey(key);
+            if (name === undefined) return defaultValue;
+            const { settings, defaults } = host.config;
+            if (name in settings) return settings[name] as T;
+            if (name in defaults) return defaults[name] as T;
+            return defaultValue;
+        },
+        has(key: string): boolean {
+            const name = settingKey(key);
+            return name !== undefined && (name in host.config.settings || name in host.config.defaults);
+        },
+        inspect<T>(key: string) {
+            const name = settingKey(key);
+            if (name === undefined) return undefined;
+            // The config file plays the part of workspace settings
+            return {
+                key,
+                defaultValue: host.config.defaults[name] as T | undefined,
+                workspaceValue: host.config.settings[name] as T | undefined,
+            };
+        },
+        async update(key: string, value: unknown): Promise<void> {
+            // Only lives for this run; the config file is never rewritten
+            const name = settingKey(key);
+            if (name !== undefined) {
+                host.config.settings[name] = value;
+            }
+        },
+    };
+}
+
+/**
+ * Build the `vscode` module replacement for a CLI run
+ */
+export function createVscodeHost(host: CliHost): Record<string, unknown> {
+    const folder = () => ({ uri: Uri.file(host.cwd), name: path.basename(host.cwd), index: 0 });
+    const notify = (level: 'info' | 'warning' | 'error') => async (message: string) => {
+        host.notify(level, message);
+        return undefined;
+    };
+
+    return {
+        EventEmitter,
+        Disposable,
+        CancellationTokenSource,
+        Uri,
+        RelativePattern,
+        ConfigurationTarget: { Global: 1, Workspace: 2, WorkspaceFolder: 3 },
+        ProgressLocation: { SourceControl: 1, Window: 10, Notification: 15 },
+        StatusBarAlignment: { Left: 1, Right: 2 },
+        ViewColumn: { Active: -1, Beside: -2, One: 1 },
+        DiagnosticSeverity: { Error: 0, Warning: 1, Information: 2, Hint: 3 },
+        QuickPickItemKind: { Separator: -1, Default: 0 },
+        FileType: { Unknown: 0, File: 1, Directory: 2, SymbolicLink: 64 },
+        workspace: {
+            get workspaceFolders() {
+                return [folder()];
+            },
+            get name() {
+                return path.basename(host.cwd);
+            },
+            getConfiguration: (section?: string) => createConfiguration(host, section),
+            asRelativePath: (target: Uri | string) => path.relative(host.cwd, typeof target === 'string' ? target : target.fsPath),
+            findFiles: async (include: RelativePattern | string) => {
+                const base = typeof include === 'string' ? host.cwd : include.baseUri.fsPath;
+                const pattern = globToRegExp(typeof include === 'string' ? include : include.pattern);
+                const found: string[] = [];
+                await walk(base, base, relative => pattern.test(relative), found);
+                return found.map(file => Uri.file(file));
+            },
+            fs: {
+                readFile: async (uri: Uri) => new Uint8Array(await fs.promises.readFile(uri.fsPath)),
+                writeFile: (uri: Uri, content: Uint8Array) => fs.promises.writeFile(uri.fsPath, content),
+                createDirectory: async (uri: Uri) => {
+                    await fs.promises.mkdir(uri.fsPath, { recursive: true });
+                },
+                stat: async (uri: Uri) => {
+                    const stat = await fs.promises.stat(uri.fsPath);
+                    return { type: stat.isDirectory() ? 2 : 1, ctime: stat.ctimeMs, mtime: stat.mtimeMs, size: stat.size };
+                },
+            },
+            createFileSystemWatcher: () => ({
+                onDidCreate: noopEvent,
+                onDidChange: noopEvent,
+                onDidDelete: noopEvent,
+                dispose: () => undefined,
+            }),
+            onDidChangeConfiguration: noopEvent,
+            onDidChangeWorkspaceFolders: noopEvent,
+            onDidChangeTextDocument: noopEvent,
+            onDidOpenTextDocument: noopEvent,
+            onDidCloseTextDocument: noopEvent,
+        },
+        window: {
+            activeTextEditor: undefined,
+            showInformationMessage: notify('info'),
+            showWarningMessage: notify('warning'),
+            showErrorMessage: notify('error'),
+            showInputBox: async () => undefined,
+            showQuickPick: async () => undefined,
+            showOpenDialog: async () => undefined,
+            showSaveDialog: async () => undefined,
+            createOutputChannel: () => ({
+                append: () => undefined,
+                appendLine: () => undefined,
+                clear: () => undefined,
+                show: () => undefined,
+                dispose: () => undefined,
+            }),
+            createStatusBarItem: () => ({
+                show: () => undefined,
+                hide: () => undefined,
+                dispose: () => undefined,
+            }),
+            withProgress: <T>(_options: unknown, task: (progress: { report(value: unknown): void }, token: unknown) => Promise<T>) =>
+                task({ report: () => undefined }, new CancellationTokenSource().token),
+            onDidChangeActiveTextEditor: noopEvent,
+        },
+        commands: {
+            registerCommand: () => new Disposable(),
+            executeCommand: async () => undefined,
+        },
+        env: {
+            language: 'en',
+            clipboard: { readText: async () => '', writeText: async () => undefined },
+            openExternal: async () => false,
+        },
+    };
+}
+
+/**
+ * In-memory state plus environment-backed secrets: nothing a CLI run does is persisted
+ */
+export function createExtensionContext(host: CliHost): Record<string, unknown> {
+    const memento = () => {
+        const values = new Map<string, unknown>();
+        return {
+            keys: () => [...values.keys()],
+            get: <T>(key: string, defaultValue?: T) => (values.has(key) ? values.get(key) as T : defaultValue),
+            update: async (key: string, value: unknown) => {
+                values.set(key, value);
+            },
+            setKeysForSync: () => undefined,
+        };
+    };
+    const storage = Uri.file(path.join(os.tmpdir(), 'prompt-refiner-cli'));
+
+    return {
+        subscriptions: [],
+        extensionPath: host.root,
+        extensionUri: Uri.file(host.root),
+        asAbsolutePath: (relative: string) => path.join(host.root, relative),
+        globalState: memento(),
+        workspaceState: memento(),
+        globalStorageUri: storage,
+        storageUri: undefined,
+        logUri: storage,
+        extensionMode: 1,
+        secrets: {
+            // Keys are stored as `promptRefiner.<provider>.apiKey`
+            get: async (key: string) => {
+                const providerId = key.match(/^promptRefiner\.(.+)\.apiKey$/)?.[1];
+                return providerId ? getApiKeyFromEnv(providerId, host.env) : undefined;
+            },
+            store: async () => {
+                host.notify('warning', 'API keys are read from environment variables when running from the command line.');
+            },
+            delete: async () => undefined,
+            onDidChange: noopEvent,
+        },
+    };
+}
+
+const HOST_MODULE_ID = 'prompt-refiner:vscode-host';
+
+/**
+ * Make `require('vscode')` return the host for every module loaded from now on
+ */
+export function installVscodeHost(vscodeModule: Record<string, unknown>): void {
+    const loader = Module as unknown as { _resolveFilename: (request: string, ...rest: unknown[]) => string };
+    const resolve = loader._resolveFilename;
+    loader._resolveFilename = function (this: unknown, request: string, ...rest: unknown[]) {
+        return request === 'vscode' ? HOST_MODULE_ID : resolve.call(this, request, ...rest);
+    };
+    const hostModule = new Module(HOST_MODULE_ID);
+    hostModule.filename = HOST_MODULE_ID;
+    hostModule.loaded = true;
+    hostModule.exports = vscodeModule;
+    require.cache[HOST_MODULE_ID] = hostModule;
+}
@@ -0,0 +1,94 @@
+import * as vscode from 'vscode';
+import { RefinementCacheStore, CachedRefinement } from '../services/RefinementCacheStore';
+import { refinementCache } from '../utils/Cache';
+import { logger } from '../services/Logger';
+
+const PREVIEW_LENGTH = 60;
+
+/**
+ * Commands to inspect and clear the refinement cache
+ */
+export function registerCacheCommands(context: vscode.ExtensionContext): void {
+    const store = RefinementCacheStore.getInstance();
+    store.initialize(context).catch(error => logger.error('Failed to load refinement cache', error as Error));
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('promptRefiner.manageCache', async () => {
+            const entries = store.list();
+            if (entries.length === 0) {
+                vscode.window.showInformationMessage('The refinement cache is empty.');
+                return;
+            }
+
+            const { bytes } = store.getStats();
+            type CacheItem = vscode.QuickPickItem & { entry?: CachedRefinement };
+            const items: CacheItem[] = [
+                { label: `$(trash) Clear all ${entries.length} entries`, description: `${(bytes / 1024).toFixed(1)} KB on disk` },
+                { label: '', kind: vscode.QuickPickItemKind.Separator },
+                ...entries.map(entry => ({
+                    label: preview(entry.prompt),
+                    description: `${entry.provider} / ${entry.model}`,
+                    detail: `${entry.hits} hit(s) · last used ${new Date(entry.lastUsedAt).toLocaleString()}`,
+                    entry,
+                })),
+            ];
+
+            const picked = await vscode.window.showQuickPick(items, {
+                placeHolder: 'Cached refinements (most recently used first)',
+                matchOnDescription: true,
+            });
+            if (!picked) return;
+
+            if (!picked.entry) {
+                await vscode.commands.executeCommand('promptRefiner.clearCache');
+                return;
+            }
+            await showEntryActions(picked.entry);
+        }),
+
+        vscode.commands.registerCommand('promptRefiner.clearCache', async () => {
+            const confirm = await vscode.window.showWarningMessage(
+                'Clear all cached refinements?',
+                { modal: true },
+                'Clear'
+            );
+            if (confirm !== 'Clear') return;
+
+            store.clear();
+            refinementCache.clear();
+            vscode.window.showInformationMessage('Refinement cache cleared');
+        })
+    );
+}
+
+async function showEntryActions(entry: CachedRefinement): Promise<void> {
+    const action = await vscode.window.showQuickPick(
+        [
+            { label: '$(go-to-file) Open Refinement', action: 'open' as const },
+            { label: '$(copy) Copy Refinement', action: 'copy' as const },
+            { label: '$(trash) Delete Entry', action: 'delete' as const },
+        ],
+        { placeHolder: preview(entry.prompt) }
+    );
+    if (!action) return;
+
+    if (action.action === 'open') {
+        const document = await vscode.workspace.openTextDocument({
+            content: `<!-- Prompt:\n${entry.prompt}\n-->\n\n${entry.refined}`,
+            language: 'markdown',
+        });
+        await vscode.window.showTextDocument(document);
+    } else if (action.action === 'copy') {
+        await vscode.env.clipboard.writeText(entry.refined);
+        vscode.window.showInformationMessage('Cached refinement copied to clipboard');
+    } else {
+        RefinementCacheStore.getInstance().delete(entry.key);
+        refinementCache.delete(entry.key);
+        vscode.window.showInformationMessage('Cache entry deleted');
+    }
+}
+
+function preview(prompt: string): string {
+    const flat = prompt.replace(/\s+/g, ' ').trim();
+    return flat.length > PREVIEW_LENGTH ? `${flat.slice(0, PREVIEW_LENGTH)}...` : flat;
+}
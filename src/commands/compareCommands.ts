@@ -0,0 +1,97 @@
+import * as vscode from 'vscode';
+import { ConfigurationManager } from '../services/ConfigurationManager';
+import { logger } from '../services/Logger';
+import { getUiModelsForProvider, getDefaultUiModelId } from '../utils/ModelMappings';
+import { ComparePanel, CompareTarget } from '../views/ComparePanel';
+
+const MIN_COMPARE_TARGETS = 2;
+const MAX_COMPARE_TARGETS = 4;
+
+/**
+ * Commands for comparing refinements across models
+ * @param onWinnerSaved Called after a comparison result is saved to the active session
+ */
+export function registerCompareCommands(
+    context: vscode.ExtensionContext,
+    onWinnerSaved?: () => void | Promise<void>
+): void {
+    context.subscriptions.push(
+        vscode.commands.registerCommand('promptRefiner.compareRefinements', async (initialPrompt?: string) => {
+            const prompt = initialPrompt?.trim() || await resolvePrompt();
+            if (!prompt) return;
+
+            const targets = await pickCompareTargets();
+            if (!targets) return;
+
+            logger.info('Starting refinement comparison', {
+                textLength: prompt.length,
+                targets: targets.map(t => `${t.providerId}:${t.modelId}`),
+            });
+            ComparePanel.show(prompt, targets, onWinnerSaved);
+        })
+    );
+}
+
+/**
+ * Use the editor selection, otherwise ask for the prompt
+ */
+async function resolvePrompt(): Promise<string | undefined> {
+    const editor = vscode.window.activeTextEditor;
+    const selected = editor ? editor.document.getText(editor.selection).trim() : '';
+    if (selected) {
+        return selected;
+    }
+
+    const typed = await vscode.window.showInputBox({
+        prompt: 'Prompt to refine with several models',
+        placeHolder: 'e.g., Write a function that parses CSV files',
+        ignoreFocusOut: true,
+    });
+    return typed?.trim() || undefined;
+}
+
+/**
+ * Let the user choose which provider/model pairs to compare (configured providers only)
+ */
+async function pickCompareTargets(): Promise<CompareTarget[] | undefined> {
+    const config = ConfigurationManager.getInstance();
+    const providers = (await config.getAllProvidersConfigurationStatus())
+        .filter(p => p.isConfigured && p.id !== 'mock');
+
+    const items = providers.flatMap(p => {
+        const models = getUiModelsForProvider(p.id);
+        const choices = models.length > 0
+            ? models
+            : [{ id: getDefaultUiModelId(p.id), name: getDefaultUiModelId(p.id), description: '' }];
+        return choices.map(m => ({
+            label: `${p.name}: ${m.name}`,
+            description: m.description,
+            target: { providerId: p.id, modelId: m.id, label: `${p.name}: ${m.name}` } as CompareTarget,
+        }));
+    });
+
+    if (items.length < MIN_COMPARE_TARGETS) {
+        const action = await vscode.window.showWarningMessage(
+            'Comparing needs at least two configured models. Add an API key for another provider first.',
+            'Set API Key'
+        );
+        if (action === 'Set API Key') {
+            await vscode.commands.executeCommand('promptRefiner.setApiKey');
+        }
+        return undefined;
+    }
+
+    const selected = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        placeHolder: `Pick ${MIN_COMPARE_TARGETS}-${MAX_COMPARE_TARGETS} models to compare`,
+        title: 'Prompt Refiner: Compare Refinements',
+    });
+    if (!selected) return undefined;
+
+    if (selected.length < MIN_COMPARE_TARGETS || selected.length > MAX_COMPARE_TARGETS) {
+        vscode.window.showWarningMessage(`Select between ${MIN_COMPARE_TARGETS} and ${MAX_COMPARE_TARGETS} models to compare.`);
+        return undefined;
+    }
+
+    return selected.map(item => item.target);
+}
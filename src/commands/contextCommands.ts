@@ -0,0 +1,67 @@
+import * as vscode from 'vscode';
+import { EditorContextCollector } from '../services/EditorContextCollector';
+import { ConfigurationManager } from '../services/ConfigurationManager';
+import { logger } from '../services/Logger';
+
+/**
+ * Commands for the editor context attached to refinements
+ */
+export function registerContextCommands(context: vscode.ExtensionContext): void {
+    const collector = EditorContextCollector.getInstance();
+    collector.initialize(context);
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('promptRefiner.pickContextFiles', async () => {
+            const current = collector.getPickedFiles();
+
+            let action: 'add' | 'replace' | 'clear' = 'replace';
+            if (current.length > 0) {
+                const picked = await vscode.window.showQuickPick([
+                    { label: '$(add) Add files...', action: 'add' as const },
+                    { label: '$(replace-all) Replace files...', action: 'replace' as const },
+                    {
+                        label: '$(clear-all) Clear context files',
+                        description: current.map(uri => vscode.workspace.asRelativePath(uri)).join(', '),
+                        action: 'clear' as const,
+                    },
+                ], { placeHolder: `${current.length} file(s) attached to refinements` });
+                if (!picked) return;
+                action = picked.action;
+            }
+
+            if (action === 'clear') {
+                await collector.setPickedFiles([]);
+                vscode.window.showInformationMessage('Context files cleared');
+                return;
+            }
+
+            const uris = await vscode.window.showOpenDialog({
+                canSelectMany: true,
+                canSelectFolders: false,
+                defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+                openLabel: 'Use as Context',
+            });
+            if (!uris?.length) return;
+
+            const files = action === 'add' ? [...current, ...uris] : uris;
+            await collector.setPickedFiles(files);
+            logger.info('Context files picked', { count: files.length });
+
+            if (!ConfigurationManager.getInstance().getEditorContextSettings().enabled) {
+                const enable = await vscode.window.showInformationMessage(
+                    'Context files are only sent when editor context is enabled.',
+                    'Enable'
+                );
+                if (enable === 'Enable') {
+                    await vscode.workspace.getConfiguration('promptRefiner').update(
+                        'editorContext.enabled',
+                        true,
+                        vscode.ConfigurationTarget.Global
+                    );
+                }
+            } else {
+                vscode.window.showInformationMessage(`${files.length} context file(s) will be attached to refinements`);
+            }
+        })
+    );
+}
@@ -0,0 +1,172 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigurationManager } from '../services/ConfigurationManager';
+import { PromptRefinerService } from '../services/PromptRefinerService';
+import { logger } from '../services/Logger';
+import { getDefaultUiModelId } from '../utils/ModelMappings';
+import { EvalReport, compareWithBaseline, parseDataset, runEvaluation } from '../utils/evaluation';
+import { renderEvaluationHtml } from '../utils/evaluationReport';
+
+const DEFAULT_DATASET_GLOB = '**/*.eval.jsonl';
+
+/**
+ * Commands to run golden datasets through the refiner and compare runs with a baseline
+ */
+export function registerEvaluationCommands(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+        vscode.commands.registerCommand('promptRefiner.runEvaluation', async (datasetUri?: vscode.Uri) => {
+            const datasetPath = datasetUri?.fsPath ?? await pickDataset();
+            if (!datasetPath) return;
+
+            const target = await pickTarget();
+            if (!target) return;
+
+            let cases;
+            try {
+                cases = parseDataset(await fs.promises.readFile(datasetPath, 'utf8'), datasetPath);
+            } catch (error) {
+                vscode.window.showErrorMessage((error as Error).message);
+                return;
+            }
+            if (cases.length === 0) {
+                vscode.window.showWarningMessage(`${path.basename(datasetPath)} has no evaluation cases.`);
+                return;
+            }
+
+            const service = PromptRefinerService.getInstance();
+            const report = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Evaluating ${path.basename(datasetPath)}`,
+                cancellable: true,
+            }, (progress, token) => runEvaluation(
+                cases,
+                evalCase => service.refineWithModel(evalCase.prompt, target.providerId, target.modelId, token, {
+                    templateId: evalCase.template,
+                    roleId: evalCase.role,
+                }),
+                {
+                    dataset: path.basename(datasetPath),
+                    provider: target.providerId,
+                    model: target.modelId,
+                    isCancelled: () => token.isCancellationRequested,
+                    onProgress: (done, total, caseId) => progress.report({
+                        message: `${done + 1}/${total}: ${caseId}`,
+                        increment: 100 / total,
+                    }),
+                }
+            ));
+
+            const baselinePath = getBaselinePath(datasetPath);
+            const baseline = await readReport(baselinePath);
+            if (baseline) {
+                report.comparison = compareWithBaseline(report, baseline);
+            }
+            const htmlPath = await writeReport(datasetPath, report);
+            logger.info('Evaluation finished', { dataset: report.dataset, ...report.summary, regressed: report.comparison?.regressed, htmlPath });
+
+            const { summary, comparison } = report;
+            const message = `Evaluation: ${summary.passed}/${summary.total} passed, average score ${summary.averageScore}`
+                + (comparison ? ` (${comparison.improved} improved, ${comparison.regressed} regressed vs baseline)` : '');
+            const show = comparison?.regressed ? vscode.window.showWarningMessage : vscode.window.showInformationMessage;
+            const action = await show(message, 'Open Report', 'Save as Baseline');
+            if (action === 'Open Report') {
+                showReport(report);
+            } else if (action === 'Save as Baseline') {
+                await saveBaseline(baselinePath, report);
+            }
+        })
+    );
+}
+
+async function pickDataset(): Promise<string | undefined> {
+    const glob = vscode.workspace.getConfiguration('promptRefiner')
+        .get<string>('evaluation.datasets', DEFAULT_DATASET_GLOB)?.trim() || DEFAULT_DATASET_GLOB;
+    const files = await vscode.workspace.findFiles(glob, '**/node_modules/**');
+
+    if (files.length === 0) {
+        const picked = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            filters: { 'Evaluation dataset': ['jsonl'] },
+            openLabel: 'Evaluate',
+        });
+        return picked?.[0]?.fsPath;
+    }
+    if (files.length === 1) {
+        return files[0].fsPath;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        files.map(file => ({ label: vscode.workspace.asRelativePath(file), fsPath: file.fsPath })),
+        { placeHolder: 'Dataset to evaluate' }
+    );
+    return picked?.fsPath;
+}
+
+/**
+ * Provider/model to evaluate with; the current selection comes first
+ */
+async function pickTarget(): Promise<{ providerId: string; modelId: string } | undefined> {
+    const config = ConfigurationManager.getInstance();
+    const currentProvider = config.getProviderId();
+    const providers = (await config.getAllProvidersConfigurationStatus()).filter(p => p.isConfigured);
+
+    const items = providers.map(p => {
+        const modelId = p.id === currentProvider ? config.getModelId() : getDefaultUiModelId(p.id);
+        return {
+            label: p.name,
+            description: p.id === currentProvider ? `${modelId} (current)` : modelId,
+            target: { providerId: p.id, modelId },
+        };
+    }).sort((a, b) => Number(b.target.providerId === currentProvider) - Number(a.target.providerId === currentProvider));
+
+    const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Refine the dataset with (Mock and Ollama work offline)',
+    });
+    return picked?.target;
+}
+
+function getBaselinePath(datasetPath: string): string {
+    return datasetPath.replace(/(\.eval)?\.jsonl$/i, '') + '.baseline.json';
+}
+
+async function readReport(filePath: string): Promise<EvalReport | undefined> {
+    try {
+        return JSON.parse(await fs.promises.readFile(filePath, 'utf8')) as EvalReport;
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            logger.warn('Could not read evaluation baseline', { filePath, error: (error as Error).message });
+        }
+        return undefined;
+    }
+}
+
+/**
+ * Write the JSON and HTML report next to the dataset, under `reports/`; returns the HTML path
+ */
+async function writeReport(datasetPath: string, report: EvalReport): Promise<string> {
+    const dir = path.join(path.dirname(datasetPath), 'reports');
+    const name = `${path.basename(datasetPath).replace(/(\.eval)?\.jsonl$/i, '')}-${report.startedAt.replace(/[:.]/g, '-')}`;
+    await fs.promises.mkdir(dir, { recursive: true });
+    await fs.promises.writeFile(path.join(dir, `${name}.json`), JSON.stringify(report, null, 2), 'utf8');
+    const htmlPath = path.join(dir, `${name}.html`);
+    await fs.promises.writeFile(htmlPath, renderEvaluationHtml(report), 'utf8');
+    return htmlPath;
+}
+
+async function saveBaseline(baselinePath: string, report: EvalReport): Promise<void> {
+    // The comparison is against the previous baseline, which this one replaces
+    const baseline: EvalReport = { ...report, comparison: undefined };
+    await fs.promises.writeFile(baselinePath, JSON.stringify(baseline, null, 2), 'utf8');
+    vscode.window.showInformationMessage(`Saved ${path.basename(baselinePath)} as the baseline for future runs.`);
+}
+
+function showReport(report: EvalReport): void {
+    const panel = vscode.window.createWebviewPanel(
+        'promptRefiner.evaluationReport',
+        `Evaluation: ${report.dataset}`,
+        vscode.ViewColumn.Active,
+        { enableScripts: false }
+    );
+    panel.webview.html = renderEvaluationHtml(report);
+}
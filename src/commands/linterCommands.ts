@@ -0,0 +1,44 @@
+import * as vscode from 'vscode';
+import { PromptLinter } from '../services/PromptLinter';
+import { promptBodyStartLine } from '../utils/promptLinter';
+
+/**
+ * Prompt linter diagnostics and the commands behind its quick fixes
+ */
+export function registerLinterCommands(context: vscode.ExtensionContext): void {
+    const linter = PromptLinter.getInstance();
+    linter.initialize(context);
+
+    context.subscriptions.push(
+        // Selects the prompt (without front matter) and runs the regular refine flow on it
+        vscode.commands.registerCommand('promptRefiner.refinePromptFile', async (uri?: vscode.Uri) => {
+            const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+            if (!target) {
+                vscode.window.showWarningMessage('Open a prompt file to refine.');
+                return;
+            }
+            const editor = await vscode.window.showTextDocument(target);
+            const document = editor.document;
+            const start = new vscode.Position(promptBodyStartLine(document.getText()), 0);
+            const end = document.lineAt(document.lineCount - 1).range.end;
+            editor.selection = new vscode.Selection(start, end);
+            await vscode.commands.executeCommand('promptRefiner.refineSelection');
+        }),
+
+        vscode.commands.registerCommand('promptRefiner.ignorePromptLintRule', async (uri: vscode.Uri, rule: string) => {
+            await linter.ignoreRule(uri, rule);
+        }),
+
+        vscode.commands.registerCommand('promptRefiner.resetPromptLintRules', async () => {
+            const uri = vscode.window.activeTextEditor?.document.uri;
+            if (!uri) return;
+            const ignored = linter.getIgnoredRules(uri);
+            if (ignored.length === 0) {
+                vscode.window.showInformationMessage('No prompt lint rules are ignored for this file.');
+                return;
+            }
+            await linter.resetIgnoredRules(uri);
+            vscode.window.showInformationMessage(`Prompt lint rules enabled again: ${ignored.join(', ')}`);
+        })
+    );
+}
@@ -0,0 +1,49 @@
+import * as vscode from 'vscode';
+import { WorkspacePluginLoader } from '../plugins/WorkspacePluginLoader';
+import { PluginManager } from '../plugins/PluginManager';
+import { logger } from '../services/Logger';
+import { PluginsViewProvider } from '../views/PluginsViewProvider';
+
+/**
+ * Loads the workspace plugins, again when the plugin folder setting changes or the workspace
+ * becomes trusted, and registers the Plugins view and the command that reloads them
+ */
+export function registerPluginCommands(context: vscode.ExtensionContext): void {
+    PluginManager.getInstance().initialize(context);
+    const loader = new WorkspacePluginLoader(context);
+    const pluginsView = new PluginsViewProvider();
+    const treeView = vscode.window.createTreeView(PluginsViewProvider.viewType, { treeDataProvider: pluginsView });
+    // Serializes reloads so an unload never overlaps a load
+    let pending: Promise<void> = Promise.resolve();
+    const reload = (askIfBlocked = false) => {
+        pending = pending
+            .then(() => loader.reload(askIfBlocked))
+            .catch(error => logger.error('Failed to load workspace plugins', error as Error));
+        return pending;
+    };
+
+    reload();
+
+    context.subscriptions.push(
+        loader,
+        pluginsView,
+        treeView,
+        treeView.onDidChangeCheckboxState(event => pluginsView.onDidChangeCheckboxState(event)),
+
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('promptRefiner.plugins.folder')) {
+                reload();
+            }
+        }),
+
+        vscode.workspace.onDidGrantWorkspaceTrust(() => reload()),
+
+        vscode.commands.registerCommand('promptRefiner.reloadPlugins', async () => {
+            await reload(true);
+            const loaded = PluginManager.getInstance().getLoadedPlugins();
+            vscode.window.showInformationMessage(loaded.length > 0
+                ? `Prompt Refiner plugins loaded: ${loaded.map(plugin => `${plugin.name} ${plugin.version}`).join(', ')}`
+                : `No Prompt Refiner plugins loaded. Put plugin files in ${loader.getPluginFolder() || 'the folder set in promptRefiner.plugins.folder'}.`);
+        })
+    );
+}
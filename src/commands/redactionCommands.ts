@@ -0,0 +1,75 @@
+import * as vscode from 'vscode';
+import { ConfigurationManager } from '../services/ConfigurationManager';
+import { Redaction, Redactor, buildDetectors, maskValue } from '../utils/redaction';
+
+/** A fence longer than any backtick run in the text, so the text can't close it */
+function fence(text: string): string {
+    const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map(run => run.length));
+    return '`'.repeat(Math.max(3, longest + 1));
+}
+
+function formatPreview(redacted: string, redactions: Redaction[], notes: string[]): string {
+    const lines = ['# Redaction Preview', '', ...notes.flatMap(note => [note, ''])];
+    if (redactions.length === 0) {
+        lines.push('Nothing to redact: no secrets or personal data were found.', '');
+    } else {
+        lines.push(
+            `${redactions.length} value(s) are replaced before the text leaves this machine, and put back in the refined prompt.`,
+            '',
+            '| Placeholder | Detector | Kind | Value |',
+            '|-------------|----------|------|-------|',
+            ...redactions.map(r => `| \`${r.placeholder}\` | ${r.detector} | ${r.kind} | \`${maskValue(r.value).replace(/\|/g, '\\|')}\` |`),
+            ''
+        );
+    }
+    const marker = fence(redacted);
+    lines.push('## What the provider sees', '', `${marker}text`, redacted, marker, '');
+    return lines.join('\n');
+}
+
+/**
+ * Shows what redaction hides from the selection, or the whole file, before a refinement sends it
+ */
+export function registerRedactionCommands(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+        vscode.commands.registerCommand('promptRefiner.previewRedaction', async () => {
+            const editor = vscode.window.activeTextEditor;
+            let text = editor?.document.getText(editor.selection.isEmpty ? undefined : editor.selection);
+            if (!text?.trim()) {
+                text = await vscode.window.showInputBox({
+                    prompt: 'Text to check for secrets and personal data',
+                    ignoreFocusOut: true,
+                });
+            }
+            if (!text?.trim()) {
+                return;
+            }
+
+            const config = ConfigurationManager.getInstance();
+            const settings = config.getRedactionSettings();
+            const { detectors, invalid } = buildDetectors(settings.disabledDetectors, settings.customPatterns);
+            const redactor = new Redactor(detectors);
+            const redacted = redactor.redact(text);
+
+            const notes: string[] = [];
+            if (!settings.enabled) {
+                notes.push('> Redaction is off (`promptRefiner.redaction.enabled`), so prompts are sent as written. This is what it would hide.');
+            }
+            if (invalid.length > 0) {
+                notes.push(`> Skipped invalid custom patterns: ${invalid.join('; ')}`);
+            }
+            if (settings.enabled && redactor.hasSecrets() && settings.onSecret === 'blockCloud') {
+                const provider = config.getProviderId();
+                notes.push(config.isLocalProvider(provider)
+                    ? '> This text contains a secret, so only local providers will answer it.'
+                    : `> This text contains a secret and \`promptRefiner.redaction.onSecret\` is \`blockCloud\`: it will not be sent to ${provider}.`);
+            }
+
+            const document = await vscode.workspace.openTextDocument({
+                content: formatPreview(redacted, redactor.redactions, notes),
+                language: 'markdown',
+            });
+            await vscode.window.showTextDocument(document, { preview: true, viewColumn: vscode.ViewColumn.Beside });
+        })
+    );
+}
@@ -0,0 +1,107 @@
+import * as vscode from 'vscode';
+import { RoleManager } from '../services/RoleManager';
+import { logger } from '../services/Logger';
+import { ROLE_ID_PATTERN } from '../types/Role';
+
+/**
+ * Lowercase id from a role name, e.g. "SQL Reviewer" -> "sql-reviewer"
+ */
+function roleIdFromName(name: string): string {
+    return name
+        .toLowerCase()
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, 64);
+}
+
+/**
+ * Commands for defining custom roles
+ */
+export function registerRoleCommands(context: vscode.ExtensionContext): void {
+    const roleManager = RoleManager.getInstance();
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('promptRefiner.createRole', async () => {
+            const name = await vscode.window.showInputBox({
+                title: 'New Role (1/4)',
+                prompt: 'Role name',
+                placeHolder: 'e.g., SQL Reviewer',
+                ignoreFocusOut: true,
+                validateInput: (value) => {
+                    const id = roleIdFromName(value);
+                    if (!ROLE_ID_PATTERN.test(id)) {
+                        return 'Use at least one letter or digit';
+                    }
+                    const existing = roleManager.getRoleById(id);
+                    if (existing?.scope === 'builtin') {
+                        return `"${existing.name}" is a predefined role`;
+                    }
+                    return null;
+                },
+            });
+            if (!name) return;
+
+            const systemPrompt = await vscode.window.showInputBox({
+                title: 'New Role (2/4)',
+                prompt: 'How should this role refine prompts? The refinement-mode and language rules are added automatically.',
+                placeHolder: 'e.g., You apply a database lens: schema, indexes, query plans and data volume...',
+                ignoreFocusOut: true,
+                validateInput: (value) => value.trim() ? null : 'Instructions are required',
+            });
+            if (!systemPrompt) return;
+
+            const description = await vscode.window.showInputBox({
+                title: 'New Role (3/4)',
+                prompt: 'Short description (optional)',
+                ignoreFocusOut: true,
+            });
+            if (description === undefined) return;
+
+            const icon = await vscode.window.showInputBox({
+                title: 'New Role (4/4)',
+                prompt: 'Icon (optional, e.g. an emoji)',
+                placeHolder: '🧩',
+                ignoreFocusOut: true,
+            });
+            if (icon === undefined) return;
+
+            const scopes = [
+                { label: '$(account) User Settings', description: 'Available in every workspace', scope: 'global' as const },
+                ...(vscode.workspace.workspaceFolders?.length
+                    ? [{ label: '$(folder) Workspace Settings', description: 'Shared with this project', scope: 'workspace' as const }]
+                    : []),
+            ];
+            const target = scopes.length > 1
+                ? await vscode.window.showQuickPick(scopes, { placeHolder: 'Where should the role be saved?' })
+                : scopes[0];
+            if (!target) return;
+
+            const id = roleIdFromName(name);
+            try {
+                await roleManager.saveCustomRole({
+                    id,
+                    name: name.trim(),
+                    description: description.trim() || undefined,
+                    systemPrompt: systemPrompt.trim(),
+                    icon: icon.trim() || undefined,
+                }, target.scope);
+            } catch (error) {
+                logger.error('Failed to save custom role', error as Error, { id });
+                vscode.window.showErrorMessage(`Could not save role: ${(error as Error).message}`);
+                return;
+            }
+
+            const action = await vscode.window.showInformationMessage(
+                `Role "${name.trim()}" saved. Pick it when creating a new session.`,
+                'Edit in Settings'
+            );
+            if (action === 'Edit in Settings') {
+                await vscode.commands.executeCommand(target.scope === 'global'
+                    ? 'workbench.action.openSettingsJson'
+                    : 'workbench.action.openWorkspaceSettingsFile');
+            }
+        })
+    );
+}
@@ -0,0 +1,93 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { ConfigurationManager } from '../services/ConfigurationManager';
+import { logger } from '../services/Logger';
+import { RefinerServer } from '../server/RefinerServer';
+import { createRefinerMethods } from '../server/methods';
+
+const TOKEN_SECRET_KEY = 'promptRefiner.server.token';
+
+/**
+ * Starts the local JSON-RPC server while `promptRefiner.server.enabled` is on, and the commands
+ * that hand its URL and token to other tools
+ */
+export function registerServerCommands(context: vscode.ExtensionContext): void {
+    const methods = createRefinerMethods();
+    let server: RefinerServer | undefined;
+    // Serializes start/stop so quick setting toggles don't race
+    let pending: Promise<void> = Promise.resolve();
+
+    const getToken = async (): Promise<string> => {
+        const stored = await context.secrets.get(TOKEN_SECRET_KEY);
+        if (stored) {
+            return stored;
+        }
+        const token = crypto.randomBytes(32).toString('hex');
+        await context.secrets.store(TOKEN_SECRET_KEY, token);
+        return token;
+    };
+
+    const sync = () => {
+        pending = pending.then(async () => {
+            await server?.stop();
+            server = undefined;
+
+            const settings = ConfigurationManager.getInstance().getServerSettings();
+            if (!settings.enabled) {
+                return;
+            }
+            const candidate = new RefinerServer(methods, await getToken());
+            try {
+                await candidate.start(settings.port);
+                server = candidate;
+            } catch (error) {
+                logger.error('Failed to start the refiner server', error as Error);
+                vscode.window.showErrorMessage(`Prompt Refiner server could not start: ${(error as Error).message}`);
+            }
+        });
+        return pending;
+    };
+
+    sync();
+
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('promptRefiner.server')) {
+                sync();
+            }
+        }),
+
+        vscode.commands.registerCommand('promptRefiner.copyServerConnection', async () => {
+            await pending;
+            if (!server?.url) {
+                const enable = await vscode.window.showInformationMessage(
+                    'The Prompt Refiner server is off.',
+                    'Enable Server'
+                );
+                if (enable !== 'Enable Server') return;
+                await vscode.workspace.getConfiguration('promptRefiner').update('server.enabled', true, vscode.ConfigurationTarget.Global);
+                await sync();
+                if (!server?.url) return;
+            }
+
+            const connection = { url: server.url, token: await getToken() };
+            await vscode.env.clipboard.writeText(JSON.stringify(connection, null, 2));
+            vscode.window.showInformationMessage(`Server connection copied (${connection.url}). Keep the token private.`);
+        }),
+
+        vscode.commands.registerCommand('promptRefiner.regenerateServerToken', async () => {
+            const confirm = await vscode.window.showWarningMessage(
+                'Regenerate the server token? Tools using the current token will be rejected.',
+                { modal: true },
+                'Regenerate'
+            );
+            if (confirm !== 'Regenerate') return;
+
+            await context.secrets.delete(TOKEN_SECRET_KEY);
+            await sync();
+            vscode.window.showInformationMessage('Server token regenerated. Copy the connection again to update your tools.');
+        }),
+
+        { dispose: () => void server?.stop() }
+    );
+}
@@ -1,11 +1,19 @@
 import * as vscode from 'vscode';
 import { ConfigurationManager } from '../services/ConfigurationManager';
+import { getDefaultUiModelId } from '../utils/ModelMappings';
+import { listLanguageModels } from '../utils/languageModels';
+import { PROFILE_DEFAULT_MODEL } from '../utils/openaiCompatible';
+
+/** Providers whose secret isn't a plain API key */
+const API_KEY_PLACEHOLDERS: Record<string, string> = {
+    bedrock: 'ACCESS_KEY_ID:SECRET_ACCESS_KEY, plus :SESSION_TOKEN for temporary credentials',
+};
 
 export async function promptForApiKey(providerId: string) {
     const key = await vscode.window.showInputBox({
         title: `Enter API Key for ${providerId}`,
         password: true,
-        placeHolder: `Paste your ${providerId} API Key here`,
+        placeHolder: API_KEY_PLACEHOLDERS[providerId] ?? `Paste your ${providerId} API Key here`,
         ignoreFocusOut: true
     });
 
@@ -21,7 +29,13 @@ export async function setApiKeyCommand() {
         { label: 'OpenAI', id: 'openai' },
         { label: 'Google Gemini', id: 'gemini' },
         { label: 'Groq', id: 'groq' },
-        { label: 'Hugging Face', id: 'huggingface' }
+        { label: 'Hugging Face', id: 'huggingface' },
+        { label: 'Azure OpenAI', id: 'azure-openai' },
+        { label: 'AWS Bedrock', id: 'bedrock' },
+        ...ConfigurationManager.getInstance().getOpenAICompatibleProfiles().map(profile => ({
+            label: profile.name,
+            id: profile.providerId,
+        })),
     ];
 
     const selected = await vscode.window.showQuickPick(providers, {
@@ -35,6 +49,7 @@ export async function setApiKeyCommand() {
 }
 
 export async function selectModel() {
+    const config = ConfigurationManager.getInstance();
     const models = [
         // Free providers temporarily disabled
         // { label: '$(zap) GPT-4o Mini (Gratis - DDG)', description: 'gpt-4o-mini', provider: 'public' },
@@ -53,7 +68,29 @@ export async function selectModel() {
         // NOTE: LLaMA and Mistral models removed temporarily due to API name issues
         // { label: 'GitHub: LLaMA 3.1 70B', description: 'github-llama-3.1-70b', provider: 'github' },
         // { label: 'GitHub: Mistral Large', description: 'github-mistral-large', provider: 'github' },
-        { label: 'Ollama (Local)', description: 'custom', provider: 'ollama' }
+        { label: 'Ollama (Local)', description: 'custom', provider: 'ollama' },
+        // Models signed in through the editor (e.g. GitHub Copilot); no API key needed
+        ...(await listLanguageModels()).map(model => ({
+            label: `VS Code: ${model.name}`,
+            description: model.id,
+            provider: 'vscode-lm',
+        })),
+        ...config.getAzureOpenAISettings().deployments.map(deployment => ({
+            label: `Azure OpenAI: ${deployment}`,
+            description: deployment,
+            provider: 'azure-openai',
+        })),
+        ...config.getBedrockSettings().models.map(modelId => ({
+            label: `Bedrock: ${modelId}`,
+            description: modelId,
+            provider: 'bedrock',
+        })),
+        // Gateways from promptRefiner.openaiCompatible.profiles
+        ...config.getOpenAICompatibleProfiles().map(profile => ({
+            label: profile.name,
+            description: profile.defaultModel ?? PROFILE_DEFAULT_MODEL,
+            provider: profile.providerId,
+        })),
     ];
 
     const selected = await vscode.window.showQuickPick(models, {
@@ -62,7 +99,6 @@ export async function selectModel() {
     });
 
     if (selected) {
-        const config = ConfigurationManager.getInstance();
         await config.setProviderId(selected.provider);
         await config.setModelId(selected.description);
         vscode.window.showInformationMessage(`Model set to ${selected.label} (${selected.provider})`);
@@ -188,18 +224,7 @@ export async function switchProviderCommand() {
         await config.setProviderId(selected.id);
         
         // Set a default model for the new provider
-        const defaultModels: Record<string, string> = {
-            'github': 'github-gpt-4o',
-            'openai': 'gpt-4o',
-            'gemini': 'gemini-flash',
-            'groq': 'groq-llama3-70b',
-            'huggingface': 'bigscience/bloom',
-            'anthropic': 'claude-3-haiku',
-            'ollama': 'ollama-custom'
-        };
-        
-        const defaultModel = defaultModels[selected.id] || 'ollama-custom';
-        await config.setModelId(defaultModel);
+        await config.setModelId(getDefaultUiModelId(selected.id));
         
         vscode.window.showInformationMessage(`Switched to ${selected.label.replace('$(check) ', '')}`);
     }
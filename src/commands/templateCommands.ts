@@ -1,6 +1,61 @@
 import * as vscode from 'vscode';
-import { TemplateManager } from '../services/TemplateManager';
+import { TemplateManager, CustomTemplate } from '../services/TemplateManager';
+import { PromptLibrary } from '../services/PromptLibrary';
 import { logger } from '../services/Logger';
+import { getEffectiveVariables, validateVariableValue } from '../utils/templateVariables';
+import { ValidationRuleRegistry } from '../services/ValidationRuleRegistry';
+import { SessionManager } from '../services/SessionManager';
+import { ConfigurationManager } from '../services/ConfigurationManager';
+import { escapeHtml } from '../utils/html';
+
+const SCOPE_LABELS: Record<NonNullable<CustomTemplate['scope']>, string> = {
+    builtin: 'Built-in',
+    plugin: 'Plugin',
+    global: 'Global',
+    workspace: 'Workspace',
+};
+
+/**
+ * Ask for each `{{variable}}` of a template: a QuickPick for enum choices, an InputBox otherwise.
+ * Returns undefined if the user cancels any step.
+ */
+export async function promptForTemplateVariables(
+    template: CustomTemplate,
+    previous: Record<string, string> = {}
+): Promise<Record<string, string> | undefined> {
+    const variables = getEffectiveVariables(template.content, template.variables);
+    const values: Record<string, string> = {};
+
+    for (const [index, variable] of variables.entries()) {
+        const title = `${template.name}: ${variable.name} (${index + 1}/${variables.length})`;
+        const current = previous[variable.name] ?? variable.default;
+
+        if (variable.choices?.length && variable.type !== 'string' && variable.type !== 'number') {
+            const picked = await vscode.window.showQuickPick(
+                variable.choices.map(choice => ({
+                    label: choice,
+                    description: choice === current ? 'current' : undefined,
+                })),
+                { title, placeHolder: variable.description ?? `Choose ${variable.name}`, ignoreFocusOut: true }
+            );
+            if (!picked) return undefined;
+            values[variable.name] = picked.label;
+            continue;
+        }
+
+        const value = await vscode.window.showInputBox({
+            title,
+            prompt: variable.description ?? `Value for {{${variable.name}}}`,
+            value: current,
+            ignoreFocusOut: true,
+            validateInput: (input) => validateVariableValue(variable, input),
+        });
+        if (value === undefined) return undefined;
+        values[variable.name] = value;
+    }
+
+    return values;
+}
 
 /**
  * Commands for managing custom templates
@@ -17,7 +72,7 @@ export function registerTemplateCommands(context: vscode.ExtensionContext): void
             const items = templates.map(t => ({
                 label: `$(file-text) ${t.name}`,
                 description: t.description,
-                detail: `${t.isBuiltIn ? 'Built-in' : 'Custom'} • ${t.category}`,
+                detail: `${SCOPE_LABELS[t.scope ?? 'global']} • ${t.category}${t.role ? ` • ${t.role}` : ''}`,
                 template: t,
             }));
 
@@ -27,6 +82,13 @@ export function registerTemplateCommands(context: vscode.ExtensionContext): void
             });
 
             if (selected) {
+                const template = selected.template;
+                if (getEffectiveVariables(template.content, template.variables).length > 0) {
+                    const values = await promptForTemplateVariables(template, templateManager.getVariableValues(template.id));
+                    if (!values) return;
+                    await templateManager.setVariableValues(template.id, values);
+                }
+
                 // Store selected template in configuration
                 await vscode.workspace.getConfiguration('promptRefiner').update(
                     'selectedTemplate',
@@ -103,13 +165,24 @@ Maintain the original language of the user's prompt.`,
 
             if (!content) return;
 
+            // Workspace templates are files in the prompt library, shared through git
+            let scope: 'global' | 'workspace' = 'global';
+            if (vscode.workspace.workspaceFolders?.length) {
+                const picked = await vscode.window.showQuickPick([
+                    { label: '$(globe) Global', description: 'Only on this machine', scope: 'global' as const },
+                    { label: '$(repo) Workspace', description: `Saved to ${PromptLibrary.getInstance().getLibraryFolder()}/ and shared with your team`, scope: 'workspace' as const },
+                ], { placeHolder: 'Where should the template be saved?' });
+                if (!picked) return;
+                scope = picked.scope;
+            }
+
             try {
                 const template = await templateManager.createTemplate({
                     name: name.trim(),
                     description: description.trim(),
                     content: content.trim(),
                     category: category as any,
-                });
+                }, scope);
 
                 vscode.window.showInformationMessage(
                     `Template "${template.name}" created successfully!`
@@ -117,7 +190,7 @@ Maintain the original language of the user's prompt.`,
                 logger.info('Custom template created', { templateId: template.id });
             } catch (error) {
                 logger.error('Failed to create template', error as Error);
-                vscode.window.showErrorMessage('Failed to create template');
+                vscode.window.showErrorMessage(`Failed to create template: ${(error as Error).message}`);
             }
         })
     );
@@ -179,6 +252,76 @@ Maintain the original language of the user's prompt.`,
         })
     );
 
+    // Command: Open Prompt Library
+    context.subscriptions.push(
+        vscode.commands.registerCommand('promptRefiner.openPromptLibrary', async () => {
+            const library = PromptLibrary.getInstance();
+            const [templates, prompts] = await Promise.all([library.getTemplates(), library.getPrompts()]);
+
+            if (templates.length === 0 && prompts.length === 0) {
+                vscode.window.showInformationMessage(
+                    `The workspace prompt library is empty. Add Markdown files to ${library.getLibraryFolder()}/ or save a prompt to it.`
+                );
+                return;
+            }
+
+            const items = [
+                ...templates.map(t => ({
+                    label: `$(file-text) ${t.name}`,
+                    description: t.description,
+                    detail: `Template • ${t.category}${t.role ? ` • ${t.role}` : ''}`,
+                    filePath: t.filePath,
+                })),
+                ...prompts.map(p => ({
+                    label: `$(comment) ${p.name}`,
+                    description: p.description,
+                    detail: `Prompt • ${p.category}${p.tags.length ? ` • ${p.tags.join(', ')}` : ''}`,
+                    filePath: p.filePath,
+                })),
+            ];
+
+            const selected = await vscode.window.showQuickPick(items, {
+                placeHolder: 'Open a prompt library file',
+                title: 'Workspace Prompt Library',
+                matchOnDescription: true,
+                matchOnDetail: true,
+            });
+            if (selected?.filePath) {
+                await vscode.window.showTextDocument(vscode.Uri.file(selected.filePath));
+            }
+        })
+    );
+
+    // Command: Save Prompt to Library
+    context.subscriptions.push(
+        vscode.commands.registerCommand('promptRefiner.saveToPromptLibrary', async (initialText?: string) => {
+            const editor = vscode.window.activeTextEditor;
+            const text = initialText ?? (editor ? editor.document.getText(editor.selection) : '');
+            if (!text.trim()) {
+                vscode.window.showWarningMessage('Please select a prompt to save');
+                return;
+            }
+
+            const name = await vscode.window.showInputBox({
+                prompt: 'Prompt name',
+                placeHolder: 'e.g., Refactor auth middleware',
+                validateInput: (value) => (value.trim() ? null : 'Name is required'),
+            });
+            if (!name) return;
+
+            try {
+                const uri = await PromptLibrary.getInstance().savePrompt({ name: name.trim(), content: text.trim() });
+                const action = await vscode.window.showInformationMessage(`Prompt "${name.trim()}" saved to the workspace library`, 'Open');
+                if (action === 'Open') {
+                    await vscode.window.showTextDocument(uri);
+                }
+            } catch (error) {
+                logger.error('Failed to save prompt to library', error as Error);
+                vscode.window.showErrorMessage(`Failed to save prompt: ${(error as Error).message}`);
+            }
+        })
+    );
+
     // Command: Re-refine with Feedback
     context.subscriptions.push(
         vscode.commands.registerCommand('promptRefiner.reRefine', async () => {
@@ -226,8 +369,14 @@ Maintain the original language of the user's prompt.`,
                 return;
             }
 
-            const { OutputValidator } = await import('../utils/OutputValidator');
-            const result = OutputValidator.validate(text, true);
+            // Same rule set a refinement with the selected template and the session's role would use
+            const registry = ValidationRuleRegistry.getInstance();
+            const activeSession = await SessionManager.getInstance().getActiveSession();
+            const ruleSet = await registry.resolve({
+                templateId: ConfigurationManager.getInstance().getSelectedTemplateId(),
+                roleId: activeSession?.metadata.role,
+            });
+            const result = registry.validateWith(text, true, ruleSet);
 
             const panel = vscode.window.createWebviewPanel(
                 'validationResult',
@@ -257,14 +406,19 @@ Maintain the original language of the user's prompt.`,
                     <div class="score ${result.score >= 80 ? 'good' : result.score >= 60 ? 'warning' : 'bad'}">
                         Score: ${result.score}/100
                     </div>
+                    <div class="section">
+                        Rule set: <strong>${escapeHtml(ruleSet.ruleSet.name)}</strong> (<code>${escapeHtml(ruleSet.ruleSet.id)}</code>, ${ruleSet.source}),
+                        pass mark ${ruleSet.ruleSet.passScore ?? 70}
+                    </div>
                     
                     ${result.issues.length > 0 ? `
                     <div class="section">
                         <h3>Issues (${result.issues.length})</h3>
                         ${result.issues.map(i => `
                             <div class="issue ${i.type}">
-                                <strong>${i.type.toUpperCase()}:</strong> ${i.message}
-                                ${i.section ? `<br><em>Section: ${i.section}</em>` : ''}
+                                <strong>${i.type.toUpperCase()}:</strong> ${escapeHtml(i.message)}
+                                ${i.section ? `<br><em>Section: ${escapeHtml(i.section)}</em>` : ''}
+                                ${i.rule ? `<br><em>Rule: <code>${escapeHtml(i.rule)}</code></em>` : ''}
                             </div>
                         `).join('')}
                     </div>
@@ -274,7 +428,7 @@ Maintain the original language of the user's prompt.`,
                     <div class="section">
                         <h3>Suggestions</h3>
                         <ul>
-                            ${result.suggestions.map(s => `<li>${s}</li>`).join('')}
+                            ${result.suggestions.map(s => `<li>${escapeHtml(s)}</li>`).join('')}
                         </ul>
                     </div>
                     ` : ''}
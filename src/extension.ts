@@ -3,16 +3,31 @@ import * as path from 'path';
 import { PromptRefinerService } from './services/PromptRefinerService';
 import { selectModel, setApiKeyCommand, showProvidersStatus, clearApiKeyCommand, switchProviderCommand } from './commands/settingsCommands';
 import { registerTemplateCommands } from './commands/templateCommands';
+import { registerCompareCommands } from './commands/compareCommands';
+import { registerContextCommands } from './commands/contextCommands';
+import { registerCacheCommands } from './commands/cacheCommands';
+import { registerRoleCommands } from './commands/roleCommands';
+import { registerLinterCommands } from './commands/linterCommands';
+import { registerEvaluationCommands } from './commands/evaluationCommands';
+import { registerServerCommands } from './commands/serverCommands';
+import { registerPluginCommands } from './commands/pluginCommands';
+import { registerRedactionCommands } from './commands/redactionCommands';
+import { createPromptRefinerApi, PromptRefinerApi } from './plugins/extensionApi';
 import { ConfigurationManager } from './services/ConfigurationManager';
 import { ChatViewProvider } from './views/ChatViewProvider';
 import { SettingsViewProvider } from './views/SettingsViewProvider';
 import { logger } from './services/Logger';
 import { ErrorHandler } from './utils/ErrorHandler';
 import { Analytics } from './services/Analytics';
+import { EditorContextCollector } from './services/EditorContextCollector';
+import { BudgetManager } from './services/BudgetManager';
+import { describeBudgetStatus } from './utils/budget';
+import { RefinementContext } from './types/RefinementContext';
 
 let statusBarItem: vscode.StatusBarItem;
+let budgetStatusBarItem: vscode.StatusBarItem;
 
-export function activate(context: vscode.ExtensionContext) {
+export function activate(context: vscode.ExtensionContext): PromptRefinerApi {
     // Initialize logger
     logger.initialize(context);
     logger.info('AI Prompt Refiner extension activating...');
@@ -47,8 +62,16 @@ export function activate(context: vscode.ExtensionContext) {
     updateStatusBarItem();
     statusBarItem.show();
 
+    // Budget indicator sits right of the model item and only shows when caps are configured
+    const budget = BudgetManager.getInstance();
+    budget.initialize(context);
+    budgetStatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 99);
+    budgetStatusBarItem.command = { title: 'Budget Settings', command: 'workbench.action.openSettings', arguments: ['promptRefiner.budget'] };
+    context.subscriptions.push(budgetStatusBarItem, budget.onDidChangeUsage(() => updateBudgetStatusItem()));
+    updateBudgetStatusItem();
+
     // Register Command
-    const disposable = vscode.commands.registerCommand('promptRefiner.refineSelection', async () => {
+    const refineSelection = async (bypassCache: boolean) => {
         const editor = vscode.window.activeTextEditor;
         if (!editor) {
             vscode.window.showWarningMessage('No active editor found.');
@@ -65,6 +88,18 @@ export function activate(context: vscode.ExtensionContext) {
             return;
         }
 
+        // Opt-in: attach language, symbols, diagnostics and picked files
+        let refinementContext: RefinementContext | undefined;
+        const contextSettings = config.getEditorContextSettings();
+        if (contextSettings.enabled) {
+            const collector = EditorContextCollector.getInstance();
+            refinementContext = await collector.collect(editor, contextSettings);
+            if (contextSettings.preview) {
+                refinementContext = await collector.preview(refinementContext);
+                if (!refinementContext) return;
+            }
+        }
+
         // UX: Show progress with cancellation support
         await vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
@@ -78,7 +113,7 @@ export function activate(context: vscode.ExtensionContext) {
             });
 
             try {
-                const result = await service.refine(text, token);
+                const result = await service.refine(text, token, { context: refinementContext, bypassCache });
 
                 if (token.isCancellationRequested) {
                     logger.info('Prompt refinement cancelled by user');
@@ -105,11 +140,15 @@ export function activate(context: vscode.ExtensionContext) {
                 );
 
                 // 4. Show action buttons after diff view opens
+                const answeredBy = result.provider !== config.getProviderId()
+                    ? ` (answered by fallback provider ${result.provider})`
+                    : '';
                 const action = await vscode.window.showInformationMessage(
-                    'Prompt refined successfully! What would you like to do?',
+                    `Prompt refined successfully${answeredBy}! What would you like to do?`,
                     { modal: false },
                     'Copy to Clipboard',
                     'Apply to Editor',
+                    'Save to Library',
                     'Dismiss'
                 );
 
@@ -127,6 +166,8 @@ export function activate(context: vscode.ExtensionContext) {
                     } else {
                         vscode.window.showWarningMessage('Could not apply refined prompt to the original document.');
                     }
+                } else if (action === 'Save to Library') {
+                    await vscode.commands.executeCommand('promptRefiner.saveToPromptLibrary', refinedText);
                 } else {
                     logger.info('User dismissed refined prompt');
                 }
@@ -175,7 +216,11 @@ export function activate(context: vscode.ExtensionContext) {
                 }
             }
         });
-    });
+    };
+    const disposable = vscode.commands.registerCommand('promptRefiner.refineSelection', () => refineSelection(false));
+    context.subscriptions.push(
+        vscode.commands.registerCommand('promptRefiner.refineSelectionBypassCache', () => refineSelection(true))
+    );
 
     // Register Text Document Content Provider for 'prompt-refiner' scheme
     const myProvider = new class implements vscode.TextDocumentContentProvider {
@@ -236,9 +281,28 @@ export function activate(context: vscode.ExtensionContext) {
         vscode.window.showInformationMessage('✅ Supported models refreshed successfully!');
     }));
 
+    // Copilot sign-in and model-providing extensions change the vscode.lm models at runtime
+    if (vscode.lm?.onDidChangeChatModels) {
+        context.subscriptions.push(vscode.lm.onDidChangeChatModels(async () => {
+            const { ModelRegistry } = await import('./services/ModelRegistry');
+            await ModelRegistry.getInstance().forceRefreshProvider('vscode-lm').catch(() => undefined);
+        }));
+    }
+
     // Register Template Commands
     registerTemplateCommands(context);
 
+    // Register Compare Commands (winner is saved to the active session, so refresh the chat)
+    registerCompareCommands(context, () => chatProvider.refresh());
+    registerContextCommands(context);
+    registerCacheCommands(context);
+    registerRoleCommands(context);
+    registerLinterCommands(context);
+    registerEvaluationCommands(context);
+    registerServerCommands(context);
+    registerPluginCommands(context);
+    registerRedactionCommands(context);
+
     // Register Save as Snippet Command
     context.subscriptions.push(vscode.commands.registerCommand('promptRefiner.saveAsSnippet', async () => {
         const editor = vscode.window.activeTextEditor;
@@ -370,7 +434,13 @@ export function activate(context: vscode.ExtensionContext) {
         if (e.affectsConfiguration('promptRefiner.model') || e.affectsConfiguration('promptRefiner.provider')) {
             updateStatusBarItem();
         }
+        if (e.affectsConfiguration('promptRefiner.budget') || e.affectsConfiguration('promptRefiner.provider')) {
+            updateBudgetStatusItem();
+        }
     }));
+
+    // Other extensions contribute plugins through this
+    return createPromptRefinerApi();
 }
 
 function updateStatusBarItem(): void {
@@ -392,6 +462,30 @@ function updateStatusBarItem(): void {
     statusBarItem.tooltip.isTrusted = true;
 }
 
+function updateBudgetStatusItem(): void {
+    const provider = ConfigurationManager.getInstance().getProviderId();
+    const check = BudgetManager.getInstance().check(provider);
+    if (check.statuses.length === 0) {
+        budgetStatusBarItem.hide();
+        return;
+    }
+
+    const remaining = Math.round(check.statuses[0].remaining * 100);
+    const icon = check.exceeded.length > 0 ? '$(error)' : check.warnings.length > 0 ? '$(warning)' : '$(pulse)';
+    budgetStatusBarItem.text = `${icon} ${remaining}% left`;
+    budgetStatusBarItem.backgroundColor = check.exceeded.length > 0
+        ? new vscode.ThemeColor('statusBarItem.errorBackground')
+        : check.warnings.length > 0 ? new vscode.ThemeColor('statusBarItem.warningBackground') : undefined;
+
+    budgetStatusBarItem.tooltip = new vscode.MarkdownString(
+        `**Prompt Refiner budget** (${provider})\n\n` +
+        check.statuses.map(status => `- ${describeBudgetStatus(status)}`).join('\n') +
+        '\n\n$(gear) Click to edit caps'
+    );
+    budgetStatusBarItem.tooltip.supportThemeIcons = true;
+    budgetStatusBarItem.show();
+}
+
 export function deactivate() {
     logger.info('AI Prompt Refiner extension deactivating...');
     Analytics.getInstance().dispose();
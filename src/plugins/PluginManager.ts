@@ -1,6 +1,6 @@
 /**
  * Plugin System for Prompt Refiner
- * 
+ *
  * Provides extensibility through plugins:
  * - Custom providers
  * - Custom templates
@@ -8,8 +8,13 @@
  * - Event hooks
  */
 
+import * as vscode from 'vscode';
 import { IAIProvider } from '../providers/IAIProvider';
 import { logger } from '../services/Logger';
+import { ErrorHandler } from '../utils/ErrorHandler';
+import type { RefinementResult } from '../services/PromptRefinerService';
+import type { PlacedStage, RefinementStage, StagePlacement } from '../services/RefinementPipeline';
+import type { ValidationRuleSet } from '../utils/validationRules';
 
 /**
  * Plugin interface that all plugins must implement
@@ -17,48 +22,93 @@ import { logger } from '../services/Logger';
 export interface IPromptRefinerPlugin {
   /** Unique plugin identifier */
   readonly id: string;
-  
+
   /** Plugin display name */
   readonly name: string;
-  
+
   /** Plugin version (semver) */
   readonly version: string;
-  
+
   /** Plugin description */
   readonly description?: string;
-  
+
   /** Author information */
   readonly author?: string;
-  
+
+  /** What the plugin needs beyond templates, validators and observing events; approved by the user */
+  readonly permissions?: PluginPermission[];
+
   /** Initialize the plugin */
   initialize?(context: PluginContext): Promise<void> | void;
-  
+
   /** Clean up when plugin is deactivated */
   deactivate?(): Promise<void> | void;
 }
 
+/**
+ * Capabilities a plugin must declare in its manifest. Without them the matching context calls
+ * throw and `beforeRefine`/`afterRefine` rewrites are ignored; `network` unlocks `fetch` for
+ * workspace plugins, which run in their own script context. They limit the plugin API, not the
+ * plugin's code, which runs in the extension host with the extension's access.
+ */
+export type PluginPermission = 'network' | 'readConfig' | 'modifyPrompt' | 'registerProvider';
+
+/** Shown when the user is asked to approve a permission */
+export const PERMISSION_DESCRIPTIONS: Record<PluginPermission, string> = {
+    network: 'make network requests',
+    readConfig: 'read your Prompt Refiner settings',
+    modifyPrompt: 'change prompts before and refined text after refinement',
+    registerProvider: 'add AI providers that receive your prompts',
+};
+
+/** `extension`: registered through the extension API; `workspace`: loaded from the plugin folder */
+export type PluginSource = 'extension' | 'workspace';
+
+/**
+ * `disabled`: turned off by the user; `failed`: initialize or a hook threw or timed out;
+ * `denied`: its permissions were not approved
+ */
+export type PluginStatus = 'active' | 'disabled' | 'failed' | 'denied';
+
+/** A known plugin and its state, for the Plugins view */
+export interface PluginInfo {
+  plugin: IPromptRefinerPlugin;
+  source: PluginSource;
+  status: PluginStatus;
+  /** Why the plugin is failed or denied */
+  error?: string;
+  /** Declared in the manifest; granted while the plugin is active */
+  permissions: PluginPermission[];
+}
+
 /**
  * Plugin context provided during initialization
  */
 export interface PluginContext {
-  /** Register a custom AI provider */
+  /** Register a custom AI provider (needs `registerProvider`) */
   registerProvider(provider: IAIProvider): void;
-  
+
   /** Register a custom template */
   registerTemplate(template: PluginTemplate): void;
-  
+
   /** Register a custom validator */
   registerValidator(validator: PluginValidator): void;
-  
+
+  /**
+   * Add a stage to the refinement pipeline, by default right before the cache (needs `modifyPrompt`).
+   * Stages wait for the provider, so unlike event handlers they have no time limit.
+   */
+  registerStage(stage: RefinementStage, placement?: StagePlacement): void;
+
   /** Subscribe to events */
-  on(event: PluginEvent, handler: EventHandler): void;
-  
+  on<E extends PluginEvent>(event: E, handler: PluginEventHandler<E>): void;
+
   /** Unsubscribe from events */
-  off(event: PluginEvent, handler: EventHandler): void;
-  
-  /** Get extension configuration */
-  getConfig(): any;
-  
+  off<E extends PluginEvent>(event: E, handler: PluginEventHandler<E>): void;
+
+  /** Get extension configuration (the `promptRefiner` settings section; needs `readConfig`) */
+  getConfig(): vscode.WorkspaceConfiguration;
+
   /** Log messages through extension logger */
   log(level: 'debug' | 'info' | 'warn' | 'error', message: string, ...args: any[]): void;
 }
@@ -75,12 +125,14 @@ export interface PluginTemplate {
 }
 
 /**
- * Plugin validator definition
+ * Plugin validator definition. Each validator is a selectable validation rule set: give
+ * declarative `rules`, a `validate` function, or both (its issues are added to the rules' result).
  */
 export interface PluginValidator {
   id: string;
   name: string;
-  validate(output: string): ValidationResult;
+  rules?: Omit<ValidationRuleSet, 'id' | 'name'>;
+  validate?(output: string): ValidationResult;
 }
 
 /**
@@ -92,35 +144,119 @@ export interface ValidationResult {
   issues: string[];
 }
 
+/**
+ * Payload of each plugin event, fired by `PromptRefinerService.refine` and `refineWithModel`
+ */
+export interface PluginEventPayloads {
+  /** Before the cache or provider is asked. Return a string to replace the prompt (needs `modifyPrompt`). */
+  beforeRefine: {
+    prompt: string;
+    templateId: string;
+    roleId: string;
+    provider: string;
+    model: string;
+    iteration: number;
+  };
+
+  /** Before the result is returned. Return a string to replace `result.refined` (needs `modifyPrompt`). */
+  afterRefine: {
+    prompt: string;
+    result: RefinementResult;
+    fromCache: boolean;
+  };
+
+  /** The refinement failed; also fired for cancellations */
+  onError: {
+    prompt: string;
+    error: Error;
+    provider: string;
+    model: string;
+  };
+
+  onCacheHit: {
+    prompt: string;
+    refined: string;
+  };
+
+  /** `bypassed` when the caller asked for a fresh answer */
+  onCacheMiss: {
+    prompt: string;
+    bypassed: boolean;
+  };
+}
+
 /**
  * Plugin events
  */
-export type PluginEvent = 
-  | 'beforeRefine'
-  | 'afterRefine'
-  | 'onError'
-  | 'onCacheHit'
-  | 'onCacheMiss';
+export type PluginEvent = keyof PluginEventPayloads;
+
+/** Events whose handlers can change the pipeline's data by returning a string */
+type TransformingEvent = 'beforeRefine' | 'afterRefine';
 
 /**
- * Event handler type
+ * Event handler type. Handlers run one after another in registration order, and each sees
+ * the payload as transformed by the handlers before it.
  */
-type EventHandler = (data: any) => void;
+export type PluginEventHandler<E extends PluginEvent = PluginEvent> = (payload: Readonly<PluginEventPayloads[E]>) =>
+  E extends TransformingEvent ? string | void | Promise<string | void> : void | Promise<void>;
+
+/** How a handler's returned string changes the payload, for the events that allow it */
+const TRANSFORMS: { [E in PluginEvent]?: (payload: PluginEventPayloads[E], value: string) => PluginEventPayloads[E] } = {
+    beforeRefine: (payload, prompt) => ({ ...payload, prompt }),
+    afterRefine: (payload, refined) => ({ ...payload, result: { ...payload.result, refined } }),
+};
+
+/** What one plugin registered, removed again when it is disabled or unloaded */
+interface PluginRegistrations {
+    providers: Set<string>;
+    templates: Set<string>;
+    validators: Set<string>;
+    stages: Set<string>;
+}
+
+interface HandlerEntry {
+    pluginId: string;
+    handler: PluginEventHandler;
+}
+
+interface StageEntry extends PlacedStage {
+    pluginId: string;
+}
+
+interface PluginRecord extends PluginInfo {
+    registrations?: PluginRegistrations;
+}
+
+/** Approved permissions by plugin, in global state so each plugin asks once */
+const APPROVED_PERMISSIONS_KEY = 'promptRefiner.plugins.approvedPermissions';
+/** Ids of plugins the user turned off in the Plugins view */
+const DISABLED_PLUGINS_KEY = 'promptRefiner.plugins.disabled';
+const DEFAULT_HOOK_TIMEOUT_MS = 3000;
+const LIFECYCLE_TIMEOUT_MS = 10000;
 
 /**
- * Plugin manager
+ * Plugin manager. Every plugin gets its own context that only exposes what its approved
+ * permissions allow. A plugin whose hook throws or runs past `promptRefiner.plugins.hookTimeoutMs`
+ * is disabled and reported; the refinement carries on without it.
  */
 export class PluginManager {
-    private static instance: PluginManager;
-    private plugins: Map<string, IPromptRefinerPlugin> = new Map();
+    private static instance: PluginManager | undefined;
+    private records: Map<string, PluginRecord> = new Map();
     private providers: Map<string, IAIProvider> = new Map();
     private templates: Map<string, PluginTemplate> = new Map();
     private validators: Map<string, PluginValidator> = new Map();
-    private eventHandlers: Map<PluginEvent, Set<EventHandler>> = new Map();
-    private context: PluginContext;
+    private stages: Map<string, StageEntry> = new Map();
+    private eventHandlers: Map<PluginEvent, Set<HandlerEntry>> = new Map();
+    private storage: vscode.Memento | undefined;
+    /** Stand-in for global state before initialize (tests, command line) */
+    private readonly memoryState = new Map<string, unknown>();
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+
+    /** Fires when a plugin is loaded, unloaded, enabled, disabled or fails */
+    public readonly onDidChange = this.changeEmitter.event;
 
     private constructor() {
-        this.context = this.createContext();
+        // Private constructor to prevent direct instantiation - use getInstance()
     }
 
     public static getInstance(): PluginManager {
@@ -131,109 +267,311 @@ export class PluginManager {
     }
 
     /**
-   * Create plugin context
+     * Reset singleton instance (for testing)
+     */
+    public static resetInstance(): void {
+        PluginManager.instance = undefined;
+    }
+
+    /**
+     * Keep permission approvals and disabled plugins across sessions
+     */
+    public initialize(context: vscode.ExtensionContext): void {
+        this.storage = context.globalState;
+    }
+
+    private getState<T>(key: string, fallback: T): T {
+        return this.storage ? this.storage.get<T>(key, fallback) : (this.memoryState.get(key) as T | undefined) ?? fallback;
+    }
+
+    private async setState(key: string, value: unknown): Promise<void> {
+        if (this.storage) {
+            await this.storage.update(key, value);
+        } else {
+            this.memoryState.set(key, value);
+        }
+    }
+
+    /**
+   * Create the context of one plugin; everything it registers is recorded under its id
    */
-    private createContext(): PluginContext {
+    private createContext(record: PluginRecord, owned: PluginRegistrations): PluginContext {
+        const pluginId = record.plugin.id;
+        const demand = (permission: PluginPermission) => {
+            if (!record.permissions.includes(permission)) {
+                throw new Error(`Plugin ${pluginId} needs the "${permission}" permission in its manifest to ${PERMISSION_DESCRIPTIONS[permission]}`);
+            }
+        };
+        const claim = (kind: string, id: string, taken: Map<string, unknown>, ownedIds: Set<string>) => {
+            if (taken.has(id) && !ownedIds.has(id)) {
+                throw new Error(`Plugin ${pluginId} cannot register ${kind} "${id}": another plugin already did`);
+            }
+            ownedIds.add(id);
+        };
+
         return {
             registerProvider: (provider: IAIProvider) => {
+                demand('registerProvider');
+                claim('provider', provider.id, this.providers, owned.providers);
                 this.providers.set(provider.id, provider);
-                logger.info('Provider registered by plugin', { providerId: provider.id });
+                logger.info('Provider registered by plugin', { pluginId, providerId: provider.id });
             },
 
             registerTemplate: (template: PluginTemplate) => {
+                claim('template', template.id, this.templates, owned.templates);
                 this.templates.set(template.id, template);
-                logger.info('Template registered by plugin', { templateId: template.id });
+                logger.info('Template registered by plugin', { pluginId, templateId: template.id });
             },
 
             registerValidator: (validator: PluginValidator) => {
+                claim('validator', validator.id, this.validators, owned.validators);
                 this.validators.set(validator.id, validator);
-                logger.info('Validator registered by plugin', { validatorId: validator.id });
+                logger.info('Validator registered by plugin', { pluginId, validatorId: validator.id });
+            },
+
+            registerStage: (stage: RefinementStage, placement?: StagePlacement) => {
+                demand('modifyPrompt');
+                claim('pipeline stage', stage.id, this.stages, owned.stages);
+                this.stages.set(stage.id, { pluginId, stage, placement });
+                logger.info('Pipeline stage registered by plugin', { pluginId, stageId: stage.id, placement });
             },
 
-            on: (event: PluginEvent, handler: EventHandler) => {
+            on: <E extends PluginEvent>(event: E, handler: PluginEventHandler<E>) => {
                 if (!this.eventHandlers.has(event)) {
                     this.eventHandlers.set(event, new Set());
                 }
-                const handlers = this.eventHandlers.get(event);
-                if (handlers) {
-                    handlers.add(handler);
-                }
+                this.eventHandlers.get(event)?.add({ pluginId, handler: handler as PluginEventHandler });
             },
 
-            off: (event: PluginEvent, handler: EventHandler) => {
-                this.eventHandlers.get(event)?.delete(handler);
+            off: <E extends PluginEvent>(event: E, handler: PluginEventHandler<E>) => {
+                const handlers = this.eventHandlers.get(event);
+                handlers?.forEach(entry => {
+                    if (entry.pluginId === pluginId && entry.handler === handler) {
+                        handlers.delete(entry);
+                    }
+                });
             },
 
             getConfig: () => {
-                // Return extension configuration
-                return {};
+                demand('readConfig');
+                return vscode.workspace.getConfiguration('promptRefiner');
             },
 
             log: (level: string, message: string, ...args: any[]) => {
+                const prefixed = `[${pluginId}] ${message}`;
                 switch (level) {
                 case 'debug':
-                    logger.debug(message, ...args);
+                    logger.debug(prefixed, ...args);
                     break;
                 case 'info':
-                    logger.info(message, ...args);
+                    logger.info(prefixed, ...args);
                     break;
                 case 'warn':
-                    logger.warn(message, ...args);
+                    logger.warn(prefixed, ...args);
                     break;
                 case 'error':
-                    logger.error(message, ...args);
+                    logger.error(prefixed, ...args);
                     break;
                 default:
-                    logger.info(message, ...args);
+                    logger.info(prefixed, ...args);
                 }
             },
         };
     }
 
     /**
-   * Load and activate a plugin
+   * Load and activate a plugin. Plugins turned off in the Plugins view are recorded but not
+   * started. Denied permissions or a failing `initialize` leave the plugin inactive with its
+   * status and error shown in the view; only a malformed manifest or a taken id throws.
    */
-    public async loadPlugin(plugin: IPromptRefinerPlugin): Promise<void> {
-        if (this.plugins.has(plugin.id)) {
+    public async loadPlugin(plugin: IPromptRefinerPlugin, source: PluginSource = 'extension'): Promise<void> {
+        const permissions = validateManifest(plugin);
+        if (this.records.has(plugin.id)) {
             throw new Error(`Plugin ${plugin.id} is already loaded`);
         }
 
-        logger.info('Loading plugin', { 
-            pluginId: plugin.id, 
+        logger.info('Loading plugin', {
+            pluginId: plugin.id,
             name: plugin.name,
-            version: plugin.version 
+            version: plugin.version,
+            source,
+            permissions,
         });
 
-        // Initialize if provided
-        if (plugin.initialize) {
-            await plugin.initialize(this.context);
-        }
+        const record: PluginRecord = { plugin, source, status: 'disabled', permissions };
+        this.records.set(plugin.id, record);
 
-        this.plugins.set(plugin.id, plugin);
-        logger.info('Plugin loaded successfully', { pluginId: plugin.id });
+        if (this.getState<string[]>(DISABLED_PLUGINS_KEY, []).includes(plugin.id)) {
+            logger.info('Plugin is disabled, not starting it', { pluginId: plugin.id });
+        } else {
+            await this.activate(record);
+        }
+        this.changeEmitter.fire();
     }
 
     /**
-   * Unload and deactivate a plugin
+   * Deactivate a plugin and forget it
    */
     public async unloadPlugin(pluginId: string): Promise<void> {
-        const plugin = this.plugins.get(pluginId);
-        if (!plugin) {
+        const record = this.records.get(pluginId);
+        if (!record) {
             throw new Error(`Plugin ${pluginId} not found`);
         }
 
         logger.info('Unloading plugin', { pluginId });
+        if (record.status === 'active') {
+            await this.deactivate(record);
+        }
+        this.records.delete(pluginId);
+        this.changeEmitter.fire();
+        logger.info('Plugin unloaded', { pluginId });
+    }
 
-        // Deactivate if provided
-        if (plugin.deactivate) {
-            await plugin.deactivate();
+    /**
+   * Turn a plugin on or off and remember the choice. Turning on a failed or denied plugin
+   * starts it again, asking for its permissions if they were never approved.
+   */
+    public async setEnabled(pluginId: string, enabled: boolean): Promise<void> {
+        const record = this.records.get(pluginId);
+        if (!record) {
+            throw new Error(`Plugin ${pluginId} not found`);
         }
 
-        // Clean up registrations
-        // (In a real implementation, track which resources belong to which plugin)
-    
-        this.plugins.delete(pluginId);
-        logger.info('Plugin unloaded', { pluginId });
+        const disabled = this.getState<string[]>(DISABLED_PLUGINS_KEY, []).filter(id => id !== pluginId);
+        await this.setState(DISABLED_PLUGINS_KEY, enabled ? disabled : [...disabled, pluginId]);
+
+        if (enabled && record.status !== 'active') {
+            await this.activate(record);
+        } else if (!enabled) {
+            if (record.status === 'active') {
+                await this.deactivate(record);
+            }
+            record.status = 'disabled';
+            record.error = undefined;
+        }
+        this.changeEmitter.fire();
+    }
+
+    private async activate(record: PluginRecord): Promise<void> {
+        const { plugin } = record;
+        if (!(await this.approvePermissions(record))) {
+            record.status = 'denied';
+            record.error = `Permissions not granted: ${record.permissions.join(', ')}`;
+            logger.warn('Plugin permissions not granted', { pluginId: plugin.id });
+            return;
+        }
+
+        const owned: PluginRegistrations = { providers: new Set(), templates: new Set(), validators: new Set(), stages: new Set() };
+        record.registrations = owned;
+        // Active while initialize runs, so its own calls already get the granted permissions
+        record.status = 'active';
+        record.error = undefined;
+        try {
+            if (plugin.initialize) {
+                await ErrorHandler.withTimeout(
+                    Promise.resolve().then(() => plugin.initialize?.(this.createContext(record, owned))),
+                    LIFECYCLE_TIMEOUT_MS,
+                    `initialize did not finish within ${LIFECYCLE_TIMEOUT_MS / 1000}s`
+                );
+            }
+        } catch (error) {
+            this.removeRegistrations(record);
+            this.markFailed(record, 'initialize', error);
+            return;
+        }
+
+        logger.info('Plugin loaded successfully', { pluginId: plugin.id });
+    }
+
+    private async deactivate(record: PluginRecord): Promise<void> {
+        // Registrations go even if deactivate fails, so nothing of the plugin keeps running
+        this.removeRegistrations(record);
+        record.status = 'disabled';
+        try {
+            if (record.plugin.deactivate) {
+                await ErrorHandler.withTimeout(
+                    Promise.resolve().then(() => record.plugin.deactivate?.()),
+                    LIFECYCLE_TIMEOUT_MS,
+                    `deactivate did not finish within ${LIFECYCLE_TIMEOUT_MS / 1000}s`
+                );
+            }
+        } catch (error) {
+            logger.error('Plugin failed to deactivate', error as Error, { pluginId: record.plugin.id });
+        }
+    }
+
+    /**
+   * True when the plugin asks for nothing new or the user approves its permissions now
+   */
+    private async approvePermissions(record: PluginRecord): Promise<boolean> {
+        const key = `${record.source}:${record.plugin.id}`;
+        const approved = this.getState<Record<string, PluginPermission[]>>(APPROVED_PERMISSIONS_KEY, {});
+        const missing = record.permissions.filter(permission => !approved[key]?.includes(permission));
+        if (missing.length === 0) {
+            return true;
+        }
+
+        const { plugin } = record;
+        const origin = record.source === 'workspace' ? 'from this workspace' : 'from another extension';
+        const choice = await vscode.window.showWarningMessage(
+            `Allow the Prompt Refiner plugin "${plugin.name}" ${origin}?`,
+            {
+                modal: true,
+                detail: `${plugin.name} ${plugin.version} asks to:\n`
+                    + record.permissions.map(permission => `• ${PERMISSION_DESCRIPTIONS[permission]}`).join('\n')
+                    + '\n\nThis decides what the plugin API does for it. Its code runs with the same access as VS Code extensions, so only allow plugins you trust.',
+            },
+            'Allow'
+        );
+        if (choice !== 'Allow') {
+            return false;
+        }
+        await this.setState(APPROVED_PERMISSIONS_KEY, { ...approved, [key]: record.permissions });
+        return true;
+    }
+
+    private removeRegistrations(record: PluginRecord): void {
+        const owned = record.registrations;
+        const pluginId = record.plugin.id;
+        owned?.providers.forEach(id => this.providers.delete(id));
+        owned?.templates.forEach(id => this.templates.delete(id));
+        owned?.validators.forEach(id => this.validators.delete(id));
+        owned?.stages.forEach(id => this.stages.delete(id));
+        this.eventHandlers.forEach(handlers => handlers.forEach(entry => {
+            if (entry.pluginId === pluginId) {
+                handlers.delete(entry);
+            }
+        }));
+        record.registrations = undefined;
+    }
+
+    /**
+   * Take a misbehaving plugin out of the pipeline and tell the user
+   */
+    private async disableAfterFailure(record: PluginRecord, stage: string, error: unknown): Promise<void> {
+        if (record.status === 'active') {
+            await this.deactivate(record);
+        }
+        this.markFailed(record, stage, error);
+        this.changeEmitter.fire();
+    }
+
+    private markFailed(record: PluginRecord, stage: string, error: unknown): void {
+        // Errors thrown in a workspace plugin's script context aren't instances of this realm's Error
+        const message = typeof (error as Error)?.message === 'string' ? (error as Error).message : String(error);
+        record.status = 'failed';
+        record.error = `${stage}: ${message}`;
+        logger.error('Plugin failed and was disabled', error instanceof Error ? error : new Error(message), { pluginId: record.plugin.id, stage });
+
+        void (async () => {
+            const choice = await vscode.window.showWarningMessage(
+                `Prompt Refiner disabled the plugin "${record.plugin.name}": ${stage} failed (${message}).`,
+                'Show Plugins'
+            );
+            if (choice === 'Show Plugins') {
+                await vscode.commands.executeCommand('promptRefiner.pluginsView.focus');
+            }
+        })();
     }
 
     /**
@@ -265,36 +603,148 @@ export class PluginManager {
     }
 
     /**
-   * Emit an event to all registered handlers
+   * Get a registered validator
    */
-    public emit(event: PluginEvent, data: any): void {
-        const handlers = this.eventHandlers.get(event);
-        if (handlers) {
-            handlers.forEach(handler => {
+    public getValidator(id: string): PluginValidator | undefined {
+        return this.validators.get(id);
+    }
+
+    /**
+   * Get all registered validators
+   */
+    public getAllValidators(): PluginValidator[] {
+        return Array.from(this.validators.values());
+    }
+
+    /**
+   * Pipeline stages of the active plugins. A stage that throws disables its plugin and the
+   * request carries on without it, unless the stage already ran the stages after it.
+   */
+    public getStages(): PlacedStage[] {
+        return [...this.stages.values()].flatMap(({ pluginId, stage, placement }) => {
+            const record = this.records.get(pluginId);
+            return record?.status === 'active' ? [{ stage: this.isolateStage(record, stage), placement }] : [];
+        });
+    }
+
+    private isolateStage(record: PluginRecord, stage: RefinementStage): RefinementStage {
+        return {
+            id: stage.id,
+            run: async (context, next) => {
+                let nextCalled = false;
+                let nextFailed = false;
                 try {
-                    handler(data);
+                    return await stage.run(context, () => {
+                        nextCalled = true;
+                        return next().catch(error => {
+                            nextFailed = true;
+                            throw error;
+                        });
+                    });
                 } catch (error) {
-                    logger.error('Error in event handler', error as Error);
+                    // Errors of the stages after it belong to the request, not to the plugin
+                    if (nextFailed) {
+                        throw error;
+                    }
+                    await this.disableAfterFailure(record, `its pipeline stage "${stage.id}"`, error);
+                    if (nextCalled) {
+                        throw error;
+                    }
+                    return next();
                 }
-            });
+            },
+        };
+    }
+
+    /**
+   * Run the event's handlers in order and return the payload as they transformed it. Each
+   * handler gets its own copy of the payload and `promptRefiner.plugins.hookTimeoutMs` to
+   * finish; one that throws or times out disables its plugin. Rewrites count only from plugins
+   * with the `modifyPrompt` permission.
+   */
+    public async emit<E extends PluginEvent>(event: E, payload: PluginEventPayloads[E]): Promise<PluginEventPayloads[E]> {
+        const handlers = this.eventHandlers.get(event);
+        if (!handlers?.size) {
+            return payload;
         }
+
+        const timeoutMs = Math.max(100, vscode.workspace.getConfiguration('promptRefiner').get<number>('plugins.hookTimeoutMs', DEFAULT_HOOK_TIMEOUT_MS) ?? DEFAULT_HOOK_TIMEOUT_MS);
+        const transform = TRANSFORMS[event];
+        let current = payload;
+        for (const { pluginId, handler } of [...handlers]) {
+            const record = this.records.get(pluginId);
+            if (record?.status !== 'active') {
+                continue;
+            }
+            try {
+                const returned = await ErrorHandler.withTimeout(
+                    Promise.resolve().then(() => (handler as PluginEventHandler<E>)(structuredClone(current))),
+                    timeoutMs,
+                    `did not finish within ${timeoutMs}ms`
+                );
+                if (typeof returned === 'string' && transform) {
+                    if (record.permissions.includes('modifyPrompt')) {
+                        current = transform(current, returned);
+                    } else {
+                        logger.warn('Ignoring rewrite from a plugin without the modifyPrompt permission', { pluginId, event });
+                    }
+                }
+            } catch (error) {
+                await this.disableAfterFailure(record, `its ${event} handler`, error);
+            }
+        }
+        return current;
     }
 
     /**
-   * Get list of loaded plugins
+   * Get list of active plugins
    */
     public getLoadedPlugins(): IPromptRefinerPlugin[] {
-        return Array.from(this.plugins.values());
+        return [...this.records.values()].filter(record => record.status === 'active').map(record => record.plugin);
+    }
+
+    /**
+   * Every known plugin with its status, for the Plugins view
+   */
+    public getPlugins(): PluginInfo[] {
+        return [...this.records.values()].map(({ plugin, source, status, error, permissions }) => ({ plugin, source, status, error, permissions }));
     }
 
     /**
-   * Check if a plugin is loaded
+   * Check if a plugin is loaded and active
    */
     public isLoaded(pluginId: string): boolean {
-        return this.plugins.has(pluginId);
+        return this.records.get(pluginId)?.status === 'active';
+    }
+
+    /**
+   * Whether an active plugin was granted a permission
+   */
+    public hasPermission(pluginId: string, permission: PluginPermission): boolean {
+        const record = this.records.get(pluginId);
+        return record?.status === 'active' && record.permissions.includes(permission);
     }
 }
 
+/**
+ * The permissions a plugin declares; throws when its manifest fields are malformed
+ */
+function validateManifest(plugin: IPromptRefinerPlugin): PluginPermission[] {
+    if (!plugin || typeof plugin.id !== 'string' || !plugin.id.trim() || typeof plugin.name !== 'string' || typeof plugin.version !== 'string') {
+        throw new Error('A plugin needs string "id", "name" and "version" properties');
+    }
+    const declared: unknown = plugin.permissions ?? [];
+    if (!Array.isArray(declared)) {
+        throw new Error(`Plugin ${plugin.id}: "permissions" must be an array`);
+    }
+    for (const permission of declared) {
+        if (!(permission in PERMISSION_DESCRIPTIONS)) {
+            throw new Error(`Plugin ${plugin.id} declares unknown permission "${permission}"`);
+        }
+    }
+    return [...new Set(declared as PluginPermission[])];
+}
+
 /**
  * Example plugin implementation
  */
@@ -304,14 +754,18 @@ export class ExamplePlugin implements IPromptRefinerPlugin {
     readonly version = '1.0.0';
     readonly description = 'Demonstrates plugin API usage';
     readonly author = 'Your Name';
+    readonly permissions: PluginPermission[] = ['modifyPrompt'];
 
     initialize(context: PluginContext): void {
         context.log('info', 'Example plugin initialized');
-    
+
         // Subscribe to events
         context.on('beforeRefine', (data) => {
             context.log('debug', 'About to refine:', data);
         });
+
+        // Returning a string replaces the refined text
+        context.on('afterRefine', ({ result }) => result.refined.trimEnd());
     }
 
     deactivate(): void {
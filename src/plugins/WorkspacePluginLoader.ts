@@ -0,0 +1,211 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vm from 'vm';
+import { createHash } from 'crypto';
+import { logger } from '../services/Logger';
+import { IPromptRefinerPlugin, PluginManager } from './PluginManager';
+
+const DEFAULT_PLUGIN_FOLDER = '.prompts/plugins';
+/** Plugin files the user allowed, by path relative to the workspace folder, with their content hash */
+const ALLOWED_KEY = 'promptRefiner.plugins.allowed';
+const BLOCKED_KEY = 'promptRefiner.plugins.blocked';
+/** Node modules a workspace plugin may `require`; anything else has to be bundled into the file */
+const ALLOWED_MODULES = ['path', 'url', 'util', 'events', 'crypto', 'querystring', 'string_decoder'];
+
+function isObjectLike(value: unknown): value is Record<string, unknown> {
+    return (typeof value === 'object' || typeof value === 'function') && value !== null;
+}
+
+interface PluginFile {
+    filePath: string;
+    content: string;
+    /** Workspace-relative path, shown to the user and used as the consent key */
+    label: string;
+    hash: string;
+}
+
+/**
+ * Loads the CommonJS plugins (`*.js`, `*.cjs`) in `promptRefiner.plugins.folder` of each workspace
+ * folder. A file exports one plugin object, or a class that is instantiated, as `module.exports` or
+ * `default`. Nothing loads in an untrusted workspace, and each file needs the user's consent again
+ * whenever its content changes.
+ *
+ * Each file runs in its own script context with a few Node modules and a `fetch` that needs the
+ * `network` permission. That keeps well-behaved plugins to the plugin API, but it is not a
+ * sandbox: the functions and modules a plugin is given belong to the extension host, and through
+ * them its code can reach Node.js with the extension's access and ignore its permissions. The
+ * consent to load the file is the security boundary.
+ */
+export class WorkspacePluginLoader implements vscode.Disposable {
+    private loadedIds: string[] = [];
+
+    constructor(private readonly context: vscode.ExtensionContext) {}
+
+    /**
+     * Unload the workspace plugins and load the folder's current ones.
+     * @param askIfBlocked Ask for consent even after the user chose "Don't Ask Again"
+     */
+    public async reload(askIfBlocked = false): Promise<void> {
+        await this.unloadAll();
+        if (!vscode.workspace.isTrusted) {
+            logger.info('Workspace is not trusted; workspace plugins are not loaded');
+            return;
+        }
+
+        const files = await this.discover();
+        if (files.length === 0 || !(await this.confirm(files, askIfBlocked))) {
+            return;
+        }
+
+        for (const file of files) {
+            try {
+                const plugin = this.evaluatePlugin(file);
+                await PluginManager.getInstance().loadPlugin(plugin, 'workspace');
+                this.loadedIds.push(plugin.id);
+            } catch (error) {
+                logger.error('Failed to load workspace plugin', error as Error, { file: file.label });
+                vscode.window.showErrorMessage(`Prompt Refiner plugin ${file.label} failed to load: ${(error as Error).message}`);
+            }
+        }
+    }
+
+    public getPluginFolder(): string {
+        return vscode.workspace.getConfiguration('promptRefiner').get<string>('plugins.folder', DEFAULT_PLUGIN_FOLDER)?.trim() ?? '';
+    }
+
+    private async discover(): Promise<PluginFile[]> {
+        const folder = this.getPluginFolder();
+        if (!folder) {
+            return [];
+        }
+
+        const files: PluginFile[] = [];
+        for (const workspaceFolder of vscode.workspace.workspaceFolders ?? []) {
+            const directory = path.isAbsolute(folder) ? folder : path.join(workspaceFolder.uri.fsPath, folder);
+            let names: string[];
+            try {
+                names = await fs.promises.readdir(directory);
+            } catch {
+                continue;
+            }
+            for (const name of names.filter(entry => /\.c?js$/.test(entry)).sort()) {
+                const filePath = path.join(directory, name);
+                const content = await fs.promises.readFile(filePath, 'utf8');
+                files.push({
+                    filePath,
+                    content,
+                    label: path.relative(workspaceFolder.uri.fsPath, filePath).split(path.sep).join('/'),
+                    hash: createHash('sha256').update(content).digest('hex'),
+                });
+            }
+            if (path.isAbsolute(folder)) {
+                break;
+            }
+        }
+        return files;
+    }
+
+    /**
+     * True when every file was allowed before with the same content, or the user allows them now
+     */
+    private async confirm(files: PluginFile[], askIfBlocked: boolean): Promise<boolean> {
+        const state = this.context.workspaceState;
+        const allowed = state.get<Record<string, string>>(ALLOWED_KEY, {});
+        const unapproved = files.filter(file => allowed[file.label] !== file.hash);
+        if (unapproved.length === 0) {
+            return true;
+        }
+        if (state.get<boolean>(BLOCKED_KEY, false) && !askIfBlocked) {
+            logger.info('Workspace plugins are blocked for this workspace', { files: unapproved.map(file => file.label) });
+            return false;
+        }
+
+        const choice = await vscode.window.showWarningMessage(
+            `Load ${files.length === 1 ? 'the Prompt Refiner plugin' : `${files.length} Prompt Refiner plugins`} from this workspace?`,
+            {
+                modal: true,
+                detail: 'Plugin code runs with the same access to your files and network as VS Code extensions; '
+                    + 'the permissions a plugin declares limit what the plugin API does for it, not what its code can do. '
+                    + 'Only load code you trust.\n\n'
+                    + `New or changed:\n${unapproved.map(file => `• ${file.label}`).join('\n')}`,
+            },
+            'Load Plugins',
+            'Don\'t Ask Again'
+        );
+        if (choice === 'Don\'t Ask Again') {
+            await state.update(BLOCKED_KEY, true);
+            return false;
+        }
+        if (choice !== 'Load Plugins') {
+            return false;
+        }
+
+        await state.update(BLOCKED_KEY, undefined);
+        await state.update(ALLOWED_KEY, Object.fromEntries(files.map(file => [file.label, file.hash])));
+        return true;
+    }
+
+    private evaluatePlugin(file: PluginFile): IPromptRefinerPlugin {
+        // The id is known once the file has run; fetch checks the permission on every call
+        const owner: { pluginId?: string } = {};
+        const sandbox = vm.createContext({
+            console,
+            setTimeout,
+            clearTimeout,
+            setInterval,
+            clearInterval,
+            queueMicrotask,
+            URL,
+            URLSearchParams,
+            TextEncoder,
+            TextDecoder,
+            AbortController,
+            AbortSignal,
+            fetch: (...args: Parameters<typeof fetch>) => {
+                if (!owner.pluginId || !PluginManager.getInstance().hasPermission(owner.pluginId, 'network')) {
+                    return Promise.reject(new Error(`Plugin ${owner.pluginId ?? file.label} needs the "network" permission to make network requests`));
+                }
+                return fetch(...args);
+            },
+        });
+        const sandboxRequire = (name: string) => {
+            const moduleName = name.replace(/^node:/, '');
+            if (!ALLOWED_MODULES.includes(moduleName)) {
+                throw new Error(`Workspace plugins cannot require "${name}"; bundle dependencies into the plugin file`);
+            }
+            return require(moduleName);
+        };
+
+        const module: { exports: unknown } = { exports: {} };
+        const run = vm.compileFunction(file.content, ['exports', 'require', 'module', '__filename', '__dirname'], {
+            filename: file.filePath,
+            parsingContext: sandbox,
+        });
+        run(module.exports, sandboxRequire, module, file.filePath, path.dirname(file.filePath));
+
+        const { exports } = module;
+        const candidate = isObjectLike(exports) && 'default' in exports && exports.default != null ? exports.default : exports;
+        const plugin: unknown = typeof candidate === 'function' ? new (candidate as new () => unknown)() : candidate;
+        if (!isObjectLike(plugin)) {
+            throw new Error('The file must export a plugin object or class as module.exports or default');
+        }
+        // loadPlugin checks the rest of the manifest
+        owner.pluginId = typeof plugin.id === 'string' ? plugin.id : undefined;
+        return plugin as unknown as IPromptRefinerPlugin;
+    }
+
+    private async unloadAll(): Promise<void> {
+        const manager = PluginManager.getInstance();
+        for (const id of this.loadedIds) {
+            if (manager.getPlugins().some(info => info.plugin.id === id && info.source === 'workspace')) {
+                await manager.unloadPlugin(id);
+            }
+        }
+        this.loadedIds = [];
+    }
+
+    public dispose(): void {
+        void this.unloadAll();
+    }
+}
@@ -0,0 +1,33 @@
+import * as vscode from 'vscode';
+import { IPromptRefinerPlugin, PluginManager } from './PluginManager';
+
+/**
+ * Returned by the extension's `activate`. Another extension gets it with
+ * `await vscode.extensions.getExtension('Gperez88.ai-prompt-refiner')?.activate()`
+ * and should list the extension in its `extensionDependencies`.
+ */
+export interface PromptRefinerApi {
+    readonly apiVersion: 1;
+    /**
+     * Load a plugin; disposing the result unloads it again. Rejects when the manifest is
+     * malformed or a plugin with the same id is loaded. Denied permissions or a failing
+     * `initialize` don't reject; the Plugins view shows the plugin's status.
+     */
+    registerPlugin(plugin: IPromptRefinerPlugin): Promise<vscode.Disposable>;
+}
+
+export function createPromptRefinerApi(): PromptRefinerApi {
+    return {
+        apiVersion: 1,
+        registerPlugin: async (plugin: IPromptRefinerPlugin) => {
+            const manager = PluginManager.getInstance();
+            await manager.loadPlugin(plugin, 'extension');
+            return new vscode.Disposable(() => {
+                // A later plugin with the same id isn't this registration's to unload
+                if (manager.getPlugins().some(info => info.plugin === plugin)) {
+                    void manager.unloadPlugin(plugin.id);
+                }
+            });
+        },
+    };
+}
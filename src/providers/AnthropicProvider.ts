@@ -1,6 +1,16 @@
-import { IAIProvider, RefineCallOptions, RefineResult } from './IAIProvider';
+import { IAIProvider, RefineCallOptions, RefineResult, RefineStreamEvent } from './IAIProvider';
 import { isAbortOrUserCancellation } from '../utils/cancellationAbort';
 import { ConfigurationManager } from '../services/ConfigurationManager';
+import { readServerSentEvents, parseStreamJson } from '../utils/streamParsing';
+
+/** Subset of the Messages API streaming events we consume */
+interface AnthropicStreamEvent {
+    type: string;
+    message?: { usage?: { input_tokens?: number } };
+    delta?: { type?: string; text?: string };
+    usage?: { output_tokens?: number };
+    error?: { message?: string };
+}
 
 /**
  * Anthropic Claude Provider
@@ -24,43 +34,10 @@ export class AnthropicProvider implements IAIProvider {
         systemTemplate: string,
         options?: RefineCallOptions
     ): Promise<RefineResult> {
-        const config = ConfigurationManager.getInstance();
-        const apiKey = await config.getApiKey(this.id);
-
-        if (!apiKey) {
-            throw new Error('Anthropic API key not configured. Please set it in settings.');
-        }
-
-        const modelId = config.getModelId();
-        const model = this.mapModelId(modelId);
+        const apiKey = await this.requireApiKey();
 
         try {
-            const response = await fetch(this.API_URL, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'x-api-key': apiKey,
-                    'anthropic-version': '2023-06-01',
-                },
-                body: JSON.stringify({
-                    model: model,
-                    max_tokens: 4000,
-                    temperature: options?.temperature ?? 0.7,
-                    system: systemTemplate,
-                    messages: [
-                        {
-                            role: 'user',
-                            content: userPrompt,
-                        },
-                    ],
-                }),
-                signal: options?.signal,
-            });
-
-            if (!response.ok) {
-                const error = await response.text();
-                throw new Error(`Anthropic API error: ${response.status} - ${error}`);
-            }
+            const response = await this.postMessages(apiKey, userPrompt, systemTemplate, false, options);
 
             const data = await response.json() as { 
                 content: Array<{ text: string }>;
@@ -71,17 +48,114 @@ export class AnthropicProvider implements IAIProvider {
                 const refined = data.content[0].text;
                 const usage = data.usage;
                 const tokens = (usage?.input_tokens || 0) + (usage?.output_tokens || 0);
-                return { refined, tokens };
+                return {
+                    refined,
+                    tokens,
+                    usage: usage ? { promptTokens: usage.input_tokens, completionTokens: usage.output_tokens } : undefined,
+                };
             }
 
             throw new Error('Empty response from Anthropic API');
         } catch (error: unknown) {
-            if (isAbortOrUserCancellation(error)) {
-                throw new Error('Operation cancelled');
+            this.rethrow(error);
+        }
+    }
+
+    async *refineStream(
+        userPrompt: string,
+        systemTemplate: string,
+        options?: RefineCallOptions
+    ): AsyncIterable<RefineStreamEvent> {
+        const apiKey = await this.requireApiKey();
+
+        try {
+            const response = await this.postMessages(apiKey, userPrompt, systemTemplate, true, options);
+            if (!response.body) {
+                throw new Error('Empty response from Anthropic API');
             }
-            const msg = error instanceof Error ? error.message : String(error);
-            throw new Error(`Anthropic refinement failed: ${msg}`);
+
+            let inputTokens = 0;
+            let outputTokens = 0;
+            for await (const payload of readServerSentEvents(response.body)) {
+                const event = parseStreamJson<AnthropicStreamEvent>(payload);
+                if (!event) {
+                    continue;
+                }
+                if (event.type === 'message_start') {
+                    inputTokens = event.message?.usage?.input_tokens || 0;
+                } else if (event.type === 'content_block_delta' && event.delta?.text) {
+                    yield { type: 'delta', text: event.delta.text };
+                } else if (event.type === 'message_delta') {
+                    outputTokens = event.usage?.output_tokens || outputTokens;
+                } else if (event.type === 'error') {
+                    throw new Error(`Anthropic API error: ${event.error?.message || 'stream error'}`);
+                }
+            }
+            yield {
+                type: 'done',
+                tokens: inputTokens + outputTokens,
+                usage: inputTokens || outputTokens ? { promptTokens: inputTokens, completionTokens: outputTokens } : undefined,
+            };
+        } catch (error: unknown) {
+            this.rethrow(error);
+        }
+    }
+
+    private async requireApiKey(): Promise<string> {
+        const config = ConfigurationManager.getInstance();
+        const apiKey = await config.getApiKey(this.id);
+
+        if (!apiKey) {
+            throw new Error('Anthropic API key not configured. Please set it in settings.');
+        }
+        return apiKey;
+    }
+
+    private async postMessages(
+        apiKey: string,
+        userPrompt: string,
+        systemTemplate: string,
+        stream: boolean,
+        options?: RefineCallOptions
+    ): Promise<Response> {
+        const model = this.mapModelId(ConfigurationManager.getInstance().resolveModelId(this.id, options?.model));
+
+        const response = await fetch(this.API_URL, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'x-api-key': apiKey,
+                'anthropic-version': '2023-06-01',
+            },
+            body: JSON.stringify({
+                model: model,
+                max_tokens: 4000,
+                temperature: options?.temperature ?? 0.7,
+                system: systemTemplate,
+                // The Messages API takes the system prompt separately from the turns
+                messages: [
+                    ...(options?.history ?? []).filter(turn => turn.role !== 'system'),
+                    { role: 'user', content: userPrompt },
+                ],
+                ...(stream ? { stream: true } : {}),
+            }),
+            signal: options?.signal,
+        });
+
+        if (!response.ok) {
+            const error = await response.text();
+            throw new Error(`Anthropic API error: ${response.status} - ${error}`);
+        }
+
+        return response;
+    }
+
+    private rethrow(error: unknown): never {
+        if (isAbortOrUserCancellation(error)) {
+            throw new Error('Operation cancelled');
         }
+        const msg = error instanceof Error ? error.message : String(error);
+        throw new Error(`Anthropic refinement failed: ${msg}`);
     }
 
     /**
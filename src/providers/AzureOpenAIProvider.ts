@@ -0,0 +1,166 @@
+import * as vscode from 'vscode';
+import {
+    AzureOpenAI,
+    APIConnectionError,
+    APIError,
+    AuthenticationError,
+    NotFoundError,
+    PermissionDeniedError,
+    RateLimitError,
+} from 'openai';
+import { IAIProvider, ProviderUsage, RefineCallOptions, RefineResult, RefineStreamEvent } from './IAIProvider';
+import { AzureOpenAISettings, ConfigurationManager } from '../services/ConfigurationManager';
+import { isAbortOrUserCancellation } from '../utils/cancellationAbort';
+import { buildChatMessages } from '../utils/conversation';
+import { promptForApiKey } from '../commands/settingsCommands';
+import { logger } from '../services/Logger';
+
+/** Scope of an Entra ID token accepted by Azure OpenAI */
+const ENTRA_ID_SCOPE = 'https://cognitiveservices.azure.com/.default';
+
+/**
+ * Chat deployments of an Azure OpenAI resource. Model ids are deployment names; the resource is
+ * reached with its key or, when `promptRefiner.azureOpenAI.authentication` is `entraId`, with a
+ * token from the editor's Microsoft sign-in.
+ */
+export class AzureOpenAIProvider implements IAIProvider {
+    readonly id = 'azure-openai';
+    readonly name = 'Azure OpenAI';
+
+    isConfigured(): boolean {
+        return ConfigurationManager.getInstance().getAzureOpenAISettings().endpoint.length > 0;
+    }
+
+    async refine(userPrompt: string, systemTemplate: string, options?: RefineCallOptions): Promise<RefineResult> {
+        const settings = ConfigurationManager.getInstance().getAzureOpenAISettings();
+        const deployment = this.resolveDeployment(settings, options?.model);
+        try {
+            const client = await this.createClient(settings);
+            const response = await client.chat.completions.create(
+                {
+                    model: deployment,
+                    messages: buildChatMessages(systemTemplate, userPrompt, options?.history),
+                    temperature: options?.temperature,
+                },
+                options?.signal ? { signal: options.signal } : undefined,
+            );
+
+            const usage = response.usage;
+            return {
+                refined: response.choices[0]?.message?.content || '',
+                tokens: (usage?.prompt_tokens || 0) + (usage?.completion_tokens || 0),
+                usage: usage ? { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens } : undefined,
+            };
+        } catch (error: unknown) {
+            this.rethrow(error, deployment);
+        }
+    }
+
+    async *refineStream(userPrompt: string, systemTemplate: string, options?: RefineCallOptions): AsyncIterable<RefineStreamEvent> {
+        const settings = ConfigurationManager.getInstance().getAzureOpenAISettings();
+        const deployment = this.resolveDeployment(settings, options?.model);
+        try {
+            const client = await this.createClient(settings);
+            const stream = await client.chat.completions.create(
+                {
+                    model: deployment,
+                    messages: buildChatMessages(systemTemplate, userPrompt, options?.history),
+                    temperature: options?.temperature,
+                    stream: true,
+                    stream_options: { include_usage: true },
+                },
+                options?.signal ? { signal: options.signal } : undefined,
+            );
+
+            let usage: ProviderUsage | undefined;
+            for await (const chunk of stream) {
+                const text = chunk.choices[0]?.delta?.content;
+                if (text) {
+                    yield { type: 'delta', text };
+                }
+                if (chunk.usage) {
+                    usage = { promptTokens: chunk.usage.prompt_tokens || 0, completionTokens: chunk.usage.completion_tokens || 0 };
+                }
+            }
+            yield { type: 'done', tokens: usage ? usage.promptTokens + usage.completionTokens : 0, usage };
+        } catch (error: unknown) {
+            this.rethrow(error, deployment);
+        }
+    }
+
+    /**
+     * An explicit model wins; otherwise the configured model if it names a listed deployment,
+     * else the first deployment (the configured model may belong to another provider)
+     */
+    private resolveDeployment(settings: AzureOpenAISettings, override?: string): string {
+        const requested = ConfigurationManager.getInstance().resolveModelId(this.id, override);
+        if (override || settings.deployments.length === 0 || settings.deployments.includes(requested)) {
+            return requested;
+        }
+        return settings.deployments[0];
+    }
+
+    private async createClient(settings: AzureOpenAISettings): Promise<AzureOpenAI> {
+        if (!settings.endpoint) {
+            throw new Error('PROVIDER_ERROR|Set promptRefiner.azureOpenAI.endpoint to your resource, e.g. https://contoso.openai.azure.com.');
+        }
+        // PromptRefinerService already retries failed refinements
+        const common = { endpoint: settings.endpoint, apiVersion: settings.apiVersion, maxRetries: 0 };
+        if (settings.authentication === 'entraId') {
+            return new AzureOpenAI({ ...common, azureADTokenProvider: () => this.getEntraIdToken() });
+        }
+        return new AzureOpenAI({ ...common, apiKey: await this.resolveApiKey() });
+    }
+
+    private async getEntraIdToken(): Promise<string> {
+        if (!vscode.authentication?.getSession) {
+            throw new Error('AUTH_ERROR|Microsoft Entra ID sign-in is only available inside the editor. Use key authentication instead.');
+        }
+        const session = await vscode.authentication.getSession('microsoft', [ENTRA_ID_SCOPE], { createIfNone: true });
+        return session.accessToken;
+    }
+
+    private async resolveApiKey(): Promise<string> {
+        const config = ConfigurationManager.getInstance();
+        const apiKey = await config.getApiKey(this.id);
+        if (apiKey) {
+            return apiKey;
+        }
+
+        await promptForApiKey(this.id);
+        const keyAfterPrompt = await config.getApiKey(this.id);
+        if (!keyAfterPrompt) {
+            throw new Error('AUTH_ERROR|An API key is required to use Azure OpenAI, or set promptRefiner.azureOpenAI.authentication to entraId.');
+        }
+        return keyAfterPrompt;
+    }
+
+    /**
+     * Maps SDK failures to the pipe-prefixed codes understood by ErrorHandler
+     */
+    private rethrow(error: unknown, deployment: string): never {
+        if (isAbortOrUserCancellation(error)) {
+            throw new Error('Operation cancelled');
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        if (/^[A-Z_]+\|/.test(message)) {
+            throw error;
+        }
+        logger.debug('Azure OpenAI error detail', { deployment, status: (error as APIError)?.status, message: message.slice(0, 500) });
+
+        if (error instanceof AuthenticationError || error instanceof PermissionDeniedError) {
+            throw new Error(`AUTH_ERROR|Azure OpenAI rejected the credentials (${error.status}). Check the key, or that your account has the "Cognitive Services OpenAI User" role.`);
+        }
+        if (error instanceof RateLimitError) {
+            throw new Error(`QUOTA_EXCEEDED|The tokens-per-minute quota of deployment "${deployment}" is used up. Wait a moment or pick another deployment.`);
+        }
+        if (error instanceof NotFoundError) {
+            throw new Error(`INVALID_MODEL|Deployment "${deployment}" was not found. Check promptRefiner.azureOpenAI.deployments against the resource.`);
+        }
+        if (error instanceof APIConnectionError) {
+            throw new Error(`PROVIDER_ERROR|Could not connect to Azure OpenAI: ${message}`);
+        }
+        const status = error instanceof APIError && error.status !== undefined ? ` (${error.status})` : '';
+        throw new Error(`PROVIDER_ERROR|Azure OpenAI${status}: ${message}`);
+    }
+}
@@ -0,0 +1,137 @@
+import { IAIProvider, ChatTurn, ProviderUsage, RefineCallOptions, RefineResult } from './IAIProvider';
+import { BedrockSettings, ConfigurationManager } from '../services/ConfigurationManager';
+import { isAbortOrUserCancellation } from '../utils/cancellationAbort';
+import { AwsCredentials, parseAwsCredentials, signRequest } from '../utils/sigv4';
+import { promptForApiKey } from '../commands/settingsCommands';
+import { logger } from '../services/Logger';
+
+/** Request and response of the Converse API, reduced to the text parts */
+interface ConverseMessage {
+    role: 'user' | 'assistant';
+    content: Array<{ text: string }>;
+}
+
+interface ConverseResponse {
+    output?: { message?: { content?: Array<{ text?: string }> } };
+    usage?: { inputTokens?: number; outputTokens?: number };
+}
+
+/** Exception names that mean the credentials or their permissions are wrong */
+const AUTH_EXCEPTIONS = ['UnrecognizedClientException', 'InvalidSignatureException', 'ExpiredTokenException', 'AccessDeniedException', 'IncompleteSignatureException'];
+const QUOTA_EXCEPTIONS = ['ThrottlingException', 'ServiceQuotaExceededException'];
+
+/**
+ * Bedrock's Converse API, or any endpoint that speaks it, signed with SigV4. Credentials are one
+ * secret, `ACCESS_KEY_ID:SECRET_ACCESS_KEY[:SESSION_TOKEN]`, set with "Set API Key".
+ * Converse streams in AWS's binary event format, so there is no `refineStream`.
+ */
+export class BedrockProvider implements IAIProvider {
+    readonly id = 'bedrock';
+    readonly name = 'AWS Bedrock';
+
+    isConfigured(): boolean {
+        return true;
+    }
+
+    async refine(userPrompt: string, systemTemplate: string, options?: RefineCallOptions): Promise<RefineResult> {
+        const settings = ConfigurationManager.getInstance().getBedrockSettings();
+        const modelId = this.resolveModel(settings, options?.model);
+        const credentials = await this.resolveCredentials();
+
+        const url = `${settings.endpoint}/model/${encodeURIComponent(modelId)}/converse`;
+        const body = JSON.stringify({
+            system: [{ text: systemTemplate }],
+            messages: this.buildMessages(userPrompt, options?.history),
+            ...(options?.temperature !== undefined ? { inferenceConfig: { temperature: options.temperature } } : {}),
+        });
+        const headers = signRequest(
+            { method: 'POST', url, headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' }, body },
+            { credentials, region: settings.region, service: 'bedrock' },
+        );
+
+        let response: Response;
+        try {
+            response = await fetch(url, { method: 'POST', headers, body, signal: options?.signal });
+        } catch (error: unknown) {
+            if (isAbortOrUserCancellation(error)) {
+                throw new Error('Operation cancelled');
+            }
+            throw new Error(`PROVIDER_ERROR|Could not connect to Bedrock at ${settings.endpoint}: ${(error as Error).message}`);
+        }
+        if (!response.ok) {
+            throw await this.toProviderError(response, modelId);
+        }
+
+        const data = await response.json() as ConverseResponse;
+        const refined = (data.output?.message?.content ?? []).map(part => part.text ?? '').join('');
+        const usage: ProviderUsage | undefined = data.usage
+            ? { promptTokens: data.usage.inputTokens || 0, completionTokens: data.usage.outputTokens || 0 }
+            : undefined;
+        return { refined, tokens: usage ? usage.promptTokens + usage.completionTokens : 0, usage };
+    }
+
+    /**
+     * An explicit model wins; otherwise the configured model if it is one of `bedrock.models`,
+     * else the first of them (the configured model may belong to another provider)
+     */
+    private resolveModel(settings: BedrockSettings, override?: string): string {
+        const requested = ConfigurationManager.getInstance().resolveModelId(this.id, override);
+        if (override || settings.models.length === 0 || settings.models.includes(requested)) {
+            return requested;
+        }
+        return settings.models[0];
+    }
+
+    /** Converse has a separate system field and alternating user/assistant turns */
+    private buildMessages(userPrompt: string, history: ChatTurn[] = []): ConverseMessage[] {
+        return [
+            ...history
+                .filter((turn): turn is ChatTurn & { role: 'user' | 'assistant' } => turn.role !== 'system')
+                .map(turn => ({ role: turn.role, content: [{ text: turn.content }] })),
+            { role: 'user', content: [{ text: userPrompt }] },
+        ];
+    }
+
+    private async resolveCredentials(): Promise<AwsCredentials> {
+        const config = ConfigurationManager.getInstance();
+        let secret = await config.getApiKey(this.id);
+        if (!secret) {
+            await promptForApiKey(this.id);
+            secret = await config.getApiKey(this.id);
+        }
+        const credentials = parseAwsCredentials(secret);
+        if (!credentials) {
+            throw new Error('AUTH_ERROR|AWS credentials are required to use Bedrock. Set them as ACCESS_KEY_ID:SECRET_ACCESS_KEY[:SESSION_TOKEN].');
+        }
+        return credentials;
+    }
+
+    /**
+     * Maps AWS error responses (`x-amzn-ErrorType` or `__type`, plus `message`) to the
+     * pipe-prefixed codes understood by ErrorHandler
+     */
+    private async toProviderError(response: Response, modelId: string): Promise<Error> {
+        const text = await response.text().catch(() => '');
+        let body: { message?: string; Message?: string; __type?: string } = {};
+        try {
+            body = JSON.parse(text);
+        } catch {
+            // Proxies in front of the endpoint may answer with HTML or plain text
+        }
+        // `ThrottlingException:http://internal.amazon.com/...` or `com.amazon.coral.service#ThrottlingException`
+        const exception = (response.headers.get('x-amzn-errortype') ?? body.__type ?? '').split(':')[0].split('#').pop() ?? '';
+        const message = body.message ?? body.Message ?? (text.slice(0, 500) || response.statusText);
+        logger.debug('Bedrock error detail', { status: response.status, exception, modelId, message });
+
+        if (AUTH_EXCEPTIONS.includes(exception) || response.status === 401 || response.status === 403) {
+            return new Error(`AUTH_ERROR|Bedrock rejected the request (${exception || response.status}): ${message}`);
+        }
+        if (QUOTA_EXCEPTIONS.includes(exception) || response.status === 429) {
+            return new Error(`QUOTA_EXCEEDED|Bedrock is throttling requests to ${modelId}: ${message}`);
+        }
+        if (exception === 'ResourceNotFoundException' || (exception === 'ValidationException' && /model/i.test(message))) {
+            return new Error(`INVALID_MODEL|Bedrock model "${modelId}" is not available: ${message}`);
+        }
+        return new Error(`PROVIDER_ERROR|Bedrock (${exception || response.status}): ${message}`);
+    }
+}
@@ -1,5 +1,5 @@
-import { IAIProvider, RefineCallOptions, RefineResult } from './IAIProvider';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { IAIProvider, ChatTurn, ProviderUsage, RefineCallOptions, RefineResult, RefineStreamEvent } from './IAIProvider';
+import { GoogleGenerativeAI, GenerateContentRequest, UsageMetadata } from '@google/generative-ai';
 import { ConfigurationManager } from '../services/ConfigurationManager';
 import { getApiModelId } from '../utils/ModelMappings';
 import { promptForApiKey } from '../commands/settingsCommands';
@@ -16,19 +16,75 @@ export class GeminiProvider implements IAIProvider {
 
     async refine(userPrompt: string, systemTemplate: string, options?: RefineCallOptions): Promise<RefineResult> {
         const config = ConfigurationManager.getInstance();
-        const apiKey = await config.getApiKey(this.id);
+        const apiKey = await this.resolveApiKey();
+        return this.executeRefinement(apiKey, userPrompt, systemTemplate, config.resolveModelId(this.id, options?.model), options);
+    }
+
+    async *refineStream(userPrompt: string, systemTemplate: string, options?: RefineCallOptions): AsyncIterable<RefineStreamEvent> {
+        const config = ConfigurationManager.getInstance();
+        const apiKey = await this.resolveApiKey();
 
-        if (!apiKey) {
-            await promptForApiKey(this.id);
-            // Try getting it again
-            const keyAfterPrompt = await config.getApiKey(this.id);
-            if (!keyAfterPrompt) {
-                throw new Error('API Key is required to use Google Gemini.');
+        try {
+            const model = this.getModel(apiKey, config.resolveModelId(this.id, options?.model), systemTemplate);
+            const reqOpts = options?.signal ? { signal: options.signal } : undefined;
+            const result = await model.generateContentStream(this.buildRequest(userPrompt, options?.history), reqOpts);
+
+            let usage: ProviderUsage | undefined;
+            for await (const chunk of result.stream) {
+                const text = chunk.text();
+                if (text) {
+                    yield { type: 'delta', text };
+                }
+                if (chunk.usageMetadata?.totalTokenCount) {
+                    usage = this.toUsage(chunk.usageMetadata);
+                }
             }
-            return this.executeRefinement(keyAfterPrompt, userPrompt, systemTemplate, config.getModelId(), options);
+            yield { type: 'done', tokens: usage ? usage.promptTokens + usage.completionTokens : 0, usage };
+        } catch (error: unknown) {
+            this.rethrow(error);
         }
+    }
+
+    private async resolveApiKey(): Promise<string> {
+        const config = ConfigurationManager.getInstance();
+        const apiKey = await config.getApiKey(this.id);
+        if (apiKey) {
+            return apiKey;
+        }
+
+        await promptForApiKey(this.id);
+        // Try getting it again
+        const keyAfterPrompt = await config.getApiKey(this.id);
+        if (!keyAfterPrompt) {
+            throw new Error('API Key is required to use Google Gemini.');
+        }
+        return keyAfterPrompt;
+    }
 
-        return this.executeRefinement(apiKey, userPrompt, systemTemplate, config.getModelId(), options);
+    private getModel(apiKey: string, modelId: string, systemPrompt: string) {
+        const genAI = new GoogleGenerativeAI(apiKey);
+        const apiModelId = getApiModelId(modelId, this.id) ?? modelId;
+        return genAI.getGenerativeModel({
+            model: apiModelId,
+            systemInstruction: systemPrompt
+        });
+    }
+
+    /**
+     * Gemini calls the assistant role `model`; the system prompt travels as `systemInstruction`
+     */
+    private buildRequest(userPrompt: string, history: ChatTurn[] = []): GenerateContentRequest {
+        const turns = history.filter(turn => turn.role !== 'system');
+        return {
+            contents: [...turns, { role: 'user', content: userPrompt }].map(turn => ({
+                role: turn.role === 'assistant' ? 'model' : 'user',
+                parts: [{ text: turn.content }],
+            })),
+        };
+    }
+
+    private toUsage(metadata: UsageMetadata): ProviderUsage {
+        return { promptTokens: metadata.promptTokenCount || 0, completionTokens: metadata.candidatesTokenCount || 0 };
     }
 
     private async executeRefinement(
@@ -39,74 +95,75 @@ export class GeminiProvider implements IAIProvider {
         options?: RefineCallOptions,
     ): Promise<RefineResult> {
         try {
-            const genAI = new GoogleGenerativeAI(apiKey);
-            const apiModelId = getApiModelId(modelId, this.id) ?? modelId;
-            const model = genAI.getGenerativeModel({
-                model: apiModelId,
-                systemInstruction: systemPrompt
-            });
+            const model = this.getModel(apiKey, modelId, systemPrompt);
 
             const reqOpts = options?.signal ? { signal: options.signal } : undefined;
-            const result = await model.generateContent(userPrompt, reqOpts);
+            const result = await model.generateContent(this.buildRequest(userPrompt, options?.history), reqOpts);
             const response = await result.response;
             const refined = response.text();
             
-            // Extract token count from usage metadata
-            const usageMetadata = response.usageMetadata;
-            const tokens = usageMetadata?.totalTokenCount || Math.ceil(refined.length / 3.5);
+            const usage = response.usageMetadata?.totalTokenCount ? this.toUsage(response.usageMetadata) : undefined;
+            const tokens = usage ? usage.promptTokens + usage.completionTokens : 0;
 
-            return { refined, tokens };
+            return { refined, tokens, usage };
 
         } catch (error: unknown) {
-            if (isAbortOrUserCancellation(error)) {
-                throw new Error('Operation cancelled');
-            }
-            // Handle specific Gemini errors
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            
-            // Detect quota exceeded errors (429)
-            if (errorMessage.includes('429') || 
-                errorMessage.includes('quota') || 
-                errorMessage.includes('rate limit') ||
-                errorMessage.includes('exceeded') ||
-                errorMessage.includes('Too Many Requests')) {
-                
-                // Extract retry delay if available
-                const retryMatch = errorMessage.match(/retry in\s+(\d+(?:\.\d+)?)\s*s/i);
-                const retryTime = retryMatch ? `${Math.ceil(parseFloat(retryMatch[1]))} seconds` : 'a few minutes';
-                
-                throw new Error(
-                    'QUOTA_EXCEEDED|Google Gemini API quota exceeded. ' +
-                    'You\'ve reached your daily or per-minute request limit. ' +
-                    `Please wait ${retryTime} before trying again, ` +
-                    'or consider upgrading your plan at https://ai.google.dev/gemini-api/docs/rate-limits'
-                );
-            }
-            
-            // Detect authentication errors (401/403)
-            if (errorMessage.includes('401') || 
-                errorMessage.includes('403') || 
-                errorMessage.includes('API key') ||
-                errorMessage.includes('invalid') ||
-                errorMessage.includes('not valid')) {
-                throw new Error(
-                    'AUTH_ERROR|Invalid or expired Google Gemini API key. ' +
-                    'Please check your API key in the settings or generate a new one at https://aistudio.google.com/app/apikey'
-                );
-            }
+            this.rethrow(error);
+        }
+    }
+
+    /**
+     * Maps Gemini SDK failures to the pipe-prefixed codes understood by ErrorHandler.
+     */
+    private rethrow(error: unknown): never {
+        if (isAbortOrUserCancellation(error)) {
+            throw new Error('Operation cancelled');
+        }
+        // Handle specific Gemini errors
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        
+        // Detect quota exceeded errors (429)
+        if (errorMessage.includes('429') || 
+            errorMessage.includes('quota') || 
+            errorMessage.includes('rate limit') ||
+            errorMessage.includes('exceeded') ||
+            errorMessage.includes('Too Many Requests')) {
             
-            // Detect model not found errors (404)
-            if (errorMessage.includes('404') || 
-                errorMessage.includes('not found') ||
-                errorMessage.includes('does not exist')) {
-                throw new Error(
-                    'MODEL_ERROR|The selected model is not available. ' +
-                    'Please select a different model or try again later.'
-                );
-            }
+            // Extract retry delay if available
+            const retryMatch = errorMessage.match(/retry in\s+(\d+(?:\.\d+)?)\s*s/i);
+            const retryTime = retryMatch ? `${Math.ceil(parseFloat(retryMatch[1]))} seconds` : 'a few minutes';
             
-            // Default error with original message
-            throw new Error(`Gemini Error: ${errorMessage}`);
+            throw new Error(
+                'QUOTA_EXCEEDED|Google Gemini API quota exceeded. ' +
+                'You\'ve reached your daily or per-minute request limit. ' +
+                `Please wait ${retryTime} before trying again, ` +
+                'or consider upgrading your plan at https://ai.google.dev/gemini-api/docs/rate-limits'
+            );
+        }
+        
+        // Detect authentication errors (401/403)
+        if (errorMessage.includes('401') || 
+            errorMessage.includes('403') || 
+            errorMessage.includes('API key') ||
+            errorMessage.includes('invalid') ||
+            errorMessage.includes('not valid')) {
+            throw new Error(
+                'AUTH_ERROR|Invalid or expired Google Gemini API key. ' +
+                'Please check your API key in the settings or generate a new one at https://aistudio.google.com/app/apikey'
+            );
+        }
+        
+        // Detect model not found errors (404)
+        if (errorMessage.includes('404') || 
+            errorMessage.includes('not found') ||
+            errorMessage.includes('does not exist')) {
+            throw new Error(
+                'MODEL_ERROR|The selected model is not available. ' +
+                'Please select a different model or try again later.'
+            );
         }
+        
+        // Default error with original message
+        throw new Error(`Gemini Error: ${errorMessage}`);
     }
 }
@@ -1,14 +1,21 @@
-import { IAIProvider, RefineCallOptions, RefineResult } from './IAIProvider';
+import { IAIProvider, ProviderUsage, RefineCallOptions, RefineResult, RefineStreamEvent } from './IAIProvider';
 import { ConfigurationManager } from '../services/ConfigurationManager';
 import { ModelRegistry } from '../services/ModelRegistry';
-import { getApiModelId } from '../utils/ModelMappings';
+import { getApiModelId, getUiModelId } from '../utils/ModelMappings';
 import { isAbortOrUserCancellation } from '../utils/cancellationAbort';
+import { buildChatMessages } from '../utils/conversation';
+import { readServerSentEvents, parseStreamJson } from '../utils/streamParsing';
 
 interface ChatCompletionsResponse {
     choices: { message: { content: string } }[];
     usage?: { prompt_tokens: number; completion_tokens: number };
 }
 
+interface ChatCompletionsChunk {
+    choices?: { delta?: { content?: string } }[];
+    usage?: { prompt_tokens: number; completion_tokens: number } | null;
+}
+
 /**
  * GitHubProvider integrates with GitHub Marketplace models.
  * Requires a GitHub Personal Access Token (classic) or Fine-grained token.
@@ -17,16 +24,80 @@ export class GitHubProvider implements IAIProvider {
     readonly id = 'github';
     readonly name = 'GitHub Marketplace';
 
+    // GitHub Marketplace models usually follow OpenAI-compatible chat completions API
+    private readonly endpoint = 'https://models.inference.ai.azure.com/chat/completions';
+
     isConfigured(): boolean {
         // Configuration check will happen during refine call
         return true;
     }
 
     async refine(userPrompt: string, systemTemplate: string, options?: RefineCallOptions): Promise<RefineResult> {
+        const { apiKey, uiModelId, apiModelId } = await this.prepareRequest(options);
+        const registry = ModelRegistry.getInstance();
+
+        try {
+            const response = await this.postChatCompletions(apiKey, apiModelId, userPrompt, systemTemplate, false, options);
+
+            const data = await response.json() as ChatCompletionsResponse;
+            if (data.choices && data.choices.length > 0) {
+                // Report success to ModelRegistry for telemetry
+                await registry.reportModelSuccess(this.id, uiModelId);
+                const refined = data.choices[0].message.content;
+                const usage = data.usage;
+                const tokens = (usage?.prompt_tokens || 0) + (usage?.completion_tokens || 0);
+                return {
+                    refined,
+                    tokens,
+                    usage: usage ? { promptTokens: usage.prompt_tokens || 0, completionTokens: usage.completion_tokens || 0 } : undefined,
+                };
+            }
+
+            throw new Error('No content returned from GitHub Marketplace.');
+
+        } catch (error: unknown) {
+            return this.handleError(error, uiModelId);
+        }
+    }
+
+    async *refineStream(userPrompt: string, systemTemplate: string, options?: RefineCallOptions): AsyncIterable<RefineStreamEvent> {
+        const { apiKey, uiModelId, apiModelId } = await this.prepareRequest(options);
+
+        try {
+            const response = await this.postChatCompletions(apiKey, apiModelId, userPrompt, systemTemplate, true, options);
+            if (!response.body) {
+                throw new Error('No content returned from GitHub Marketplace.');
+            }
+
+            let usage: ProviderUsage | undefined;
+            for await (const payload of readServerSentEvents(response.body)) {
+                const chunk = parseStreamJson<ChatCompletionsChunk>(payload);
+                const text = chunk?.choices?.[0]?.delta?.content;
+                if (text) {
+                    yield { type: 'delta', text };
+                }
+                if (chunk?.usage) {
+                    usage = { promptTokens: chunk.usage.prompt_tokens || 0, completionTokens: chunk.usage.completion_tokens || 0 };
+                }
+            }
+
+            await ModelRegistry.getInstance().reportModelSuccess(this.id, uiModelId);
+            yield { type: 'done', tokens: usage ? usage.promptTokens + usage.completionTokens : 0, usage };
+        } catch (error: unknown) {
+            await this.handleError(error, uiModelId);
+        }
+    }
+
+    /**
+     * Resolves the token and model ids, validating the model against ModelRegistry.
+     */
+    private async prepareRequest(options?: RefineCallOptions): Promise<{ apiKey: string; uiModelId: string; apiModelId: string }> {
         const config = ConfigurationManager.getInstance();
         const apiKey = await config.getApiKey(this.id);
         // Registry + settings options use UI IDs (e.g. github-gpt-4o); getModelId() returns API IDs for calls.
-        const uiModelId = config.getModelIdForUI();
+        const uiModelId = options?.model
+            ? getUiModelId(options.model, this.id) ?? options.model
+            : config.getModelIdForUI();
         const registry = ModelRegistry.getInstance();
 
         if (!apiKey) {
@@ -41,63 +112,57 @@ export class GitHubProvider implements IAIProvider {
             throw new Error(`Model "${uiModelId}" is not supported by GitHub Marketplace. Supported models: ${modelList}`);
         }
 
-        // GitHub Marketplace models usually follow OpenAI-compatible chat completions API
-        const endpoint = 'https://models.inference.ai.azure.com/chat/completions';
-        
         // Convert UI model ID to API model ID
         const apiModelId = getApiModelId(uiModelId, this.id);
         if (!apiModelId) {
             throw new Error(`Unable to map model "${uiModelId}" to API model ID for ${this.id} provider`);
         }
-        const githubModel = apiModelId;
 
-        try {
-            const response = await fetch(endpoint, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${apiKey}`
-                },
-                body: JSON.stringify({
-                    messages: [
-                        { role: 'system', content: systemTemplate },
-                        { role: 'user', content: userPrompt }
-                    ],
-                    model: githubModel,
-                    temperature: options?.temperature ?? 0.3,
-                    max_tokens: 4096,
-                    top_p: 1
-                }),
-                signal: options?.signal,
-            });
-
-            if (!response.ok) {
-                const errorBody = await response.text();
-                throw new Error(`GitHub API Error (${response.status}): ${errorBody}`);
-            }
+        return { apiKey, uiModelId, apiModelId };
+    }
 
-            const data = await response.json() as ChatCompletionsResponse;
-            if (data.choices && data.choices.length > 0) {
-                // Report success to ModelRegistry for telemetry
-                await registry.reportModelSuccess(this.id, uiModelId);
-                const refined = data.choices[0].message.content;
-                const usage = data.usage;
-                const tokens = (usage?.prompt_tokens || 0) + (usage?.completion_tokens || 0);
-                return { refined, tokens };
-            }
+    private async postChatCompletions(
+        apiKey: string,
+        model: string,
+        userPrompt: string,
+        systemTemplate: string,
+        stream: boolean,
+        options?: RefineCallOptions,
+    ): Promise<Response> {
+        const response = await fetch(this.endpoint, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${apiKey}`
+            },
+            body: JSON.stringify({
+                messages: buildChatMessages(systemTemplate, userPrompt, options?.history),
+                model,
+                temperature: options?.temperature ?? 0.3,
+                max_tokens: 4096,
+                top_p: 1,
+                ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+            }),
+            signal: options?.signal,
+        });
 
-            throw new Error('No content returned from GitHub Marketplace.');
+        if (!response.ok) {
+            const errorBody = await response.text();
+            throw new Error(`GitHub API Error (${response.status}): ${errorBody}`);
+        }
 
-        } catch (error: unknown) {
-            if (isAbortOrUserCancellation(error)) {
-                throw new Error('Operation cancelled');
-            }
-            // Report failure to ModelRegistry for telemetry
-            const registry = ModelRegistry.getInstance();
-            const errObj = error instanceof Error ? error : new Error(String(error));
-            await registry.reportModelFailure(this.id, uiModelId, errObj);
-            const msg = error instanceof Error ? error.message : String(error);
-            throw new Error(`GitHub Provider Error: ${msg}`);
+        return response;
+    }
+
+    private async handleError(error: unknown, uiModelId: string): Promise<never> {
+        if (isAbortOrUserCancellation(error)) {
+            throw new Error('Operation cancelled');
         }
+        // Report failure to ModelRegistry for telemetry
+        const registry = ModelRegistry.getInstance();
+        const errObj = error instanceof Error ? error : new Error(String(error));
+        await registry.reportModelFailure(this.id, uiModelId, errObj);
+        const msg = error instanceof Error ? error.message : String(error);
+        throw new Error(`GitHub Provider Error: ${msg}`);
     }
 }
@@ -4,10 +4,11 @@ import Groq, {
     PermissionDeniedError,
     RateLimitError,
 } from 'groq-sdk';
-import { IAIProvider, RefineCallOptions, RefineResult } from './IAIProvider';
+import { IAIProvider, ProviderUsage, RefineCallOptions, RefineResult, RefineStreamEvent } from './IAIProvider';
 import { ConfigurationManager } from '../services/ConfigurationManager';
 import { getApiModelId } from '../utils/ModelMappings';
 import { isAbortOrUserCancellation } from '../utils/cancellationAbort';
+import { buildChatMessages } from '../utils/conversation';
 import { promptForApiKey } from '../commands/settingsCommands';
 import { logger } from '../services/Logger';
 
@@ -87,18 +88,74 @@ export class GroqProvider implements IAIProvider {
 
     async refine(userPrompt: string, systemTemplate: string, options?: RefineCallOptions): Promise<RefineResult> {
         const config = ConfigurationManager.getInstance();
-        const apiKey = await config.getApiKey(this.id);
+        const apiKey = await this.resolveApiKey();
+        return this.executeRefinement(apiKey, userPrompt, systemTemplate, config.resolveModelId(this.id, options?.model), options);
+    }
+
+    async *refineStream(userPrompt: string, systemTemplate: string, options?: RefineCallOptions): AsyncIterable<RefineStreamEvent> {
+        const config = ConfigurationManager.getInstance();
+        const apiKey = await this.resolveApiKey();
+        const modelId = config.resolveModelId(this.id, options?.model);
+
+        try {
+            const groq = new Groq({ apiKey });
+            const reqOptions = options?.signal ? { signal: options.signal } : undefined;
+            const stream = await groq.chat.completions.create(
+                {
+                    messages: buildChatMessages(systemTemplate, userPrompt, options?.history),
+                    model: this.effectiveModelId(modelId),
+                    stream: true,
+                },
+                reqOptions,
+            );
 
-        if (!apiKey) {
-            await promptForApiKey(this.id);
-            const keyAfterPrompt = await config.getApiKey(this.id);
-            if (!keyAfterPrompt) {
-                throw new Error('API Key is required to use Groq.');
+            let usage: ProviderUsage | undefined;
+            for await (const chunk of stream) {
+                const text = chunk.choices[0]?.delta?.content;
+                if (text) {
+                    yield { type: 'delta', text };
+                }
+                // Groq reports usage on the final chunk under x_groq
+                const chunkUsage = chunk.x_groq?.usage;
+                if (chunkUsage) {
+                    usage = { promptTokens: chunkUsage.prompt_tokens || 0, completionTokens: chunkUsage.completion_tokens || 0 };
+                }
             }
-            return this.executeRefinement(keyAfterPrompt, userPrompt, systemTemplate, config.getModelId(), options);
+            yield { type: 'done', tokens: usage ? usage.promptTokens + usage.completionTokens : 0, usage };
+        } catch (error: unknown) {
+            this.rethrow(error, modelId);
         }
+    }
+
+    private async resolveApiKey(): Promise<string> {
+        const config = ConfigurationManager.getInstance();
+        const apiKey = await config.getApiKey(this.id);
+        if (apiKey) {
+            return apiKey;
+        }
+
+        await promptForApiKey(this.id);
+        const keyAfterPrompt = await config.getApiKey(this.id);
+        if (!keyAfterPrompt) {
+            throw new Error('API Key is required to use Groq.');
+        }
+        return keyAfterPrompt;
+    }
+
+    private effectiveModelId(modelId: string): string {
+        const resolved = getApiModelId(modelId, this.id) ?? modelId;
 
-        return this.executeRefinement(apiKey, userPrompt, systemTemplate, config.getModelId(), options);
+        // Fallback default if user switched provider but kept old model ID
+        let effModelId = resolved;
+        if (!resolved || resolved.startsWith('gemini') || resolved.startsWith('gpt')) {
+            effModelId = 'llama-3.3-70b-versatile';
+        }
+
+        // Handle deprecated model IDs
+        if (resolved === 'llama3-70b-8192' || resolved === 'mixtral-8x7b-32768') {
+            effModelId = 'llama-3.3-70b-versatile';
+        }
+        return effModelId;
     }
 
     private async executeRefinement(
@@ -113,27 +170,11 @@ export class GroqProvider implements IAIProvider {
                 apiKey: apiKey,
             });
 
-            const resolved = getApiModelId(modelId, this.id) ?? modelId;
-
-            // Fallback default if user switched provider but kept old model ID
-            let effModelId = resolved;
-            if (!resolved || resolved.startsWith('gemini') || resolved.startsWith('gpt')) {
-                effModelId = 'llama-3.3-70b-versatile';
-            }
-
-            // Handle deprecated model IDs
-            if (resolved === 'llama3-70b-8192' || resolved === 'mixtral-8x7b-32768') {
-                effModelId = 'llama-3.3-70b-versatile';
-            }
-
             const reqOptions = options?.signal ? { signal: options.signal } : undefined;
             const response = await groq.chat.completions.create(
                 {
-                    messages: [
-                        { role: 'system', content: systemPrompt },
-                        { role: 'user', content: userPrompt },
-                    ],
-                    model: effModelId,
+                    messages: buildChatMessages(systemPrompt, userPrompt, options?.history),
+                    model: this.effectiveModelId(modelId),
                 },
                 reqOptions,
             );
@@ -142,63 +183,74 @@ export class GroqProvider implements IAIProvider {
             const usage = response.usage;
             const tokens = (usage?.prompt_tokens || 0) + (usage?.completion_tokens || 0);
 
-            return { refined, tokens };
+            return {
+                refined,
+                tokens,
+                usage: usage ? { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens } : undefined,
+            };
         } catch (error: unknown) {
-            if (isAbortOrUserCancellation(error)) {
-                throw new Error('Operation cancelled');
-            }
+            this.rethrow(error, modelId);
+        }
+    }
 
-            if (error instanceof AuthenticationError) {
-                throw new Error(
-                    'AUTH_ERROR|Invalid or expired Groq API key. ' +
-                        'Please check your API key in the settings or generate a new one at https://console.groq.com/keys',
-                );
-            }
+    /**
+     * Maps Groq SDK failures to the pipe-prefixed codes understood by ErrorHandler.
+     */
+    private rethrow(error: unknown, modelId: string): never {
+        if (isAbortOrUserCancellation(error)) {
+            throw new Error('Operation cancelled');
+        }
 
-            if (error instanceof RateLimitError) {
-                throw new Error(
-                    'RATE_LIMIT|Groq API rate limit exceeded. ' +
-                        'Please wait a moment and try again. ' +
-                        'Check your usage at https://console.groq.com/usage',
-                );
-            }
+        if (error instanceof AuthenticationError) {
+            throw new Error(
+                'AUTH_ERROR|Invalid or expired Groq API key. ' +
+                    'Please check your API key in the settings or generate a new one at https://console.groq.com/keys',
+            );
+        }
 
-            const detail = groqFailureDetail(error);
-            const { apiMessage, nestedCode, nestedType, status } = detail;
+        if (error instanceof RateLimitError) {
+            throw new Error(
+                'RATE_LIMIT|Groq API rate limit exceeded. ' +
+                    'Please wait a moment and try again. ' +
+                    'Check your usage at https://console.groq.com/usage',
+            );
+        }
 
-            logger.debug('Groq API error detail', {
-                status,
-                nestedType,
-                nestedCode,
-                apiMessage: apiMessage.slice(0, 500),
-            });
+        const detail = groqFailureDetail(error);
+        const { apiMessage, nestedCode, nestedType, status } = detail;
 
-            if (
-                nestedCode === 'model_decommissioned' ||
-                apiMessage.includes('decommissioned') ||
-                apiMessage.includes('no longer supported')
-            ) {
-                throw new Error(
-                    `MODEL_DEPRECATED|The model "${modelId}" has been decommissioned by Groq. ` +
-                        'Please select a different model. ' +
-                        'Check https://console.groq.com/docs/deprecations for current models.',
-                );
-            }
+        logger.debug('Groq API error detail', {
+            status,
+            nestedType,
+            nestedCode,
+            apiMessage: apiMessage.slice(0, 500),
+        });
 
-            if (groqErrorSuggestsInvalidModel(detail)) {
-                throw new Error(
-                    `INVALID_MODEL|The model "${modelId}" is not available on Groq. ` +
-                        `API: ${apiMessage}`,
-                );
-            }
+        if (
+            nestedCode === 'model_decommissioned' ||
+            apiMessage.includes('decommissioned') ||
+            apiMessage.includes('no longer supported')
+        ) {
+            throw new Error(
+                `MODEL_DEPRECATED|The model "${modelId}" has been decommissioned by Groq. ` +
+                    'Please select a different model. ' +
+                    'Check https://console.groq.com/docs/deprecations for current models.',
+            );
+        }
 
-            if (error instanceof PermissionDeniedError || status === 403) {
-                throw new Error(`PROVIDER_ERROR|Groq denied this request (403). ${apiMessage}`);
-            }
+        if (groqErrorSuggestsInvalidModel(detail)) {
+            throw new Error(
+                `INVALID_MODEL|The model "${modelId}" is not available on Groq. ` +
+                    `API: ${apiMessage}`,
+            );
+        }
 
-            const prefix =
-                status !== undefined ? `Groq Error (${status})` : 'Groq Error';
-            throw new Error(`PROVIDER_ERROR|${prefix}: ${apiMessage}`);
+        if (error instanceof PermissionDeniedError || status === 403) {
+            throw new Error(`PROVIDER_ERROR|Groq denied this request (403). ${apiMessage}`);
         }
+
+        const prefix =
+            status !== undefined ? `Groq Error (${status})` : 'Groq Error';
+        throw new Error(`PROVIDER_ERROR|${prefix}: ${apiMessage}`);
     }
 }
@@ -21,10 +21,10 @@ export class HuggingFaceProvider implements IAIProvider {
             if (!keyAfterPrompt) {
                 throw new Error('HuggingFace Access Token is required.');
             }
-            return this.executeRefinement(keyAfterPrompt, userPrompt, systemTemplate, config.getModelId(), options);
+            return this.executeRefinement(keyAfterPrompt, userPrompt, systemTemplate, config.resolveModelId(this.id, options?.model), options);
         }
 
-        return this.executeRefinement(apiKey, userPrompt, systemTemplate, config.getModelId(), options);
+        return this.executeRefinement(apiKey, userPrompt, systemTemplate, config.resolveModelId(this.id, options?.model), options);
     }
 
     private async executeRefinement(
@@ -74,9 +74,8 @@ export class HuggingFaceProvider implements IAIProvider {
                 refined = JSON.stringify(result);
             }
 
-            // HuggingFace doesn't provide token counts - use heuristic estimate
-            const tokens = Math.ceil(refined.length / 3.5);
-            return { refined, tokens };
+            // HuggingFace doesn't report usage - PromptRefinerService counts the tokens
+            return { refined, tokens: 0 };
 
         } catch (error: unknown) {
             if (isAbortOrUserCancellation(error)) {
@@ -4,20 +4,50 @@ export interface ProviderMeta {
     description?: string;
 }
 
+/** One turn of a conversation sent to a chat endpoint */
+export interface ChatTurn {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
 /** Options passed to {@link IAIProvider.refine} */
 export interface RefineCallOptions {
     strict?: boolean;
     temperature?: number;
     /** When set, network requests should abort if the signal is triggered */
     signal?: AbortSignal;
+    /** UI or API model id to use instead of the configured model (e.g. for fallback providers) */
+    model?: string;
+    /**
+     * Earlier user/assistant turns, oldest first, sent between the system message and `userPrompt`.
+     * Already trimmed to the model's context budget by the caller.
+     */
+    history?: ChatTurn[];
+}
+
+/** Token counts reported by the provider's API */
+export interface ProviderUsage {
+    promptTokens: number;
+    completionTokens: number;
 }
 
 /** Return type for provider refine() method - includes token count for display */
 export interface RefineResult {
     refined: string;
     tokens: number;
+    /** Set when the API reported usage; callers count tokens themselves otherwise */
+    usage?: ProviderUsage;
 }
 
+/**
+ * Event yielded by {@link IAIProvider.refineStream}.
+ * `delta` carries text appended since the previous event; `done` is emitted once at the end
+ * with the token usage and, when the provider post-processes its output, the final text.
+ */
+export type RefineStreamEvent =
+    | { type: 'delta'; text: string }
+    | { type: 'done'; tokens: number; refined?: string; usage?: ProviderUsage };
+
 export interface IAIProvider {
     readonly id: string;
     readonly name: string;
@@ -38,4 +68,14 @@ export interface IAIProvider {
         systemTemplate: string,
         options?: RefineCallOptions
     ): Promise<RefineResult>;
+
+    /**
+     * Optional streaming variant of {@link refine}. Aborting `options.signal` must end the
+     * iteration by throwing `Operation cancelled`.
+     */
+    refineStream?(
+        userPrompt: string,
+        systemTemplate: string,
+        options?: RefineCallOptions
+    ): AsyncIterable<RefineStreamEvent>;
 }
@@ -1,4 +1,4 @@
-import { IAIProvider, RefineCallOptions, RefineResult } from './IAIProvider';
+import { IAIProvider, RefineCallOptions, RefineResult, RefineStreamEvent } from './IAIProvider';
 
 export class MockProvider implements IAIProvider {
     readonly id = 'mock';
@@ -9,20 +9,40 @@ export class MockProvider implements IAIProvider {
     }
 
     async refine(userPrompt: string, systemTemplate: string, options?: RefineCallOptions): Promise<RefineResult> {
-        const signal = options?.signal;
-        await new Promise<void>((resolve, reject) => {
+        await this.delay(500, options?.signal);
+
+        const refined = this.buildRefinement(userPrompt);
+        return { refined, tokens: 0 };
+    }
+
+    /**
+     * Emits the mock refinement line by line to exercise streaming UIs offline.
+     */
+    async *refineStream(userPrompt: string, systemTemplate: string, options?: RefineCallOptions): AsyncIterable<RefineStreamEvent> {
+        const refined = this.buildRefinement(userPrompt);
+        for (const line of refined.split(/(?<=\n)/)) {
+            await this.delay(50, options?.signal);
+            yield { type: 'delta', text: line };
+        }
+        yield { type: 'done', tokens: 0 };
+    }
+
+    private delay(ms: number, signal?: AbortSignal): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
             if (signal?.aborted) {
                 reject(new Error('Operation cancelled'));
                 return;
             }
-            const id = setTimeout(resolve, 500);
+            const id = setTimeout(resolve, ms);
             signal?.addEventListener('abort', () => {
                 clearTimeout(id);
                 reject(new Error('Operation cancelled'));
             }, { once: true });
         });
+    }
 
-        const refined = `[MOCK REFINEMENT]
+    private buildRefinement(userPrompt: string): string {
+        return `[MOCK REFINEMENT]
 Refined version of: "${userPrompt}"
 
 [Objective]
@@ -38,7 +58,5 @@ Using Mock Provider.
 [Expected Output]
 A demonstrated refined prompt structure.
 `;
-        const tokens = Math.ceil(refined.length / 3.5);
-        return { refined, tokens };
     }
 }
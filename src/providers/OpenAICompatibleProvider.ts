@@ -0,0 +1,232 @@
+import { IAIProvider, ProviderUsage, RefineCallOptions, RefineResult, RefineStreamEvent } from './IAIProvider';
+import { ConfigurationManager, OpenAICompatibleProfile } from '../services/ConfigurationManager';
+import { isAbortOrUserCancellation } from '../utils/cancellationAbort';
+import { buildChatMessages } from '../utils/conversation';
+import { readServerSentEvents, parseStreamJson } from '../utils/streamParsing';
+import { PROFILE_DEFAULT_MODEL, openAICompatibleApiRoot } from '../utils/openaiCompatible';
+import { logger } from '../services/Logger';
+
+/** `usage` as OpenAI reports it; gateways fill it in with varying completeness */
+interface CompletionUsage {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+}
+
+interface ChatCompletionChunk {
+    choices?: Array<{ delta?: { content?: string | null } }>;
+    usage?: CompletionUsage | null;
+    error?: { message?: string };
+}
+
+interface ChatCompletion {
+    choices?: Array<{ message?: { content?: string | null } }>;
+    usage?: CompletionUsage;
+}
+
+/**
+ * Any `/v1/chat/completions` endpoint, configured as a profile in `promptRefiner.openaiCompatible.profiles`.
+ * The profile is re-read on every call, so edits to the setting apply without a reload.
+ */
+export class OpenAICompatibleProvider implements IAIProvider {
+    constructor(readonly id: string) { }
+
+    get name(): string {
+        return this.findProfile()?.name ?? this.id;
+    }
+
+    isConfigured(): boolean {
+        return this.findProfile() !== undefined;
+    }
+
+    async refine(userPrompt: string, systemTemplate: string, options?: RefineCallOptions): Promise<RefineResult> {
+        const profile = this.getProfile();
+        const request = this.startRequest(profile, options?.signal);
+        let model = '';
+        try {
+            model = await this.resolveModel(profile, options?.model, request.signal);
+            const response = await this.post(profile, {
+                model,
+                messages: buildChatMessages(systemTemplate, userPrompt, options?.history),
+                temperature: options?.temperature,
+            }, request.signal);
+            const data = await response.json() as ChatCompletion;
+            const usage = this.toUsage(data.usage);
+            return {
+                refined: data.choices?.[0]?.message?.content ?? '',
+                tokens: usage ? usage.promptTokens + usage.completionTokens : 0,
+                usage,
+            };
+        } catch (error) {
+            this.rethrow(error, profile, model, request.timedOut());
+        } finally {
+            request.dispose();
+        }
+    }
+
+    async *refineStream(userPrompt: string, systemTemplate: string, options?: RefineCallOptions): AsyncIterable<RefineStreamEvent> {
+        const profile = this.getProfile();
+        const request = this.startRequest(profile, options?.signal);
+        let model = '';
+        try {
+            model = await this.resolveModel(profile, options?.model, request.signal);
+            const response = await this.post(profile, {
+                model,
+                messages: buildChatMessages(systemTemplate, userPrompt, options?.history),
+                temperature: options?.temperature,
+                stream: true,
+                stream_options: { include_usage: true },
+            }, request.signal);
+            if (!response.body) {
+                throw new Error('PROVIDER_ERROR|The endpoint returned an empty stream.');
+            }
+
+            let usage: ProviderUsage | undefined;
+            for await (const payload of readServerSentEvents(response.body)) {
+                const chunk = parseStreamJson<ChatCompletionChunk>(payload);
+                if (!chunk) {
+                    continue;
+                }
+                if (chunk.error) {
+                    throw new Error(chunk.error.message ?? 'Stream error');
+                }
+                const text = chunk.choices?.[0]?.delta?.content;
+                if (text) {
+                    yield { type: 'delta', text };
+                }
+                usage = this.toUsage(chunk.usage ?? undefined) ?? usage;
+            }
+            yield { type: 'done', tokens: usage ? usage.promptTokens + usage.completionTokens : 0, usage };
+        } catch (error) {
+            this.rethrow(error, profile, model, request.timedOut());
+        } finally {
+            request.dispose();
+        }
+    }
+
+    private findProfile(): OpenAICompatibleProfile | undefined {
+        return ConfigurationManager.getInstance().getOpenAICompatibleProfile(this.id);
+    }
+
+    private getProfile(): OpenAICompatibleProfile {
+        const profile = this.findProfile();
+        if (!profile) {
+            throw new Error(`PROVIDER_ERROR|No OpenAI-compatible profile "${this.id}" in promptRefiner.openaiCompatible.profiles.`);
+        }
+        return profile;
+    }
+
+    /**
+     * The caller's model, the stored model when this profile is the active provider, the profile's
+     * default, or failing all of those the first model the endpoint lists
+     */
+    private async resolveModel(profile: OpenAICompatibleProfile, override: string | undefined, signal: AbortSignal): Promise<string> {
+        const config = ConfigurationManager.getInstance();
+        const selected = override ?? (config.getProviderId() === this.id ? config.getModelId() : undefined);
+        const model = selected && selected !== PROFILE_DEFAULT_MODEL ? selected : profile.defaultModel;
+        if (model) {
+            return model;
+        }
+
+        const response = await fetch(`${openAICompatibleApiRoot(profile.baseUrl)}/models`, {
+            headers: await this.headers(profile),
+            signal,
+        });
+        const listed = response.ok ? (await response.json() as { data?: Array<{ id?: unknown }> }).data ?? [] : [];
+        const first = listed.find(row => typeof row.id === 'string' && row.id);
+        if (!first) {
+            throw new Error(`INVALID_MODEL|${profile.name} lists no models. Set "defaultModel" on the profile or pick a model.`);
+        }
+        return first.id as string;
+    }
+
+    private async headers(profile: OpenAICompatibleProfile): Promise<Record<string, string>> {
+        const apiKey = await ConfigurationManager.getInstance().getApiKey(profile.providerId);
+        return {
+            ...profile.headers,
+            'Content-Type': 'application/json',
+            ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+        };
+    }
+
+    private async post(profile: OpenAICompatibleProfile, body: Record<string, unknown>, signal: AbortSignal): Promise<Response> {
+        const response = await fetch(`${openAICompatibleApiRoot(profile.baseUrl)}/chat/completions`, {
+            method: 'POST',
+            headers: await this.headers(profile),
+            body: JSON.stringify(body),
+            signal,
+        });
+        if (!response.ok) {
+            throw this.httpError(response.status, await response.text().catch(() => response.statusText), profile, String(body.model));
+        }
+        return response;
+    }
+
+    /**
+     * Aborts on the caller's signal or once the profile's timeout passes
+     */
+    private startRequest(profile: OpenAICompatibleProfile, signal: AbortSignal | undefined) {
+        const controller = new AbortController();
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, profile.timeoutMs);
+        const onAbort = () => controller.abort();
+        if (signal?.aborted) {
+            controller.abort();
+        }
+        signal?.addEventListener('abort', onAbort, { once: true });
+        return {
+            signal: controller.signal,
+            timedOut: () => timedOut,
+            dispose: () => {
+                clearTimeout(timer);
+                signal?.removeEventListener('abort', onAbort);
+            },
+        };
+    }
+
+    private toUsage(usage: CompletionUsage | undefined): ProviderUsage | undefined {
+        if (!usage || (usage.prompt_tokens === undefined && usage.completion_tokens === undefined)) {
+            return undefined;
+        }
+        return { promptTokens: usage.prompt_tokens || 0, completionTokens: usage.completion_tokens || 0 };
+    }
+
+    /**
+     * Maps HTTP failures to the pipe-prefixed codes understood by ErrorHandler
+     */
+    private httpError(status: number, body: string, profile: OpenAICompatibleProfile, model: string): Error {
+        const detail = parseStreamJson<{ error?: { message?: string } | string }>(body)?.error;
+        const message = (typeof detail === 'string' ? detail : detail?.message) ?? body.slice(0, 500);
+        logger.debug('OpenAI-compatible endpoint error', { provider: this.id, status, message });
+
+        if (status === 401 || status === 403) {
+            return new Error(`AUTH_ERROR|${profile.name} rejected the request (${status}). Check the API key for this profile. ${message}`);
+        }
+        if (status === 429) {
+            return new Error(`RATE_LIMIT|${profile.name} is rate limiting requests. ${message}`);
+        }
+        if ((status === 404 || status === 400) && /\bmodel\b/i.test(message)) {
+            return new Error(`INVALID_MODEL|The model "${model}" is not available on ${profile.name}. ${message}`);
+        }
+        return new Error(`PROVIDER_ERROR|${profile.name} (${status}): ${message}`);
+    }
+
+    private rethrow(error: unknown, profile: OpenAICompatibleProfile, model: string, timedOut: boolean): never {
+        if (timedOut) {
+            throw new Error(`Request timed out: ${profile.name} did not answer within ${profile.timeoutMs / 1000}s.`);
+        }
+        if (isAbortOrUserCancellation(error)) {
+            throw new Error('Operation cancelled');
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        if (message.includes('|')) {
+            throw error;
+        }
+        if (message.includes('fetch failed')) {
+            throw new Error(`PROVIDER_ERROR|Could not connect to ${profile.name} at ${profile.baseUrl}. Is the server running?`);
+        }
+        throw new Error(`PROVIDER_ERROR|${profile.name}${model ? ` (${model})` : ''}: ${message}`);
+    }
+}
@@ -1,8 +1,9 @@
-import { IAIProvider, RefineCallOptions, RefineResult } from './IAIProvider';
+import { IAIProvider, ProviderUsage, RefineCallOptions, RefineResult, RefineStreamEvent } from './IAIProvider';
 import OpenAI from 'openai';
 import { ConfigurationManager } from '../services/ConfigurationManager';
 import { getApiModelId } from '../utils/ModelMappings';
 import { isAbortOrUserCancellation } from '../utils/cancellationAbort';
+import { buildChatMessages } from '../utils/conversation';
 import { promptForApiKey } from '../commands/settingsCommands';
 
 export class OpenAIProvider implements IAIProvider {
@@ -15,18 +16,62 @@ export class OpenAIProvider implements IAIProvider {
 
     async refine(userPrompt: string, systemTemplate: string, options?: RefineCallOptions): Promise<RefineResult> {
         const config = ConfigurationManager.getInstance();
-        const apiKey = await config.getApiKey(this.id);
+        const apiKey = await this.resolveApiKey();
+        return this.executeRefinement(apiKey, userPrompt, systemTemplate, config.resolveModelId(this.id, options?.model), options);
+    }
+
+    async *refineStream(userPrompt: string, systemTemplate: string, options?: RefineCallOptions): AsyncIterable<RefineStreamEvent> {
+        const config = ConfigurationManager.getInstance();
+        const apiKey = await this.resolveApiKey();
 
-        if (!apiKey) {
-            await promptForApiKey(this.id);
-            const keyAfterPrompt = await config.getApiKey(this.id);
-            if (!keyAfterPrompt) {
-                throw new Error('API Key is required to use OpenAI.');
+        try {
+            const openai = new OpenAI({ apiKey });
+            const reqOptions = options?.signal ? { signal: options.signal } : undefined;
+            const stream = await openai.chat.completions.create(
+                {
+                    model: this.effectiveModelId(config.resolveModelId(this.id, options?.model)),
+                    messages: buildChatMessages(systemTemplate, userPrompt, options?.history),
+                    stream: true,
+                    stream_options: { include_usage: true },
+                },
+                reqOptions,
+            );
+
+            let usage: ProviderUsage | undefined;
+            for await (const chunk of stream) {
+                const text = chunk.choices[0]?.delta?.content;
+                if (text) {
+                    yield { type: 'delta', text };
+                }
+                if (chunk.usage) {
+                    usage = { promptTokens: chunk.usage.prompt_tokens || 0, completionTokens: chunk.usage.completion_tokens || 0 };
+                }
             }
-            return this.executeRefinement(keyAfterPrompt, userPrompt, systemTemplate, config.getModelId(), options);
+            yield { type: 'done', tokens: usage ? usage.promptTokens + usage.completionTokens : 0, usage };
+        } catch (error: unknown) {
+            this.rethrow(error);
         }
+    }
 
-        return this.executeRefinement(apiKey, userPrompt, systemTemplate, config.getModelId(), options);
+    private async resolveApiKey(): Promise<string> {
+        const config = ConfigurationManager.getInstance();
+        const apiKey = await config.getApiKey(this.id);
+        if (apiKey) {
+            return apiKey;
+        }
+
+        await promptForApiKey(this.id);
+        const keyAfterPrompt = await config.getApiKey(this.id);
+        if (!keyAfterPrompt) {
+            throw new Error('API Key is required to use OpenAI.');
+        }
+        return keyAfterPrompt;
+    }
+
+    private effectiveModelId(modelId: string): string {
+        const resolved = getApiModelId(modelId, this.id) ?? modelId;
+        // Adjust model name if user left default gemini one
+        return resolved.startsWith('gemini') ? 'gpt-4o-mini' : resolved;
     }
 
     private async executeRefinement(
@@ -41,18 +86,11 @@ export class OpenAIProvider implements IAIProvider {
                 apiKey: apiKey,
             });
 
-            const resolved = getApiModelId(modelId, this.id) ?? modelId;
-            // Adjust model name if user left default gemini one
-            const effModelId = resolved.startsWith('gemini') ? 'gpt-4o-mini' : resolved;
-
             const reqOptions = options?.signal ? { signal: options.signal } : undefined;
             const response = await openai.chat.completions.create(
                 {
-                    model: effModelId,
-                    messages: [
-                        { role: 'system', content: systemPrompt },
-                        { role: 'user', content: userPrompt }
-                    ],
+                    model: this.effectiveModelId(modelId),
+                    messages: buildChatMessages(systemPrompt, userPrompt, options?.history),
                 },
                 reqOptions,
             );
@@ -61,13 +99,21 @@ export class OpenAIProvider implements IAIProvider {
             const usage = response.usage;
             const tokens = (usage?.prompt_tokens || 0) + (usage?.completion_tokens || 0);
 
-            return { refined, tokens };
+            return {
+                refined,
+                tokens,
+                usage: usage ? { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens } : undefined,
+            };
         } catch (error: unknown) {
-            if (isAbortOrUserCancellation(error)) {
-                throw new Error('Operation cancelled');
-            }
-            const msg = error instanceof Error ? error.message : String(error);
-            throw new Error(`OpenAI Error: ${msg}`);
+            this.rethrow(error);
+        }
+    }
+
+    private rethrow(error: unknown): never {
+        if (isAbortOrUserCancellation(error)) {
+            throw new Error('Operation cancelled');
         }
+        const msg = error instanceof Error ? error.message : String(error);
+        throw new Error(`OpenAI Error: ${msg}`);
     }
 }
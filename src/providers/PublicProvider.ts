@@ -16,7 +16,7 @@ export class PublicProvider implements IAIProvider {
 
     async refine(userPrompt: string, systemTemplate: string, options?: RefineCallOptions): Promise<RefineResult> {
         const config = ConfigurationManager.getInstance();
-        const modelId = config.getModelId();
+        const modelId = config.resolveModelId(this.id, options?.model);
 
         // If the user explicitly requested a HuggingFace model via prefix
         if (modelId.startsWith('hf:')) {
@@ -25,9 +25,9 @@ export class PublicProvider implements IAIProvider {
 
         try {
             // Attempt DuckDuckGo AI first
+            // Neither backend reports usage; PromptRefinerService counts the tokens
             const refined = await this.refineDuckDuckGo(userPrompt, systemTemplate, modelId, options?.signal);
-            const tokens = Math.ceil(refined.length / 3.5);
-            return { refined, tokens };
+            return { refined, tokens: 0 };
         } catch (ddgError: unknown) {
             if (isAbortOrUserCancellation(ddgError)) {
                 throw new Error('Operation cancelled');
@@ -38,8 +38,7 @@ export class PublicProvider implements IAIProvider {
             try {
                 // Fallback to HuggingFace Router (which sometimes works for public models if they aren't rate limited)
                 const refined = await this.refineHuggingFace(userPrompt, systemTemplate, 'mistralai/Mistral-7B-Instruct-v0.3', options?.signal);
-                const tokens = Math.ceil(refined.length / 3.5);
-                return { refined, tokens };
+                return { refined, tokens: 0 };
             } catch (hfError: unknown) {
                 if (isAbortOrUserCancellation(hfError)) {
                     throw new Error('Operation cancelled');
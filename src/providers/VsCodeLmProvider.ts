@@ -0,0 +1,142 @@
+import * as vscode from 'vscode';
+import { IAIProvider, ChatTurn, RefineCallOptions, RefineResult, RefineStreamEvent } from './IAIProvider';
+import { ConfigurationManager } from '../services/ConfigurationManager';
+import { isAbortOrUserCancellation, linkAbortToCancellation } from '../utils/cancellationAbort';
+import { logger } from '../services/Logger';
+
+/** API model id meaning "the first chat model the editor offers" */
+export const AUTO_LM_MODEL = 'auto';
+
+/** Shown in the consent dialog the first time the extension asks for a model */
+const JUSTIFICATION = 'Prompt Refiner sends your draft prompt to the model to rewrite it.';
+
+/**
+ * Map `LanguageModelError` codes to the prefixes ErrorHandler.classifyError understands
+ */
+function toProviderError(error: unknown, modelId: string): Error {
+    if (isAbortOrUserCancellation(error) || (error as Error)?.name === 'Canceled') {
+        return new Error('Operation cancelled');
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    switch ((error as { code?: unknown })?.code) {
+    case 'NoPermissions':
+        return new Error(`AUTH_ERROR|Prompt Refiner is not allowed to use ${modelId}. Allow it when the editor asks, or manage access under Accounts > Manage Language Model Access.`);
+    case 'Blocked':
+        return new Error(`QUOTA_EXCEEDED|Requests to ${modelId} are blocked, usually because the quota is used up. Wait or pick another model.`);
+    case 'NotFound':
+        return new Error(`INVALID_MODEL|Language model ${modelId} is no longer available. Pick another model.`);
+    default:
+        return new Error(`PROVIDER_ERROR|${modelId}: ${message}`);
+    }
+}
+
+/**
+ * Models exposed through VS Code's Language Model API, e.g. the ones GitHub Copilot provides.
+ * Uses the editor's sign-in instead of an API key.
+ */
+export class VsCodeLmProvider implements IAIProvider {
+    readonly id = 'vscode-lm';
+    readonly name = 'VS Code Language Models';
+
+    isConfigured(): boolean {
+        // Availability is only known asynchronously; refine() reports missing models
+        return true;
+    }
+
+    async refine(userPrompt: string, systemTemplate: string, options?: RefineCallOptions): Promise<RefineResult> {
+        let refined = '';
+        let result: RefineResult | undefined;
+        for await (const event of this.refineStream(userPrompt, systemTemplate, options)) {
+            if (event.type === 'delta') {
+                refined += event.text;
+            } else {
+                result = { refined: event.refined ?? refined, tokens: event.tokens, usage: event.usage };
+            }
+        }
+        return result ?? { refined, tokens: 0 };
+    }
+
+    async *refineStream(userPrompt: string, systemTemplate: string, options?: RefineCallOptions): AsyncIterable<RefineStreamEvent> {
+        const modelId = ConfigurationManager.getInstance().resolveModelId(this.id, options?.model);
+        const model = await this.selectModel(modelId);
+        const messages = this.buildMessages(systemTemplate, userPrompt, options?.history);
+        const { token, dispose } = linkAbortToCancellation(options?.signal);
+
+        let refined = '';
+        try {
+            const response = await model.sendRequest(messages, { justification: JUSTIFICATION }, token);
+            for await (const text of response.text) {
+                if (token.isCancellationRequested) {
+                    throw new Error('Operation cancelled');
+                }
+                refined += text;
+                yield { type: 'delta', text };
+            }
+            if (token.isCancellationRequested) {
+                throw new Error('Operation cancelled');
+            }
+
+            const usage = await this.countUsage(model, messages, refined);
+            yield { type: 'done', tokens: usage ? usage.promptTokens + usage.completionTokens : 0, usage };
+        } catch (error) {
+            throw token.isCancellationRequested ? new Error('Operation cancelled') : toProviderError(error, model.name);
+        } finally {
+            dispose();
+        }
+    }
+
+    /**
+     * The model with this id, or failing that this family (`gpt-4o` matches `gpt-4o-2024-11-20`)
+     */
+    private async selectModel(modelId: string): Promise<vscode.LanguageModelChat> {
+        if (!vscode.lm?.selectChatModels) {
+            throw new Error('PROVIDER_ERROR|VS Code language models are only available inside the editor.');
+        }
+
+        let models: vscode.LanguageModelChat[];
+        try {
+            models = modelId === AUTO_LM_MODEL
+                ? await vscode.lm.selectChatModels()
+                : await vscode.lm.selectChatModels({ id: modelId });
+            if (models.length === 0 && modelId !== AUTO_LM_MODEL) {
+                models = await vscode.lm.selectChatModels({ family: modelId });
+            }
+        } catch (error) {
+            throw toProviderError(error, modelId);
+        }
+
+        if (models.length === 0) {
+            throw new Error(modelId === AUTO_LM_MODEL
+                ? 'PROVIDER_ERROR|No language models are available. Sign in to GitHub Copilot or install an extension that provides chat models.'
+                : `INVALID_MODEL|Language model "${modelId}" is not available. Pick another model.`);
+        }
+        return models[0];
+    }
+
+    /**
+     * The API has no system role, so the instructions open the conversation as a user message
+     */
+    private buildMessages(systemTemplate: string, userPrompt: string, history?: ChatTurn[]): vscode.LanguageModelChatMessage[] {
+        return [
+            vscode.LanguageModelChatMessage.User(systemTemplate),
+            ...(history ?? []).map(turn => turn.role === 'assistant'
+                ? vscode.LanguageModelChatMessage.Assistant(turn.content)
+                : vscode.LanguageModelChatMessage.User(turn.content)),
+            vscode.LanguageModelChatMessage.User(userPrompt),
+        ];
+    }
+
+    /** The API doesn't report usage; count with the model's own tokenizer when it can */
+    private async countUsage(model: vscode.LanguageModelChat, messages: vscode.LanguageModelChatMessage[], refined: string) {
+        try {
+            const promptCounts = await Promise.all(messages.map(message => model.countTokens(message)));
+            return {
+                promptTokens: promptCounts.reduce((sum, count) => sum + count, 0),
+                completionTokens: await model.countTokens(refined),
+            };
+        } catch (error) {
+            logger.debug('Language model token count failed', { model: model.id, error: (error as Error).message });
+            return undefined;
+        }
+    }
+}
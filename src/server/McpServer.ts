@@ -0,0 +1,228 @@
+import * as vscode from 'vscode';
+import * as readline from 'readline';
+import { TemplateManager } from '../services/TemplateManager';
+import { RoleManager } from '../services/RoleManager';
+import { OutputValidator, ValidationResult } from '../utils/OutputValidator';
+import { ErrorHandler } from '../utils/ErrorHandler';
+import { RpcError, RpcErrorCode, RpcMethod, RpcParams, dispatchRpc } from './jsonRpc';
+
+/** Newest first; a client asking for another version gets the newest */
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+/** MCP's code for an unknown resource URI */
+const RESOURCE_NOT_FOUND = -32002;
+
+interface McpTool {
+    name: string;
+    description: string;
+    inputSchema: Record<string, unknown>;
+    /** Refiner method the tool calls, and how its arguments map to the method's params */
+    method: string;
+    toParams: (args: RpcParams) => RpcParams;
+    toText: (result: unknown) => string;
+}
+
+const selectionProperties = {
+    roleId: { type: 'string', description: 'Role to refine for, e.g. programmer or writer (see the roles resources)' },
+    templateId: { type: 'string', description: 'Template to refine with (see list_templates)' },
+};
+
+const TOOLS: McpTool[] = [
+    {
+        name: 'refine_prompt',
+        description: 'Rewrite a draft prompt into a clear, complete and structured one before acting on it. Returns the refined prompt.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                prompt: { type: 'string', description: 'The draft prompt to refine' },
+                ...selectionProperties,
+                templateVariables: {
+                    type: 'object',
+                    additionalProperties: { type: 'string' },
+                    description: 'Values for the template\'s {{name}} placeholders',
+                },
+            },
+            required: ['prompt'],
+        },
+        method: 'refine',
+        toParams: args => args,
+        toText: result => (result as { refined: string }).refined,
+    },
+    {
+        name: 'validate_prompt',
+        description: 'Score a refined prompt against the validation rules and list its issues and suggestions.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                prompt: { type: 'string', description: 'The refined prompt to check' },
+                strict: { type: 'boolean', description: 'Enforce the strict output format; defaults to the strictMode setting' },
+                ...selectionProperties,
+            },
+            required: ['prompt'],
+        },
+        method: 'validate',
+        toParams: ({ prompt, ...rest }) => ({ ...rest, output: prompt }),
+        toText: result => OutputValidator.formatResult(result as ValidationResult),
+    },
+    {
+        name: 'list_templates',
+        description: 'List the refinement templates that refine_prompt accepts as templateId.',
+        inputSchema: { type: 'object', properties: {} },
+        method: 'listTemplates',
+        toParams: () => ({}),
+        toText: result => (result as Array<{ id: string; name: string; description: string }>)
+            .map(template => `- ${template.id}: ${template.name} — ${template.description}`)
+            .join('\n'),
+    },
+];
+
+/**
+ * Model Context Protocol server over newline-delimited JSON-RPC (the stdio transport). Exposes
+ * the refiner methods as tools, and templates and roles as resources.
+ */
+export class McpServer {
+    /** In-flight requests by id, so `notifications/cancelled` can stop them */
+    private readonly inFlight = new Map<string | number, vscode.CancellationTokenSource>();
+    private readonly protocol: Record<string, RpcMethod>;
+
+    constructor(
+        private readonly methods: Record<string, RpcMethod>,
+        private readonly options: { version: string; templateManager?: TemplateManager }
+    ) {
+        this.protocol = {
+            initialize: async params => ({
+                protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(params.protocolVersion as string)
+                    ? params.protocolVersion
+                    : SUPPORTED_PROTOCOL_VERSIONS[0],
+                capabilities: { tools: {}, resources: {} },
+                serverInfo: { name: 'prompt-refiner', version: this.options.version },
+                instructions: 'Call refine_prompt on a task description before acting on it to get a clearer, more complete prompt.',
+            }),
+            ping: async () => ({}),
+            'notifications/initialized': async () => undefined,
+            'notifications/cancelled': async params => {
+                this.inFlight.get(params.requestId as string | number)?.cancel();
+            },
+            'tools/list': async () => ({
+                tools: TOOLS.map(({ name, description, inputSchema }) => ({ name, description, inputSchema })),
+            }),
+            'tools/call': (params, token) => this.callTool(params, token),
+            'resources/list': () => this.listResources(),
+            'resources/read': params => this.readResource(params),
+        };
+    }
+
+    private get templates(): TemplateManager {
+        return this.options.templateManager ?? TemplateManager.getInstance();
+    }
+
+    /**
+     * Serve requests from `input` until it ends; resolves once every pending response is written
+     */
+    public async listen(input: NodeJS.ReadableStream, output: NodeJS.WritableStream): Promise<void> {
+        const pending = new Set<Promise<void>>();
+        const lines = readline.createInterface({ input, crlfDelay: Infinity });
+
+        for await (const line of lines) {
+            if (!line.trim()) continue;
+            const task = this.handleLine(line, output);
+            pending.add(task);
+            void task.finally(() => pending.delete(task));
+        }
+        await Promise.all(pending);
+    }
+
+    private async handleLine(line: string, output: NodeJS.WritableStream): Promise<void> {
+        let message: { id?: string | number } | undefined;
+        try {
+            message = JSON.parse(line);
+        } catch {
+            output.write(`${JSON.stringify({ jsonrpc: '2.0', id: null, error: { code: RpcErrorCode.PARSE_ERROR, message: 'Message is not valid JSON' } })}\n`);
+            return;
+        }
+
+        const id = message && typeof message === 'object' ? message.id : undefined;
+        const cancellation = new vscode.CancellationTokenSource();
+        if (id !== undefined) {
+            this.inFlight.set(id, cancellation);
+        }
+        try {
+            const response = await dispatchRpc(message, this.protocol, cancellation.token, 'MCP');
+            if (response) {
+                output.write(`${JSON.stringify(response)}\n`);
+            }
+        } finally {
+            if (id !== undefined) {
+                this.inFlight.delete(id);
+            }
+            cancellation.dispose();
+        }
+    }
+
+    /**
+     * Failures of the tool itself are results with `isError`, so the agent sees the reason
+     */
+    private async callTool(params: RpcParams, token: vscode.CancellationToken): Promise<unknown> {
+        const tool = TOOLS.find(candidate => candidate.name === params.name);
+        if (!tool) {
+            throw new RpcError(RpcErrorCode.INVALID_PARAMS, `Unknown tool "${String(params.name)}"`);
+        }
+        const args = params.arguments ?? {};
+        if (typeof args !== 'object' || Array.isArray(args)) {
+            throw new RpcError(RpcErrorCode.INVALID_PARAMS, 'Tool arguments must be an object');
+        }
+
+        try {
+            const result = await this.methods[tool.method](tool.toParams(args as RpcParams), token);
+            return {
+                content: [{ type: 'text', text: tool.toText(result) }],
+                structuredContent: Array.isArray(result) ? { items: result } : result,
+            };
+        } catch (error) {
+            if (token.isCancellationRequested) {
+                throw error;
+            }
+            const message = error instanceof RpcError
+                ? error.message
+                : ErrorHandler.classifyError(error instanceof Error ? error : new Error(String(error))).userMessage;
+            return { content: [{ type: 'text', text: message }], isError: true };
+        }
+    }
+
+    private async listResources(): Promise<unknown> {
+        const templates = await this.templates.getAllTemplates();
+        const roles = RoleManager.getInstance().getAllRoles();
+        return {
+            resources: [
+                ...templates.map(template => ({
+                    uri: `prompt-refiner://templates/${encodeURIComponent(template.id)}`,
+                    name: `Template: ${template.name}`,
+                    description: template.description,
+                    mimeType: 'text/markdown',
+                })),
+                ...roles.map(role => ({
+                    uri: `prompt-refiner://roles/${encodeURIComponent(role.id)}`,
+                    name: `Role: ${role.name}`,
+                    description: role.description,
+                    mimeType: 'text/markdown',
+                })),
+            ],
+        };
+    }
+
+    private async readResource(params: RpcParams): Promise<unknown> {
+        const uri = String(params.uri ?? '');
+        const match = uri.match(/^prompt-refiner:\/\/(templates|roles)\/(.+)$/);
+        let text: string | undefined;
+        if (match) {
+            const id = decodeURIComponent(match[2]);
+            text = match[1] === 'templates'
+                ? (await this.templates.getTemplate(id))?.content
+                : RoleManager.getInstance().getRoleById(id)?.systemPrompt;
+        }
+        if (text === undefined) {
+            throw new RpcError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, { uri });
+        }
+        return { contents: [{ uri, mimeType: 'text/markdown', text }] };
+    }
+}
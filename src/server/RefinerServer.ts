@@ -0,0 +1,176 @@
+import * as vscode from 'vscode';
+import * as http from 'http';
+import * as crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { logger } from '../services/Logger';
+import { RpcError, RpcErrorCode, RpcMethod, RpcResponse, dispatchRpc } from './jsonRpc';
+
+/** Requests are prompts, not uploads */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export const RPC_PATH = '/rpc';
+
+/**
+ * JSON-RPC 2.0 over HTTP on 127.0.0.1. Every request must carry `Authorization: Bearer <token>`
+ * and a localhost `Host` header, which keeps web pages (including DNS-rebinding ones) out.
+ */
+export class RefinerServer {
+    private server: http.Server | undefined;
+    private port: number | undefined;
+
+    constructor(private readonly methods: Record<string, RpcMethod>, private readonly token: string) {}
+
+    /** `http://127.0.0.1:<port>/rpc` while listening */
+    public get url(): string | undefined {
+        return this.port !== undefined ? `http://127.0.0.1:${this.port}${RPC_PATH}` : undefined;
+    }
+
+    /**
+     * Listen on `port`, or a free one when 0; resolves with the port in use
+     */
+    public async start(port = 0): Promise<number> {
+        if (this.server && this.port !== undefined) {
+            return this.port;
+        }
+        const server = http.createServer((req, res) => {
+            this.handle(req, res).catch(error => {
+                logger.error('Server request failed', error as Error);
+                if (!res.headersSent) {
+                    this.send(res, 500, { error: 'Internal server error' });
+                }
+            });
+        });
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(port, '127.0.0.1', () => {
+                server.off('error', reject);
+                resolve();
+            });
+        });
+        this.server = server;
+        this.port = (server.address() as AddressInfo).port;
+        logger.info('Refiner server listening', { url: this.url });
+        return this.port;
+    }
+
+    public async stop(): Promise<void> {
+        const server = this.server;
+        this.server = undefined;
+        this.port = undefined;
+        if (!server) {
+            return;
+        }
+        server.closeAllConnections();
+        await new Promise<void>(resolve => server.close(() => resolve()));
+        logger.info('Refiner server stopped');
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const url = new URL(req.url ?? '/', 'http://127.0.0.1');
+        if (url.pathname !== RPC_PATH) {
+            this.send(res, 404, { error: `Not found; send JSON-RPC requests to POST ${RPC_PATH}` });
+            return;
+        }
+        if (req.method !== 'POST') {
+            res.setHeader('Allow', 'POST');
+            this.send(res, 405, { error: 'Method not allowed' });
+            return;
+        }
+        if (!this.isLocalHost(req.headers.host)) {
+            logger.warn('Server request rejected: unexpected Host header', { host: req.headers.host });
+            this.send(res, 403, { error: 'Forbidden' });
+            return;
+        }
+        if (!this.isAuthorized(req.headers.authorization)) {
+            logger.warn('Server request rejected: missing or wrong bearer token');
+            res.setHeader('WWW-Authenticate', 'Bearer');
+            this.send(res, 401, { error: 'Unauthorized' });
+            return;
+        }
+        if (!req.headers['content-type']?.toLowerCase().startsWith('application/json')) {
+            this.send(res, 415, { error: 'Content-Type must be application/json' });
+            return;
+        }
+
+        const body = await this.readBody(req);
+        if (body === undefined) {
+            this.send(res, 413, { error: `Request body exceeds ${MAX_BODY_BYTES} bytes` });
+            return;
+        }
+
+        let message: unknown;
+        try {
+            message = JSON.parse(body);
+        } catch {
+            const error = new RpcError(RpcErrorCode.PARSE_ERROR, 'Request body is not valid JSON');
+            this.send(res, 200, { jsonrpc: '2.0', id: null, error: { code: error.code, message: error.message } });
+            return;
+        }
+
+        // A client that hangs up cancels its refinements
+        const cancellation = new vscode.CancellationTokenSource();
+        res.on('close', () => {
+            if (!res.writableFinished) {
+                cancellation.cancel();
+            }
+        });
+        try {
+            let responses: RpcResponse | Array<RpcResponse | undefined> | undefined;
+            if (Array.isArray(message)) {
+                responses = message.length === 0
+                    ? { jsonrpc: '2.0', id: null, error: { code: RpcErrorCode.INVALID_REQUEST, message: 'Empty batch' } }
+                    : await Promise.all(message.map(entry => dispatchRpc(entry, this.methods, cancellation.token, 'HTTP')));
+            } else {
+                responses = await dispatchRpc(message, this.methods, cancellation.token, 'HTTP');
+            }
+
+            const payload = Array.isArray(responses) ? responses.filter(response => response !== undefined) : responses;
+            if (payload === undefined || (Array.isArray(payload) && payload.length === 0)) {
+                res.writeHead(204).end();
+            } else {
+                this.send(res, 200, payload);
+            }
+        } finally {
+            cancellation.dispose();
+        }
+    }
+
+    private isLocalHost(host: string | undefined): boolean {
+        return host === `127.0.0.1:${this.port}` || host === `localhost:${this.port}`;
+    }
+
+    private isAuthorized(header: string | undefined): boolean {
+        const presented = header?.match(/^Bearer\s+(\S+)$/i)?.[1];
+        if (!presented) {
+            return false;
+        }
+        // Compare digests so the comparison takes the same time whatever the length
+        const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+        return crypto.timingSafeEqual(digest(presented), digest(this.token));
+    }
+
+    /** Resolves with undefined when the body is larger than allowed */
+    private readBody(req: http.IncomingMessage): Promise<string | undefined> {
+        return new Promise((resolve, reject) => {
+            const chunks: Buffer[] = [];
+            let size = 0;
+            req.on('data', (chunk: Buffer) => {
+                size += chunk.length;
+                if (size > MAX_BODY_BYTES) {
+                    req.removeAllListeners('data');
+                    req.resume();
+                    resolve(undefined);
+                    return;
+                }
+                chunks.push(chunk);
+            });
+            req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+            req.on('error', reject);
+        });
+    }
+
+    private send(res: http.ServerResponse, status: number, body: unknown): void {
+        res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store' });
+        res.end(JSON.stringify(body));
+    }
+}
@@ -0,0 +1,94 @@
+import * as vscode from 'vscode';
+import { logger } from '../services/Logger';
+import { ErrorHandler } from '../utils/ErrorHandler';
+
+/** JSON-RPC 2.0 error codes; failures of the refinement itself use `REFINEMENT_FAILED` */
+export const RpcErrorCode = {
+    PARSE_ERROR: -32700,
+    INVALID_REQUEST: -32600,
+    METHOD_NOT_FOUND: -32601,
+    INVALID_PARAMS: -32602,
+    INTERNAL_ERROR: -32603,
+    REFINEMENT_FAILED: -32000,
+    REQUEST_CANCELLED: -32800,
+} as const;
+
+/**
+ * Error reported to the client as a JSON-RPC error object
+ */
+export class RpcError extends Error {
+    constructor(public readonly code: number, message: string, public readonly data?: unknown) {
+        super(message);
+        this.name = 'RpcError';
+    }
+}
+
+export type RpcId = string | number | null;
+export type RpcParams = Record<string, unknown>;
+export type RpcMethod = (params: RpcParams, token: vscode.CancellationToken) => Promise<unknown>;
+
+export interface RpcResponse {
+    jsonrpc: '2.0';
+    id: RpcId;
+    result?: unknown;
+    error?: { code: number; message: string; data?: unknown };
+}
+
+function errorResponse(id: RpcId, error: RpcError): RpcResponse {
+    return {
+        jsonrpc: '2.0',
+        id,
+        error: { code: error.code, message: error.message, ...(error.data !== undefined ? { data: error.data } : {}) },
+    };
+}
+
+function toRpcError(error: unknown, token: vscode.CancellationToken): RpcError {
+    if (error instanceof RpcError) {
+        return error;
+    }
+    if (token.isCancellationRequested) {
+        return new RpcError(RpcErrorCode.REQUEST_CANCELLED, 'Request cancelled');
+    }
+    const info = ErrorHandler.classifyError(error instanceof Error ? error : new Error(String(error)));
+    return new RpcError(RpcErrorCode.REFINEMENT_FAILED, info.userMessage, { type: info.type });
+}
+
+/**
+ * Run one JSON-RPC request against `methods`. Resolves with the response, or undefined for
+ * notifications (requests without an id). `transport` only labels the log line.
+ */
+export async function dispatchRpc(
+    message: unknown,
+    methods: Record<string, RpcMethod>,
+    token: vscode.CancellationToken,
+    transport: string
+): Promise<RpcResponse | undefined> {
+    const request = message as { jsonrpc?: unknown; id?: unknown; method?: unknown; params?: unknown } | null;
+    const rawId = request && typeof request === 'object' ? request.id : undefined;
+    const id: RpcId = typeof rawId === 'string' || typeof rawId === 'number' ? rawId : null;
+
+    if (!request || typeof request !== 'object' || Array.isArray(request) || request.jsonrpc !== '2.0' || typeof request.method !== 'string') {
+        return errorResponse(id, new RpcError(RpcErrorCode.INVALID_REQUEST, 'Expected a JSON-RPC 2.0 request object'));
+    }
+    const isNotification = !('id' in request);
+    const method = request.method;
+    const started = Date.now();
+
+    let response: RpcResponse;
+    try {
+        if (!Object.prototype.hasOwnProperty.call(methods, method)) {
+            throw new RpcError(RpcErrorCode.METHOD_NOT_FOUND, `Unknown method "${method}"`);
+        }
+        const params = request.params ?? {};
+        if (typeof params !== 'object' || Array.isArray(params) || params === null) {
+            throw new RpcError(RpcErrorCode.INVALID_PARAMS, 'Params must be an object of named parameters');
+        }
+        response = { jsonrpc: '2.0', id, result: await methods[method](params as RpcParams, token) };
+        logger.info(`${transport} ${method}`, { id, durationMs: Date.now() - started });
+    } catch (error) {
+        const rpcError = toRpcError(error, token);
+        logger.warn(`${transport} ${method} failed`, { id, code: rpcError.code, message: rpcError.message, durationMs: Date.now() - started });
+        response = errorResponse(id, rpcError);
+    }
+    return isNotification ? undefined : response;
+}
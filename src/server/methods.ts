@@ -0,0 +1,178 @@
+import { PromptRefinerService, RefinementResult } from '../services/PromptRefinerService';
+import { TemplateManager } from '../services/TemplateManager';
+import { RoleManager } from '../services/RoleManager';
+import { ModelRegistry } from '../services/ModelRegistry';
+import { ConfigurationManager } from '../services/ConfigurationManager';
+import { ValidationRuleRegistry } from '../services/ValidationRuleRegistry';
+import { RpcError, RpcErrorCode, RpcMethod, RpcParams } from './jsonRpc';
+
+function optionalString(params: RpcParams, name: string): string | undefined {
+    const value = params[name];
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (typeof value !== 'string') {
+        throw new RpcError(RpcErrorCode.INVALID_PARAMS, `"${name}" must be a string`);
+    }
+    return value;
+}
+
+function requireString(params: RpcParams, name: string): string {
+    const value = optionalString(params, name);
+    if (!value?.trim()) {
+        throw new RpcError(RpcErrorCode.INVALID_PARAMS, `"${name}" is required`);
+    }
+    return value;
+}
+
+function optionalBoolean(params: RpcParams, name: string): boolean | undefined {
+    const value = params[name];
+    if (value !== undefined && typeof value !== 'boolean') {
+        throw new RpcError(RpcErrorCode.INVALID_PARAMS, `"${name}" must be a boolean`);
+    }
+    return value;
+}
+
+function optionalVariables(params: RpcParams): Record<string, string> | undefined {
+    const value = params.templateVariables;
+    if (value === undefined) {
+        return undefined;
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value) || Object.values(value).some(item => typeof item !== 'string')) {
+        throw new RpcError(RpcErrorCode.INVALID_PARAMS, '"templateVariables" must map names to strings');
+    }
+    return value as Record<string, string>;
+}
+
+/** Reject unknown roles and templates up front rather than silently refining with the defaults */
+async function checkSelection(templates: TemplateManager, roleId: string | undefined, templateId: string | undefined): Promise<void> {
+    if (roleId && !RoleManager.getInstance().isKnownRole(roleId)) {
+        throw new RpcError(RpcErrorCode.INVALID_PARAMS, `Unknown role "${roleId}"`);
+    }
+    if (templateId && !(await templates.getTemplate(templateId))) {
+        throw new RpcError(RpcErrorCode.INVALID_PARAMS, `Unknown template "${templateId}"`);
+    }
+}
+
+function toPayload(result: RefinementResult) {
+    return {
+        refined: result.refined,
+        provider: result.provider,
+        model: result.model,
+        template: result.templateUsed,
+        iteration: result.iteration,
+        tokens: result.tokens,
+        usage: result.usage,
+        validation: result.validation,
+        repair: result.repair,
+        redactions: result.redactions,
+    };
+}
+
+/** Services the methods call; the singletons unless given (for tests) */
+export interface RefinerMethodDependencies {
+    service?: PromptRefinerService;
+    templateManager?: TemplateManager;
+}
+
+/**
+ * Methods shared by the local servers, backed by the same services as the chat view.
+ * Requests are independent: nothing is added to chat sessions and the cache is used as usual.
+ * They never wait on a prompt in the editor.
+ */
+export function createRefinerMethods(dependencies: RefinerMethodDependencies = {}): Record<string, RpcMethod> {
+    const service = dependencies.service ?? PromptRefinerService.getInstance();
+    const templates = dependencies.templateManager ?? TemplateManager.getInstance();
+    let modelsLoaded: Promise<void> | undefined;
+
+    return {
+        refine: async (params, token) => {
+            const prompt = requireString(params, 'prompt');
+            const roleId = optionalString(params, 'roleId');
+            const templateId = optionalString(params, 'templateId');
+            const providerId = optionalString(params, 'providerId');
+            const modelId = optionalString(params, 'modelId');
+            const templateVariables = optionalVariables(params);
+            const validateOutput = optionalBoolean(params, 'validate');
+            await checkSelection(templates, roleId, templateId);
+
+            if (providerId || modelId) {
+                if (!providerId || !modelId) {
+                    throw new RpcError(RpcErrorCode.INVALID_PARAMS, '"providerId" and "modelId" must be given together');
+                }
+                return toPayload(await service.refineWithModel(prompt, providerId, modelId, token, {
+                    roleId, templateId, templateVariables, validateOutput, headless: true,
+                }));
+            }
+            return toPayload(await service.refine(prompt, token, {
+                roleId,
+                templateId,
+                templateVariables,
+                validateOutput,
+                autoRepair: optionalBoolean(params, 'autoRepair'),
+                bypassCache: optionalBoolean(params, 'bypassCache'),
+                headless: true,
+            }));
+        },
+
+        reRefine: async (params, token) => {
+            const prompt = requireString(params, 'prompt');
+            const previous = requireString(params, 'previous');
+            const feedback = requireString(params, 'feedback');
+            const roleId = optionalString(params, 'roleId');
+            const templateId = optionalString(params, 'templateId');
+            const iteration = params.iteration;
+            if (iteration !== undefined && (typeof iteration !== 'number' || !Number.isInteger(iteration) || iteration < 1)) {
+                throw new RpcError(RpcErrorCode.INVALID_PARAMS, '"iteration" must be a positive integer');
+            }
+            await checkSelection(templates, roleId, templateId);
+
+            return toPayload(await service.reRefine(prompt, previous, feedback, token, {
+                roleId,
+                templateId,
+                templateVariables: optionalVariables(params),
+                validateOutput: optionalBoolean(params, 'validate'),
+                iteration,
+                headless: true,
+            }));
+        },
+
+        listTemplates: async () => (await templates.getAllTemplates()).map(template => ({
+            id: template.id,
+            name: template.name,
+            description: template.description,
+            category: template.category,
+            scope: template.scope ?? 'builtin',
+            role: template.role,
+            variables: template.variables,
+        })),
+
+        listRoles: async () => RoleManager.getInstance().getAllRoles().map(role => ({
+            id: role.id,
+            name: role.name,
+            description: role.description,
+            scope: role.scope ?? 'builtin',
+        })),
+
+        listModels: async params => {
+            const provider = optionalString(params, 'providerId') ?? ConfigurationManager.getInstance().getProviderId();
+            const registry = ModelRegistry.getInstance();
+            modelsLoaded ??= registry.initialize();
+            await modelsLoaded;
+            return {
+                provider,
+                lastUpdated: registry.getLastUpdated(provider),
+                models: await registry.getSupportedModels(provider),
+            };
+        },
+
+        validate: async params => {
+            const output = requireString(params, 'output');
+            const roleId = optionalString(params, 'roleId');
+            const templateId = optionalString(params, 'templateId');
+            await checkSelection(templates, roleId, templateId);
+            const strict = optionalBoolean(params, 'strict') ?? ConfigurationManager.getInstance().isStrictMode();
+            return ValidationRuleRegistry.getInstance().validate(output, strict, { roleId, templateId });
+        },
+    };
+}
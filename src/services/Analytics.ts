@@ -2,7 +2,7 @@ import * as vscode from 'vscode';
 import { logger } from './Logger';
 
 /**
- * Simple analytics service for tracking role usage
+ * Simple analytics service for tracking role usage (predefined and custom roles alike)
  * MVP implementation - stores data locally in globalState
  */
 
@@ -70,6 +70,7 @@ export class Analytics {
         }
 
         data.roles[roleId].sessionCount++;
+        data.roles[roleId].roleName = roleName;
         data.roles[roleId].lastUsed = Date.now();
         data.totalSessions++;
         data.lastUpdated = Date.now();
@@ -98,6 +99,7 @@ export class Analytics {
         }
 
         data.roles[roleId].refinementCount++;
+        data.roles[roleId].roleName = roleName;
         data.roles[roleId].lastUsed = Date.now();
         data.totalRefinements++;
         data.lastUpdated = Date.now();
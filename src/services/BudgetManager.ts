@@ -0,0 +1,176 @@
+import * as vscode from 'vscode';
+import { logger } from './Logger';
+import { ConfigurationManager } from './ConfigurationManager';
+import {
+    BudgetLimit,
+    BudgetStatus,
+    PeriodUsage,
+    addUsage,
+    describeBudgetStatus,
+    evaluateBudget,
+    periodKeys,
+    rollOverUsage,
+} from '../utils/budget';
+
+/** Result of checking the caps before a call to `providerId` */
+export interface BudgetCheck {
+    /** Every capped metric that applies, tightest first */
+    statuses: BudgetStatus[];
+    exceeded: BudgetStatus[];
+    warnings: BudgetStatus[];
+}
+
+/**
+ * Tracks refinement usage per provider (across workspaces) and per workspace, and checks it
+ * against the caps in `promptRefiner.budget.limits`. Counters live in extension storage so
+ * they survive restarts; they reset when the calendar day or month changes.
+ */
+export class BudgetManager {
+    private static instance: BudgetManager | undefined;
+    private context?: vscode.ExtensionContext;
+    private readonly PROVIDER_USAGE_KEY = 'promptRefiner.budgetUsage.providers';
+    private readonly WORKSPACE_USAGE_KEY = 'promptRefiner.budgetUsage.workspace';
+    private readonly usageEmitter = new vscode.EventEmitter<void>();
+    /** Warnings already shown, keyed by cap and period so each warns once per period */
+    private readonly warned = new Set<string>();
+
+    /** Fires after usage is recorded */
+    public readonly onDidChangeUsage = this.usageEmitter.event;
+
+    private constructor() {
+        // Private constructor to prevent direct instantiation - use getInstance()
+    }
+
+    /**
+     * Get the singleton instance
+     */
+    public static getInstance(): BudgetManager {
+        if (!BudgetManager.instance) {
+            BudgetManager.instance = new BudgetManager();
+        }
+        return BudgetManager.instance;
+    }
+
+    public initialize(context: vscode.ExtensionContext): void {
+        this.context = context;
+    }
+
+    /**
+     * Caps that apply to a call to `providerId`, against usage so far this day/month.
+     * Nothing is capped until the manager is initialized.
+     */
+    public check(providerId: string): BudgetCheck {
+        if (!this.context) {
+            return { statuses: [], exceeded: [], warnings: [] };
+        }
+        const { limits, warnThreshold } = ConfigurationManager.getInstance().getBudgetSettings();
+        const statuses = evaluateBudget(limits, providerId, limit => this.getUsage(limit), warnThreshold);
+        return {
+            statuses,
+            exceeded: statuses.filter(status => status.state === 'exceeded'),
+            warnings: statuses.filter(status => status.state === 'warning'),
+        };
+    }
+
+    /**
+     * Count one completed provider call against its provider and this workspace. `cost` is
+     * undefined for models without a known price: spend caps can't count those calls, which the
+     * user is told once per model and month.
+     */
+    public async recordUsage(providerId: string, tokens: number, cost: number | undefined, modelId?: string): Promise<void> {
+        if (!this.context) {
+            return;
+        }
+        if (cost === undefined) {
+            this.warnIfUnpriced(providerId, modelId);
+        }
+        const now = new Date();
+        const providers = this.context.globalState.get<Record<string, PeriodUsage>>(this.PROVIDER_USAGE_KEY, {});
+        const workspace = this.context.workspaceState.get<PeriodUsage>(this.WORKSPACE_USAGE_KEY);
+
+        await this.context.globalState.update(this.PROVIDER_USAGE_KEY, {
+            ...providers,
+            [providerId]: addUsage(rollOverUsage(providers[providerId], now), tokens, cost ?? 0),
+        });
+        await this.context.workspaceState.update(
+            this.WORKSPACE_USAGE_KEY,
+            addUsage(rollOverUsage(workspace, now), tokens, cost ?? 0)
+        );
+
+        logger.debug('Budget usage recorded', { providerId, tokens, cost });
+        this.usageEmitter.fire();
+    }
+
+    /**
+     * Show a warning for caps past the threshold, once per cap per period
+     */
+    public warnIfNearLimit(check: BudgetCheck): void {
+        const { day, month } = periodKeys(new Date());
+        for (const status of check.warnings) {
+            const key = [
+                status.limit.provider ?? '*',
+                status.limit.period,
+                status.metric,
+                status.limit.period === 'daily' ? day : month,
+            ].join(':');
+            if (this.warned.has(key)) {
+                continue;
+            }
+            this.warned.add(key);
+            // Not awaited: the refinement goes ahead while the warning is on screen
+            void this.showWarning(status);
+        }
+    }
+
+    private warnIfUnpriced(providerId: string, modelId: string | undefined): void {
+        if (!this.check(providerId).statuses.some(status => status.metric === 'cost')) {
+            return;
+        }
+        const model = modelId ?? providerId;
+        const key = ['unpriced', providerId, model, periodKeys(new Date()).month].join(':');
+        if (this.warned.has(key)) {
+            return;
+        }
+        this.warned.add(key);
+        logger.warn('Spend caps cannot count a model without a price', { providerId, modelId });
+        void (async () => {
+            const action = await vscode.window.showWarningMessage(
+                `${model} (${providerId}) has no known price, so spend caps don't count its calls. Request and token caps still apply.`,
+                'Open Settings'
+            );
+            if (action === 'Open Settings') {
+                await vscode.commands.executeCommand('workbench.action.openSettings', 'promptRefiner.budget');
+            }
+        })();
+    }
+
+    private async showWarning(status: BudgetStatus): Promise<void> {
+        const percent = Math.round((1 - status.remaining) * 100);
+        const action = await vscode.window.showWarningMessage(
+            `${describeBudgetStatus(status)} (${percent}% used).`,
+            'Open Settings'
+        );
+        if (action === 'Open Settings') {
+            await vscode.commands.executeCommand('workbench.action.openSettings', 'promptRefiner.budget');
+        }
+    }
+
+    /**
+     * Current counters of a limit's scope: its provider, or the whole workspace
+     */
+    private getUsage(limit: BudgetLimit): PeriodUsage {
+        const now = new Date();
+        if (limit.provider) {
+            const providers = this.context?.globalState.get<Record<string, PeriodUsage>>(this.PROVIDER_USAGE_KEY, {}) ?? {};
+            return rollOverUsage(providers[limit.provider], now);
+        }
+        return rollOverUsage(this.context?.workspaceState.get<PeriodUsage>(this.WORKSPACE_USAGE_KEY), now);
+    }
+
+    /**
+     * Reset singleton instance (for testing)
+     */
+    public static resetInstance(): void {
+        BudgetManager.instance = undefined;
+    }
+}
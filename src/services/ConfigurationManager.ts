@@ -1,7 +1,102 @@
 import * as vscode from 'vscode';
 import { getApiModelId, getUiModelId, migrateLegacyModelId, isValidModelId, getModelName } from '../utils/ModelMappings';
+import { BudgetLimit } from '../utils/budget';
+import { listLanguageModels } from '../utils/languageModels';
+import { PROFILE_ID_PATTERN, isOpenAICompatibleProviderId, toOpenAICompatibleProviderId } from '../utils/openaiCompatible';
+import { CustomRedactionPattern } from '../utils/redaction';
 import { logger } from './Logger';
 
+const DEFAULT_LINTER_INCLUDE = '**/{*.prompt.md,*.prompt.txt,.prompts/prompts/**/*.md}';
+
+export interface EditorContextSettings {
+    enabled: boolean;
+    /** Let the user review and untick context pieces before sending */
+    preview: boolean;
+    symbolsTokenBudget: number;
+    diagnosticsTokenBudget: number;
+    filesTokenBudget: number;
+}
+
+export interface BudgetSettings {
+    limits: BudgetLimit[];
+    /** Share of a cap (0-1) at which the user is warned */
+    warnThreshold: number;
+    /** What happens once a cap is reached */
+    onLimit: 'block' | 'fallbackToOllama';
+}
+
+export interface CacheSettings {
+    /** Hours an unused entry stays cached */
+    ttlHours: number;
+    maxSizeMB: number;
+    /** Offer refinements of similar earlier prompts */
+    nearDuplicate: boolean;
+    /** Minimum estimated similarity (0-1) for a near-duplicate */
+    similarityThreshold: number;
+}
+
+export interface LinterSettings {
+    enabled: boolean;
+    /** Glob of the Markdown/plaintext files treated as prompts */
+    include: string;
+    /** Estimated tokens above which a prompt is flagged as too long */
+    maxTokens: number;
+    disabledRules: string[];
+}
+
+export interface AutoRepairSettings {
+    enabled: boolean;
+    /** Follow-up requests sent at most after the first answer failed validation */
+    maxRounds: number;
+}
+
+export interface RedactionSettings {
+    enabled: boolean;
+    /** Built-in detectors that are off, by id */
+    disabledDetectors: string[];
+    customPatterns: CustomRedactionPattern[];
+    /** `blockCloud`: refuse to send a prompt with a secret in it to a provider that isn't local */
+    onSecret: 'redact' | 'blockCloud';
+}
+
+export interface ServerSettings {
+    enabled: boolean;
+    /** 0 picks a free port each time the server starts */
+    port: number;
+}
+
+export interface AzureOpenAISettings {
+    /** Resource endpoint, e.g. `https://contoso.openai.azure.com` */
+    endpoint: string;
+    apiVersion: string;
+    /** Deployment names, used as model ids */
+    deployments: string[];
+    /** `entraId` signs in with a Microsoft account instead of using the stored key */
+    authentication: 'apiKey' | 'entraId';
+}
+
+export interface BedrockSettings {
+    region: string;
+    /** Runtime endpoint; empty means the public `bedrock-runtime.<region>.amazonaws.com` */
+    endpoint: string;
+    /** Model or inference profile ids to offer */
+    models: string[];
+}
+
+/**
+ * An OpenAI-compatible endpoint (LiteLLM, vLLM, LM Studio, ...). Its API key lives in SecretStorage
+ * under the profile's provider id.
+ */
+export interface OpenAICompatibleProfile {
+    /** `openai-compatible.<profile id>` */
+    providerId: string;
+    name: string;
+    baseUrl: string;
+    defaultModel?: string;
+    headers: Record<string, string>;
+    timeoutMs: number;
+}
+
 export class ConfigurationManager {
     private static instance: ConfigurationManager;
     private context: vscode.ExtensionContext | undefined;
@@ -63,6 +158,17 @@ export class ConfigurationManager {
         return storedId;
     }
 
+    /**
+     * Get the API model ID for a call: the `override` (UI or API ID) mapped for `providerId`
+     * when given, otherwise the configured model
+     */
+    public resolveModelId(providerId: string, override?: string): string {
+        if (!override) {
+            return this.getModelId();
+        }
+        return getApiModelId(override, providerId) ?? override;
+    }
+
     /**
      * Get the UI-friendly model ID for display purposes
      */
@@ -123,6 +229,13 @@ export class ConfigurationManager {
         return vscode.workspace.getConfiguration('promptRefiner').get<boolean>('useRoleTemplates', true);
     }
 
+    /**
+     * Template picked with `promptRefiner.selectTemplate`
+     */
+    public getSelectedTemplateId(): string {
+        return vscode.workspace.getConfiguration('promptRefiner').get<string>('selectedTemplate', 'default') || 'default';
+    }
+
     public async getApiKey(providerId: string): Promise<string | undefined> {
         if (!this.secrets) {
             return undefined;
@@ -137,6 +250,204 @@ export class ConfigurationManager {
         await this.secrets.store(`promptRefiner.${providerId}.apiKey`, key);
     }
 
+    /**
+     * Ordered fallback chain tried when the active provider is unavailable.
+     * Entries are `provider` or `provider:model` (e.g. `groq`, `ollama:llama3:8b`).
+     */
+    public getFallbackProviders(): Array<{ providerId: string; modelId?: string }> {
+        const entries = vscode.workspace.getConfiguration('promptRefiner').get<string[]>('fallbackProviders', []);
+        return entries
+            .map(entry => entry.trim())
+            .filter(entry => entry.length > 0)
+            .map(entry => {
+                const separator = entry.indexOf(':');
+                if (separator === -1) {
+                    return { providerId: entry };
+                }
+                const modelId = entry.slice(separator + 1).trim();
+                return { providerId: entry.slice(0, separator).trim(), modelId: modelId || undefined };
+            });
+    }
+
+    /**
+     * Editor context attached to "Refine Selection". Budgets are in estimated tokens per piece.
+     */
+    public getEditorContextSettings(): EditorContextSettings {
+        const config = vscode.workspace.getConfiguration('promptRefiner');
+        return {
+            enabled: config.get<boolean>('editorContext.enabled', false),
+            preview: config.get<boolean>('editorContext.preview', true),
+            symbolsTokenBudget: config.get<number>('editorContext.symbolsTokenBudget', 300),
+            diagnosticsTokenBudget: config.get<number>('editorContext.diagnosticsTokenBudget', 200),
+            filesTokenBudget: config.get<number>('editorContext.filesTokenBudget', 1500),
+        };
+    }
+
+    /**
+     * Upper bound on earlier conversation turns sent with a follow-up; 0 sends none.
+     * The model's context window may lower it further.
+     */
+    public getMaxHistoryTokens(): number {
+        return vscode.workspace.getConfiguration('promptRefiner').get<number>('conversation.maxHistoryTokens', 4000);
+    }
+
+    /**
+     * Spend guardrails. Limits without a valid period or any positive cap are ignored.
+     */
+    public getBudgetSettings(): BudgetSettings {
+        const config = vscode.workspace.getConfiguration('promptRefiner');
+        const limits = config.get<BudgetLimit[]>('budget.limits', [])
+            .filter(limit => limit.period === 'daily' || limit.period === 'monthly')
+            .filter(limit => [limit.maxRequests, limit.maxTokens, limit.maxCost].some(max => typeof max === 'number' && max > 0));
+        return {
+            limits,
+            warnThreshold: Math.min(1, Math.max(0, config.get<number>('budget.warnThreshold', 0.8))),
+            onLimit: config.get<string>('budget.onLimit', 'block') === 'fallbackToOllama' ? 'fallbackToOllama' : 'block',
+        };
+    }
+
+    /**
+     * Persistent refinement cache
+     */
+    public getCacheSettings(): CacheSettings {
+        const config = vscode.workspace.getConfiguration('promptRefiner');
+        return {
+            ttlHours: Math.max(0, config.get<number>('cache.ttlHours', 168)),
+            maxSizeMB: Math.max(0.1, config.get<number>('cache.maxSizeMB', 5)),
+            nearDuplicate: config.get<boolean>('cache.nearDuplicate.enabled', false),
+            similarityThreshold: Math.min(1, Math.max(0.5, config.get<number>('cache.nearDuplicate.threshold', 0.85))),
+        };
+    }
+
+    /**
+     * Prompt linter for prompt files in the editor
+     */
+    public getLinterSettings(): LinterSettings {
+        const config = vscode.workspace.getConfiguration('promptRefiner');
+        return {
+            enabled: config.get<boolean>('linter.enabled', true),
+            include: config.get<string>('linter.include', DEFAULT_LINTER_INCLUDE).trim() || DEFAULT_LINTER_INCLUDE,
+            maxTokens: Math.max(1, config.get<number>('linter.maxTokens', 1500)),
+            disabledRules: config.get<string[]>('linter.disabledRules', []),
+        };
+    }
+
+    /**
+     * Re-asking the provider to fix refinements that fail validation
+     */
+    public getAutoRepairSettings(): AutoRepairSettings {
+        const config = vscode.workspace.getConfiguration('promptRefiner');
+        return {
+            enabled: config.get<boolean>('autoRepair.enabled', false),
+            maxRounds: Math.min(5, Math.max(1, Math.round(config.get<number>('autoRepair.maxRounds', 2)))),
+        };
+    }
+
+    /**
+     * Refinement pipeline stages to skip, by id; required stages are never skipped
+     */
+    public getDisabledPipelineStages(): string[] {
+        return vscode.workspace.getConfiguration('promptRefiner').get<string[]>('pipeline.disabledStages', []);
+    }
+
+    /**
+     * What is redacted from prompts before they reach a provider
+     */
+    public getRedactionSettings(): RedactionSettings {
+        const config = vscode.workspace.getConfiguration('promptRefiner');
+        return {
+            enabled: config.get<boolean>('redaction.enabled', true),
+            disabledDetectors: config.get<string[]>('redaction.disabledDetectors', []),
+            customPatterns: config.get<CustomRedactionPattern[]>('redaction.customPatterns', []),
+            onSecret: config.get<string>('redaction.onSecret', 'redact') === 'blockCloud' ? 'blockCloud' : 'redact',
+        };
+    }
+
+    /**
+     * Whether prompts sent to the provider stay on this machine: the mock provider, and Ollama or
+     * OpenAI-compatible endpoints on a loopback address
+     */
+    public isLocalProvider(providerId: string): boolean {
+        let endpoint: string | undefined;
+        if (providerId === 'mock') {
+            return true;
+        } else if (providerId === 'ollama') {
+            endpoint = this.getOllamaEndpoint();
+        } else if (isOpenAICompatibleProviderId(providerId)) {
+            endpoint = this.getOpenAICompatibleProfile(providerId)?.baseUrl;
+        }
+        try {
+            const host = endpoint ? new URL(endpoint).hostname : '';
+            return host === 'localhost' || host === '[::1]' || /^127\.\d+\.\d+\.\d+$/.test(host);
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Local JSON-RPC server for other editors and tools
+     */
+    public getServerSettings(): ServerSettings {
+        const config = vscode.workspace.getConfiguration('promptRefiner');
+        const port = Math.round(config.get<number>('server.port', 0));
+        return {
+            enabled: config.get<boolean>('server.enabled', false),
+            port: port >= 1024 && port <= 65535 ? port : 0,
+        };
+    }
+
+    /**
+     * Profiles without a valid id or base URL are skipped, and so are repeated ids
+     */
+    public getOpenAICompatibleProfiles(): OpenAICompatibleProfile[] {
+        const entries = vscode.workspace.getConfiguration('promptRefiner').get<Array<Record<string, unknown>>>('openaiCompatible.profiles', []);
+        const profiles: OpenAICompatibleProfile[] = [];
+        for (const entry of Array.isArray(entries) ? entries : []) {
+            const id = typeof entry?.id === 'string' ? entry.id.trim() : '';
+            const baseUrl = typeof entry?.baseUrl === 'string' ? entry.baseUrl.trim() : '';
+            const providerId = toOpenAICompatibleProviderId(id);
+            if (!PROFILE_ID_PATTERN.test(id) || !/^https?:\/\//i.test(baseUrl) || profiles.some(p => p.providerId === providerId)) {
+                logger.warn('Skipping invalid OpenAI-compatible profile', { id, baseUrl });
+                continue;
+            }
+            const headers = entry.headers && typeof entry.headers === 'object' ? entry.headers as Record<string, unknown> : {};
+            const timeoutSeconds = typeof entry.timeoutSeconds === 'number' ? entry.timeoutSeconds : 60;
+            profiles.push({
+                providerId,
+                name: typeof entry.name === 'string' && entry.name.trim() ? entry.name.trim() : id,
+                baseUrl,
+                defaultModel: typeof entry.defaultModel === 'string' && entry.defaultModel.trim() ? entry.defaultModel.trim() : undefined,
+                headers: Object.fromEntries(Object.entries(headers).filter(([, value]) => typeof value === 'string')) as Record<string, string>,
+                timeoutMs: Math.min(600, Math.max(1, timeoutSeconds)) * 1000,
+            });
+        }
+        return profiles;
+    }
+
+    public getOpenAICompatibleProfile(providerId: string): OpenAICompatibleProfile | undefined {
+        return this.getOpenAICompatibleProfiles().find(profile => profile.providerId === providerId);
+    }
+
+    public getAzureOpenAISettings(): AzureOpenAISettings {
+        const config = vscode.workspace.getConfiguration('promptRefiner');
+        return {
+            endpoint: config.get<string>('azureOpenAI.endpoint', '').trim().replace(/\/+$/, ''),
+            apiVersion: config.get<string>('azureOpenAI.apiVersion', '2024-10-21').trim() || '2024-10-21',
+            deployments: config.get<string[]>('azureOpenAI.deployments', []).map(name => name.trim()).filter(name => name.length > 0),
+            authentication: config.get<string>('azureOpenAI.authentication', 'apiKey') === 'entraId' ? 'entraId' : 'apiKey',
+        };
+    }
+
+    public getBedrockSettings(): BedrockSettings {
+        const config = vscode.workspace.getConfiguration('promptRefiner');
+        const region = config.get<string>('bedrock.region', 'us-east-1').trim() || 'us-east-1';
+        return {
+            region,
+            endpoint: config.get<string>('bedrock.endpoint', '').trim().replace(/\/+$/, '') || `https://bedrock-runtime.${region}.amazonaws.com`,
+            models: config.get<string[]>('bedrock.models', []).map(id => id.trim()).filter(id => id.length > 0),
+        };
+    }
+
     public getOllamaEndpoint(): string {
         return vscode.workspace.getConfiguration('promptRefiner').get<string>('ollamaEndpoint', 'http://localhost:11434');
     }
@@ -148,7 +459,10 @@ export class ConfigurationManager {
         { id: 'github', name: 'GitHub Marketplace', requiresApiKey: true },
         { id: 'openai', name: 'OpenAI', requiresApiKey: true },
         { id: 'gemini', name: 'Google Gemini', requiresApiKey: true },
-        { id: 'groq', name: 'Groq', requiresApiKey: true }
+        { id: 'groq', name: 'Groq', requiresApiKey: true },
+        { id: 'azure-openai', name: 'Azure OpenAI', requiresApiKey: true },
+        // Stored as `ACCESS_KEY_ID:SECRET_ACCESS_KEY[:SESSION_TOKEN]`
+        { id: 'bedrock', name: 'AWS Bedrock', requiresApiKey: true }
         // Hidden providers (not shown in UI):
         // { id: 'huggingface', name: 'Hugging Face', requiresApiKey: true },
         // { id: 'anthropic', name: 'Anthropic', requiresApiKey: true }
@@ -164,12 +478,20 @@ export class ConfigurationManager {
         if (!providerInfo || !providerInfo.requiresApiKey) {
             return true;
         }
+        if (this.usesEntraId(providerId)) {
+            return true;
+        }
 
         // Check if API key exists
         const apiKey = await this.getApiKey(providerId);
         return !!apiKey && apiKey.trim().length > 0;
     }
 
+    /** Azure OpenAI signed in with Microsoft Entra ID needs no stored key */
+    private usesEntraId(providerId: string): boolean {
+        return providerId === 'azure-openai' && this.getAzureOpenAISettings().authentication === 'entraId';
+    }
+
     /**
      * Get configuration status for all providers
      * Returns an array of objects with provider info and configuration status
@@ -192,7 +514,7 @@ export class ConfigurationManager {
                 id: provider.id,
                 name: provider.name,
                 requiresApiKey: provider.requiresApiKey,
-                isConfigured: hasApiKey,
+                isConfigured: hasApiKey || this.usesEntraId(provider.id),
                 hasApiKey: hasApiKey
             });
         }
@@ -200,6 +522,7 @@ export class ConfigurationManager {
         // Add providers that don't require API keys
         const noApiKeyProviders = [
             { id: 'ollama', name: 'Ollama (Local)', requiresApiKey: false },
+            { id: 'vscode-lm', name: 'VS Code Language Models', requiresApiKey: false },
             { id: 'mock', name: 'Mock Provider', requiresApiKey: false }
         ];
 
@@ -208,11 +531,24 @@ export class ConfigurationManager {
                 id: provider.id,
                 name: provider.name,
                 requiresApiKey: provider.requiresApiKey,
-                isConfigured: true,
+                // Usable once Copilot (or another extension) offers a chat model
+                isConfigured: provider.id === 'vscode-lm' ? (await listLanguageModels()).length > 0 : true,
                 hasApiKey: false
             });
         }
 
+        // Local gateways often run without a key, so profiles count as configured either way
+        for (const profile of this.getOpenAICompatibleProfiles()) {
+            const apiKey = await this.getApiKey(profile.providerId);
+            results.push({
+                id: profile.providerId,
+                name: profile.name,
+                requiresApiKey: false,
+                isConfigured: true,
+                hasApiKey: !!apiKey && apiKey.trim().length > 0
+            });
+        }
+
         return results;
     }
 
@@ -274,6 +610,9 @@ export class ConfigurationManager {
         for (const provider of ConfigurationManager.API_KEY_PROVIDERS) {
             await this.secrets.delete(`promptRefiner.${provider.id}.apiKey`);
         }
+        for (const profile of this.getOpenAICompatibleProfiles()) {
+            await this.secrets.delete(`promptRefiner.${profile.providerId}.apiKey`);
+        }
         
         logger.info('All API keys cleared');
     }
@@ -0,0 +1,267 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { logger } from './Logger';
+import { EditorContextSettings } from './ConfigurationManager';
+import {
+    RefinementContext,
+    ContextDiagnostic,
+    ContextDiagnosticSeverity,
+    ContextFile,
+} from '../types/RefinementContext';
+import { estimateTokens, truncateToTokens, takeLinesWithinBudget } from '../utils/tokenBudget';
+
+const SEVERITIES: ContextDiagnosticSeverity[] = ['error', 'warning', 'info', 'hint'];
+
+/**
+ * Collects the editor context attached to "Refine Selection": language, surrounding symbols,
+ * open diagnostics and files the user picked, each cut to its own token budget.
+ */
+export class EditorContextCollector {
+    private static instance: EditorContextCollector;
+    private context?: vscode.ExtensionContext;
+    private readonly FILES_KEY = 'promptRefiner.contextFiles';
+
+    private constructor() {
+        // Private constructor to prevent direct instantiation - use getInstance()
+    }
+
+    /**
+     * Get the singleton instance
+     */
+    public static getInstance(): EditorContextCollector {
+        if (!EditorContextCollector.instance) {
+            EditorContextCollector.instance = new EditorContextCollector();
+        }
+        return EditorContextCollector.instance;
+    }
+
+    public initialize(context: vscode.ExtensionContext): void {
+        this.context = context;
+    }
+
+    /**
+     * Files picked for this workspace with "Pick Context Files"
+     */
+    public getPickedFiles(): vscode.Uri[] {
+        const stored = this.context?.workspaceState.get<string[]>(this.FILES_KEY, []) ?? [];
+        return stored.map(uri => vscode.Uri.parse(uri));
+    }
+
+    public async setPickedFiles(uris: vscode.Uri[]): Promise<void> {
+        if (!this.context) {
+            throw new Error('EditorContextCollector not initialized');
+        }
+        const unique = [...new Set(uris.map(uri => uri.toString()))];
+        await this.context.workspaceState.update(this.FILES_KEY, unique);
+        logger.debug('Context files updated', { count: unique.length });
+    }
+
+    /**
+     * Gather context for the editor's current selection
+     */
+    public async collect(editor: vscode.TextEditor, settings: EditorContextSettings): Promise<RefinementContext> {
+        const document = editor.document;
+        const [symbols, files] = await Promise.all([
+            this.collectSymbols(document, editor.selection, settings.symbolsTokenBudget),
+            this.collectFiles(settings.filesTokenBudget, document.uri),
+        ]);
+        const diagnostics = this.collectDiagnostics(document, editor.selection, settings.diagnosticsTokenBudget);
+
+        logger.debug('Editor context collected', {
+            languageId: document.languageId,
+            symbols: symbols.length,
+            diagnostics: diagnostics.length,
+            files: files.length,
+        });
+
+        return {
+            languageId: document.languageId,
+            fileName: document.isUntitled ? undefined : vscode.workspace.asRelativePath(document.uri),
+            symbols: symbols.length ? symbols : undefined,
+            diagnostics: diagnostics.length ? diagnostics : undefined,
+            files: files.length ? files : undefined,
+        };
+    }
+
+    /**
+     * Let the user untick pieces before they are sent. Returns undefined if the picker is dismissed.
+     */
+    public async preview(context: RefinementContext): Promise<RefinementContext | undefined> {
+        type PreviewItem = vscode.QuickPickItem & { apply: (target: RefinementContext) => void };
+        const items: PreviewItem[] = [];
+
+        if (context.languageId) {
+            items.push({
+                label: `$(symbol-file) Language: ${context.languageId}`,
+                description: context.fileName,
+                picked: true,
+                apply: target => {
+                    target.languageId = context.languageId;
+                    target.fileName = context.fileName;
+                },
+            });
+        }
+        if (context.symbols) {
+            const symbols = context.symbols;
+            items.push({
+                label: '$(symbol-class) Surrounding symbols',
+                description: `${symbols.length} lines · ~${estimateTokens(symbols.join('\n'))} tokens`,
+                detail: symbols.map(line => line.trim()).join('  '),
+                picked: true,
+                apply: target => { target.symbols = symbols; },
+            });
+        }
+        if (context.diagnostics) {
+            const diagnostics = context.diagnostics;
+            items.push({
+                label: '$(warning) Open diagnostics',
+                description: `${diagnostics.length} · ~${estimateTokens(diagnostics.map(d => d.message).join('\n'))} tokens`,
+                detail: diagnostics.map(d => `L${d.line}: ${d.message}`).join('  '),
+                picked: true,
+                apply: target => { target.diagnostics = diagnostics; },
+            });
+        }
+        for (const file of context.files ?? []) {
+            items.push({
+                label: `$(file-code) ${file.path}`,
+                description: `~${estimateTokens(file.content)} tokens${file.truncated ? ' (truncated)' : ''}`,
+                detail: file.content.split('\n').slice(0, 2).join(' ').slice(0, 120),
+                picked: true,
+                apply: target => { target.files = [...(target.files ?? []), file]; },
+            });
+        }
+
+        if (items.length === 0) {
+            return context;
+        }
+
+        const selected = await vscode.window.showQuickPick(items, {
+            canPickMany: true,
+            title: 'Editor context to attach',
+            placeHolder: 'Untick anything that should not be sent with the prompt',
+            ignoreFocusOut: true,
+        });
+        if (!selected) {
+            return undefined;
+        }
+
+        const result: RefinementContext = {};
+        selected.forEach(item => item.apply(result));
+        return result;
+    }
+
+    /**
+     * Outline of top-level symbols, expanding the ones that contain the selection
+     */
+    private async collectSymbols(
+        document: vscode.TextDocument,
+        selection: vscode.Selection,
+        budget: number
+    ): Promise<string[]> {
+        if (budget <= 0) {
+            return [];
+        }
+
+        let symbols: Array<vscode.DocumentSymbol | vscode.SymbolInformation> | undefined;
+        try {
+            symbols = await vscode.commands.executeCommand<Array<vscode.DocumentSymbol | vscode.SymbolInformation>>(
+                'vscode.executeDocumentSymbolProvider',
+                document.uri
+            );
+        } catch (error) {
+            logger.debug('Document symbol provider failed', { error: (error as Error).message });
+            return [];
+        }
+        if (!symbols?.length) {
+            return [];
+        }
+
+        const lines: string[] = [];
+        const visit = (items: Array<vscode.DocumentSymbol | vscode.SymbolInformation>, depth: number) => {
+            for (const symbol of items) {
+                const range = 'range' in symbol ? symbol.range : symbol.location.range;
+                const enclosing = range.contains(selection);
+                const kind = (vscode.SymbolKind[symbol.kind] ?? 'symbol').toLowerCase();
+                lines.push(
+                    `${'  '.repeat(depth)}- ${kind} ${symbol.name} (lines ${range.start.line + 1}-${range.end.line + 1})` +
+                    (enclosing ? ' [contains selection]' : '')
+                );
+                if (enclosing && 'children' in symbol && symbol.children.length) {
+                    visit(symbol.children, depth + 1);
+                }
+            }
+        };
+        visit(symbols, 0);
+
+        return takeLinesWithinBudget(lines, budget);
+    }
+
+    /**
+     * Diagnostics for the document, most severe and closest to the selection first
+     */
+    private collectDiagnostics(
+        document: vscode.TextDocument,
+        selection: vscode.Selection,
+        budget: number
+    ): ContextDiagnostic[] {
+        if (budget <= 0) {
+            return [];
+        }
+
+        const distance = (d: vscode.Diagnostic) => Math.abs(d.range.start.line - selection.start.line);
+        const sorted = [...vscode.languages.getDiagnostics(document.uri)]
+            .sort((a, b) => a.severity - b.severity || distance(a) - distance(b));
+
+        const result: ContextDiagnostic[] = [];
+        let used = 0;
+        for (const diagnostic of sorted) {
+            const entry: ContextDiagnostic = {
+                severity: SEVERITIES[diagnostic.severity] ?? 'info',
+                message: diagnostic.message.split('\n')[0],
+                line: diagnostic.range.start.line + 1,
+                source: diagnostic.source,
+            };
+            const cost = estimateTokens(`${entry.severity} ${entry.line} ${entry.message} ${entry.source ?? ''}`);
+            if (used + cost > budget) {
+                break;
+            }
+            result.push(entry);
+            used += cost;
+        }
+        return result;
+    }
+
+    /**
+     * Picked files in order until the shared budget runs out; the active file is skipped
+     */
+    private async collectFiles(budget: number, activeUri: vscode.Uri): Promise<ContextFile[]> {
+        const files: ContextFile[] = [];
+        let remaining = budget;
+
+        for (const uri of this.getPickedFiles()) {
+            if (remaining <= 0) {
+                break;
+            }
+            if (uri.toString() === activeUri.toString()) {
+                continue;
+            }
+            try {
+                const document = await vscode.workspace.openTextDocument(uri);
+                const { text, truncated } = truncateToTokens(document.getText(), remaining);
+                files.push({
+                    path: vscode.workspace.asRelativePath(uri),
+                    content: text,
+                    languageId: document.languageId,
+                    truncated,
+                });
+                remaining -= estimateTokens(text);
+            } catch (error) {
+                logger.warn('Skipping unreadable context file', {
+                    file: path.basename(uri.fsPath),
+                    error: (error as Error).message,
+                });
+            }
+        }
+        return files;
+    }
+}
@@ -11,6 +11,13 @@ export interface IProviderManager {
      */
     getActiveProvider(): IAIProvider;
 
+    /**
+     * Get a provider by ID regardless of the active configuration
+     * @param id The provider ID
+     * @returns The provider instance, or undefined for unknown IDs
+     */
+    getProvider(id: string): IAIProvider | undefined;
+
     /**
      * Preload a provider to improve first-use performance
      * @param id The provider ID to preload
@@ -18,6 +18,8 @@ export class Logger {
     private static instance: Logger;
     private outputChannel: vscode.OutputChannel | undefined;
     private logLevel: LogLevel = LogLevel.INFO;
+    /** Replaces the console echo; the CLI keeps stdout for its own output */
+    private consoleSink: ((line: string) => void) | undefined;
 
     private constructor() {
         // Private constructor to prevent direct instantiation - use getInstance()
@@ -51,6 +53,13 @@ export class Logger {
         this.logLevel = level;
     }
 
+    /**
+     * Send log lines to `sink` instead of the console (undefined restores the console)
+     */
+    public setConsoleSink(sink: ((line: string) => void) | undefined): void {
+        this.consoleSink = sink;
+    }
+
     /**
      * Check if a log level should be logged
      * @param level The level to check
@@ -95,6 +104,14 @@ export class Logger {
         }
     }
 
+    private echo(line: string, write: (line: string) => void): void {
+        if (this.consoleSink) {
+            this.consoleSink(line);
+        } else {
+            write(line);
+        }
+    }
+
     /**
      * Log a debug message
      * @param message The message to log
@@ -104,7 +121,7 @@ export class Logger {
         if (this.shouldLog(LogLevel.DEBUG)) {
             const formatted = this.formatMessage('DEBUG', message, ...optionalParams);
             this.append(formatted);
-            console.debug(formatted);
+            this.echo(formatted, console.debug);
         }
     }
 
@@ -117,7 +134,7 @@ export class Logger {
         if (this.shouldLog(LogLevel.INFO)) {
             const formatted = this.formatMessage('INFO', message, ...optionalParams);
             this.append(formatted);
-            console.log(formatted);
+            this.echo(formatted, console.log);
         }
     }
 
@@ -130,7 +147,7 @@ export class Logger {
         if (this.shouldLog(LogLevel.WARN)) {
             const formatted = this.formatMessage('WARN', message, ...optionalParams);
             this.append(formatted);
-            console.warn(formatted);
+            this.echo(formatted, console.warn);
         }
     }
 
@@ -150,7 +167,7 @@ export class Logger {
                 }
             }
             this.append(formatted);
-            console.error(formatted);
+            this.echo(formatted, console.error);
         }
     }
 
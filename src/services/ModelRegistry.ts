@@ -3,6 +3,8 @@ import * as path from 'path';
 import { logger } from './Logger';
 import { ConfigurationManager } from './ConfigurationManager';
 import { MODEL_MAPPINGS } from '../utils/ModelMappings';
+import { listLanguageModels } from '../utils/languageModels';
+import { isOpenAICompatibleProviderId, openAICompatibleApiRoot } from '../utils/openaiCompatible';
 import {
     normalizeGeminiModelsResponse,
     normalizeGitHubCatalogResponse,
@@ -190,8 +192,14 @@ export class ModelRegistry {
             return this.fetchGeminiModels();
         case 'groq':
             return this.fetchGroqModels();
+        case 'vscode-lm':
+            return this.fetchLanguageModels();
+        case 'azure-openai':
+            return this.listAzureDeployments();
+        case 'bedrock':
+            return this.listBedrockModels();
         default:
-            return [];
+            return isOpenAICompatibleProviderId(provider) ? this.fetchOpenAICompatibleModels(provider) : [];
         }
     }
 
@@ -296,6 +304,63 @@ export class ModelRegistry {
         }
     }
 
+    /**
+     * Models of an OpenAI-compatible profile from its `/v1/models`; the key is optional for local gateways
+     */
+    private async fetchOpenAICompatibleModels(providerId: string): Promise<ModelInfo[]> {
+        const config = ConfigurationManager.getInstance();
+        const profile = config.getOpenAICompatibleProfile(providerId);
+        if (!profile) {
+            return [];
+        }
+
+        const apiKey = await config.getApiKey(providerId);
+        const data = await this.fetchJson(`${openAICompatibleApiRoot(profile.baseUrl)}/models`, {
+            headers: { ...profile.headers, ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}) },
+            signal: AbortSignal.timeout(profile.timeoutMs),
+        });
+        return data === null ? [] : normalizeOpenAICompatibleModels(data, 'openai-compatible');
+    }
+
+    /**
+     * Azure OpenAI deployments from settings; the data-plane API can't list them
+     */
+    private async listAzureDeployments(): Promise<ModelInfo[]> {
+        const { endpoint, deployments } = ConfigurationManager.getInstance().getAzureOpenAISettings();
+        return deployments.map(name => ({
+            id: name,
+            name,
+            description: `Deployment on ${endpoint || 'the configured resource'}`,
+            isVerified: true,
+        }));
+    }
+
+    /**
+     * Bedrock model and inference profile ids from settings, the ones the account has access to
+     */
+    private async listBedrockModels(): Promise<ModelInfo[]> {
+        const { region, models } = ConfigurationManager.getInstance().getBedrockSettings();
+        return models.map(id => ({
+            id,
+            name: id,
+            description: `Bedrock model in ${region}`,
+            isVerified: true,
+        }));
+    }
+
+    /**
+     * Chat models offered in the editor through `vscode.lm`; ids are the ones the API selects by
+     */
+    private async fetchLanguageModels(): Promise<ModelInfo[]> {
+        const models = await listLanguageModels();
+        return models.map(model => ({
+            id: model.id,
+            name: model.name,
+            description: `${model.vendor} · ${model.family} · ${model.maxInputTokens.toLocaleString()} input tokens`,
+            isVerified: true,
+        }));
+    }
+
     /**
      * Update cache with fresh models
      */
@@ -407,7 +472,10 @@ export class ModelRegistry {
     public async forceRefresh(): Promise<void> {
         this.lastFetchTime.clear();
         
-        const providers = ['openai', 'github', 'gemini', 'groq'];
+        const providers = [
+            'openai', 'github', 'gemini', 'groq', 'vscode-lm', 'azure-openai', 'bedrock',
+            ...ConfigurationManager.getInstance().getOpenAICompatibleProfiles().map(profile => profile.providerId),
+        ];
         
         for (const provider of providers) {
             try {
@@ -0,0 +1,434 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { logger } from './Logger';
+import type { CustomTemplate, TemplateVariable } from './TemplateManager';
+import { parseFrontMatter, stringifyFrontMatter, FrontMatterData, FrontMatterValue } from '../utils/frontMatter';
+
+/**
+ * A refined prompt saved to the workspace library
+ */
+export interface LibraryPrompt {
+    id: string;
+    name: string;
+    description: string;
+    content: string;
+    category: CustomTemplate['category'];
+    role?: string;
+    tags: string[];
+    filePath: string;
+    updatedAt: number;
+}
+
+const DEFAULT_LIBRARY_FOLDER = '.prompts';
+const TEMPLATE_CATEGORIES: CustomTemplate['category'][] = ['coding', 'writing', 'analysis', 'general', 'custom'];
+const RELOAD_DEBOUNCE_MS = 200;
+
+/**
+ * Workspace prompt library: Markdown files with YAML front matter under a configurable folder
+ * (`.prompts/` by default) in each workspace folder.
+ *
+ * Front matter keys: `id`, `name`, `description`, `category`, `role`, `tags`, `variables`, and
+ * `kind` (`template`, the default, or `prompt` for saved refined prompts).
+ */
+export class PromptLibrary implements vscode.Disposable {
+    private static instance: PromptLibrary;
+    private templates: CustomTemplate[] = [];
+    private prompts: LibraryPrompt[] = [];
+    private loading: Promise<void> | undefined;
+    private reloadTimer: ReturnType<typeof setTimeout> | undefined;
+    private watchers: vscode.Disposable[] = [];
+    private listeners: vscode.Disposable[] = [];
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+
+    /** Fires after the library has been re-read from disk */
+    public readonly onDidChange = this.changeEmitter.event;
+
+    private constructor() {
+        // Private constructor to prevent direct instantiation - use getInstance()
+    }
+
+    /**
+     * Get the singleton instance
+     */
+    public static getInstance(): PromptLibrary {
+        if (!PromptLibrary.instance) {
+            PromptLibrary.instance = new PromptLibrary();
+        }
+        return PromptLibrary.instance;
+    }
+
+    /**
+     * Start watching the library folder and load it
+     */
+    public initialize(context: vscode.ExtensionContext): void {
+        if (this.listeners.length > 0) {
+            return;
+        }
+        context.subscriptions.push(this);
+
+        this.listeners.push(
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('promptRefiner.promptLibraryPath')) {
+                    this.watch();
+                    this.scheduleReload();
+                }
+            }),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => {
+                this.watch();
+                this.scheduleReload();
+            })
+        );
+
+        this.watch();
+        this.loading = this.reload();
+    }
+
+    /**
+     * Library folder relative to each workspace folder
+     */
+    public getLibraryFolder(): string {
+        const configured = vscode.workspace.getConfiguration('promptRefiner')
+            .get<string>('promptLibraryPath', DEFAULT_LIBRARY_FOLDER)
+            .trim();
+        return configured || DEFAULT_LIBRARY_FOLDER;
+    }
+
+    /**
+     * Templates from the workspace library (empty before initialize or without a workspace)
+     */
+    public async getTemplates(): Promise<CustomTemplate[]> {
+        await this.loading;
+        return [...this.templates];
+    }
+
+    /**
+     * Refined prompts saved to the workspace library
+     */
+    public async getPrompts(): Promise<LibraryPrompt[]> {
+        await this.loading;
+        return [...this.prompts];
+    }
+
+    /**
+     * Re-read every library file
+     */
+    public async reload(): Promise<void> {
+        const folder = this.getLibraryFolder();
+        const templates: CustomTemplate[] = [];
+        const prompts: LibraryPrompt[] = [];
+        const seen = new Set<string>();
+
+        for (const workspaceFolder of vscode.workspace.workspaceFolders ?? []) {
+            const pattern = new vscode.RelativePattern(workspaceFolder, `${folder}/**/*.md`);
+            const uris = await vscode.workspace.findFiles(pattern);
+            uris.sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+
+            for (const uri of uris) {
+                const entry = await this.readEntry(uri);
+                if (!entry) continue;
+
+                if (seen.has(`${entry.kind}:${entry.id}`)) {
+                    logger.warn('Duplicate prompt library id, keeping the first file', { id: entry.id, file: uri.fsPath });
+                    continue;
+                }
+                seen.add(`${entry.kind}:${entry.id}`);
+
+                if (entry.kind === 'prompt') {
+                    prompts.push(entry.prompt);
+                } else {
+                    templates.push(entry.template);
+                }
+            }
+        }
+
+        this.templates = templates;
+        this.prompts = prompts;
+        logger.debug('Prompt library loaded', { templates: templates.length, prompts: prompts.length });
+        this.changeEmitter.fire();
+    }
+
+    /**
+     * Write a template to `<library>/templates/<slug>.md`
+     */
+    public async saveTemplate(
+        template: Omit<CustomTemplate, 'id' | 'createdAt' | 'updatedAt' | 'isBuiltIn'>
+    ): Promise<CustomTemplate> {
+        await this.loading;
+        const id = this.uniqueId(template.name, this.templates.map(t => t.id));
+        const data: FrontMatterData = {
+            id,
+            kind: 'template',
+            name: template.name,
+            description: template.description,
+            category: template.category,
+        };
+        if (template.role) data.role = template.role;
+        if (template.variables?.length) {
+            data.variables = template.variables.map(v => {
+                const spec: FrontMatterData = { name: v.name };
+                if (v.description) spec.description = v.description;
+                if (v.default !== undefined) spec.default = v.default;
+                if (v.choices?.length) spec.choices = v.choices;
+                return spec;
+            });
+        }
+
+        const uri = await this.writeEntry('templates', id, stringifyFrontMatter(data, template.content));
+        await this.reload();
+        logger.info('Workspace template created', { templateId: id, file: uri.fsPath });
+
+        const now = Date.now();
+        return {
+            ...template,
+            id,
+            isBuiltIn: false,
+            createdAt: now,
+            updatedAt: now,
+            scope: 'workspace',
+            filePath: uri.fsPath,
+        };
+    }
+
+    /**
+     * Write a refined prompt to `<library>/prompts/<slug>.md`
+     * @returns URI of the new file
+     */
+    public async savePrompt(prompt: {
+        name: string;
+        content: string;
+        description?: string;
+        category?: CustomTemplate['category'];
+        role?: string;
+        tags?: string[];
+    }): Promise<vscode.Uri> {
+        await this.loading;
+        const id = this.uniqueId(prompt.name, this.prompts.map(p => p.id));
+        const data: FrontMatterData = {
+            id,
+            kind: 'prompt',
+            name: prompt.name,
+            description: prompt.description ?? '',
+            category: prompt.category ?? 'general',
+        };
+        if (prompt.role) data.role = prompt.role;
+        if (prompt.tags?.length) data.tags = prompt.tags;
+
+        const uri = await this.writeEntry('prompts', id, stringifyFrontMatter(data, prompt.content));
+        await this.reload();
+        logger.info('Prompt saved to workspace library', { id, file: uri.fsPath });
+        return uri;
+    }
+
+    public dispose(): void {
+        if (this.reloadTimer) {
+            clearTimeout(this.reloadTimer);
+            this.reloadTimer = undefined;
+        }
+        this.disposeWatchers();
+        while (this.listeners.length) {
+            this.listeners.pop()?.dispose();
+        }
+        this.changeEmitter.dispose();
+    }
+
+    // ==================== INTERNALS ====================
+
+    private watch(): void {
+        this.disposeWatchers();
+        const folder = this.getLibraryFolder();
+
+        for (const workspaceFolder of vscode.workspace.workspaceFolders ?? []) {
+            const watcher = vscode.workspace.createFileSystemWatcher(
+                new vscode.RelativePattern(workspaceFolder, `${folder}/**/*.md`)
+            );
+            watcher.onDidCreate(() => this.scheduleReload());
+            watcher.onDidChange(() => this.scheduleReload());
+            watcher.onDidDelete(() => this.scheduleReload());
+            this.watchers.push(watcher);
+        }
+    }
+
+    private disposeWatchers(): void {
+        while (this.watchers.length) {
+            this.watchers.pop()?.dispose();
+        }
+    }
+
+    /** Saving several files at once (e.g. git checkout) should trigger one reload */
+    private scheduleReload(): void {
+        if (this.reloadTimer) {
+            clearTimeout(this.reloadTimer);
+        }
+        this.reloadTimer = setTimeout(() => {
+            this.reloadTimer = undefined;
+            this.loading = this.reload().catch(error => {
+                logger.error('Failed to reload prompt library', error as Error);
+            });
+        }, RELOAD_DEBOUNCE_MS);
+    }
+
+    private async readEntry(uri: vscode.Uri): Promise<
+        | { kind: 'template'; id: string; template: CustomTemplate }
+        | { kind: 'prompt'; id: string; prompt: LibraryPrompt }
+        | undefined
+    > {
+        let text: string;
+        let mtime: number;
+        try {
+            const [bytes, stat] = await Promise.all([
+                vscode.workspace.fs.readFile(uri),
+                vscode.workspace.fs.stat(uri),
+            ]);
+            text = Buffer.from(bytes).toString('utf8');
+            mtime = stat.mtime;
+        } catch (error) {
+            logger.warn('Could not read prompt library file', { file: uri.fsPath, error: (error as Error).message });
+            return undefined;
+        }
+
+        let data: FrontMatterData;
+        let body: string;
+        try {
+            ({ data, body } = parseFrontMatter(text));
+        } catch (error) {
+            logger.warn('Invalid front matter in prompt library file', { file: uri.fsPath, error: (error as Error).message });
+            return undefined;
+        }
+
+        const fileId = path.basename(uri.fsPath, '.md');
+        const id = asString(data.id) || fileId;
+        const name = asString(data.name) || fileId;
+        const description = asString(data.description) ?? '';
+        const rawCategory = asString(data.category) as CustomTemplate['category'] | undefined;
+        const category = rawCategory && TEMPLATE_CATEGORIES.includes(rawCategory) ? rawCategory : 'custom';
+        const role = asString(data.role);
+        const content = body.trim();
+
+        if (asString(data.kind) === 'prompt') {
+            const tags = Array.isArray(data.tags) ? data.tags.map(t => String(t)) : [];
+            return {
+                kind: 'prompt',
+                id,
+                prompt: { id, name, description, content, category, role, tags, filePath: uri.fsPath, updatedAt: mtime },
+            };
+        }
+
+        if (!content) {
+            logger.warn('Skipping empty workspace template', { file: uri.fsPath });
+            return undefined;
+        }
+
+        return {
+            kind: 'template',
+            id,
+            template: {
+                id,
+                name,
+                description,
+                content,
+                isBuiltIn: false,
+                category,
+                createdAt: mtime,
+                updatedAt: mtime,
+                scope: 'workspace',
+                role,
+                variables: parseVariables(data.variables),
+                filePath: uri.fsPath,
+            },
+        };
+    }
+
+    /**
+     * Write `<subfolder>/<id>.md`. A file the library couldn't parse may already have that name;
+     * it is only replaced if the user agrees.
+     */
+    private async writeEntry(subfolder: string, id: string, text: string): Promise<vscode.Uri> {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder) {
+            throw new Error('Open a folder to save to the workspace prompt library');
+        }
+        const directory = vscode.Uri.joinPath(workspaceFolder.uri, this.getLibraryFolder(), subfolder);
+        await vscode.workspace.fs.createDirectory(directory);
+        const uri = vscode.Uri.joinPath(directory, `${id}.md`);
+        if (await this.exists(uri)) {
+            const label = vscode.workspace.asRelativePath(uri);
+            const choice = await vscode.window.showWarningMessage(
+                `${label} already exists. Replace it?`,
+                { modal: true },
+                'Replace'
+            );
+            if (choice !== 'Replace') {
+                throw new Error(`${label} already exists; choose another name`);
+            }
+        }
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(text, 'utf8'));
+        return uri;
+    }
+
+    private async exists(uri: vscode.Uri): Promise<boolean> {
+        try {
+            await vscode.workspace.fs.stat(uri);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    private uniqueId(name: string, taken: string[]): string {
+        const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'prompt';
+        let id = base;
+        for (let n = 2; taken.includes(id); n++) {
+            id = `${base}-${n}`;
+        }
+        return id;
+    }
+}
+
+function asString(value: FrontMatterValue | undefined): string | undefined {
+    if (value === undefined || value === null || typeof value === 'object') {
+        return undefined;
+    }
+    return String(value);
+}
+
+function parseVariableType(value: FrontMatterValue | undefined): TemplateVariable['type'] {
+    return value === 'string' || value === 'number' || value === 'enum' ? value : undefined;
+}
+
+/**
+ * Accepts `[a, b]`, a list of `{ name, type, default, choices, description }` maps,
+ * or a map keyed by variable name
+ */
+function parseVariables(value: FrontMatterValue | undefined): TemplateVariable[] | undefined {
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+
+    const toVariable = (name: string, spec: FrontMatterValue | undefined): TemplateVariable => {
+        if (spec === null || spec === undefined || typeof spec !== 'object' || Array.isArray(spec)) {
+            return spec === null || spec === undefined ? { name } : { name, default: String(spec) };
+        }
+        return {
+            name,
+            description: asString(spec.description),
+            type: parseVariableType(spec.type),
+            default: asString(spec.default),
+            choices: Array.isArray(spec.choices) ? spec.choices.map(c => String(c)) : undefined,
+        };
+    };
+
+    if (Array.isArray(value)) {
+        return value.flatMap(item => {
+            if (item !== null && typeof item === 'object' && !Array.isArray(item)) {
+                const name = asString(item.name);
+                return name ? [toVariable(name, item)] : [];
+            }
+            const name = asString(item);
+            return name ? [{ name }] : [];
+        });
+    }
+    if (typeof value === 'object') {
+        return Object.entries(value).map(([name, spec]) => toVariable(name, spec));
+    }
+    return undefined;
+}
@@ -0,0 +1,251 @@
+import * as vscode from 'vscode';
+import { logger } from './Logger';
+import { ConfigurationManager } from './ConfigurationManager';
+import { PromptLintIssue, PromptLintRange, lintPrompt, sectionInsertion } from '../utils/promptLinter';
+
+const DIAGNOSTIC_SOURCE = 'Prompt Refiner';
+const LINT_DEBOUNCE_MS = 300;
+
+/**
+ * Lints prompt drafts as they are edited: Markdown and plaintext files matching
+ * `promptRefiner.linter.include` get diagnostics with quick fixes to refine the prompt,
+ * insert a missing section or ignore a rule for that file.
+ */
+export class PromptLinter implements vscode.CodeActionProvider, vscode.Disposable {
+    private static instance: PromptLinter | undefined;
+    private context?: vscode.ExtensionContext;
+    private diagnostics?: vscode.DiagnosticCollection;
+    private listeners: vscode.Disposable[] = [];
+    private readonly timers = new Map<string, ReturnType<typeof setTimeout>>();
+    /** Latest issues per document, to find the section behind a "missing section" diagnostic */
+    private readonly issues = new Map<string, PromptLintIssue[]>();
+    private readonly IGNORED_RULES_KEY = 'promptRefiner.linter.ignoredRules';
+
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    private constructor() {
+        // Private constructor to prevent direct instantiation - use getInstance()
+    }
+
+    /**
+     * Get the singleton instance
+     */
+    public static getInstance(): PromptLinter {
+        if (!PromptLinter.instance) {
+            PromptLinter.instance = new PromptLinter();
+        }
+        return PromptLinter.instance;
+    }
+
+    /**
+     * Reset singleton instance (for testing)
+     */
+    public static resetInstance(): void {
+        PromptLinter.instance = undefined;
+    }
+
+    public initialize(context: vscode.ExtensionContext): void {
+        if (this.diagnostics) {
+            return;
+        }
+        this.context = context;
+        this.diagnostics = vscode.languages.createDiagnosticCollection('promptRefiner.linter');
+        context.subscriptions.push(this);
+
+        this.listeners.push(
+            vscode.languages.registerCodeActionsProvider(
+                [{ language: 'markdown' }, { language: 'plaintext' }],
+                this,
+                { providedCodeActionKinds: PromptLinter.providedCodeActionKinds }
+            ),
+            vscode.workspace.onDidOpenTextDocument(document => this.lint(document)),
+            vscode.workspace.onDidChangeTextDocument(e => this.scheduleLint(e.document)),
+            vscode.workspace.onDidCloseTextDocument(document => this.clear(document.uri)),
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('promptRefiner.linter')) {
+                    this.lintAll();
+                }
+            })
+        );
+
+        this.lintAll();
+    }
+
+    /**
+     * Lint a document now, or clear its diagnostics if it is not a prompt file
+     */
+    public lint(document: vscode.TextDocument): void {
+        if (!this.diagnostics) {
+            return;
+        }
+        const settings = ConfigurationManager.getInstance().getLinterSettings();
+        if (!settings.enabled || !this.isPromptFile(document, settings.include)) {
+            this.clear(document.uri);
+            return;
+        }
+
+        const issues = lintPrompt(document.getText(), {
+            maxTokens: settings.maxTokens,
+            disabledRules: [...settings.disabledRules, ...this.getIgnoredRules(document.uri)],
+        });
+        this.issues.set(document.uri.toString(), issues);
+        this.diagnostics.set(document.uri, issues.map(issue => this.toDiagnostic(document.uri, issue)));
+    }
+
+    public provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+        const ours = context.diagnostics.filter(diagnostic => diagnostic.source === DIAGNOSTIC_SOURCE);
+
+        for (const diagnostic of ours) {
+            const rule = String(diagnostic.code);
+            const issue = this.issues.get(document.uri.toString())
+                ?.find(candidate => candidate.rule === rule && candidate.message === diagnostic.message);
+
+            if (issue?.section) {
+                const insertion = sectionInsertion(document.getText(), issue.section);
+                const insert = new vscode.CodeAction(`Insert missing section: ${issue.section}`, vscode.CodeActionKind.QuickFix);
+                insert.edit = new vscode.WorkspaceEdit();
+                insert.edit.insert(document.uri, new vscode.Position(insertion.line, insertion.character), insertion.text);
+                insert.diagnostics = [diagnostic];
+                insert.isPreferred = true;
+                actions.push(insert);
+            }
+
+            const ignore = new vscode.CodeAction(`Ignore rule "${rule}" for this file`, vscode.CodeActionKind.QuickFix);
+            ignore.command = {
+                title: ignore.title,
+                command: 'promptRefiner.ignorePromptLintRule',
+                arguments: [document.uri, rule],
+            };
+            ignore.diagnostics = [diagnostic];
+            actions.push(ignore);
+        }
+
+        if (ours.length > 0) {
+            const refine = new vscode.CodeAction('Refine this prompt', vscode.CodeActionKind.QuickFix);
+            refine.command = {
+                title: refine.title,
+                command: 'promptRefiner.refinePromptFile',
+                arguments: [document.uri],
+            };
+            refine.diagnostics = ours;
+            actions.unshift(refine);
+        }
+        return actions;
+    }
+
+    /**
+     * Stop reporting a rule for one file (kept in workspace state)
+     */
+    public async ignoreRule(uri: vscode.Uri, rule: string): Promise<void> {
+        if (!this.context) {
+            return;
+        }
+        const ignored = this.context.workspaceState.get<Record<string, string[]>>(this.IGNORED_RULES_KEY, {});
+        const rules = new Set(ignored[uri.toString()] ?? []).add(rule);
+        await this.context.workspaceState.update(this.IGNORED_RULES_KEY, { ...ignored, [uri.toString()]: [...rules] });
+        logger.info('Prompt lint rule ignored for file', { rule, file: uri.toString() });
+        this.relint(uri);
+    }
+
+    /**
+     * Report every rule for the file again
+     */
+    public async resetIgnoredRules(uri: vscode.Uri): Promise<void> {
+        if (!this.context) {
+            return;
+        }
+        const ignored = { ...this.context.workspaceState.get<Record<string, string[]>>(this.IGNORED_RULES_KEY, {}) };
+        delete ignored[uri.toString()];
+        await this.context.workspaceState.update(this.IGNORED_RULES_KEY, ignored);
+        this.relint(uri);
+    }
+
+    public getIgnoredRules(uri: vscode.Uri): string[] {
+        return this.context?.workspaceState.get<Record<string, string[]>>(this.IGNORED_RULES_KEY, {})[uri.toString()] ?? [];
+    }
+
+    public dispose(): void {
+        for (const timer of this.timers.values()) {
+            clearTimeout(timer);
+        }
+        this.timers.clear();
+        while (this.listeners.length) {
+            this.listeners.pop()?.dispose();
+        }
+        this.diagnostics?.dispose();
+        this.diagnostics = undefined;
+        this.issues.clear();
+    }
+
+    // ==================== INTERNALS ====================
+
+    private isPromptFile(document: vscode.TextDocument, include: string): boolean {
+        if (document.languageId !== 'markdown' && document.languageId !== 'plaintext') {
+            return false;
+        }
+        if (document.uri.scheme !== 'file' && document.uri.scheme !== 'untitled') {
+            return false;
+        }
+        return vscode.languages.match({ pattern: include }, document) > 0;
+    }
+
+    /** Typing fires a change per keystroke; lint once the user pauses */
+    private scheduleLint(document: vscode.TextDocument): void {
+        const key = document.uri.toString();
+        const pending = this.timers.get(key);
+        if (pending) {
+            clearTimeout(pending);
+        }
+        this.timers.set(key, setTimeout(() => {
+            this.timers.delete(key);
+            this.lint(document);
+        }, LINT_DEBOUNCE_MS));
+    }
+
+    private lintAll(): void {
+        for (const document of vscode.workspace.textDocuments) {
+            this.lint(document);
+        }
+    }
+
+    private relint(uri: vscode.Uri): void {
+        const document = vscode.workspace.textDocuments.find(candidate => candidate.uri.toString() === uri.toString());
+        if (document) {
+            this.lint(document);
+        }
+    }
+
+    private clear(uri: vscode.Uri): void {
+        this.issues.delete(uri.toString());
+        this.diagnostics?.delete(uri);
+    }
+
+    private toDiagnostic(uri: vscode.Uri, issue: PromptLintIssue): vscode.Diagnostic {
+        const severity = issue.severity === 'error'
+            ? vscode.DiagnosticSeverity.Error
+            : issue.severity === 'warning'
+                ? vscode.DiagnosticSeverity.Warning
+                : vscode.DiagnosticSeverity.Information;
+        const diagnostic = new vscode.Diagnostic(toRange(issue.range), issue.message, severity);
+        diagnostic.source = DIAGNOSTIC_SOURCE;
+        diagnostic.code = issue.rule;
+        if (issue.related) {
+            diagnostic.relatedInformation = [
+                new vscode.DiagnosticRelatedInformation(
+                    new vscode.Location(uri, toRange(issue.related.range)),
+                    issue.related.message
+                ),
+            ];
+        }
+        return diagnostic;
+    }
+}
+
+function toRange(range: PromptLintRange): vscode.Range {
+    return new vscode.Range(range.line, range.start, range.line, range.end);
+}
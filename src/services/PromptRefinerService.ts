@@ -2,39 +2,144 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { IProviderManager } from './IProviderManager';
+import { IAIProvider, ChatTurn, RefineCallOptions, RefineResult } from '../providers/IAIProvider';
 import { ProviderManager } from './ProviderManager';
 import { ConfigurationManager } from './ConfigurationManager';
 import { logger } from './Logger';
-import { InputValidator } from '../utils/ErrorHandler';
+import { ErrorHandler, ErrorType, InputValidator } from '../utils/ErrorHandler';
 import { TemplateManager, CustomTemplate } from './TemplateManager';
-import { OutputValidator, ValidationResult } from '../utils/OutputValidator';
-import { LRUCache, refinementCache } from '../utils/Cache';
+import { ValidationResult } from '../utils/OutputValidator';
+import { CachedAnswer, LRUCache, refinementCache } from '../utils/Cache';
 import { getCircuitBreaker, CircuitBreakerError } from '../utils/CircuitBreaker';
 import { withRetry } from '../utils/Retry';
 import { linkCancellationToAbort } from '../utils/cancellationAbort';
+import { getDefaultUiModelId, getContextWindow } from '../utils/ModelMappings';
+import { buildChatMessages, fitHistoryToBudget } from '../utils/conversation';
+import { estimateTokens } from '../utils/tokenBudget';
+import { countChatTokens, countTokens } from '../utils/tokenizer';
+import { estimateCost } from '../utils/pricing';
+import { substituteTemplateVariables, collectBuiltinVariables } from '../utils/templateVariables';
+import { RefinementContext, formatRefinementContext } from '../types/RefinementContext';
 import { SessionManager } from './SessionManager';
+import { BudgetManager } from './BudgetManager';
+import { RefinementCacheStore, SimilarRefinement } from './RefinementCacheStore';
+import { describeBudgetStatus } from '../utils/budget';
+import { RoleManager } from './RoleManager';
+import { ValidationRuleRegistry, AvailableRuleSet } from './ValidationRuleRegistry';
+import { RepairHistory, buildRepairPrompt, isBetterCandidate, toRepairRound } from '../utils/autoRepair';
+import { RedactionSummary, Redactor, buildDetectors } from '../utils/redaction';
 import {
-    getRoleById,
     DEFAULT_ROLE_ID,
     REFINER_OUTPUT_LANGUAGE_INSTRUCTION,
     REFINER_OUTPUT_SCOPE_FOOTER,
 } from '../types/Role';
 import { Analytics } from './Analytics';
+import { PluginManager } from '../plugins/PluginManager';
+import {
+    BUILTIN_STAGE_IDS,
+    BuiltinStageId,
+    RefinementNext,
+    RefinementPipelineContext,
+    RefinementStage,
+    arrangeStages,
+    runStages,
+} from './RefinementPipeline';
 
 export interface RefinementOptions {
+    /** Defaults to the template picked with `promptRefiner.selectTemplate` */
     templateId?: string;
+    /** Role to refine for; defaults to the active session's role */
+    roleId?: string;
+    /** Values for the template's `{{name}}` placeholders; defaults to the last values entered for it */
+    templateVariables?: Record<string, string>;
+    /** Editor context (language, symbols, diagnostics, files) rendered into the system prompt */
+    context?: RefinementContext;
+    /** Earlier user/assistant turns of the conversation, oldest first */
+    history?: ChatTurn[];
     validateOutput?: boolean;
+    /** Skip cached refinements and ask the provider again; the fresh answer replaces the cached one */
+    bypassCache?: boolean;
     iteration?: number;
+    /** Overrides `promptRefiner.autoRepair.enabled` for this request */
+    autoRepair?: boolean;
+    /**
+     * Receives the accumulated refined text while it streams in. Only providers that implement
+     * `refineStream` report progress; others resolve in one step as before.
+     */
+    onProgress?: (partial: string) => void;
+    /**
+     * No one is at the editor to answer prompts (the local servers): near-duplicate refinements
+     * aren't offered and an open circuit breaker fails the request without a warning
+     */
+    headless?: boolean;
+}
+
+export interface RefinementUsage {
+    promptTokens: number;
+    completionTokens: number;
+    /** Estimated USD cost; undefined when the model isn't in `config/model-pricing.json` */
+    cost?: number;
+    /**
+     * `provider`: reported by the API; `tokenizer`: counted with the offline BPE tokenizer;
+     * `estimate`: length heuristic; `cache`: served from cache, nothing was billed
+     */
+    source: 'provider' | 'tokenizer' | 'estimate' | 'cache';
 }
 
 export interface RefinementResult {
     refined: string;
     tokens: number;
+    usage: RefinementUsage;
     validation?: ValidationResult;
     templateUsed: string;
     iteration: number;
+    /** Provider that produced the answer (differs from the configured one after a fallback) */
+    provider: string;
+    /** Model ID that produced the answer */
+    model: string;
+    /** Set when the first answer failed validation and auto-repair asked for fixes */
+    repair?: RepairHistory;
+    /** Values replaced with placeholders before the provider saw the request; `refined` has them back */
+    redactions?: RedactionSummary[];
+}
+
+/** Usage of two provider calls for the same answer; the cost is unknown if either is */
+function addUsage(total: RefinementUsage, extra: RefinementUsage | undefined): RefinementUsage {
+    if (!extra) {
+        return total;
+    }
+    return {
+        promptTokens: total.promptTokens + extra.promptTokens,
+        completionTokens: total.completionTokens + extra.completionTokens,
+        cost: total.cost !== undefined && extra.cost !== undefined ? total.cost + extra.cost : undefined,
+        source: total.source,
+    };
+}
+
+/** Closing reminders of every system prompt; later additions go before it so it stays last */
+const SYSTEM_FOOTER = `\n\n---\n${REFINER_OUTPUT_LANGUAGE_INSTRUCTION}\n\n---\n${REFINER_OUTPUT_SCOPE_FOOTER}`;
+
+/** Most recent history turns (three exchanges) that count toward a cache key */
+const CACHE_KEY_HISTORY_TURNS = 6;
+
+/** Tokens left free for the model's answer when sizing conversation history */
+const OUTPUT_TOKEN_RESERVE = 4096;
+
+/** One step of the provider chain walked by the `provider` pipeline stage */
+export interface ProviderCandidate {
+    provider: IAIProvider;
+    modelId: string;
+    /** Explicit model passed to the provider; unset for the configured provider */
+    modelOverride?: string;
+    /** Answers in place of the configured provider; such answers aren't cached under its key */
+    fallback?: boolean;
+    /** Circuit breaker the calls go through; defaults to the provider's */
+    breakerId?: string;
 }
 
+/** Stages `refineWithModel` leaves out: it compares models, so every answer is a fresh one */
+const PINNED_SKIPPED_STAGES: BuiltinStageId[] = ['cache', 'analytics', 'autoRepair'];
+
 export interface IPromptRefinerService {
     refine(userPrompt: string, token?: vscode.CancellationToken, options?: RefinementOptions): Promise<RefinementResult>;
     initialize(context: vscode.ExtensionContext): void;
@@ -87,186 +192,794 @@ export class PromptRefinerService implements IPromptRefinerService {
         this.templateManager.initialize(context);
     }
 
+    /**
+     * Refine a prompt by running it through the refinement pipeline: the built-in stages in
+     * {@link BUILTIN_STAGE_IDS} order, plugin stages at their placement, minus the stages turned
+     * off in `promptRefiner.pipeline.disabledStages`.
+     */
     public async refine(
-        userPrompt: string, 
+        userPrompt: string,
         token?: vscode.CancellationToken,
         options?: RefinementOptions
     ): Promise<RefinementResult> {
-        if (!this.context) {
-            throw new Error('Service not initialized. Call initialize() first.');
+        return this.runPipeline(userPrompt, token, options ?? {});
+    }
+
+    /**
+     * Refine with one explicit provider/model pair through the same pipeline, but without the
+     * cache, fallback chain, auto-repair and analytics. Each pair gets its own circuit breaker so
+     * one failing model doesn't trip the others.
+     */
+    public async refineWithModel(
+        userPrompt: string,
+        providerId: string,
+        modelId: string,
+        token?: vscode.CancellationToken,
+        options?: Pick<RefinementOptions, 'templateId' | 'roleId' | 'templateVariables' | 'validateOutput' | 'headless'>
+    ): Promise<RefinementResult> {
+        return this.runPipeline(userPrompt, token, options ?? {}, { providerId, modelId });
+    }
+
+    /** The built-in stages' implementations, by id */
+    private readonly stageHandlers: Record<BuiltinStageId, RefinementStage['run']> = {
+        validateInput: (context, next) => this.checkInput(context, next),
+        pluginHooks: (context, next) => this.runPluginHooks(context, next),
+        systemPrompt: async (context, next) => {
+            logger.debug('Loading prompt template', { templateId: context.templateId });
+            context.systemTemplate = await this.buildSystemTemplate(context.templateId, context.roleId, context.options);
+            return next();
+        },
+        redact: (context, next) => this.redactSensitiveData(context, next),
+        validateOutput: (context, next) => this.validateOutput(context, next),
+        cache: (context, next) => this.useCache(context, next),
+        analytics: (context, next) => this.trackRefinement(context, next),
+        autoRepair: (context, next) => this.repairOutput(context, next),
+        provider: context => this.callProvider(context),
+    };
+
+    /**
+     * Run a request through the stages; `pinned` is the only provider and model that may answer.
+     * Plugins hear about failures through `onError`.
+     */
+    private async runPipeline(
+        draft: string,
+        token: vscode.CancellationToken | undefined,
+        options: RefinementOptions,
+        pinned?: { providerId: string; modelId: string }
+    ): Promise<RefinementResult> {
+        const config = ConfigurationManager.getInstance();
+        const providerId = pinned?.providerId ?? config.getProviderId();
+        const modelId = pinned?.modelId ?? config.getModelId();
+        try {
+            if (!this.context) {
+                throw new Error('Service not initialized. Call initialize() first.');
+            }
+            if (pinned && !this.providerManager.getProvider(pinned.providerId)) {
+                throw new Error(`PROVIDER_ERROR|Unknown provider "${pinned.providerId}"`);
+            }
+            return await this.runArrangedStages(draft, token, options, { providerId, modelId, pinned: pinned !== undefined });
+        } catch (error) {
+            await PluginManager.getInstance().emit('onError', {
+                prompt: draft,
+                error: error instanceof Error ? error : new Error(String(error)),
+                provider: providerId,
+                model: modelId,
+            });
+            throw error;
+        }
+    }
+
+    private async runArrangedStages(
+        draft: string,
+        token: vscode.CancellationToken | undefined,
+        options: RefinementOptions,
+        target: { providerId: string; modelId: string; pinned: boolean }
+    ): Promise<RefinementResult> {
+        const config = ConfigurationManager.getInstance();
+        const stages = arrangeStages(
+            BUILTIN_STAGE_IDS.map(id => ({ id, run: this.stageHandlers[id] })),
+            PluginManager.getInstance().getStages(),
+            [...config.getDisabledPipelineStages(), ...(target.pinned ? PINNED_SKIPPED_STAGES : [])]
+        );
+
+        const { signal, dispose } = linkCancellationToAbort(token);
+        try {
+            return await runStages(stages, {
+                draft,
+                prompt: draft,
+                options,
+                token,
+                signal,
+                ...target,
+                templateId: options.templateId || config.getSelectedTemplateId(),
+                roleId: options.roleId || (await SessionManager.getInstance().getActiveSession())?.metadata?.role || DEFAULT_ROLE_ID,
+                strict: config.isStrictMode(),
+                iteration: options.iteration || 1,
+                systemTemplate: '',
+                fromCache: false,
+                fromFallback: false,
+                localOnly: false,
+                headless: options.headless === true,
+                state: new Map(),
+            });
+        } finally {
+            dispose();
         }
+    }
 
-        // Validate input
-        const validation = InputValidator.validatePromptLength(userPrompt);
+    private async checkInput(context: RefinementPipelineContext, next: RefinementNext): Promise<RefinementResult> {
+        const validation = InputValidator.validatePromptLength(context.prompt);
         if (!validation.valid) {
             throw new Error(validation.error);
         }
-
-        // Check cancellation before starting
-        if (token?.isCancellationRequested) {
+        if (context.token?.isCancellationRequested) {
             throw new Error('Operation cancelled');
         }
+        return next();
+    }
 
-        const config = ConfigurationManager.getInstance();
-        const providerId = config.getProviderId();
-        const modelId = config.getModelId();
-        const templateId = options?.templateId || 'default';
-        const isStrict = config.isStrictMode();
-        const useRoleTemplates = config.getUseRoleTemplates();
-
-        const sessionManager = SessionManager.getInstance();
-        const activeSession = await sessionManager.getActiveSession();
-        const roleId = activeSession?.metadata?.role || DEFAULT_ROLE_ID;
-
-        // Cache must vary with role and role-template mode (system prompt + template body differ)
-        const cacheKey = LRUCache.generateKey({
-            prompt: userPrompt,
-            provider: providerId,
-            model: modelId,
-            template: templateId,
-            strict: isStrict,
+    /**
+     * `beforeRefine` and `afterRefine` handlers. The cache keeps the provider's own answer, so a
+     * handler's rewrite is applied again on every hit; a rewritten answer is validated again.
+     */
+    private async runPluginHooks(context: RefinementPipelineContext, next: RefinementNext): Promise<RefinementResult> {
+        const plugins = PluginManager.getInstance();
+        const { templateId, roleId } = context;
+        const { prompt } = await plugins.emit('beforeRefine', {
+            prompt: context.prompt,
+            templateId,
             roleId,
-            useRoleTemplates,
+            provider: context.providerId,
+            model: context.modelId,
+            iteration: context.iteration,
         });
+        if (prompt !== context.prompt) {
+            const transformed = InputValidator.validatePromptLength(prompt);
+            if (!transformed.valid) {
+                throw new Error(`A plugin rewrote the prompt into an invalid one: ${transformed.error}`);
+            }
+            context.prompt = prompt;
+        }
+
+        const result = await next();
+        const { result: final } = await plugins.emit('afterRefine', { prompt, result, fromCache: context.fromCache });
+        if (final.refined === result.refined || !final.validation) {
+            return final;
+        }
+        return { ...final, validation: await ValidationRuleRegistry.getInstance().validate(final.refined, context.strict, { templateId, roleId }) };
+    }
+
+    /**
+     * Replace secrets and personal data in everything the provider would see with placeholders,
+     * and put the values back in the answer. The cache only ever holds the redacted text.
+     */
+    private async redactSensitiveData(context: RefinementPipelineContext, next: RefinementNext): Promise<RefinementResult> {
+        const config = ConfigurationManager.getInstance();
+        const settings = config.getRedactionSettings();
+        if (!settings.enabled) {
+            return next();
+        }
+
+        const { detectors: enabled, invalid } = buildDetectors(settings.disabledDetectors, settings.customPatterns);
+        if (invalid.length > 0) {
+            logger.warn('Skipping invalid custom redaction patterns', { patterns: invalid });
+        }
+        const redactor = new Redactor(enabled);
+        const { options } = context;
+        const prompt = redactor.redact(context.prompt);
+        const systemTemplate = redactor.redact(context.systemTemplate);
+        const history = options.history?.map(turn => ({ ...turn, content: redactor.redact(turn.content) }));
+        const redactions: RedactionSummary[] = redactor.redactions.map(({ placeholder, detector, kind }) => ({ placeholder, detector, kind }));
+        if (redactions.length === 0) {
+            return next();
+        }
+
+        const detectors = [...new Set(redactions.map(redaction => redaction.detector))];
+        logger.info('Redacted sensitive data before the provider call', { count: redactions.length, detectors });
+        if (redactor.hasSecrets() && settings.onSecret === 'blockCloud') {
+            if (!config.isLocalProvider(context.providerId)) {
+                throw new Error(`SECRET_DETECTED|The prompt contains a secret (${detectors.join(', ')}) and promptRefiner.redaction.onSecret only allows local providers. Remove it or switch to Ollama.`);
+            }
+            context.localOnly = true;
+        }
+
+        context.prompt = prompt;
+        context.systemTemplate = systemTemplate;
+        context.options = {
+            ...options,
+            history,
+            onProgress: options.onProgress && (partial => options.onProgress?.(redactor.restore(partial))),
+        };
+        const result = await next();
+        return { ...result, refined: redactor.restore(result.refined), redactions };
+    }
 
-        // Check cache
-        const cached = refinementCache.get(cacheKey);
+    /**
+     * Validate results the stages below didn't validate, such as cached answers
+     */
+    private async validateOutput(context: RefinementPipelineContext, next: RefinementNext): Promise<RefinementResult> {
+        const result = await next();
+        if (result.validation || context.options.validateOutput === false) {
+            return result;
+        }
+        const { templateId, roleId } = context;
+        return { ...result, validation: await ValidationRuleRegistry.getInstance().validate(result.refined, context.strict, { templateId, roleId }) };
+    }
+
+    /**
+     * Answer from the cache, or store the answer of the stages below. The key varies with role,
+     * role-template mode, template variables and editor context, all of which end up in the
+     * resolved system prompt, and with the last few exchanges of the conversation, so a follow-up
+     * deep into a chat can still hit. A hit is attributed to the provider and model that answered.
+     */
+    private async useCache(context: RefinementPipelineContext, next: RefinementNext): Promise<RefinementResult> {
+        const { prompt, options } = context;
+        const cacheParams = {
+            provider: context.providerId,
+            model: context.modelId,
+            template: context.templateId,
+            strict: context.strict,
+            roleId: context.roleId,
+            useRoleTemplates: ConfigurationManager.getInstance().getUseRoleTemplates(),
+            systemTemplate: context.systemTemplate,
+            history: (options.history ?? []).slice(-CACHE_KEY_HISTORY_TURNS),
+        };
+        const cacheKey = LRUCache.generateKey({ prompt, ...cacheParams });
+        const cacheScope = LRUCache.generateKey(cacheParams);
+        const plugins = PluginManager.getInstance();
+
+        const cached = options.bypassCache ? undefined : await this.lookupCache(cacheKey, cacheScope, prompt, !context.headless);
         if (cached) {
             logger.info('Cache hit - returning cached refinement');
-            let validationResult: ValidationResult | undefined;
-            if (options?.validateOutput !== false) {
-                validationResult = OutputValidator.validate(cached, isStrict);
-            }
-            // Cached results don't have token count - use heuristic estimate
-            const cachedTokens = Math.ceil(cached.length / 3.5);
+            await plugins.emit('onCacheHit', { prompt, refined: cached.refined });
+            const { tokens } = await countTokens(cached.refined, cached.model);
+            context.fromCache = true;
             return {
-                refined: cached,
-                tokens: cachedTokens,
-                validation: validationResult,
-                templateUsed: templateId,
-                iteration: options?.iteration || 1,
+                refined: cached.refined,
+                tokens,
+                usage: { promptTokens: 0, completionTokens: tokens, cost: 0, source: 'cache' },
+                templateUsed: context.templateId,
+                iteration: context.iteration,
+                provider: cached.provider,
+                model: cached.model,
             };
         }
+        await plugins.emit('onCacheMiss', { prompt, bypassed: options.bypassCache === true });
 
-        logger.debug('Loading prompt template', { templateId });
+        const result = await next();
+        // Fallback answers aren't cached so the configured provider is tried again next time
+        if (!context.fromFallback && !context.fromCache) {
+            refinementCache.set(cacheKey, { refined: result.refined, provider: result.provider, model: result.model });
+            RefinementCacheStore.getInstance().set({
+                key: cacheKey,
+                scope: cacheScope,
+                prompt,
+                refined: result.refined,
+                provider: result.provider,
+                model: result.model,
+            });
+        }
+        return result;
+    }
 
-        const role = getRoleById(roleId);
+    private async trackRefinement(context: RefinementPipelineContext, next: RefinementNext): Promise<RefinementResult> {
+        const result = await next();
+        logger.info('Refinement completed successfully', {
+            score: result.validation?.score,
+            valid: result.validation?.valid,
+            provider: result.provider,
+            tokens: result.tokens,
+            usageSource: result.usage.source,
+        });
 
-        // Load template (with role-specific template support)
-        const template = await this.loadTemplate(options?.templateId, roleId);
-        
-        // Combine role + template; language + no-implementation reminders last (models weigh final lines strongly)
-        const systemFooter = `\n\n---\n${REFINER_OUTPUT_LANGUAGE_INSTRUCTION}\n\n---\n${REFINER_OUTPUT_SCOPE_FOOTER}`;
-        const systemTemplate = role
-            ? `${role.systemPrompt}\n\n${template}${systemFooter}`
-            : `${template}${systemFooter}`;
+        const roleInfo = RoleManager.getInstance().getRoleById(context.roleId);
+        Analytics.getInstance().trackRefinement(context.roleId, roleInfo?.name || context.roleId);
+        return result;
+    }
+
+    /**
+     * Validate the provider's answer and, when it fails and auto-repair is on, ask the same
+     * provider to fix it
+     */
+    private async repairOutput(context: RefinementPipelineContext, next: RefinementNext): Promise<RefinementResult> {
+        const result = await next();
+        const { options } = context;
+        if (options.validateOutput === false) {
+            return result;
+        }
+
+        const registry = ValidationRuleRegistry.getInstance();
+        const ruleSet = await registry.resolve({ templateId: context.templateId, roleId: context.roleId });
+        const validation = registry.validateWith(result.refined, context.strict, ruleSet);
+        if (validation.valid) {
+            return { ...result, validation };
+        }
+
+        logger.warn('Refined prompt validation failed', {
+            score: validation.score,
+            ruleSet: validation.ruleSet,
+            issues: validation.issues.length
+        });
+
+        const repairSettings = ConfigurationManager.getInstance().getAutoRepairSettings();
+        if (!(options.autoRepair ?? repairSettings.enabled) || !context.answeredBy) {
+            return { ...result, validation };
+        }
+
+        const repaired = await this.autoRepair({
+            ...context.answeredBy,
+            systemTemplate: context.systemTemplate,
+            history: [
+                ...(options.history ?? []),
+                { role: 'user', content: context.prompt },
+            ],
+            first: { refined: result.refined, validation },
+            maxRounds: repairSettings.maxRounds,
+            strict: context.strict,
+            ruleSet,
+            signal: context.signal,
+            token: context.token,
+        });
+        return {
+            ...result,
+            refined: repaired.refined,
+            validation: repaired.validation,
+            repair: repaired.repair,
+            usage: addUsage(result.usage, repaired.usage),
+            tokens: result.tokens + repaired.tokens,
+        };
+    }
 
-        // Check cancellation before calling provider
+    /**
+     * Walk the provider chain within the budget, each provider behind its circuit breaker and
+     * with retries, falling back while a provider is unavailable
+     */
+    private async callProvider(context: RefinementPipelineContext): Promise<RefinementResult> {
+        const { token, options, prompt } = context;
         if (token?.isCancellationRequested) {
             throw new Error('Operation cancelled');
         }
 
-        logger.info('Calling provider for refinement', { 
-            iteration: options?.iteration || 1,
-            templateId,
-            provider: providerId,
-            role: roleId,
+        logger.info('Calling provider for refinement', {
+            iteration: context.iteration,
+            templateId: context.templateId,
+            provider: context.providerId,
+            role: context.roleId,
         });
 
-        const activeProvider = this.providerManager.getActiveProvider();
-        const circuitBreaker = getCircuitBreaker(providerId);
-        const { signal, dispose } = linkCancellationToAbort(token);
+        const config = ConfigurationManager.getInstance();
+        let candidates = context.pinned
+            ? [this.pinnedCandidate(context.providerId, context.modelId)]
+            : this.applyBudget(await this.buildProviderChain(context.providerId, context.modelId));
+        if (context.localOnly) {
+            candidates = candidates.filter(candidate => config.isLocalProvider(candidate.provider.id));
+            if (candidates.length === 0) {
+                throw new Error('SECRET_DETECTED|The prompt contains a secret and no local provider is available to answer it.');
+            }
+        }
 
         try {
-            // Execute with circuit breaker and retry logic
-            const providerResult = await circuitBreaker.execute(async () => {
-                return withRetry(async () => {
-                    // Check cancellation before each attempt
-                    if (token?.isCancellationRequested) {
-                        throw new Error('Operation cancelled');
-                    }
-                    
-                    return activeProvider.refine(userPrompt, systemTemplate, { strict: isStrict, signal });
-                }, {
-                    maxRetries: 3,
-                    baseDelayMs: 1000,
-                    maxDelayMs: 10000,
-                });
-            });
-
-            const { refined, tokens } = providerResult;
+            let lastError: unknown;
+            for (const [index, candidate] of candidates.entries()) {
+                const { provider, modelId: candidateModel, modelOverride } = candidate;
+                const apiModelId = modelOverride ? config.resolveModelId(provider.id, modelOverride) : candidateModel;
+                const conversation = this.fitConversation(context.systemTemplate, prompt, options.history, apiModelId);
+                let providerResult: RefineResult;
+                try {
+                    // Execute with circuit breaker and retry logic
+                    providerResult = await getCircuitBreaker(candidate.breakerId ?? provider.id).execute(async () => {
+                        return withRetry(async () => {
+                            // Check cancellation before each attempt
+                            if (token?.isCancellationRequested) {
+                                throw new Error('Operation cancelled');
+                            }
 
-            // Store in cache
-            refinementCache.set(cacheKey, refined);
-            
-            // Validate output if requested
-            let validationResult: ValidationResult | undefined;
-            if (options?.validateOutput !== false) {
-                validationResult = OutputValidator.validate(refined, isStrict);
-                
-                if (!validationResult.valid) {
-                    logger.warn('Refined prompt validation failed', { 
-                        score: validationResult.score,
-                        issues: validationResult.issues.length 
+                            const callOptions: RefineCallOptions = {
+                                strict: context.strict,
+                                signal: context.signal,
+                                model: modelOverride,
+                                history: conversation.history,
+                            };
+                            if (options.onProgress && provider.refineStream) {
+                                return this.consumeStream(provider, prompt, conversation.systemTemplate, callOptions, options.onProgress);
+                            }
+                            return provider.refine(prompt, conversation.systemTemplate, callOptions);
+                        }, {
+                            maxRetries: 3,
+                            baseDelayMs: 1000,
+                            maxDelayMs: 10000,
+                        });
+                    });
+                } catch (error) {
+                    lastError = error;
+                    const next = candidates[index + 1];
+                    if (!next || token?.isCancellationRequested || !this.shouldFallBack(error)) {
+                        throw error;
+                    }
+                    logger.warn('Provider unavailable, falling back', {
+                        from: provider.id,
+                        to: next.provider.id,
+                        error: (error as Error).message,
                     });
+                    continue;
                 }
-            }
-
-            logger.info('Refinement completed successfully', { 
-                score: validationResult?.score,
-                valid: validationResult?.valid,
-                tokens 
-            });
 
-            // Track analytics
-            const roleInfo = getRoleById(roleId);
-            Analytics.getInstance().trackRefinement(roleId, roleInfo?.name || 'Programmer');
+                const usage = await this.measureUsage(
+                    provider.id,
+                    apiModelId,
+                    buildChatMessages(conversation.systemTemplate, prompt, conversation.history),
+                    providerResult
+                );
+                const tokens = providerResult.tokens || usage.promptTokens + usage.completionTokens;
+                await BudgetManager.getInstance().recordUsage(provider.id, tokens, usage.cost, apiModelId);
 
-            return {
-                refined,
-                tokens,
-                validation: validationResult,
-                templateUsed: templateId,
-                iteration: options?.iteration || 1,
-            };
+                context.fromFallback = candidate.fallback === true;
+                context.answeredBy = { candidate, apiModelId };
+                return {
+                    refined: providerResult.refined,
+                    tokens,
+                    usage,
+                    templateUsed: context.templateId,
+                    iteration: context.iteration,
+                    provider: provider.id,
+                    model: candidateModel,
+                };
+            }
+            throw lastError ?? new Error('No provider available for refinement');
         } catch (error) {
-            // Handle circuit breaker error specially
-            if (error instanceof CircuitBreakerError) {
+            // Every provider in the chain is unavailable - point the user at their options
+            if (error instanceof CircuitBreakerError && !context.headless && !context.pinned) {
                 logger.error('Circuit breaker is open', error as Error);
-                
+
                 // Try to extract provider from error message
                 const match = (error as Error).message.match(/"([^"]+)"/);
                 const providerName = match ? match[1] : 'current provider';
-                
-                // Suggest switching provider
+
                 const action = await vscode.window.showWarningMessage(
                     `Provider "${providerName}" is temporarily unavailable. Would you like to switch to a different provider?`,
                     'Switch Provider',
-                    'Use Fallback',
+                    'Configure Fallbacks',
                     'Dismiss'
                 );
-                
+
                 if (action === 'Switch Provider') {
                     await vscode.commands.executeCommand('promptRefiner.selectModel');
-                } else if (action === 'Use Fallback') {
-                    // Force switch to GitHub provider (free providers temporarily disabled)
-                    await ConfigurationManager.getInstance().setProviderId('github');
-                    vscode.window.showInformationMessage('Switched to GitHub Marketplace provider');
-                    
-                    // Retry with new provider
-                    return this.refine(userPrompt, token, options);
+                } else if (action === 'Configure Fallbacks') {
+                    await vscode.commands.executeCommand('workbench.action.openSettings', 'promptRefiner.fallbackProviders');
                 }
             }
-            
+
             logger.error('Refinement failed', error as Error);
             throw error;
-        } finally {
-            dispose();
         }
     }
 
     /**
-     * Re-refine a prompt with additional context
+     * Role prompt + template + editor context, with the language and no-implementation
+     * reminders last (models weigh final lines strongly)
+     */
+    private async buildSystemTemplate(
+        templateId: string | undefined,
+        roleId: string,
+        options?: Pick<RefinementOptions, 'templateVariables' | 'context'>
+    ): Promise<string> {
+        const role = RoleManager.getInstance().resolveRole(roleId);
+
+        // Load template (with role-specific template support)
+        const loaded = await this.loadTemplate(templateId, roleId, options?.templateVariables);
+        const editorContext = formatRefinementContext(options?.context);
+        const template = editorContext ? `${loaded}\n\n${editorContext}` : loaded;
+
+        return `${role.systemPrompt}\n\n${template}${SYSTEM_FOOTER}`;
+    }
+
+    /**
+     * Active provider first, then the configured fallback chain.
+     * Fallbacks that are unknown, duplicated, or missing their API key are skipped.
+     */
+    private async buildProviderChain(providerId: string, modelId: string): Promise<ProviderCandidate[]> {
+        const activeProvider = this.providerManager.getActiveProvider();
+        const chain: ProviderCandidate[] = [{ provider: activeProvider, modelId }];
+
+        const config = ConfigurationManager.getInstance();
+        const fallbacks = config.getFallbackProviders();
+        if (fallbacks.length === 0) {
+            return chain;
+        }
+
+        const seen = new Set([providerId, activeProvider.id]);
+
+        for (const fallback of fallbacks) {
+            if (seen.has(fallback.providerId)) {
+                continue;
+            }
+            // Same check as getConfiguredProviderIds(), but keyless providers (e.g. ollama) pass
+            if (!(await config.isProviderConfigured(fallback.providerId))) {
+                logger.debug('Skipping unconfigured fallback provider', { providerId: fallback.providerId });
+                continue;
+            }
+            const provider = this.providerManager.getProvider(fallback.providerId);
+            if (!provider) {
+                logger.warn('Unknown fallback provider in settings', { providerId: fallback.providerId });
+                continue;
+            }
+            seen.add(fallback.providerId);
+            const modelOverride = fallback.modelId ?? getDefaultUiModelId(fallback.providerId);
+            chain.push({
+                provider,
+                modelId: config.resolveModelId(fallback.providerId, modelOverride),
+                modelOverride,
+                fallback: true,
+            });
+        }
+
+        return chain;
+    }
+
+    /**
+     * In-memory cache first, then the persistent store. With near-duplicate lookup on, a similar
+     * earlier prompt's refinement is reused only after the user confirms, so never when `interactive` is off.
+     */
+    private async lookupCache(key: string, scope: string, userPrompt: string, interactive: boolean): Promise<CachedAnswer | undefined> {
+        const inMemory = refinementCache.get(key);
+        if (inMemory !== undefined) {
+            return inMemory;
+        }
+
+        const store = RefinementCacheStore.getInstance();
+        const stored = store.get(key);
+        if (stored) {
+            const { refined, provider, model } = stored;
+            refinementCache.set(key, { refined, provider, model });
+            return stored;
+        }
+
+        const similar = interactive ? store.findSimilar(userPrompt, scope) : undefined;
+        if (similar && await this.confirmNearDuplicate(similar)) {
+            store.touch(similar.entry);
+            logger.info('Reusing refinement of a near-duplicate prompt', { similarity: similar.similarity });
+            return similar.entry;
+        }
+        return undefined;
+    }
+
+    private async confirmNearDuplicate(similar: SimilarRefinement): Promise<boolean> {
+        const percent = Math.round(similar.similarity * 100);
+        const prompt = similar.entry.prompt.length > 300 ? `${similar.entry.prompt.slice(0, 300)}...` : similar.entry.prompt;
+        const choice = await vscode.window.showInformationMessage(
+            `This prompt is ${percent}% similar to one refined before. Reuse that refinement?`,
+            { modal: true, detail: `Earlier prompt:\n${prompt}` },
+            'Reuse',
+            'Refine Again'
+        );
+        return choice === 'Reuse';
+    }
+
+    /**
+     * The one candidate of `refineWithModel`; a capped budget refuses rather than falling back
+     */
+    private pinnedCandidate(providerId: string, modelId: string): ProviderCandidate {
+        const provider = this.providerManager.getProvider(providerId);
+        if (!provider) {
+            throw new Error(`PROVIDER_ERROR|Unknown provider "${providerId}"`);
+        }
+
+        const budget = BudgetManager.getInstance();
+        const budgetCheck = budget.check(providerId);
+        if (budgetCheck.exceeded.length > 0) {
+            throw new Error(`BUDGET_EXCEEDED|${describeBudgetStatus(budgetCheck.exceeded[0])}. Raise the cap or wait for it to reset.`);
+        }
+        budget.warnIfNearLimit(budgetCheck);
+
+        return {
+            provider,
+            modelId: ConfigurationManager.getInstance().resolveModelId(providerId, modelId),
+            modelOverride: modelId,
+            breakerId: `${providerId}:${modelId}`,
+        };
+    }
+
+    /**
+     * Drop providers whose budget caps are used up. When the configured provider itself is
+     * capped, either answer with local Ollama or refuse, per `promptRefiner.budget.onLimit`.
+     */
+    private applyBudget(candidates: ProviderCandidate[]): ProviderCandidate[] {
+        const budget = BudgetManager.getInstance();
+        const [primary, ...fallbacks] = candidates;
+
+        const primaryCheck = budget.check(primary.provider.id);
+        if (primaryCheck.exceeded.length > 0) {
+            const reason = describeBudgetStatus(primaryCheck.exceeded[0]);
+            const config = ConfigurationManager.getInstance();
+            const ollama = this.providerManager.getProvider('ollama');
+            if (config.getBudgetSettings().onLimit === 'fallbackToOllama' && ollama) {
+                // Local models cost nothing, so the fallback is not capped
+                logger.warn('Budget cap reached, falling back to Ollama', { provider: primary.provider.id, reason });
+                const modelOverride = getDefaultUiModelId('ollama');
+                return [{ provider: ollama, modelId: config.resolveModelId('ollama', modelOverride), modelOverride, fallback: true }];
+            }
+            throw new Error(`BUDGET_EXCEEDED|${reason}. Raise the cap or wait for it to reset.`);
+        }
+        budget.warnIfNearLimit(primaryCheck);
+
+        const allowed = fallbacks.filter(candidate => {
+            const check = budget.check(candidate.provider.id);
+            if (check.exceeded.length > 0) {
+                logger.debug('Skipping fallback provider over budget', { providerId: candidate.provider.id });
+                return false;
+            }
+            return true;
+        });
+        return [primary, ...allowed];
+    }
+
+    /**
+     * Errors that mean "this provider can't answer right now" rather than "this request is bad"
+     */
+    private shouldFallBack(error: unknown): boolean {
+        if (error instanceof CircuitBreakerError) {
+            return true;
+        }
+        if (!(error instanceof Error) || error.message === 'Operation cancelled') {
+            return false;
+        }
+        const { type } = ErrorHandler.classifyError(error);
+        return type === ErrorType.RATE_LIMIT || type === ErrorType.NETWORK;
+    }
+
+    /**
+     * Send failing output back with its validation issues until a candidate passes, the round
+     * limit is reached or the request is cancelled. The best-scoring candidate is kept, so a
+     * repair that makes things worse never replaces the original answer.
+     */
+    private async autoRepair(request: {
+        candidate: ProviderCandidate;
+        apiModelId: string;
+        systemTemplate: string;
+        /** Conversation up to and including the user's prompt */
+        history: ChatTurn[];
+        first: { refined: string; validation: ValidationResult };
+        maxRounds: number;
+        strict: boolean;
+        ruleSet: AvailableRuleSet;
+        signal?: AbortSignal;
+        token?: vscode.CancellationToken;
+    }): Promise<{ refined: string; validation: ValidationResult; usage?: RefinementUsage; tokens: number; repair: RepairHistory }> {
+        const { candidate: { provider, modelOverride, breakerId }, apiModelId, first } = request;
+        const registry = ValidationRuleRegistry.getInstance();
+        const repair: RepairHistory = { rounds: [toRepairRound(0, first.validation)], chosenRound: 0 };
+        let best = first;
+        let usage: RefinementUsage | undefined;
+        let tokens = 0;
+
+        for (let round = 1; round <= request.maxRounds && !best.validation.valid; round++) {
+            if (request.token?.isCancellationRequested) {
+                break;
+            }
+            if (BudgetManager.getInstance().check(provider.id).exceeded.length > 0) {
+                logger.warn('Budget cap reached, stopping auto-repair', { provider: provider.id, round });
+                break;
+            }
+
+            const repairPrompt = buildRepairPrompt(best.validation);
+            const conversation = this.fitConversation(
+                request.systemTemplate,
+                repairPrompt,
+                [...request.history, { role: 'assistant', content: best.refined }],
+                apiModelId
+            );
+
+            let result: RefineResult;
+            try {
+                result = await getCircuitBreaker(breakerId ?? provider.id).execute(() => provider.refine(repairPrompt, conversation.systemTemplate, {
+                    strict: request.strict,
+                    signal: request.signal,
+                    model: modelOverride,
+                    history: conversation.history,
+                }));
+            } catch (error) {
+                // The answer in hand is still usable, so a failed repair isn't a failed refinement
+                logger.warn('Auto-repair request failed, keeping the best answer so far', {
+                    round,
+                    error: (error as Error).message,
+                });
+                break;
+            }
+
+            const roundUsage = await this.measureUsage(
+                provider.id,
+                apiModelId,
+                buildChatMessages(conversation.systemTemplate, repairPrompt, conversation.history),
+                result
+            );
+            const roundTokens = result.tokens || roundUsage.promptTokens + roundUsage.completionTokens;
+            await BudgetManager.getInstance().recordUsage(provider.id, roundTokens, roundUsage.cost, apiModelId);
+            usage = usage ? addUsage(usage, roundUsage) : roundUsage;
+            tokens += roundTokens;
+
+            const validation = registry.validateWith(result.refined, request.strict, request.ruleSet);
+            repair.rounds.push(toRepairRound(round, validation));
+            logger.info('Auto-repair round completed', { round, score: validation.score, valid: validation.valid });
+
+            if (isBetterCandidate(validation, best.validation)) {
+                best = { refined: result.refined, validation };
+                repair.chosenRound = round;
+            }
+        }
+
+        return { ...best, usage, tokens, repair };
+    }
+
+    /**
+     * Drain a provider stream, reporting the accumulated text after every delta.
+     * Each retry attempt starts from an empty buffer, so listeners simply replace what they show.
+     */
+    private async consumeStream(
+        provider: IAIProvider,
+        userPrompt: string,
+        systemTemplate: string,
+        callOptions: RefineCallOptions,
+        onProgress: (partial: string) => void,
+    ): Promise<RefineResult> {
+        const stream = provider.refineStream?.(userPrompt, systemTemplate, callOptions);
+        if (!stream) {
+            return provider.refine(userPrompt, systemTemplate, callOptions);
+        }
+
+        let accumulated = '';
+        onProgress(accumulated);
+        for await (const event of stream) {
+            if (event.type === 'delta') {
+                accumulated += event.text;
+                onProgress(accumulated);
+            } else {
+                const refined = event.refined ?? accumulated;
+                if (refined !== accumulated) {
+                    onProgress(refined);
+                }
+                return { refined, tokens: event.tokens, usage: event.usage };
+            }
+        }
+
+        // Stream ended without a done event - tokens are counted by the caller
+        return { refined: accumulated, tokens: 0 };
+    }
+
+    /**
+     * Token usage and estimated cost of one provider call. Counts reported by the API win;
+     * otherwise the request and answer are tokenized offline.
+     */
+    private async measureUsage(
+        providerId: string,
+        apiModelId: string,
+        messages: ChatTurn[],
+        result: RefineResult
+    ): Promise<RefinementUsage> {
+        let promptTokens: number;
+        let completionTokens: number;
+        let source: RefinementUsage['source'];
+
+        if (result.usage) {
+            ({ promptTokens, completionTokens } = result.usage);
+            source = 'provider';
+        } else {
+            const prompt = await countChatTokens(messages, apiModelId);
+            const completion = await countTokens(result.refined, apiModelId);
+            promptTokens = prompt.tokens;
+            completionTokens = completion.tokens;
+            source = prompt.exact ? 'tokenizer' : 'estimate';
+        }
+
+        return {
+            promptTokens,
+            completionTokens,
+            cost: estimateCost(providerId, apiModelId, promptTokens, completionTokens),
+            source,
+        };
+    }
+
+    /**
+     * Re-refine a prompt with feedback, sent as a follow-up turn after the original exchange
      */
     public async reRefine(
         originalPrompt: string,
@@ -275,26 +988,70 @@ export class PromptRefinerService implements IPromptRefinerService {
         token?: vscode.CancellationToken,
         options?: RefinementOptions
     ): Promise<RefinementResult> {
-        const enhancedPrompt = `Original prompt: ${originalPrompt}
-
-Previous refined version: ${previousResult}
-
-Feedback/Requirements for improvement: ${feedback}
-
-Please refine the prompt again incorporating the feedback above.`;
+        const history: ChatTurn[] = [
+            ...(options?.history ?? []),
+            { role: 'user', content: originalPrompt },
+            { role: 'assistant', content: previousResult },
+        ];
 
-        return this.refine(enhancedPrompt, token, {
+        return this.refine(`Revise your refined prompt above with this feedback: ${feedback}`, token, {
             ...options,
+            history,
             iteration: (options?.iteration || 1) + 1,
         });
     }
 
+    /**
+     * Trim history to what the model's context window and the configured cap allow. Trimmed
+     * turns are summarized into the system prompt so the model keeps the gist.
+     */
+    private fitConversation(
+        systemTemplate: string,
+        userPrompt: string,
+        history: ChatTurn[] | undefined,
+        apiModelId: string
+    ): { systemTemplate: string; history?: ChatTurn[] } {
+        if (!history?.length) {
+            return { systemTemplate };
+        }
+
+        const fixedTokens = estimateTokens(systemTemplate) + estimateTokens(userPrompt) + OUTPUT_TOKEN_RESERVE;
+        const budget = Math.max(0, Math.min(
+            ConfigurationManager.getInstance().getMaxHistoryTokens(),
+            getContextWindow(apiModelId) - fixedTokens
+        ));
+        const fitted = fitHistoryToBudget(history, budget);
+
+        if (fitted.trimmedTurns > 0) {
+            logger.debug('Conversation history trimmed to fit context budget', {
+                model: apiModelId,
+                budget,
+                kept: fitted.turns.length,
+                trimmed: fitted.trimmedTurns,
+            });
+        }
+
+        let withSummary = systemTemplate;
+        if (fitted.summary) {
+            const section = `\n\n---\nEarlier in this conversation (condensed):\n${fitted.summary}`;
+            withSummary = systemTemplate.endsWith(SYSTEM_FOOTER)
+                ? `${systemTemplate.slice(0, -SYSTEM_FOOTER.length)}${section}${SYSTEM_FOOTER}`
+                : `${systemTemplate}${section}`;
+        }
+
+        return {
+            systemTemplate: withSummary,
+            history: fitted.turns.length ? fitted.turns : undefined,
+        };
+    }
+
     /**
      * Load template content
      * @param templateId Optional template ID
      * @param roleId Optional role ID to load role-specific template
+     * @param variables Values for a custom template's placeholders; falls back to the stored ones
      */
-    private async loadTemplate(templateId?: string, roleId?: string): Promise<string> {
+    private async loadTemplate(templateId?: string, roleId?: string, variables?: Record<string, string>): Promise<string> {
         const extensionContext = this.context;
         if (!extensionContext) {
             throw new Error('Extension context not initialized');
@@ -304,7 +1061,12 @@ Please refine the prompt again incorporating the feedback above.`;
         if (templateId && templateId !== 'default' && templateId !== 'strict') {
             const template = await this.templateManager.getTemplate(templateId);
             if (template && template.content) {
-                return template.content;
+                return substituteTemplateVariables(
+                    template.content,
+                    variables ?? this.templateManager.getVariableValues(template.id),
+                    template.variables,
+                    collectBuiltinVariables()
+                );
             }
         }
 
@@ -313,7 +1075,15 @@ Please refine the prompt again incorporating the feedback above.`;
         const useRoleTemplates = config.getUseRoleTemplates();
         
         if (useRoleTemplates && roleId && roleId !== 'default') {
-            // Try to load role-specific template first
+            // A custom role's own template file comes first
+            const role = RoleManager.getInstance().getRoleById(roleId);
+            const customTemplate = role ? await RoleManager.getInstance().loadRoleTemplate(role) : undefined;
+            if (customTemplate) {
+                logger.debug('Loaded custom role template', { roleId });
+                return customTemplate;
+            }
+
+            // Then the bundled template of a predefined role
             const roleTemplatePath = extensionContext.asAbsolutePath(
                 path.join('dist', 'templates', 'roles', `${roleId}.md`)
             );
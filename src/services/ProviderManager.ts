@@ -9,6 +9,12 @@ import { HuggingFaceProvider } from '../providers/HuggingFaceProvider';
 import { PublicProvider } from '../providers/PublicProvider';
 import { GitHubProvider } from '../providers/GitHubProvider';
 import { AnthropicProvider } from '../providers/AnthropicProvider';
+import { VsCodeLmProvider } from '../providers/VsCodeLmProvider';
+import { OpenAICompatibleProvider } from '../providers/OpenAICompatibleProvider';
+import { AzureOpenAIProvider } from '../providers/AzureOpenAIProvider';
+import { BedrockProvider } from '../providers/BedrockProvider';
+import { isOpenAICompatibleProviderId } from '../utils/openaiCompatible';
+import { PluginManager } from '../plugins/PluginManager';
 import { logger } from './Logger';
 import { IProviderManager } from './IProviderManager';
 
@@ -59,8 +65,23 @@ export class ProviderManager implements IProviderManager {
         case 'anthropic':
             provider = new AnthropicProvider();
             break;
+        case 'vscode-lm':
+            provider = new VsCodeLmProvider();
+            break;
+        case 'azure-openai':
+            provider = new AzureOpenAIProvider();
+            break;
+        case 'bedrock':
+            provider = new BedrockProvider();
+            break;
         default:
-            return undefined;
+            // One instance per profile, so each gets its own circuit breaker and model list
+            if (isOpenAICompatibleProviderId(id) && ConfigurationManager.getInstance().getOpenAICompatibleProfile(id)) {
+                provider = new OpenAICompatibleProvider(id);
+                break;
+            }
+            // Not cached: the plugin may be unloaded, and its provider must go with it
+            return PluginManager.getInstance().getProvider(id);
         }
 
         if (provider) {
@@ -88,6 +109,10 @@ export class ProviderManager implements IProviderManager {
         return provider;
     }
 
+    public getProvider(id: string): IAIProvider | undefined {
+        return this.getOrCreateProvider(id);
+    }
+
     /**
      * Preload a provider (for faster first use)
      */
@@ -0,0 +1,261 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from './Logger';
+import { ConfigurationManager } from './ConfigurationManager';
+import { estimateSimilarity, minHashSignature, normalizePrompt } from '../utils/minhash';
+
+export interface CachedRefinement {
+    key: string;
+    /** Cache key without the prompt; a near-duplicate must share it (same model, template, context...) */
+    scope: string;
+    prompt: string;
+    refined: string;
+    provider: string;
+    model: string;
+    createdAt: number;
+    lastUsedAt: number;
+    hits: number;
+    /** MinHash of the normalized prompt, for near-duplicate lookup */
+    signature: number[];
+}
+
+export interface SimilarRefinement {
+    entry: CachedRefinement;
+    /** Estimated similarity of the two prompts, 0-1 */
+    similarity: number;
+}
+
+interface CacheFile {
+    version: number;
+    entries: CachedRefinement[];
+}
+
+const CACHE_FILE_NAME = 'refinement-cache.json';
+const CACHE_FILE_VERSION = 1;
+
+/**
+ * Refinements kept on disk in the extension's global storage, so they outlive a reload.
+ * Entries expire after `promptRefiner.cache.ttlHours`; the least recently used are evicted
+ * once the file would exceed `promptRefiner.cache.maxSizeMB`.
+ */
+export class RefinementCacheStore {
+    private static instance: RefinementCacheStore | undefined;
+    private filePath?: string;
+    private entries = new Map<string, CachedRefinement>();
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    private constructor() {
+        // Private constructor to prevent direct instantiation - use getInstance()
+    }
+
+    /**
+     * Get the singleton instance
+     */
+    public static getInstance(): RefinementCacheStore {
+        if (!RefinementCacheStore.instance) {
+            RefinementCacheStore.instance = new RefinementCacheStore();
+        }
+        return RefinementCacheStore.instance;
+    }
+
+    /**
+     * Reset singleton instance (for testing)
+     */
+    public static resetInstance(): void {
+        RefinementCacheStore.instance = undefined;
+    }
+
+    public async initialize(context: vscode.ExtensionContext): Promise<void> {
+        this.filePath = path.join(context.globalStorageUri.fsPath, CACHE_FILE_NAME);
+        try {
+            const data = JSON.parse(await fs.promises.readFile(this.filePath, 'utf8')) as CacheFile;
+            if (data.version === CACHE_FILE_VERSION && Array.isArray(data.entries)) {
+                // Entries set while the file was loading are newer than the stored copies
+                const setDuringLoad = this.entries.size;
+                for (const entry of data.entries) {
+                    if (!this.entries.has(entry.key)) {
+                        this.entries.set(entry.key, entry);
+                    }
+                }
+                if (setDuringLoad > 0) {
+                    this.evictToSize();
+                    this.save();
+                }
+            }
+            const expired = this.removeExpired();
+            logger.info('Refinement cache loaded', { entries: this.entries.size, expired });
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                logger.warn('Could not read refinement cache, starting empty', { error: (error as Error).message });
+            }
+        }
+    }
+
+    /**
+     * Entry stored under exactly this key, if still fresh
+     */
+    public get(key: string): CachedRefinement | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return undefined;
+        }
+        if (this.isExpired(entry)) {
+            this.entries.delete(key);
+            this.save();
+            return undefined;
+        }
+        this.touch(entry);
+        return entry;
+    }
+
+    /**
+     * Most similar fresh entry in the same scope, when near-duplicate lookup is on and the
+     * prompt clears the configured similarity threshold
+     */
+    public findSimilar(prompt: string, scope: string): SimilarRefinement | undefined {
+        if (!this.filePath) {
+            return undefined;
+        }
+        const settings = ConfigurationManager.getInstance().getCacheSettings();
+        if (!settings.nearDuplicate) {
+            return undefined;
+        }
+
+        const normalized = normalizePrompt(prompt);
+        const signature = minHashSignature(prompt);
+        let best: SimilarRefinement | undefined;
+        for (const entry of this.entries.values()) {
+            if (entry.scope !== scope || this.isExpired(entry)) {
+                continue;
+            }
+            const similarity = normalizePrompt(entry.prompt) === normalized
+                ? 1
+                : estimateSimilarity(signature, entry.signature);
+            if (similarity >= settings.similarityThreshold && (!best || similarity > best.similarity)) {
+                best = { entry, similarity };
+            }
+        }
+        return best;
+    }
+
+    /**
+     * Mark an entry as used again (e.g. after the user accepted it as a near-duplicate)
+     */
+    public touch(entry: CachedRefinement): void {
+        entry.hits++;
+        entry.lastUsedAt = Date.now();
+        this.save();
+    }
+
+    public set(entry: Pick<CachedRefinement, 'key' | 'scope' | 'prompt' | 'refined' | 'provider' | 'model'>): void {
+        if (!this.filePath) {
+            return;
+        }
+        const now = Date.now();
+        this.entries.set(entry.key, {
+            ...entry,
+            createdAt: now,
+            lastUsedAt: now,
+            hits: 0,
+            signature: minHashSignature(entry.prompt),
+        });
+        this.evictToSize();
+        this.save();
+    }
+
+    /**
+     * Fresh entries, most recently used first
+     */
+    public list(): CachedRefinement[] {
+        this.removeExpired();
+        return [...this.entries.values()].sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+    }
+
+    public delete(key: string): boolean {
+        const deleted = this.entries.delete(key);
+        if (deleted) {
+            this.save();
+        }
+        return deleted;
+    }
+
+    public clear(): void {
+        this.entries.clear();
+        this.save();
+        logger.info('Refinement cache cleared');
+    }
+
+    public getStats(): { entries: number; bytes: number } {
+        const bytes = [...this.entries.values()].reduce((sum, entry) => sum + this.entrySize(entry), 0);
+        return { entries: this.entries.size, bytes };
+    }
+
+    /**
+     * Resolves once pending writes reach the disk
+     */
+    public flush(): Promise<void> {
+        return this.writeQueue;
+    }
+
+    private isExpired(entry: CachedRefinement): boolean {
+        const { ttlHours } = ConfigurationManager.getInstance().getCacheSettings();
+        return Date.now() - entry.lastUsedAt > ttlHours * 3600000;
+    }
+
+    private removeExpired(): number {
+        let removed = 0;
+        for (const [key, entry] of this.entries) {
+            if (this.isExpired(entry)) {
+                this.entries.delete(key);
+                removed++;
+            }
+        }
+        if (removed > 0) {
+            this.save();
+        }
+        return removed;
+    }
+
+    private entrySize(entry: CachedRefinement): number {
+        return Buffer.byteLength(JSON.stringify(entry), 'utf8');
+    }
+
+    private evictToSize(): void {
+        const maxBytes = ConfigurationManager.getInstance().getCacheSettings().maxSizeMB * 1024 * 1024;
+        let total = this.getStats().bytes;
+        if (total <= maxBytes) {
+            return;
+        }
+        const oldestFirst = [...this.entries.values()].sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+        let evicted = 0;
+        for (const entry of oldestFirst) {
+            if (total <= maxBytes || this.entries.size <= 1) {
+                break;
+            }
+            total -= this.entrySize(entry);
+            this.entries.delete(entry.key);
+            evicted++;
+        }
+        logger.debug('Refinement cache evicted least recently used entries', { evicted, bytes: total });
+    }
+
+    /**
+     * Writes are queued so concurrent refinements never interleave partial files
+     */
+    private save(): void {
+        const filePath = this.filePath;
+        if (!filePath) {
+            return;
+        }
+        this.writeQueue = this.writeQueue
+            .then(async () => {
+                const data: CacheFile = { version: CACHE_FILE_VERSION, entries: [...this.entries.values()] };
+                await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+                const tempPath = `${filePath}.tmp`;
+                await fs.promises.writeFile(tempPath, JSON.stringify(data), 'utf8');
+                await fs.promises.rename(tempPath, filePath);
+            })
+            .catch(error => logger.error('Failed to write refinement cache', error as Error));
+    }
+}
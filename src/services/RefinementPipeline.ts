@@ -0,0 +1,154 @@
+/**
+ * Refinement Pipeline
+ *
+ * `PromptRefinerService.refine` runs a request through an ordered list of stages. Each stage
+ * gets the request's context and a `next` that runs the stages after it: it can change the
+ * context before calling `next`, change the result `next` returns, or return a result of its
+ * own without calling `next` at all.
+ */
+
+import * as vscode from 'vscode';
+import { logger } from './Logger';
+import type { ProviderCandidate, RefinementOptions, RefinementResult } from './PromptRefinerService';
+
+/** Built-in stages, outermost first */
+export const BUILTIN_STAGE_IDS = [
+    'validateInput',
+    'pluginHooks',
+    'systemPrompt',
+    'redact',
+    'validateOutput',
+    'cache',
+    'analytics',
+    'autoRepair',
+    'provider',
+] as const;
+
+export type BuiltinStageId = typeof BUILTIN_STAGE_IDS[number];
+
+/**
+ * Stages the request can't do without; `promptRefiner.pipeline.disabledStages` can't remove them.
+ * Only `promptRefiner.redaction.enabled` turns `redact` off.
+ */
+export const REQUIRED_STAGE_IDS: readonly BuiltinStageId[] = ['validateInput', 'systemPrompt', 'redact', 'provider'];
+
+/**
+ * One request on its way through the pipeline. Stages read and replace these fields; the
+ * `provider` stage sends `prompt` with `systemTemplate`.
+ */
+export interface RefinementPipelineContext {
+    /** The prompt as the caller passed it */
+    readonly draft: string;
+    /** The prompt the remaining stages and the provider see */
+    prompt: string;
+    /** Stages may replace it, e.g. to redact the history */
+    options: RefinementOptions;
+    readonly token?: vscode.CancellationToken;
+    /** Aborted when `token` is cancelled, for provider calls */
+    readonly signal?: AbortSignal;
+    providerId: string;
+    modelId: string;
+    templateId: string;
+    roleId: string;
+    strict: boolean;
+    iteration: number;
+    /** Role prompt, template and editor context; set by the `systemPrompt` stage */
+    systemTemplate: string;
+    /** The result came from a cache rather than a provider call */
+    fromCache: boolean;
+    /** A fallback provider answered; such answers aren't cached */
+    fromFallback: boolean;
+    /** Only providers on this machine may answer; set when redaction found a secret */
+    localOnly: boolean;
+    /** No modal prompts; see `RefinementOptions.headless` */
+    readonly headless: boolean;
+    /** Set by `refineWithModel`: only `providerId` with `modelId` may answer, with no fallbacks */
+    readonly pinned: boolean;
+    /** The provider and model that answered, for stages that ask it again (auto-repair) */
+    answeredBy?: { candidate: ProviderCandidate; apiModelId: string };
+    /** Data stages pass to each other, keyed by stage id */
+    readonly state: Map<string, unknown>;
+}
+
+/** Runs the rest of the pipeline and resolves with its result */
+export type RefinementNext = () => Promise<RefinementResult>;
+
+export interface RefinementStage {
+    /** Unique id; other stages are placed relative to it, and settings can disable it by it */
+    readonly id: string;
+    run(context: RefinementPipelineContext, next: RefinementNext): Promise<RefinementResult>;
+}
+
+/**
+ * Where an added stage goes; without either it goes right before `cache`. The last stage
+ * (`provider`) ends the run, so a stage placed after it goes right before it instead.
+ */
+export interface StagePlacement {
+    before?: string;
+    after?: string;
+}
+
+export interface PlacedStage {
+    stage: RefinementStage;
+    placement?: StagePlacement;
+}
+
+const DEFAULT_ANCHOR: BuiltinStageId = 'cache';
+
+/**
+ * The stages of one run: the built-in ones without the disabled ids, and the added ones at their
+ * placement. An added stage whose anchor isn't in the pipeline goes to the default place; one
+ * whose id is taken is skipped.
+ */
+export function arrangeStages(builtin: RefinementStage[], added: PlacedStage[], disabled: string[] = []): RefinementStage[] {
+    const removable = (id: string) => disabled.includes(id) && !(REQUIRED_STAGE_IDS as readonly string[]).includes(id);
+    const stages = builtin.filter(stage => !removable(stage.id));
+
+    for (const { stage, placement } of added) {
+        if (removable(stage.id)) {
+            continue;
+        }
+        if (stages.some(existing => existing.id === stage.id)) {
+            logger.warn('Skipping pipeline stage with a duplicate id', { stageId: stage.id });
+            continue;
+        }
+
+        const anchor = placement?.before ?? placement?.after;
+        let index = anchor ? stages.findIndex(existing => existing.id === anchor) : -1;
+        if (index < 0) {
+            if (anchor) {
+                logger.debug('Pipeline stage anchor not found, using the default place', { stageId: stage.id, anchor });
+            }
+            index = stages.findIndex(existing => existing.id === DEFAULT_ANCHOR);
+            stages.splice(index < 0 ? Math.max(0, stages.length - 1) : index, 0, stage);
+            continue;
+        }
+        if (placement?.after && index === stages.length - 1) {
+            logger.debug('Pipeline stage placed after the last stage, moving it before', { stageId: stage.id, anchor });
+        }
+        stages.splice(placement?.before ? index : Math.min(index + 1, stages.length - 1), 0, stage);
+    }
+    return stages;
+}
+
+/**
+ * Run the context through the stages in order. Calling `next` twice from one stage is a bug
+ * and rejects; running past the last stage rejects because nothing produced a result.
+ */
+export function runStages(stages: RefinementStage[], context: RefinementPipelineContext): Promise<RefinementResult> {
+    const dispatch = async (index: number): Promise<RefinementResult> => {
+        const stage = stages[index];
+        if (!stage) {
+            throw new Error('The refinement pipeline ended without a result');
+        }
+        let called = false;
+        return stage.run(context, () => {
+            if (called) {
+                return Promise.reject(new Error(`Pipeline stage "${stage.id}" called next() more than once`));
+            }
+            called = true;
+            return dispatch(index + 1);
+        });
+    };
+    return dispatch(0);
+}
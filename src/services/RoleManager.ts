@@ -0,0 +1,177 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from './Logger';
+import {
+    CustomRoleDefinition,
+    DEFAULT_ROLE_ID,
+    PREDEFINED_ROLES,
+    Role,
+    RoleId,
+    buildCustomRole,
+    getDefaultRole,
+    isPredefinedRoleId,
+} from '../types/Role';
+
+const CUSTOM_ROLES_SETTING = 'customRoles';
+
+/**
+ * Predefined roles plus the custom roles from `promptRefiner.customRoles`.
+ * User settings hold global roles and workspace settings hold roles shared with the
+ * project; a workspace role replaces a global one with the same id. Predefined ids
+ * cannot be redefined.
+ */
+export class RoleManager {
+    private static instance: RoleManager | undefined;
+
+    private constructor() {
+        // Private constructor to prevent direct instantiation - use getInstance()
+    }
+
+    /**
+     * Get the singleton instance
+     */
+    public static getInstance(): RoleManager {
+        if (!RoleManager.instance) {
+            RoleManager.instance = new RoleManager();
+        }
+        return RoleManager.instance;
+    }
+
+    /**
+     * Reset singleton instance (for testing)
+     */
+    public static resetInstance(): void {
+        RoleManager.instance = undefined;
+    }
+
+    /**
+     * Predefined roles first, then custom roles in settings order
+     */
+    public getAllRoles(): Role[] {
+        return [
+            ...PREDEFINED_ROLES.map(role => ({ ...role, scope: 'builtin' as const })),
+            ...this.getCustomRoles(),
+        ];
+    }
+
+    /**
+     * Custom roles from user and workspace settings. Entries that are incomplete or reuse
+     * a predefined id are skipped.
+     */
+    public getCustomRoles(): Role[] {
+        const inspected = vscode.workspace.getConfiguration('promptRefiner')
+            .inspect<CustomRoleDefinition[]>(CUSTOM_ROLES_SETTING);
+        const sources: Array<['global' | 'workspace', CustomRoleDefinition[] | undefined]> = [
+            ['global', inspected?.globalValue],
+            ['workspace', inspected?.workspaceValue],
+            ['workspace', inspected?.workspaceFolderValue],
+        ];
+
+        const roles = new Map<string, Role>();
+        for (const [scope, definitions] of sources) {
+            for (const definition of Array.isArray(definitions) ? definitions : []) {
+                const role = buildCustomRole(definition, scope);
+                if (!role) {
+                    logger.warn('Ignoring incomplete custom role', { id: definition?.id, scope });
+                    continue;
+                }
+                if (isPredefinedRoleId(role.id)) {
+                    logger.warn('Ignoring custom role that reuses a predefined role id', { id: role.id, scope });
+                    continue;
+                }
+                roles.set(role.id, role);
+            }
+        }
+        return [...roles.values()];
+    }
+
+    public getRoleById(roleId: RoleId): Role | undefined {
+        const predefined = PREDEFINED_ROLES.find(role => role.id === roleId);
+        if (predefined) {
+            return { ...predefined, scope: 'builtin' };
+        }
+        return this.getCustomRoles().find(role => role.id === roleId);
+    }
+
+    /**
+     * The session's role, or the default role when it is no longer defined
+     * (e.g. a workspace role in a session opened from another workspace)
+     */
+    public resolveRole(roleId: RoleId | undefined): Role {
+        const role = roleId ? this.getRoleById(roleId) : undefined;
+        if (!role && roleId && roleId !== DEFAULT_ROLE_ID) {
+            logger.debug('Role not defined here, using the default role', { roleId });
+        }
+        return role ?? { ...getDefaultRole(), scope: 'builtin' };
+    }
+
+    public isKnownRole(roleId: string): boolean {
+        return this.getRoleById(roleId) !== undefined;
+    }
+
+    /**
+     * Add or replace a custom role in user (`global`) or workspace settings
+     */
+    public async saveCustomRole(definition: CustomRoleDefinition, scope: 'global' | 'workspace'): Promise<void> {
+        if (isPredefinedRoleId(definition.id)) {
+            throw new Error(`"${definition.id}" is a predefined role`);
+        }
+        const config = vscode.workspace.getConfiguration('promptRefiner');
+        const inspected = config.inspect<CustomRoleDefinition[]>(CUSTOM_ROLES_SETTING);
+        const current = (scope === 'global' ? inspected?.globalValue : inspected?.workspaceValue) ?? [];
+
+        await config.update(
+            CUSTOM_ROLES_SETTING,
+            [...current.filter(role => role.id !== definition.id), definition],
+            scope === 'global' ? vscode.ConfigurationTarget.Global : vscode.ConfigurationTarget.Workspace
+        );
+        logger.info('Custom role saved', { id: definition.id, scope });
+    }
+
+    /**
+     * Content of a custom role's template file, if it has one that can be read.
+     * The path resolves against the first workspace folder and must stay inside it.
+     */
+    public async loadRoleTemplate(role: Role): Promise<string | undefined> {
+        if (!role.templateFile) {
+            return undefined;
+        }
+        const filePath = this.resolveTemplatePath(role.templateFile);
+        if (!filePath) {
+            logger.warn('Role template path must be relative to the open workspace folder', {
+                roleId: role.id,
+                templateFile: role.templateFile,
+            });
+            return undefined;
+        }
+        try {
+            return await fs.promises.readFile(filePath, 'utf-8');
+        } catch (error) {
+            logger.warn('Could not read role template file, using the default template', {
+                roleId: role.id,
+                filePath,
+                error: (error as Error).message,
+            });
+            return undefined;
+        }
+    }
+
+    /**
+     * Workspace roles are shared through the repository, so a template path may not
+     * reach outside the workspace folder (absolute, `~` and `..` paths are refused)
+     */
+    private resolveTemplatePath(templateFile: string): string | undefined {
+        const folder = vscode.workspace.workspaceFolders?.[0];
+        if (!folder || templateFile.startsWith('~') || path.isAbsolute(templateFile)) {
+            return undefined;
+        }
+        const root = path.resolve(folder.uri.fsPath);
+        const filePath = path.resolve(root, templateFile);
+        const relative = path.relative(root, filePath);
+        if (!relative || relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+            return undefined;
+        }
+        return filePath;
+    }
+}
@@ -1,7 +1,10 @@
 import * as vscode from 'vscode';
 import { randomBytes } from 'crypto';
 import { logger } from './Logger';
-import { RoleId, DEFAULT_ROLE_ID, isValidRoleId } from '../types/Role';
+import { RoleId, DEFAULT_ROLE_ID, ROLE_ID_PATTERN } from '../types/Role';
+import { RoleManager } from './RoleManager';
+import type { RepairHistory } from '../utils/autoRepair';
+import type { RedactionSummary } from '../utils/redaction';
 
 /**
  * Represents a single message in a chat session
@@ -14,6 +17,29 @@ export interface ChatMessage {
     provider?: string;
     model?: string;
     tokens?: number;
+    /** Input tokens of the call that produced this answer */
+    promptTokens?: number;
+    /** Output tokens of the call that produced this answer */
+    completionTokens?: number;
+    /** Estimated USD cost of the call; unset when the model has no known price */
+    cost?: number;
+    /** True when the response was cut short (e.g. the user stopped a streaming refinement) */
+    partial?: boolean;
+    /** Validation scores of the auto-repair rounds behind this answer */
+    repair?: RepairHistory;
+    /** What was hidden from the provider while producing this answer */
+    redactions?: RedactionSummary[];
+}
+
+/**
+ * Running token and cost totals of a session
+ */
+export interface SessionUsage {
+    promptTokens: number;
+    completionTokens: number;
+    cost: number;
+    /** True when some answers came from models without a known price, so `cost` is a lower bound */
+    hasUnpricedMessages: boolean;
 }
 
 /**
@@ -27,7 +53,7 @@ export interface SessionMetadata {
     tags?: string[];
     isArchived?: boolean;
     /**
-     * The role/persona for this session
+     * The role/persona for this session: a predefined or custom role id
      * @default 'programmer'
      */
     role?: RoleId;
@@ -195,7 +221,7 @@ export class SessionManager {
         const sessionName = name || `Session ${this.storage.sessions.length + 1}`;
 
         // Validate and default role
-        const sessionRole = role && isValidRoleId(role) ? role : DEFAULT_ROLE_ID;
+        const sessionRole = role && RoleManager.getInstance().isKnownRole(role) ? role : DEFAULT_ROLE_ID;
 
         const newSession: ChatSession = {
             id: this.generateId(),
@@ -683,7 +709,8 @@ export class SessionManager {
                     ? rawMeta.tags.filter((t): t is string => typeof t === 'string').slice(0, 20)
                     : undefined,
                 isArchived: false,
-                role: typeof roleCandidate === 'string' && isValidRoleId(roleCandidate) ? roleCandidate : undefined,
+                // Kept even if the role isn't defined here: it may be a custom role of the exporting workspace
+                role: typeof roleCandidate === 'string' && ROLE_ID_PATTERN.test(roleCandidate) ? roleCandidate : undefined,
             };
 
             let name = data.session.name.trim().slice(0, MAX_IMPORT_SESSION_NAME_LENGTH);
@@ -867,6 +894,31 @@ export class SessionManager {
         };
     }
 
+    /**
+     * Sum the recorded usage of a session's answers
+     */
+    public async getSessionUsage(sessionId: string): Promise<SessionUsage> {
+        const session = this.getSessionById(sessionId);
+        if (!session) {
+            throw new Error(`Session not found: ${sessionId}`);
+        }
+
+        const usage: SessionUsage = { promptTokens: 0, completionTokens: 0, cost: 0, hasUnpricedMessages: false };
+        for (const message of session.messages) {
+            if (message.role !== 'assistant') {
+                continue;
+            }
+            usage.promptTokens += message.promptTokens ?? 0;
+            usage.completionTokens += message.completionTokens ?? 0;
+            if (message.cost === undefined) {
+                usage.hasUnpricedMessages = true;
+            } else {
+                usage.cost += message.cost;
+            }
+        }
+        return usage;
+    }
+
     // ==================== ROLE MANAGEMENT ====================
 
     /**
@@ -893,7 +945,7 @@ export class SessionManager {
             throw new Error(`Session not found: ${sessionId}`);
         }
 
-        if (!isValidRoleId(role)) {
+        if (!RoleManager.getInstance().isKnownRole(role)) {
             throw new Error(`Invalid role: ${role}`);
         }
 
@@ -906,7 +958,9 @@ export class SessionManager {
 
     /**
      * Ensure all sessions have a role (migration helper)
-     * Called during initialization to migrate existing sessions
+     * Called during initialization to migrate existing sessions. Custom role ids are kept
+     * even when their role isn't defined right now (e.g. a workspace role while another
+     * folder is open); refinement falls back to the default role for those.
      */
     private async migrateSessionRoles(): Promise<void> {
         let migrated = false;
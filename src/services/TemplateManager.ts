@@ -1,6 +1,27 @@
 import * as vscode from 'vscode';
 import { randomBytes } from 'crypto';
 import { logger } from './Logger';
+import { PromptLibrary } from './PromptLibrary';
+import { PluginManager, PluginTemplate } from '../plugins/PluginManager';
+
+/**
+ * Where a template is stored. Workspace templates live as Markdown files in the prompt
+ * library folder and are shared through version control; plugin templates exist while
+ * their plugin is loaded.
+ */
+export type TemplateScope = 'builtin' | 'plugin' | 'global' | 'workspace';
+
+/**
+ * A `{{name}}` placeholder declared by a template
+ */
+export interface TemplateVariable {
+    name: string;
+    description?: string;
+    /** Defaults to 'enum' when choices are given, otherwise 'string' */
+    type?: 'string' | 'number' | 'enum';
+    default?: string;
+    choices?: string[];
+}
 
 /**
  * Represents a custom template for prompt refinement
@@ -14,8 +35,25 @@ export interface CustomTemplate {
     category: 'coding' | 'writing' | 'analysis' | 'general' | 'custom';
     createdAt: number;
     updatedAt: number;
+    /** Set by getAllTemplates(); templates stored before scopes existed are global */
+    scope?: TemplateScope;
+    /** Role the template was written for */
+    role?: string;
+    variables?: TemplateVariable[];
+    /** Source file of workspace templates */
+    filePath?: string;
 }
 
+const TEMPLATE_CATEGORIES: CustomTemplate['category'][] = ['coding', 'writing', 'analysis', 'general', 'custom'];
+
+function fromPluginTemplate(template: PluginTemplate): CustomTemplate {
+    const category = TEMPLATE_CATEGORIES.find(c => c === template.category) ?? 'custom';
+    return { ...template, category, isBuiltIn: false, createdAt: 0, updatedAt: 0, scope: 'plugin' };
+}
+
+/** Built-ins backed by the bundled template files; no other scope can replace them */
+const RESERVED_TEMPLATE_IDS = ['default', 'strict'];
+
 /**
  * Default templates provided by the extension
  */
@@ -160,6 +198,7 @@ export class TemplateManager {
     private static instance: TemplateManager;
     private context?: vscode.ExtensionContext;
     private readonly STORAGE_KEY = 'promptRefiner.customTemplates';
+    private readonly VARIABLE_VALUES_KEY = 'promptRefiner.templateVariableValues';
 
     private constructor() {
         // Private constructor to prevent direct instantiation - use getInstance()
@@ -180,15 +219,42 @@ export class TemplateManager {
      */
     public initialize(context: vscode.ExtensionContext): void {
         this.context = context;
+        PromptLibrary.getInstance().initialize(context);
         logger.debug('TemplateManager initialized');
     }
 
     /**
-     * Get all available templates (built-in + custom)
+     * Get all available templates (built-in + plugin + global + workspace library).
+     * When ids collide, workspace beats global, global beats plugin and plugin beats built-in,
+     * except for the reserved `default` and `strict` templates, which always stay built-in.
      */
     public async getAllTemplates(): Promise<CustomTemplate[]> {
-        const customTemplates = await this.getCustomTemplates();
-        return [...BUILT_IN_TEMPLATES, ...customTemplates];
+        const builtIn = BUILT_IN_TEMPLATES.map(t => ({ ...t, scope: 'builtin' as const }));
+        const plugin = PluginManager.getInstance().getAllTemplates().map(fromPluginTemplate);
+        const global = (await this.getCustomTemplates()).map(t => ({ ...t, scope: 'global' as const }));
+        const workspace = await PromptLibrary.getInstance().getTemplates();
+
+        const merged = new Map<string, CustomTemplate>();
+        for (const template of [...builtIn, ...plugin, ...global, ...workspace]) {
+            const existing = merged.get(template.id);
+            if (existing && RESERVED_TEMPLATE_IDS.includes(template.id)) {
+                logger.warn('Ignoring template that overrides a reserved built-in', {
+                    templateId: template.id,
+                    scope: template.scope,
+                });
+                continue;
+            }
+            if (existing) {
+                logger.debug('Template overridden by higher-precedence scope', {
+                    templateId: template.id,
+                    from: existing.scope,
+                    to: template.scope,
+                });
+            }
+            // Map.set on an existing key keeps its position, so overrides stay in place
+            merged.set(template.id, template);
+        }
+        return [...merged.values()];
     }
 
     /**
@@ -218,11 +284,23 @@ export class TemplateManager {
 
     /**
      * Create a new custom template
+     * @param scope `workspace` writes a Markdown file to the prompt library instead of global state
      */
-    public async createTemplate(template: Omit<CustomTemplate, 'id' | 'createdAt' | 'updatedAt' | 'isBuiltIn'>): Promise<CustomTemplate> {
+    public async createTemplate(
+        template: Omit<CustomTemplate, 'id' | 'createdAt' | 'updatedAt' | 'isBuiltIn'>,
+        scope: Exclude<TemplateScope, 'builtin' | 'plugin'> = 'global'
+    ): Promise<CustomTemplate> {
         if (!this.context) {
             throw new Error('TemplateManager not initialized');
         }
+        // Plugin templates live in their plugin; there is nowhere to store one from here
+        if (scope !== 'global' && scope !== 'workspace') {
+            throw new Error(`Templates can't be created with the "${scope}" scope; use "global" or "workspace"`);
+        }
+
+        if (scope === 'workspace') {
+            return PromptLibrary.getInstance().saveTemplate(template);
+        }
 
         const now = Date.now();
         const newTemplate: CustomTemplate = {
@@ -391,6 +469,29 @@ export class TemplateManager {
         return allTemplates.filter(t => t.category === category);
     }
 
+    /**
+     * Variable values last entered for a template
+     */
+    public getVariableValues(templateId: string): Record<string, string> {
+        if (!this.context) {
+            return {};
+        }
+        const all = this.context.globalState.get<Record<string, Record<string, string>>>(this.VARIABLE_VALUES_KEY, {});
+        return all[templateId] ?? {};
+    }
+
+    /**
+     * Remember variable values so refinements with this template reuse them
+     */
+    public async setVariableValues(templateId: string, values: Record<string, string>): Promise<void> {
+        if (!this.context) {
+            throw new Error('TemplateManager not initialized');
+        }
+        const all = this.context.globalState.get<Record<string, Record<string, string>>>(this.VARIABLE_VALUES_KEY, {});
+        await this.context.globalState.update(this.VARIABLE_VALUES_KEY, { ...all, [templateId]: values });
+        logger.debug('Template variable values saved', { templateId, variables: Object.keys(values) });
+    }
+
     /**
      * Generate a unique ID using cryptographically secure randomness
      */
@@ -0,0 +1,174 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from './Logger';
+import { PluginManager, PluginValidator } from '../plugins/PluginManager';
+import { OutputValidator, ValidationResult } from '../utils/OutputValidator';
+import { DEFAULT_RULE_SET, ValidationRuleSet, normalizeRuleSet } from '../utils/validationRules';
+
+const DEFAULT_RULES_FILE = '.prompts/validation-rules.json';
+
+export type RuleSetSource = 'builtin' | 'plugin' | 'workspace';
+
+export interface AvailableRuleSet {
+    ruleSet: ValidationRuleSet;
+    source: RuleSetSource;
+    /** Custom check of a plugin validator, run on top of the declarative rules */
+    plugin?: PluginValidator;
+}
+
+/** What the output was refined for; picks the rule set */
+export interface RuleSetSelection {
+    templateId?: string;
+    roleId?: string;
+}
+
+/**
+ * Validation rule sets: the built-in default, those registered by plugins and those in the
+ * workspace rules file (`promptRefiner.validation.rulesFile`). A workspace rule set replaces a
+ * plugin or built-in one with the same id.
+ *
+ * The rule set for a refinement comes from `promptRefiner.validation.ruleSetByTemplate`, then
+ * `ruleSetByRole`, then `promptRefiner.validation.ruleSet`.
+ */
+export class ValidationRuleRegistry {
+    private static instance: ValidationRuleRegistry | undefined;
+    /** Load errors already shown, so a broken file doesn't warn on every refinement */
+    private readonly reportedErrors = new Set<string>();
+
+    private constructor() {
+        // Private constructor to prevent direct instantiation - use getInstance()
+    }
+
+    /**
+     * Get the singleton instance
+     */
+    public static getInstance(): ValidationRuleRegistry {
+        if (!ValidationRuleRegistry.instance) {
+            ValidationRuleRegistry.instance = new ValidationRuleRegistry();
+        }
+        return ValidationRuleRegistry.instance;
+    }
+
+    /**
+     * Reset singleton instance (for testing)
+     */
+    public static resetInstance(): void {
+        ValidationRuleRegistry.instance = undefined;
+    }
+
+    public async getRuleSets(): Promise<AvailableRuleSet[]> {
+        const merged = new Map<string, AvailableRuleSet>();
+        merged.set(DEFAULT_RULE_SET.id, { ruleSet: DEFAULT_RULE_SET, source: 'builtin' });
+
+        for (const validator of PluginManager.getInstance().getAllValidators()) {
+            try {
+                const ruleSet = validator.rules
+                    ? normalizeRuleSet({ ...validator.rules, id: validator.id, name: validator.name }, `plugin validator "${validator.id}"`)
+                    : { id: validator.id, name: validator.name };
+                merged.set(ruleSet.id, { ruleSet, source: 'plugin', plugin: validator });
+            } catch (error) {
+                this.reportLoadError((error as Error).message);
+            }
+        }
+
+        for (const ruleSet of await this.loadWorkspaceRuleSets()) {
+            merged.set(ruleSet.id, { ruleSet, source: 'workspace' });
+        }
+        return [...merged.values()];
+    }
+
+    /**
+     * Rule set configured for the template or role; the default when the configured id is unknown
+     */
+    public async resolve(selection: RuleSetSelection): Promise<AvailableRuleSet> {
+        const config = vscode.workspace.getConfiguration('promptRefiner');
+        // Settings can hold null for object settings, so guard beyond the defaults
+        const byTemplate = config.get<Record<string, string>>('validation.ruleSetByTemplate', {}) ?? {};
+        const byRole = config.get<Record<string, string>>('validation.ruleSetByRole', {}) ?? {};
+        const wanted = (selection.templateId && byTemplate[selection.templateId])
+            || (selection.roleId && byRole[selection.roleId])
+            || config.get<string>('validation.ruleSet', DEFAULT_RULE_SET.id)
+            || DEFAULT_RULE_SET.id;
+
+        const ruleSets = await this.getRuleSets();
+        const found = ruleSets.find(entry => entry.ruleSet.id === wanted);
+        if (!found) {
+            logger.warn('Unknown validation rule set, using the default', { ruleSet: wanted });
+        }
+        return found ?? ruleSets.find(entry => entry.ruleSet.id === DEFAULT_RULE_SET.id) ?? { ruleSet: DEFAULT_RULE_SET, source: 'builtin' };
+    }
+
+    /**
+     * Validate refined output against the rule set selected for it
+     */
+    public async validate(output: string, strict: boolean, selection: RuleSetSelection): Promise<ValidationResult> {
+        return this.validateWith(output, strict, await this.resolve(selection));
+    }
+
+    public validateWith(output: string, strict: boolean, entry: AvailableRuleSet): ValidationResult {
+        const result = OutputValidator.validate(output, strict, entry.ruleSet);
+        const plugin = entry.plugin;
+        if (!plugin?.validate) {
+            return result;
+        }
+
+        try {
+            const pluginResult = plugin.validate(output);
+            const issues = [
+                ...result.issues,
+                ...pluginResult.issues.map(message => ({ type: 'warning' as const, message, rule: `plugin:${plugin.id}` })),
+            ];
+            // A validator without declarative rules is judged by its own verdict alone
+            const hasRules = Boolean(plugin.rules);
+            const score = hasRules ? Math.min(result.score, pluginResult.score) : pluginResult.score;
+            const valid = pluginResult.valid && (!hasRules || result.valid);
+            return { ...result, issues, score, valid };
+        } catch (error) {
+            logger.error('Plugin validator failed', error as Error, { validatorId: plugin.id });
+            return result;
+        }
+    }
+
+    private async loadWorkspaceRuleSets(): Promise<ValidationRuleSet[]> {
+        const rulesFile = vscode.workspace.getConfiguration('promptRefiner')
+            .get<string>('validation.rulesFile', DEFAULT_RULES_FILE)?.trim() || DEFAULT_RULES_FILE;
+        const ruleSets: ValidationRuleSet[] = [];
+
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            const filePath = path.isAbsolute(rulesFile) ? rulesFile : path.join(folder.uri.fsPath, rulesFile);
+            let raw: unknown;
+            try {
+                raw = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                    this.reportLoadError(`Could not read validation rules from ${filePath}: ${(error as Error).message}`);
+                }
+                continue;
+            }
+
+            const entries = Array.isArray(raw) ? raw : (raw as { ruleSets?: unknown })?.ruleSets;
+            if (!Array.isArray(entries)) {
+                this.reportLoadError(`${filePath} must contain an array of rule sets or { "ruleSets": [...] }`);
+                continue;
+            }
+            for (const entry of entries) {
+                try {
+                    ruleSets.push(normalizeRuleSet(entry, filePath));
+                } catch (error) {
+                    this.reportLoadError((error as Error).message);
+                }
+            }
+        }
+        return ruleSets;
+    }
+
+    private reportLoadError(message: string): void {
+        logger.warn(message);
+        if (this.reportedErrors.has(message)) {
+            return;
+        }
+        this.reportedErrors.add(message);
+        void vscode.window.showWarningMessage(message);
+    }
+}
@@ -9,7 +9,8 @@ function extractDataRows(body: unknown): Array<{ id?: string }> {
     return Array.isArray(data) ? data : [];
 }
 
-function shouldIncludeGroqModel(id: string): boolean {
+/** Speech and embedding models can't refine prompts */
+function isChatModel(id: string): boolean {
     const lower = id.toLowerCase();
     if (lower.includes('whisper')) {
         return false;
@@ -20,16 +21,23 @@ function shouldIncludeGroqModel(id: string): boolean {
     return true;
 }
 
+const DESCRIPTIONS = {
+    'openai': 'OpenAI model',
+    'groq': 'Groq model',
+    'openai-compatible': 'Served by this endpoint',
+};
+
 /**
  * Maps OpenAI-compatible `GET .../v1/models` JSON to catalog rows.
  * - `openai`: only `gpt-*` models (same filter as before).
  * - `groq`: chat-oriented models; Whisper/embeddings excluded.
+ * - `openai-compatible`: a gateway's models (LiteLLM, vLLM, ...), filtered like Groq's and kept under their own ids.
  * Models listed in MODEL_MAPPINGS use UI `id` so validateModel matches workspace config.
  * Unmapped API IDs are kept as `id` so they still validate and can be sent with getApiModelId fallback.
  */
 export function normalizeOpenAICompatibleModels(
     body: unknown,
-    provider: 'openai' | 'groq',
+    provider: 'openai' | 'groq' | 'openai-compatible',
 ): CatalogModelRow[] {
     const rows = extractDataRows(body);
     const out: CatalogModelRow[] = [];
@@ -43,7 +51,7 @@ export function normalizeOpenAICompatibleModels(
         if (provider === 'openai' && !id.startsWith('gpt-')) {
             continue;
         }
-        if (provider === 'groq' && !shouldIncludeGroqModel(id)) {
+        if (provider !== 'openai' && !isChatModel(id)) {
             continue;
         }
 
@@ -60,7 +68,7 @@ export function normalizeOpenAICompatibleModels(
         out.push({
             id: uiId,
             name: getModelName(uiId, provider) ?? getModelName(id, provider) ?? id,
-            description: provider === 'openai' ? 'OpenAI model' : 'Groq model',
+            description: DESCRIPTIONS[provider],
             isVerified: mapped,
         });
     }
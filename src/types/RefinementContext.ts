@@ -0,0 +1,74 @@
+/**
+ * Editor Context Types
+ *
+ * Structured information about the code around a selection, attached to a refinement so the
+ * refined prompt can name the real language, stack and constraints.
+ */
+
+export type ContextDiagnosticSeverity = 'error' | 'warning' | 'info' | 'hint';
+
+export interface ContextDiagnostic {
+    severity: ContextDiagnosticSeverity;
+    message: string;
+    /** 1-based line number */
+    line: number;
+    source?: string;
+}
+
+export interface ContextFile {
+    /** Workspace-relative path */
+    path: string;
+    content: string;
+    languageId?: string;
+    /** Content was cut to fit the token budget */
+    truncated?: boolean;
+}
+
+export interface RefinementContext {
+    languageId?: string;
+    fileName?: string;
+    /** Indented outline of the symbols around the selection */
+    symbols?: string[];
+    diagnostics?: ContextDiagnostic[];
+    files?: ContextFile[];
+}
+
+/**
+ * Render the context as a system-prompt section; empty when there is nothing to attach
+ */
+export function formatRefinementContext(context: RefinementContext | undefined): string {
+    if (!context) {
+        return '';
+    }
+
+    const sections: string[] = [];
+
+    if (context.languageId || context.fileName) {
+        const file = context.fileName ? ` (${context.fileName})` : '';
+        sections.push(`Language: ${context.languageId ?? 'unknown'}${file}`);
+    }
+    if (context.symbols?.length) {
+        sections.push(`### Surrounding symbols\n${context.symbols.join('\n')}`);
+    }
+    if (context.diagnostics?.length) {
+        const lines = context.diagnostics.map(d =>
+            `- [${d.severity}] line ${d.line}: ${d.message}${d.source ? ` (${d.source})` : ''}`
+        );
+        sections.push(`### Open diagnostics\n${lines.join('\n')}`);
+    }
+    if (context.files?.length) {
+        const files = context.files.map(f =>
+            `#### ${f.path}${f.truncated ? ' (truncated)' : ''}\n\`\`\`${f.languageId ?? ''}\n${f.content}\n\`\`\``
+        );
+        sections.push(`### Related files\n${files.join('\n\n')}`);
+    }
+
+    if (sections.length === 0) {
+        return '';
+    }
+
+    return `## Editor Context
+The user's prompt was written in this editor context. Use it to state the real language, stack and constraints in the refined prompt; do not solve the task or repeat the code.
+
+${sections.join('\n\n')}`;
+}
@@ -8,7 +8,17 @@
 /**
  * Predefined role IDs
  */
-export type RoleId = 'programmer' | 'writer' | 'researcher' | 'analyst';
+export type PredefinedRoleId = 'programmer' | 'writer' | 'researcher' | 'analyst';
+
+/**
+ * A predefined role ID or the ID of a custom role from `promptRefiner.customRoles`
+ */
+export type RoleId = string;
+
+/**
+ * Where a role is defined. Custom roles live in user (global) or workspace settings.
+ */
+export type RoleScope = 'builtin' | 'global' | 'workspace';
 
 /**
  * Role interface defining a persona/behavior for AI responses
@@ -19,12 +29,34 @@ export interface Role {
     description: string;
     systemPrompt: string;
     icon?: string;
+    /** Set for custom roles; predefined roles are 'builtin' */
+    scope?: RoleScope;
+    /** Template file used instead of the default template, relative to the workspace folder */
+    templateFile?: string;
+}
+
+/**
+ * Custom role as written in `promptRefiner.customRoles`
+ */
+export interface CustomRoleDefinition {
+    id: string;
+    name: string;
+    description?: string;
+    /** Persona instructions; the refinement-mode and language rules are added around them */
+    systemPrompt: string;
+    icon?: string;
+    templateFile?: string;
 }
 
 /**
  * Default role ID when none is specified
  */
-export const DEFAULT_ROLE_ID: RoleId = 'programmer';
+export const DEFAULT_ROLE_ID: PredefinedRoleId = 'programmer';
+
+/** Letters, digits, `-` and `_`; also guards role IDs coming from imported sessions */
+export const ROLE_ID_PATTERN = /^[A-Za-z0-9][\w-]{0,63}$/;
+
+const DEFAULT_CUSTOM_ROLE_ICON = '🧩';
 
 /**
  * Language rule for prompt refinement: appended to each role systemPrompt and repeated
@@ -45,7 +77,7 @@ export const REFINER_OUTPUT_SCOPE_FOOTER =
 /**
  * Predefined static roles
  */
-export const PREDEFINED_ROLES: Role[] = [
+export const PREDEFINED_ROLES: Array<Role & { id: PredefinedRoleId }> = [
     {
         id: 'programmer',
         name: 'Programmer',
@@ -110,9 +142,9 @@ ${REFINER_OUTPUT_LANGUAGE_INSTRUCTION}`
 ];
 
 /**
- * Get a role by its ID
+ * Get a predefined role by its ID (custom roles are resolved by RoleManager)
  */
-export function getRoleById(roleId: RoleId | string): Role | undefined {
+export function getRoleById(roleId: RoleId): Role | undefined {
     return PREDEFINED_ROLES.find(role => role.id === roleId);
 }
 
@@ -128,15 +160,42 @@ export function getDefaultRole(): Role {
 }
 
 /**
- * Get all available roles
+ * Get all predefined roles
  */
 export function getAllRoles(): Role[] {
     return [...PREDEFINED_ROLES];
 }
 
 /**
- * Check if a role ID is valid
+ * Check if a role ID belongs to a predefined role
  */
-export function isValidRoleId(roleId: string): roleId is RoleId {
+export function isPredefinedRoleId(roleId: string): roleId is PredefinedRoleId {
     return PREDEFINED_ROLES.some(role => role.id === roleId);
 }
+
+/**
+ * Turn a settings entry into a Role, wrapping its prompt in the same refinement-mode
+ * preamble and language rule as the predefined roles.
+ * Returns undefined for entries without a usable id, name or prompt.
+ */
+export function buildCustomRole(definition: CustomRoleDefinition, scope: Exclude<RoleScope, 'builtin'>): Role | undefined {
+    const id = typeof definition?.id === 'string' ? definition.id.trim() : '';
+    const name = typeof definition?.name === 'string' ? definition.name.trim() : '';
+    const prompt = typeof definition?.systemPrompt === 'string' ? definition.systemPrompt.trim() : '';
+    if (!ROLE_ID_PATTERN.test(id) || !name || !prompt) {
+        return undefined;
+    }
+    return {
+        id,
+        name,
+        description: definition.description?.trim() || 'Custom role',
+        icon: definition.icon?.trim() || DEFAULT_CUSTOM_ROLE_ICON,
+        scope,
+        templateFile: definition.templateFile?.trim() || undefined,
+        systemPrompt: `${REFINER_MODE_PREAMBLE}
+
+${prompt}
+
+${REFINER_OUTPUT_LANGUAGE_INSTRUCTION}`,
+    };
+}
@@ -147,7 +147,14 @@ export class LRUCache<T> {
     }
 }
 
+/** A cached refinement with the provider and model that produced it */
+export interface CachedAnswer {
+    refined: string;
+    provider: string;
+    model: string;
+}
+
 /**
  * Global cache instance for refined prompts
  */
-export const refinementCache = new LRUCache<string>(50, 3600000); // 50 entries, 1 hour TTL
+export const refinementCache = new LRUCache<CachedAnswer>(50, 3600000); // 50 entries, 1 hour TTL
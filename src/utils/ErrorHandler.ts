@@ -8,6 +8,7 @@ export enum ErrorType {
     TIMEOUT = 'TIMEOUT',
     INVALID_INPUT = 'INVALID_INPUT',
     PROVIDER_ERROR = 'PROVIDER_ERROR',
+    BUDGET_EXCEEDED = 'BUDGET_EXCEEDED',
     UNKNOWN = 'UNKNOWN',
 }
 
@@ -67,6 +68,22 @@ export class ErrorHandler {
                     shouldRetry: code === 'MODEL_DEPRECATED' || code === 'INVALID_MODEL',
                 };
             }
+            if (code === 'BUDGET_EXCEEDED') {
+                return {
+                    type: ErrorType.BUDGET_EXCEEDED,
+                    userMessage: body,
+                    action: 'Open Settings',
+                    shouldRetry: false,
+                };
+            }
+            if (code === 'SECRET_DETECTED') {
+                return {
+                    type: ErrorType.INVALID_INPUT,
+                    userMessage: body,
+                    action: 'Open Settings',
+                    shouldRetry: false,
+                };
+            }
             if (code === 'PROVIDER_ERROR') {
                 return {
                     type: ErrorType.PROVIDER_ERROR,
@@ -273,6 +290,11 @@ export class InputValidator {
                 return { valid: false, error: 'GitHub token format appears invalid' };
             }
             break;
+        case 'bedrock':
+            if (key.split(':').filter(part => part.trim()).length < 2) {
+                return { valid: false, error: 'AWS credentials should look like ACCESS_KEY_ID:SECRET_ACCESS_KEY[:SESSION_TOKEN]' };
+            }
+            break;
         }
 
         return { valid: true };
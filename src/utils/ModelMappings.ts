@@ -3,6 +3,8 @@
  * Converts UI-friendly model IDs to provider-specific API names
  */
 
+import { PROFILE_DEFAULT_MODEL, isOpenAICompatibleProviderId } from './openaiCompatible';
+
 export interface ModelMapping {
     uiId: string;           // ID shown in UI (user-friendly)
     apiId: string;          // ID used in API calls (provider-specific)
@@ -35,9 +37,43 @@ export const MODEL_MAPPINGS: ModelMapping[] = [
     // Note: mixtral-8x7b-32768 has been decommissioned without direct replacement
     
     // Ollama Models
-    { uiId: 'ollama-custom', apiId: 'custom', provider: 'ollama', name: 'Active Ollama Model' }
+    { uiId: 'ollama-custom', apiId: 'custom', provider: 'ollama', name: 'Active Ollama Model' },
+
+    // VS Code Language Model API (other models are stored by their vscode.lm id)
+    { uiId: 'vscode-lm-auto', apiId: 'auto', provider: 'vscode-lm', name: 'First Available Model' }
+];
+
+/**
+ * Model used when switching to (or falling back on) a provider without an explicit model
+ */
+export const DEFAULT_UI_MODEL_BY_PROVIDER: Record<string, string> = {
+    'github': 'github-gpt-4o',
+    'openai': 'gpt-4o',
+    'gemini': 'gemini-flash',
+    'groq': 'groq-llama3-70b',
+    'huggingface': 'bigscience/bloom',
+    'anthropic': 'claude-3-haiku',
+    'ollama': 'ollama-custom',
+    'vscode-lm': 'vscode-lm-auto'
+};
+
+/**
+ * Context window sizes (input + output tokens) by API model id prefix; first match wins
+ */
+const CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+    [/^(gpt-4o|gpt-4-turbo|o1|o3|o4)/, 128000],
+    [/^gpt-4\.1/, 1047576],
+    [/^gpt-3\.5/, 16385],
+    [/^claude-/, 200000],
+    [/^gemini-(1\.5|2)/, 1048576],
+    [/^gemini-/, 32768],
+    [/llama-3\.[1-3]/i, 128000],
+    [/mixtral/i, 32768],
 ];
 
+/** Conservative window for unknown and local models */
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
 /**
  * Legacy model ID mappings for automatic migration
  * Maps old incorrect IDs to new correct IDs
@@ -76,6 +112,16 @@ export function getApiModelId(uiId: string, provider: string): string | undefine
     return undefined;
 }
 
+/**
+ * Get the default UI model ID for a provider
+ */
+export function getDefaultUiModelId(provider: string): string {
+    if (isOpenAICompatibleProviderId(provider)) {
+        return PROFILE_DEFAULT_MODEL;
+    }
+    return DEFAULT_UI_MODEL_BY_PROVIDER[provider] || 'ollama-custom';
+}
+
 /**
  * Get the UI-friendly model ID from an API model ID
  */
@@ -134,3 +180,11 @@ export function getModelName(modelId: string, provider: string): string | undefi
     );
     return mapping?.name;
 }
+
+/**
+ * Context window for an API model id, falling back to a conservative default
+ */
+export function getContextWindow(apiModelId: string): number {
+    const entry = CONTEXT_WINDOWS.find(([pattern]) => pattern.test(apiModelId));
+    return entry ? entry[1] : DEFAULT_CONTEXT_WINDOW;
+}
@@ -1,4 +1,5 @@
 import { logger } from '../services/Logger';
+import { DEFAULT_RULE_SET, ValidationRuleSet, ValidationRuleSeverity, ruleWeight } from './validationRules';
 
 /**
  * Validation result for prompt output
@@ -8,6 +9,8 @@ export interface ValidationResult {
     score: number; // 0-100
     issues: ValidationIssue[];
     suggestions: string[];
+    /** Id of the rule set the output was checked against */
+    ruleSet?: string;
 }
 
 /**
@@ -17,18 +20,18 @@ export interface ValidationIssue {
     type: 'error' | 'warning' | 'info';
     message: string;
     section?: string;
+    /** Rule that produced the issue, e.g. `section:Objective` or `check:wrapped-in-code-block` */
+    rule?: string;
 }
 
 /**
- * Expected sections in a refined prompt
+ * A section header found in prompt text
  */
-const EXPECTED_SECTIONS = [
-    { name: 'Objective', required: true, aliases: ['objective', 'goal', 'task'] },
-    { name: 'Context', required: false, aliases: ['context', 'background', 'situation'] },
-    { name: 'Constraints', required: false, aliases: ['constraints', 'requirements', 'rules'] },
-    { name: 'Scope', required: false, aliases: ['scope', 'limits', 'boundaries'] },
-    { name: 'Expected Output', required: true, aliases: ['expected output', 'output', 'deliverable', 'result'] },
-];
+export interface SectionHeader {
+    name: string;
+    /** 0-based line index */
+    line: number;
+}
 
 /**
  * Validates the output of prompt refinement
@@ -37,132 +40,118 @@ export class OutputValidator {
     /**
      * Validate a refined prompt
      * @param output The refined prompt text
-     * @param strict If true, requires all mandatory sections
+     * @param strict If true, missing required sections are errors and cost twice as much
+     * @param ruleSet Rules to apply; defaults to the built-in rule set
      */
-    public static validate(output: string, strict = false): ValidationResult {
+    public static validate(output: string, strict = false, ruleSet: ValidationRuleSet = DEFAULT_RULE_SET): ValidationResult {
         const issues: ValidationIssue[] = [];
         const suggestions: string[] = [];
         let score = 100;
 
-        // Check if output is empty or too short
+        // Check if output is empty
         if (!output || output.trim().length === 0) {
             issues.push({
                 type: 'error',
                 message: 'Output is empty',
+                rule: 'empty',
             });
-            return { valid: false, score: 0, issues, suggestions };
+            return { valid: false, score: 0, issues, suggestions, ruleSet: ruleSet.id };
         }
 
-        if (output.length < 50) {
-            issues.push({
-                type: 'warning',
-                message: 'Output seems too short to be a complete refined prompt',
-            });
-            score -= 20;
+        const report = (severity: ValidationRuleSeverity, message: string, rule: string, weight: number, section?: string) => {
+            if (severity === 'suggestion') {
+                suggestions.push(message);
+            } else {
+                issues.push({ type: severity, message, rule, ...(section ? { section } : {}) });
+            }
+            score -= weight;
+        };
+
+        const lineCount = output.split('\n').length;
+        for (const rule of ruleSet.length ?? []) {
+            const value = rule.metric === 'chars' ? output.length : lineCount;
+            const unit = rule.metric === 'chars' ? 'characters' : 'lines';
+            if (rule.min !== undefined && value < rule.min) {
+                report(rule.severity ?? 'warning', rule.message ?? `Output has ${value} ${unit} (minimum ${rule.min})`, `length:${rule.id}`, ruleWeight(rule));
+            } else if (rule.max !== undefined && value > rule.max) {
+                report(rule.severity ?? 'warning', rule.message ?? `Output has ${value} ${unit} (maximum ${rule.max})`, `length:${rule.id}`, ruleWeight(rule));
+            }
         }
 
         // Check for expected sections
         const foundSections = this.findSections(output);
-        
-        for (const expected of EXPECTED_SECTIONS) {
-            const found = foundSections.some(s => 
-                expected.aliases.some(alias => s.toLowerCase().includes(alias))
-            );
-
-            if (expected.required && !found) {
-                issues.push({
-                    type: strict ? 'error' : 'warning',
-                    message: `Missing required section: ${expected.name}`,
-                    section: expected.name,
-                });
-                score -= strict ? 30 : 15;
-            } else if (!expected.required && !found) {
-                suggestions.push(`Consider adding ${expected.name} section for clarity`);
-                score -= 5;
-            }
-        }
 
-        // Check for conversational filler
-        const fillerPatterns = [
-            /^(sure|okay|alright|great|perfect),?\s*/i,
-            /here('s| is) (the|your) (refined|improved|optimized|better) (prompt|version)/i,
-            /i('ve| have) (refined|improved|optimized)/i,
-            /let me (refine|improve|optimize)/i,
-        ];
-
-        for (const pattern of fillerPatterns) {
-            if (pattern.test(output)) {
-                issues.push({
-                    type: 'warning',
-                    message: 'Output contains conversational filler that should be removed',
-                });
-                score -= 10;
-                break;
+        for (const expected of ruleSet.sections ?? []) {
+            if (this.hasSection(foundSections, expected.aliases)) {
+                continue;
             }
-        }
-
-        // Check for markdown code blocks (shouldn't wrap the entire prompt)
-        const codeBlockMatches = output.match(/```[\s\S]*?```/g);
-        if (codeBlockMatches && codeBlockMatches.length > 0) {
-            // Check if entire output is wrapped in code block
-            const trimmedOutput = output.trim();
-            if (trimmedOutput.startsWith('```') && trimmedOutput.endsWith('```')) {
-                issues.push({
-                    type: 'warning',
-                    message: 'Output is wrapped in markdown code block - this may not be desired',
-                });
-                score -= 15;
+            const rule = `section:${expected.name}`;
+            if (expected.required) {
+                const weight = expected.weight ?? 15;
+                report(strict ? 'error' : 'warning', `Missing required section: ${expected.name}`, rule, strict ? weight * 2 : weight, expected.name);
+            } else {
+                report('suggestion', `Consider adding ${expected.name} section for clarity`, rule, expected.weight ?? 5);
             }
         }
 
-        // Check prompt length
-        const lineCount = output.split('\n').length;
-        if (lineCount < 3) {
-            issues.push({
-                type: 'warning',
-                message: 'Output is very short - may lack sufficient detail',
-            });
-            score -= 10;
-        } else if (lineCount > 100) {
-            suggestions.push('Consider if the prompt can be more concise');
-            score -= 5;
+        for (const phrase of ruleSet.forbiddenPhrases ?? []) {
+            if (phrase.patterns.some(pattern => new RegExp(pattern, phrase.flags).test(output))) {
+                report(phrase.severity ?? 'warning', phrase.message ?? `Output contains a forbidden phrase (${phrase.id})`, `phrase:${phrase.id}`, ruleWeight(phrase));
+            }
         }
 
-        // Check for actionable language
-        const actionableVerbs = ['create', 'build', 'implement', 'develop', 'design', 'write', 'analyze', 'generate'];
-        const hasActionableVerb = actionableVerbs.some(verb => 
-            output.toLowerCase().includes(verb)
-        );
-        
-        if (!hasActionableVerb) {
-            suggestions.push('Consider using more actionable verbs (create, build, implement, etc.)');
-            score -= 5;
+        for (const check of ruleSet.checks ?? []) {
+            if (new RegExp(check.pattern, check.flags).test(output) !== check.mustMatch) {
+                report(check.severity ?? 'warning', check.message, `check:${check.id}`, ruleWeight(check));
+            }
         }
 
         // Ensure score is within bounds
         score = Math.max(0, Math.min(100, score));
 
-        // Valid if no errors and score >= 70
-        const valid = !issues.some(i => i.type === 'error') && score >= 70;
+        // Valid if no errors and the score reaches the rule set's pass mark
+        const valid = !issues.some(i => i.type === 'error') && score >= (ruleSet.passScore ?? 70);
 
         logger.debug('Prompt output validated', { 
             valid, 
             score, 
+            ruleSet: ruleSet.id,
             issueCount: issues.length,
             suggestionCount: suggestions.length 
         });
 
-        return { valid, score, issues, suggestions };
+        return { valid, score, issues, suggestions, ruleSet: ruleSet.id };
+    }
+
+    /**
+     * Required sections of the rule set (by default Objective and Expected Output) that the text has no header for
+     */
+    public static findMissingSections(text: string, ruleSet: ValidationRuleSet = DEFAULT_RULE_SET): string[] {
+        const foundSections = this.findSections(text);
+        return (ruleSet.sections ?? [])
+            .filter(expected => expected.required && !this.hasSection(foundSections, expected.aliases))
+            .map(expected => expected.name);
+    }
+
+    private static hasSection(foundSections: string[], aliases: string[]): boolean {
+        return foundSections.some(s => aliases.some(alias => s.toLowerCase().includes(alias)));
     }
 
     /**
      * Find section headers in the output
      */
     private static findSections(output: string): string[] {
-        const sections: string[] = [];
+        return this.findSectionHeaders(output).map(header => header.name);
+    }
+
+    /**
+     * Section headers with their line, e.g. "[Objective]", "## Objective" or "Objective:"
+     */
+    public static findSectionHeaders(output: string): SectionHeader[] {
+        const sections: SectionHeader[] = [];
         const lines = output.split('\n');
         
-        for (const line of lines) {
+        for (const [index, line] of lines.entries()) {
             // Match patterns like "[Section]", "Section:", "## Section"
             const patterns = [
                 /^\[([^\]]+)\]/,           // [Section]
@@ -173,7 +162,7 @@ export class OutputValidator {
             for (const pattern of patterns) {
                 const match = line.trim().match(pattern);
                 if (match) {
-                    sections.push(match[1].trim());
+                    sections.push({ name: match[1].trim(), line: index });
                     break;
                 }
             }
@@ -186,13 +175,14 @@ export class OutputValidator {
      * Format validation result as readable text
      */
     public static formatResult(result: ValidationResult): string {
-        let text = `Validation Score: ${result.score}/100\n\n`;
+        let text = `Validation Score: ${result.score}/100\n`;
+        text += result.ruleSet ? `Rule set: ${result.ruleSet}\n\n` : '\n';
         
         if (result.issues.length > 0) {
             text += 'Issues:\n';
             for (const issue of result.issues) {
                 const icon = issue.type === 'error' ? '❌' : issue.type === 'warning' ? '⚠️' : 'ℹ️';
-                text += `${icon} ${issue.message}\n`;
+                text += `${icon} ${issue.message}${issue.rule ? ` [${issue.rule}]` : ''}\n`;
             }
             text += '\n';
         }
@@ -0,0 +1,57 @@
+import type { ValidationResult } from './OutputValidator';
+
+/**
+ * One candidate of the auto-repair loop. Round 0 is the provider's first answer.
+ */
+export interface RepairRound {
+    round: number;
+    score: number;
+    valid: boolean;
+    /** Issues the candidate was validated with, e.g. "Missing required section: Objective" */
+    issues: string[];
+}
+
+/**
+ * Score progression of an auto-repaired refinement
+ */
+export interface RepairHistory {
+    rounds: RepairRound[];
+    /** Round whose output was kept */
+    chosenRound: number;
+}
+
+/**
+ * Follow-up message asking the model to fix exactly what validation reported
+ */
+export function buildRepairPrompt(validation: ValidationResult): string {
+    // Without issues the score failed on suggestions alone; those are the fix list then
+    const findings = validation.issues.length > 0
+        ? validation.issues.map(issue => `- ${issue.message}`)
+        : validation.suggestions.map(suggestion => `- ${suggestion}`);
+
+    return [
+        `Your refined prompt above failed validation (score ${validation.score}/100). Fix these issues:`,
+        ...findings,
+        '',
+        'Keep everything that was already right. Reply with the complete corrected refined prompt only.',
+    ].join('\n');
+}
+
+/**
+ * Valid candidates beat invalid ones, then the higher score wins; ties keep the earlier one
+ */
+export function isBetterCandidate(candidate: ValidationResult, best: ValidationResult): boolean {
+    if (candidate.valid !== best.valid) {
+        return candidate.valid;
+    }
+    return candidate.score > best.score;
+}
+
+export function toRepairRound(round: number, validation: ValidationResult): RepairRound {
+    return {
+        round,
+        score: validation.score,
+        valid: validation.valid,
+        issues: validation.issues.map(issue => issue.message),
+    };
+}
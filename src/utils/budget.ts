@@ -0,0 +1,120 @@
+/**
+ * A cap from `promptRefiner.budget.limits`. Each limit sets any of a request, token or
+ * estimated-spend ceiling for one calendar period.
+ */
+export interface BudgetLimit {
+    /** Provider the cap applies to; unset caps the combined usage of this workspace */
+    provider?: string;
+    period: BudgetPeriod;
+    maxRequests?: number;
+    maxTokens?: number;
+    /** Estimated spend in USD, from `config/model-pricing.json` */
+    maxCost?: number;
+}
+
+export type BudgetPeriod = 'daily' | 'monthly';
+export type BudgetMetric = 'requests' | 'tokens' | 'cost';
+
+export interface UsageCounters {
+    requests: number;
+    tokens: number;
+    cost: number;
+}
+
+/** Counters for the current day and month; stale periods are reset on read */
+export interface PeriodUsage {
+    day: string;
+    month: string;
+    daily: UsageCounters;
+    monthly: UsageCounters;
+}
+
+/** How close one metric of one limit is to its cap */
+export interface BudgetStatus {
+    state: 'ok' | 'warning' | 'exceeded';
+    limit: BudgetLimit;
+    metric: BudgetMetric;
+    used: number;
+    max: number;
+    /** Share of the cap still unused, 0-1 */
+    remaining: number;
+}
+
+const METRIC_KEYS: Array<[BudgetMetric, 'maxRequests' | 'maxTokens' | 'maxCost']> = [
+    ['requests', 'maxRequests'],
+    ['tokens', 'maxTokens'],
+    ['cost', 'maxCost'],
+];
+
+const emptyCounters = (): UsageCounters => ({ requests: 0, tokens: 0, cost: 0 });
+
+/**
+ * Calendar keys in local time, so caps reset at the user's midnight and on the 1st
+ */
+export function periodKeys(now: Date): { day: string; month: string } {
+    const month = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+    return { day: `${month}-${String(now.getDate()).padStart(2, '0')}`, month };
+}
+
+/**
+ * Stored usage with any counters from a past day or month zeroed
+ */
+export function rollOverUsage(usage: PeriodUsage | undefined, now: Date): PeriodUsage {
+    const { day, month } = periodKeys(now);
+    return {
+        day,
+        month,
+        daily: usage?.day === day ? { ...usage.daily } : emptyCounters(),
+        monthly: usage?.month === month ? { ...usage.monthly } : emptyCounters(),
+    };
+}
+
+export function addUsage(usage: PeriodUsage, tokens: number, cost: number): PeriodUsage {
+    const add = (counters: UsageCounters): UsageCounters => ({
+        requests: counters.requests + 1,
+        tokens: counters.tokens + tokens,
+        cost: counters.cost + cost,
+    });
+    return { ...usage, daily: add(usage.daily), monthly: add(usage.monthly) };
+}
+
+/**
+ * Status of every capped metric of the limits that apply to `providerId`, tightest first.
+ * `usageFor` returns the current counters of a limit's scope.
+ */
+export function evaluateBudget(
+    limits: BudgetLimit[],
+    providerId: string,
+    usageFor: (limit: BudgetLimit) => PeriodUsage,
+    warnThreshold: number
+): BudgetStatus[] {
+    const statuses: BudgetStatus[] = [];
+    for (const limit of limits) {
+        if (limit.provider && limit.provider !== providerId) {
+            continue;
+        }
+        const counters = usageFor(limit)[limit.period];
+        for (const [metric, key] of METRIC_KEYS) {
+            const max = limit[key];
+            if (max === undefined || max <= 0) {
+                continue;
+            }
+            const used = counters[metric];
+            const remaining = Math.max(0, 1 - used / max);
+            const state = used >= max ? 'exceeded' : used / max >= warnThreshold ? 'warning' : 'ok';
+            statuses.push({ state, limit, metric, used, max, remaining });
+        }
+    }
+    return statuses.sort((a, b) => a.remaining - b.remaining);
+}
+
+/**
+ * e.g. "Daily token cap for openai: 9,500 / 10,000"
+ */
+export function describeBudgetStatus(status: BudgetStatus): string {
+    const period = status.limit.period === 'daily' ? 'Daily' : 'Monthly';
+    const metric = status.metric === 'cost' ? 'spend' : status.metric === 'tokens' ? 'token' : 'request';
+    const scope = status.limit.provider ? `for ${status.limit.provider}` : 'for this workspace';
+    const format = (value: number) => status.metric === 'cost' ? `$${value.toFixed(2)}` : value.toLocaleString();
+    return `${period} ${metric} cap ${scope}: ${format(status.used)} / ${format(status.max)}`;
+}
@@ -39,3 +39,26 @@ export function linkCancellationToAbort(token: vscode.CancellationToken | undefi
         dispose: () => disposable.dispose(),
     };
 }
+
+/**
+ * The reverse of {@link linkCancellationToAbort}, for VS Code APIs that take a token.
+ * Call `dispose()` when the operation completes.
+ */
+export function linkAbortToCancellation(signal: AbortSignal | undefined): {
+    token: vscode.CancellationToken;
+    dispose: () => void;
+} {
+    const source = new vscode.CancellationTokenSource();
+    if (signal?.aborted) {
+        source.cancel();
+    }
+    const onAbort = () => source.cancel();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    return {
+        token: source.token,
+        dispose: () => {
+            signal?.removeEventListener('abort', onAbort);
+            source.dispose();
+        },
+    };
+}
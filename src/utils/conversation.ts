@@ -0,0 +1,96 @@
+import type { ChatTurn } from '../providers/IAIProvider';
+import type { ChatMessage } from '../services/SessionManager';
+import { estimateTokens, truncateToTokens } from './tokenBudget';
+
+/** Per-message overhead of chat formats (role markers, separators) */
+const TURN_OVERHEAD_TOKENS = 4;
+/** Share of the history budget reserved for the summary of trimmed turns */
+const SUMMARY_BUDGET_SHARE = 0.25;
+/** Characters of each trimmed turn kept in the summary */
+const SUMMARY_EXCERPT_CHARS = 160;
+
+/**
+ * System message, earlier turns and the new user prompt, in the order chat endpoints expect
+ */
+export function buildChatMessages(systemPrompt: string, userPrompt: string, history: ChatTurn[] = []): ChatTurn[] {
+    return [
+        { role: 'system', content: systemPrompt },
+        ...history,
+        { role: 'user', content: userPrompt },
+    ];
+}
+
+/**
+ * Session messages as alternating user/assistant turns. Error messages are dropped, and so is
+ * a user message that never got a complete answer (none, or one cut short while streaming), so
+ * every endpoint sees a well-formed exchange.
+ */
+export function toChatHistory(messages: ChatMessage[]): ChatTurn[] {
+    const turns: ChatTurn[] = [];
+    let pendingUser: string | undefined;
+
+    for (const message of messages) {
+        if (message.role === 'user') {
+            pendingUser = message.content;
+        } else if (message.role === 'assistant' && !message.partial && pendingUser !== undefined) {
+            turns.push({ role: 'user', content: pendingUser }, { role: 'assistant', content: message.content });
+            pendingUser = undefined;
+        }
+    }
+    return turns;
+}
+
+export interface FittedHistory {
+    turns: ChatTurn[];
+    /** Condensed notes on the exchanges that did not fit; empty when nothing was trimmed */
+    summary: string;
+    trimmedTurns: number;
+}
+
+/**
+ * Keep the newest exchanges that fit `maxTokens`, oldest dropped first. Dropped exchanges are
+ * condensed into a short extractive summary that fits the reserved share of the budget.
+ */
+export function fitHistoryToBudget(history: ChatTurn[], maxTokens: number): FittedHistory {
+    const cost = (turns: ChatTurn[]) =>
+        turns.reduce((sum, turn) => sum + estimateTokens(turn.content) + TURN_OVERHEAD_TOKENS, 0);
+
+    if (history.length === 0 || cost(history) <= maxTokens) {
+        return { turns: history, summary: '', trimmedTurns: 0 };
+    }
+
+    // Trim whole exchanges so the kept history still starts with a user turn
+    const exchanges: ChatTurn[][] = [];
+    for (const turn of history) {
+        if (turn.role === 'user' || exchanges.length === 0) {
+            exchanges.push([turn]);
+        } else {
+            exchanges[exchanges.length - 1].push(turn);
+        }
+    }
+
+    const summaryBudget = Math.floor(maxTokens * SUMMARY_BUDGET_SHARE);
+    const keptBudget = maxTokens - summaryBudget;
+    const kept: ChatTurn[][] = [];
+    let used = 0;
+    for (let i = exchanges.length - 1; i >= 0; i--) {
+        const exchangeCost = cost(exchanges[i]);
+        if (used + exchangeCost > keptBudget) {
+            break;
+        }
+        kept.unshift(exchanges[i]);
+        used += exchangeCost;
+    }
+
+    const dropped = exchanges.slice(0, exchanges.length - kept.length).flat();
+    const lines = dropped.map(turn => {
+        const text = turn.content.replace(/\s+/g, ' ').trim();
+        const excerpt = text.length > SUMMARY_EXCERPT_CHARS ? `${text.slice(0, SUMMARY_EXCERPT_CHARS)}...` : text;
+        return `- ${turn.role === 'user' ? 'User asked' : 'You answered'}: ${excerpt}`;
+    });
+    const summary = summaryBudget > TURN_OVERHEAD_TOKENS
+        ? truncateToTokens(lines.join('\n'), summaryBudget).text
+        : '';
+
+    return { turns: kept.flat(), summary, trimmedTurns: dropped.length };
+}
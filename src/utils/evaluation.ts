@@ -0,0 +1,362 @@
+/**
+ * Evaluation of refinement quality against golden datasets: JSONL files of draft prompts and
+ * the properties their refinements must have. Runs are compared with a saved baseline so
+ * template and role prompt changes show up as improvements or regressions.
+ */
+import type { ValidationResult } from './OutputValidator';
+
+/** Properties a refinement of the draft must have */
+export interface EvalExpectations {
+    /** Terms the refinement must mention (case-insensitive) */
+    mustMention?: string[];
+    /** Terms the refinement must not contain (case-insensitive) */
+    mustNotMention?: string[];
+    /** The refinement must not contain Markdown code fences */
+    noCodeFences?: boolean;
+    /** The refinement must be written in the draft's language */
+    preserveLanguage?: boolean;
+    /** Minimum validation score; without it the rule set's own verdict counts */
+    minScore?: number;
+}
+
+/** One line of a dataset */
+export interface EvalCase {
+    id: string;
+    prompt: string;
+    role?: string;
+    template?: string;
+    expect: EvalExpectations;
+}
+
+export interface EvalAssertionResult {
+    /** e.g. `validation`, `mustMention:CSV`, `noCodeFences` */
+    name: string;
+    passed: boolean;
+    message?: string;
+}
+
+export interface EvalCaseResult {
+    id: string;
+    prompt: string;
+    refined?: string;
+    score?: number;
+    passed: boolean;
+    assertions: EvalAssertionResult[];
+    /** Set when the refinement itself failed */
+    error?: string;
+    tokens?: number;
+    durationMs: number;
+}
+
+export interface EvalSummary {
+    total: number;
+    passed: number;
+    failed: number;
+    /** Mean validation score of the cases that produced a refinement */
+    averageScore: number;
+}
+
+export type EvalCaseStatus = 'improved' | 'regressed' | 'unchanged' | 'new' | 'removed';
+
+export interface EvalCaseComparison {
+    id: string;
+    status: EvalCaseStatus;
+    baselineScore?: number;
+    score?: number;
+    baselinePassed?: boolean;
+    passed?: boolean;
+}
+
+export interface EvalComparison {
+    baselineStartedAt: string;
+    cases: EvalCaseComparison[];
+    improved: number;
+    regressed: number;
+    averageScoreDelta: number;
+}
+
+export interface EvalReport {
+    dataset: string;
+    provider: string;
+    model: string;
+    startedAt: string;
+    cases: EvalCaseResult[];
+    summary: EvalSummary;
+    comparison?: EvalComparison;
+}
+
+/** What the runner needs from a refinement */
+export interface EvalRefinement {
+    refined: string;
+    validation?: ValidationResult;
+    tokens?: number;
+}
+
+export interface EvalRunOptions {
+    dataset: string;
+    provider: string;
+    model: string;
+    /** Checked between cases; the cases already run are reported */
+    isCancelled?: () => boolean;
+    onProgress?: (done: number, total: number, caseId: string) => void;
+}
+
+/**
+ * Parse a JSONL dataset. Throws naming the offending line, so broken datasets are reported
+ * instead of quietly shrinking.
+ */
+export function parseDataset(content: string, source: string): EvalCase[] {
+    const cases: EvalCase[] = [];
+    const ids = new Set<string>();
+
+    content.split(/\r?\n/).forEach((line, index) => {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.startsWith('//')) {
+            return;
+        }
+        const fail = (message: string): never => {
+            throw new Error(`Invalid evaluation case in ${source} line ${index + 1}: ${message}`);
+        };
+
+        let raw: Record<string, unknown>;
+        try {
+            raw = JSON.parse(trimmed);
+        } catch (error) {
+            return fail((error as Error).message);
+        }
+        if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+            fail('expected a JSON object');
+        }
+        if (typeof raw.prompt !== 'string' || !raw.prompt.trim()) {
+            fail('"prompt" is required');
+        }
+        const id = typeof raw.id === 'string' && raw.id.trim() ? raw.id.trim() : `case-${index + 1}`;
+        if (ids.has(id)) {
+            fail(`duplicate id "${id}"`);
+        }
+        ids.add(id);
+
+        const expect = (raw.expect ?? {}) as Record<string, unknown>;
+        const terms = (key: string): string[] | undefined => {
+            const value = expect[key];
+            if (value === undefined) return undefined;
+            if (!Array.isArray(value) || value.some(term => typeof term !== 'string')) fail(`"expect.${key}" must be an array of strings`);
+            return value as string[];
+        };
+        if (expect.minScore !== undefined && typeof expect.minScore !== 'number') {
+            fail('"expect.minScore" must be a number');
+        }
+
+        cases.push({
+            id,
+            prompt: raw.prompt as string,
+            role: typeof raw.role === 'string' ? raw.role : undefined,
+            template: typeof raw.template === 'string' ? raw.template : undefined,
+            expect: {
+                mustMention: terms('mustMention'),
+                mustNotMention: terms('mustNotMention'),
+                noCodeFences: expect.noCodeFences === true,
+                preserveLanguage: expect.preserveLanguage === true,
+                minScore: expect.minScore as number | undefined,
+            },
+        });
+    });
+
+    return cases;
+}
+
+const STOPWORDS: Record<string, string[]> = {
+    en: ['the', 'and', 'with', 'that', 'for', 'this', 'from', 'should', 'what', 'are', 'is', 'to', 'of'],
+    es: ['el', 'la', 'los', 'las', 'que', 'con', 'para', 'una', 'por', 'del', 'es', 'como', 'y'],
+    fr: ['le', 'la', 'les', 'des', 'que', 'avec', 'pour', 'une', 'est', 'dans', 'du', 'et', 'qui'],
+    de: ['der', 'die', 'das', 'und', 'mit', 'für', 'ist', 'nicht', 'ein', 'eine', 'zu', 'auf', 'den'],
+    pt: ['o', 'os', 'que', 'com', 'para', 'uma', 'não', 'do', 'da', 'em', 'é', 'como', 'e'],
+};
+
+const SCRIPTS: Array<[string, RegExp]> = [
+    ['ja', /[\u3040-\u30ff]/g],
+    ['zh', /[\u4e00-\u9fff]/g],
+    ['ko', /[\uac00-\ud7af]/g],
+    ['ru', /[\u0400-\u04ff]/g],
+    ['ar', /[\u0600-\u06ff]/g],
+];
+
+/**
+ * Best guess of a text's language from its script or common words; undefined when the text
+ * gives too little to go on. Good enough to catch an answer in the wrong language.
+ */
+export function detectLanguage(text: string): string | undefined {
+    const letters = text.replace(/[^\p{L}]/gu, '').length;
+    if (letters === 0) {
+        return undefined;
+    }
+    for (const [language, pattern] of SCRIPTS) {
+        if ((text.match(pattern)?.length ?? 0) / letters > 0.2) {
+            return language;
+        }
+    }
+
+    const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+    let best: string | undefined;
+    let bestHits = 0;
+    for (const [language, stopwords] of Object.entries(STOPWORDS)) {
+        const hits = words.filter(word => stopwords.includes(word)).length;
+        if (hits > bestHits) {
+            best = language;
+            bestHits = hits;
+        }
+    }
+    return bestHits >= 2 ? best : undefined;
+}
+
+/**
+ * Check a refinement against the case's expectations
+ */
+export function assertRefinement(evalCase: EvalCase, refinement: EvalRefinement): EvalAssertionResult[] {
+    const { expect } = evalCase;
+    const text = refinement.refined;
+    const lower = text.toLowerCase();
+    const results: EvalAssertionResult[] = [];
+
+    if (refinement.validation) {
+        const { score, valid } = refinement.validation;
+        const passed = expect.minScore !== undefined ? score >= expect.minScore : valid;
+        results.push({
+            name: 'validation',
+            passed,
+            message: passed ? undefined : `Score ${score}${expect.minScore !== undefined ? ` is below ${expect.minScore}` : ' fails the rule set'}`,
+        });
+    }
+
+    for (const term of expect.mustMention ?? []) {
+        const passed = lower.includes(term.toLowerCase());
+        results.push({ name: `mustMention:${term}`, passed, message: passed ? undefined : `Does not mention "${term}"` });
+    }
+    for (const term of expect.mustNotMention ?? []) {
+        const passed = !lower.includes(term.toLowerCase());
+        results.push({ name: `mustNotMention:${term}`, passed, message: passed ? undefined : `Contains "${term}"` });
+    }
+    if (expect.noCodeFences) {
+        const passed = !/^\s*(```|~~~)/m.test(text);
+        results.push({ name: 'noCodeFences', passed, message: passed ? undefined : 'Contains a code fence' });
+    }
+    if (expect.preserveLanguage) {
+        const expected = detectLanguage(evalCase.prompt);
+        const actual = detectLanguage(text);
+        // A draft too short to classify can't be held against the refinement
+        const passed = !expected || expected === actual;
+        results.push({
+            name: 'preserveLanguage',
+            passed,
+            message: passed ? undefined : `Draft is "${expected}" but the refinement is "${actual ?? 'unknown'}"`,
+        });
+    }
+
+    return results;
+}
+
+export function summarize(cases: EvalCaseResult[]): EvalSummary {
+    const scores = cases.map(result => result.score).filter((score): score is number => typeof score === 'number');
+    const passed = cases.filter(result => result.passed).length;
+    return {
+        total: cases.length,
+        passed,
+        failed: cases.length - passed,
+        averageScore: scores.length ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length * 10) / 10 : 0,
+    };
+}
+
+/**
+ * Refine every case one after another and check the results. A failing refinement fails its
+ * case and the run goes on.
+ */
+export async function runEvaluation(
+    cases: EvalCase[],
+    refine: (evalCase: EvalCase) => Promise<EvalRefinement>,
+    options: EvalRunOptions
+): Promise<EvalReport> {
+    const startedAt = new Date().toISOString();
+    const results: EvalCaseResult[] = [];
+
+    for (const evalCase of cases) {
+        if (options.isCancelled?.()) {
+            break;
+        }
+        options.onProgress?.(results.length, cases.length, evalCase.id);
+        const started = Date.now();
+        try {
+            const refinement = await refine(evalCase);
+            const assertions = assertRefinement(evalCase, refinement);
+            results.push({
+                id: evalCase.id,
+                prompt: evalCase.prompt,
+                refined: refinement.refined,
+                score: refinement.validation?.score,
+                passed: assertions.every(assertion => assertion.passed),
+                assertions,
+                tokens: refinement.tokens,
+                durationMs: Date.now() - started,
+            });
+        } catch (error) {
+            results.push({
+                id: evalCase.id,
+                prompt: evalCase.prompt,
+                passed: false,
+                assertions: [],
+                error: (error as Error).message,
+                durationMs: Date.now() - started,
+            });
+        }
+    }
+
+    return {
+        dataset: options.dataset,
+        provider: options.provider,
+        model: options.model,
+        startedAt,
+        cases: results,
+        summary: summarize(results),
+    };
+}
+
+/**
+ * Case-by-case comparison with a baseline run. Pass/fail changes decide the status; the
+ * score breaks ties.
+ */
+export function compareWithBaseline(report: EvalReport, baseline: EvalReport): EvalComparison {
+    const before = new Map(baseline.cases.map(result => [result.id, result]));
+    const cases: EvalCaseComparison[] = report.cases.map(result => {
+        const previous = before.get(result.id);
+        before.delete(result.id);
+        if (!previous) {
+            return { id: result.id, status: 'new', score: result.score, passed: result.passed };
+        }
+
+        let status: EvalCaseStatus;
+        const delta = (result.score ?? 0) - (previous.score ?? 0);
+        if (result.passed !== previous.passed) {
+            status = result.passed ? 'improved' : 'regressed';
+        } else {
+            status = delta > 0 ? 'improved' : delta < 0 ? 'regressed' : 'unchanged';
+        }
+        return {
+            id: result.id,
+            status,
+            baselineScore: previous.score,
+            score: result.score,
+            baselinePassed: previous.passed,
+            passed: result.passed,
+        };
+    });
+    for (const removed of before.values()) {
+        cases.push({ id: removed.id, status: 'removed', baselineScore: removed.score, baselinePassed: removed.passed });
+    }
+
+    return {
+        baselineStartedAt: baseline.startedAt,
+        cases,
+        improved: cases.filter(result => result.status === 'improved').length,
+        regressed: cases.filter(result => result.status === 'regressed').length,
+        averageScoreDelta: Math.round((report.summary.averageScore - baseline.summary.averageScore) * 10) / 10,
+    };
+}
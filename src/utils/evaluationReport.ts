@@ -0,0 +1,104 @@
+import type { EvalCaseComparison, EvalReport } from './evaluation';
+import { escapeHtml } from './html';
+
+function formatScore(score: number | undefined): string {
+    return typeof score === 'number' ? String(score) : '–';
+}
+
+function formatDelta(delta: number): string {
+    return delta > 0 ? `+${delta}` : String(delta);
+}
+
+function renderBaselineCell(comparison: EvalCaseComparison | undefined): string {
+    if (!comparison) {
+        return '';
+    }
+    const scores = comparison.status === 'new'
+        ? 'new'
+        : `${formatScore(comparison.baselineScore)} → ${formatScore(comparison.score)}`;
+    return `<td class="status-${comparison.status}">${comparison.status} (${scores})</td>`;
+}
+
+/**
+ * Self-contained HTML report of an evaluation run. Colors fall back to plain values so the
+ * file reads the same in a browser and in a VS Code webview.
+ */
+export function renderEvaluationHtml(report: EvalReport): string {
+    const { summary, comparison } = report;
+    const byId = new Map(comparison?.cases.map(result => [result.id, result]));
+
+    const rows = report.cases.map(result => {
+        const failures = result.error
+            ? [`Error: ${result.error}`]
+            : result.assertions.filter(assertion => !assertion.passed).map(assertion => assertion.message ?? assertion.name);
+        return `<tr class="${result.passed ? 'pass' : 'fail'}">
+            <td>${escapeHtml(result.id)}</td>
+            <td>${result.passed ? '✓' : '✗'}</td>
+            <td>${formatScore(result.score)}</td>
+            ${renderBaselineCell(byId.get(result.id))}
+            <td>${failures.map(escapeHtml).join('<br>')}</td>
+            <td><details><summary>Show</summary><pre>${escapeHtml(result.prompt)}</pre><hr><pre>${escapeHtml(result.refined ?? '')}</pre></details></td>
+        </tr>`;
+    }).join('\n');
+    const removed = comparison?.cases.filter(result => result.status === 'removed') ?? [];
+
+    const baselineSummary = comparison
+        ? `<p>Compared with the baseline from ${escapeHtml(comparison.baselineStartedAt)}: ${comparison.improved} improved, ${comparison.regressed} regressed, average score ${formatDelta(comparison.averageScoreDelta)}.</p>`
+        : '<p>No baseline saved for this dataset yet.</p>';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Evaluation: ${escapeHtml(report.dataset)}</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family, sans-serif);
+            color: var(--vscode-foreground, #222);
+            padding: 16px;
+        }
+
+        table {
+            border-collapse: collapse;
+            width: 100%;
+        }
+
+        th, td {
+            text-align: left;
+            vertical-align: top;
+            padding: 4px 8px;
+            border-bottom: 1px solid var(--vscode-panel-border, #ddd);
+        }
+
+        pre {
+            white-space: pre-wrap;
+            margin: 4px 0;
+        }
+
+        tr.fail td:nth-child(2), .status-regressed, .status-removed {
+            color: var(--vscode-errorForeground, #c62828);
+        }
+
+        tr.pass td:nth-child(2), .status-improved {
+            color: var(--vscode-testing-iconPassed, #2e7d32);
+        }
+    </style>
+</head>
+<body>
+    <h2>${escapeHtml(report.dataset)}</h2>
+    <p>${escapeHtml(report.provider)} / ${escapeHtml(report.model)} · ${escapeHtml(report.startedAt)}</p>
+    <p><strong>${summary.passed} / ${summary.total} passed</strong> · average score ${summary.averageScore}</p>
+    ${baselineSummary}
+    <table>
+        <thead>
+            <tr><th>Case</th><th>Pass</th><th>Score</th>${comparison ? '<th>Baseline</th>' : ''}<th>Failures</th><th>Prompt / refinement</th></tr>
+        </thead>
+        <tbody>
+${rows}
+        </tbody>
+    </table>
+    ${removed.length ? `<p>Missing from this run: ${removed.map(result => escapeHtml(result.id)).join(', ')}</p>` : ''}
+</body>
+</html>`;
+}
@@ -0,0 +1,366 @@
+/**
+ * Minimal YAML front matter support for Markdown prompt files.
+ *
+ * Handles the subset prompt files need: nested maps, block and flow (`[a, b]`) lists,
+ * lists of maps, quoted/plain scalars, and `|` / `>` block scalars. Anything fancier
+ * (anchors, multi-document streams, flow maps) is rejected with a {@link FrontMatterError}.
+ */
+
+export type FrontMatterValue = string | number | boolean | null | FrontMatterValue[] | FrontMatterData;
+export interface FrontMatterData {
+    [key: string]: FrontMatterValue;
+}
+
+export interface ParsedFrontMatter {
+    data: FrontMatterData;
+    body: string;
+}
+
+export class FrontMatterError extends Error {
+    constructor(message: string, public readonly line?: number) {
+        super(line !== undefined ? `${message} (front matter line ${line})` : message);
+        this.name = 'FrontMatterError';
+    }
+}
+
+interface Line {
+    indent: number;
+    text: string;
+    /** 1-based line number inside the front matter block */
+    number: number;
+    blank: boolean;
+}
+
+const DELIMITER = /^---\s*$/;
+
+/**
+ * Split a Markdown document into its front matter data and body.
+ * Documents without a leading `---` block return empty data and the full text as body.
+ */
+export function parseFrontMatter(text: string): ParsedFrontMatter {
+    const normalized = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+    const lines = normalized.split('\n');
+    if (!DELIMITER.test(lines[0] ?? '')) {
+        return { data: {}, body: normalized };
+    }
+
+    const end = lines.findIndex((line, index) => index > 0 && DELIMITER.test(line));
+    if (end === -1) {
+        throw new FrontMatterError('Front matter is not closed with ---');
+    }
+
+    const yamlLines: Line[] = lines.slice(1, end).map((raw, index) => {
+        if (/^\s*\t/.test(raw)) {
+            throw new FrontMatterError('Tabs are not allowed for indentation', index + 1);
+        }
+        const trimmed = raw.trimStart();
+        return {
+            indent: raw.length - trimmed.length,
+            text: trimmed.trimEnd(),
+            number: index + 1,
+            blank: trimmed.trim() === '' || trimmed.startsWith('#'),
+        };
+    });
+
+    const body = lines.slice(end + 1).join('\n').replace(/^\n/, '');
+    const first = nextContent(yamlLines, 0);
+    if (first === yamlLines.length) {
+        return { data: {}, body };
+    }
+
+    const [value, next] = parseBlock(yamlLines, first, yamlLines[first].indent);
+    const trailing = nextContent(yamlLines, next);
+    if (trailing < yamlLines.length) {
+        throw new FrontMatterError('Unexpected indentation', yamlLines[trailing].number);
+    }
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        throw new FrontMatterError('Front matter must be a mapping of keys to values');
+    }
+    return { data: value, body };
+}
+
+/**
+ * Render front matter data and a body back into a Markdown document
+ */
+export function stringifyFrontMatter(data: FrontMatterData, body: string): string {
+    const yaml = stringifyMap(data, 0);
+    return `---\n${yaml}---\n\n${body.replace(/^\n+/, '')}`;
+}
+
+// ==================== PARSING ====================
+
+function nextContent(lines: Line[], index: number): number {
+    while (index < lines.length && lines[index].blank) {
+        index++;
+    }
+    return index;
+}
+
+function isListItem(text: string): boolean {
+    return text === '-' || text.startsWith('- ');
+}
+
+function parseBlock(lines: Line[], index: number, indent: number): [FrontMatterValue, number] {
+    return isListItem(lines[index].text)
+        ? parseList(lines, index, indent)
+        : parseMap(lines, index, indent);
+}
+
+function parseMap(lines: Line[], index: number, indent: number): [FrontMatterData, number] {
+    const result: FrontMatterData = {};
+    let i = index;
+
+    while (i < lines.length) {
+        i = nextContent(lines, i);
+        if (i >= lines.length || lines[i].indent < indent) break;
+        const line = lines[i];
+        if (line.indent > indent) {
+            throw new FrontMatterError('Unexpected indentation', line.number);
+        }
+        if (isListItem(line.text)) break;
+
+        const match = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^:#]+?)\s*:(?:\s+(.*))?$/.exec(line.text);
+        if (!match) {
+            throw new FrontMatterError(`Expected "key: value" but found "${line.text}"`, line.number);
+        }
+        const key = String(parseScalar(match[1], line.number));
+        const rest = stripComment(match[2] ?? '');
+
+        if (Object.prototype.hasOwnProperty.call(result, key)) {
+            throw new FrontMatterError(`Duplicate key "${key}"`, line.number);
+        }
+
+        if (rest === '|' || rest === '>' || rest === '|-' || rest === '>-') {
+            const [value, next] = parseBlockScalar(lines, i + 1, indent, rest);
+            result[key] = value;
+            i = next;
+            continue;
+        }
+        if (rest !== '') {
+            result[key] = parseInline(rest, line.number);
+            i++;
+            continue;
+        }
+
+        // Value lives on the following lines (deeper map/list, or a list at the same indent)
+        const child = nextContent(lines, i + 1);
+        if (child < lines.length && (lines[child].indent > indent ||
+            (lines[child].indent === indent && isListItem(lines[child].text)))) {
+            const [value, next] = parseBlock(lines, child, lines[child].indent);
+            result[key] = value;
+            i = next;
+        } else {
+            result[key] = null;
+            i++;
+        }
+    }
+
+    return [result, i];
+}
+
+function parseList(lines: Line[], index: number, indent: number): [FrontMatterValue[], number] {
+    const result: FrontMatterValue[] = [];
+    let i = index;
+
+    while (i < lines.length) {
+        i = nextContent(lines, i);
+        if (i >= lines.length || lines[i].indent !== indent || !isListItem(lines[i].text)) break;
+        const line = lines[i];
+        const rest = line.text === '-' ? '' : line.text.slice(2).trim();
+
+        if (rest === '') {
+            const child = nextContent(lines, i + 1);
+            if (child < lines.length && lines[child].indent > indent) {
+                const [value, next] = parseBlock(lines, child, lines[child].indent);
+                result.push(value);
+                i = next;
+            } else {
+                result.push(null);
+                i++;
+            }
+        } else if (/^[^"'[][^:]*:(\s|$)/.test(rest) || /^("[^"]*"|'[^']*')\s*:(\s|$)/.test(rest)) {
+            // "- key: value" starts a map; re-read this line as the map's first entry
+            const itemIndent = indent + (line.text.length - line.text.slice(1).trimStart().length);
+            const patched = lines.slice();
+            patched[i] = { ...line, indent: itemIndent, text: rest };
+            const [value, next] = parseMap(patched, i, itemIndent);
+            result.push(value);
+            i = next;
+        } else {
+            result.push(parseInline(rest, line.number));
+            i++;
+        }
+    }
+
+    return [result, i];
+}
+
+function parseBlockScalar(lines: Line[], index: number, parentIndent: number, style: string): [string, number] {
+    // Trailing blank lines belong to whatever follows, not to the scalar
+    let lastContent = index - 1;
+    for (let i = index; i < lines.length && (lines[i].text === '' || lines[i].indent > parentIndent); i++) {
+        if (lines[i].text !== '') {
+            lastContent = i;
+        }
+    }
+    const collected = lines.slice(index, lastContent + 1);
+    if (collected.length === 0) {
+        return ['', index];
+    }
+
+    const contentIndent = Math.min(...collected.filter(l => l.text !== '').map(l => l.indent));
+    const texts = collected.map(l => (l.text === '' ? '' : ' '.repeat(l.indent - contentIndent) + l.text));
+    let joined: string;
+    if (style.startsWith('|')) {
+        joined = texts.join('\n');
+    } else {
+        // Folded: single newlines become spaces, blank lines become newlines
+        joined = '';
+        for (const text of texts) {
+            if (text === '') {
+                joined += '\n';
+            } else {
+                joined += joined === '' || joined.endsWith('\n') ? text : ` ${text}`;
+            }
+        }
+    }
+    return [style.endsWith('-') ? joined : `${joined}\n`, lastContent + 1];
+}
+
+function parseInline(text: string, lineNumber: number): FrontMatterValue {
+    if (text.startsWith('[')) {
+        if (!text.endsWith(']')) {
+            throw new FrontMatterError('Unclosed flow list', lineNumber);
+        }
+        return splitFlowList(text.slice(1, -1), lineNumber).map(item => parseScalar(item, lineNumber));
+    }
+    if (text === '{}') {
+        return {};
+    }
+    if (text.startsWith('{') || text.startsWith('&') || text.startsWith('*')) {
+        throw new FrontMatterError(`Unsupported YAML syntax "${text}"`, lineNumber);
+    }
+    return parseScalar(text, lineNumber);
+}
+
+function splitFlowList(inner: string, lineNumber: number): string[] {
+    const items: string[] = [];
+    let current = '';
+    let quote: string | null = null;
+    for (const char of inner) {
+        if (quote) {
+            current += char;
+            if (char === quote) quote = null;
+        } else if (char === '"' || char === '\'') {
+            quote = char;
+            current += char;
+        } else if (char === ',') {
+            items.push(current.trim());
+            current = '';
+        } else if (char === '[' || char === '{') {
+            throw new FrontMatterError('Nested flow collections are not supported', lineNumber);
+        } else {
+            current += char;
+        }
+    }
+    if (quote) {
+        throw new FrontMatterError('Unterminated quoted string', lineNumber);
+    }
+    if (current.trim() !== '' || items.length > 0) {
+        items.push(current.trim());
+    }
+    return items;
+}
+
+function stripComment(text: string): string {
+    if (text.startsWith('"') || text.startsWith('\'')) {
+        return text.trim();
+    }
+    const hash = text.search(/\s#/);
+    return (hash === -1 ? text : text.slice(0, hash)).trim();
+}
+
+function parseScalar(raw: string, lineNumber: number): string | number | boolean | null {
+    const text = raw.trim();
+    if (text.startsWith('"')) {
+        if (!text.endsWith('"') || text.length < 2) {
+            throw new FrontMatterError('Unterminated quoted string', lineNumber);
+        }
+        try {
+            return JSON.parse(text) as string;
+        } catch {
+            throw new FrontMatterError(`Invalid quoted string ${text}`, lineNumber);
+        }
+    }
+    if (text.startsWith('\'')) {
+        if (!text.endsWith('\'') || text.length < 2) {
+            throw new FrontMatterError('Unterminated quoted string', lineNumber);
+        }
+        return text.slice(1, -1).replace(/''/g, '\'');
+    }
+    if (text === '' || text === '~' || text === 'null') return null;
+    if (text === 'true') return true;
+    if (text === 'false') return false;
+    if (/^-?(\d+|\d*\.\d+)$/.test(text)) return Number(text);
+    return text;
+}
+
+// ==================== SERIALIZATION ====================
+
+function stringifyMap(data: FrontMatterData, indent: number): string {
+    const pad = ' '.repeat(indent);
+    let out = '';
+    for (const [key, value] of Object.entries(data)) {
+        if (value === undefined) continue;
+        const renderedKey = /^[A-Za-z0-9_-]+$/.test(key) ? key : JSON.stringify(key);
+        if (Array.isArray(value)) {
+            if (value.length === 0) {
+                out += `${pad}${renderedKey}: []\n`;
+            } else if (value.every(item => item === null || typeof item !== 'object')) {
+                out += `${pad}${renderedKey}: [${value.map(item => stringifyScalar(item, true)).join(', ')}]\n`;
+            } else {
+                out += `${pad}${renderedKey}:\n${stringifyList(value, indent + 2)}`;
+            }
+        } else if (value !== null && typeof value === 'object') {
+            out += Object.keys(value).length === 0
+                ? `${pad}${renderedKey}: {}\n`
+                : `${pad}${renderedKey}:\n${stringifyMap(value, indent + 2)}`;
+        } else if (typeof value === 'string' && value.includes('\n')) {
+            const block = value.replace(/\n$/, '').split('\n').map(l => (l ? `${pad}  ${l}` : '')).join('\n');
+            out += `${pad}${renderedKey}: ${value.endsWith('\n') ? '|' : '|-'}\n${block}\n`;
+        } else {
+            out += `${pad}${renderedKey}: ${stringifyScalar(value, false)}\n`;
+        }
+    }
+    return out;
+}
+
+function stringifyList(items: FrontMatterValue[], indent: number): string {
+    const pad = ' '.repeat(indent);
+    return items.map(item => {
+        if (item !== null && typeof item === 'object' && !Array.isArray(item)) {
+            if (Object.keys(item).length === 0) {
+                return `${pad}- {}\n`;
+            }
+            const nested = stringifyMap(item, indent + 2);
+            return `${pad}- ${nested.slice(indent + 2)}`;
+        }
+        if (Array.isArray(item)) {
+            return `${pad}-\n${stringifyList(item, indent + 2)}`;
+        }
+        return `${pad}- ${stringifyScalar(item, false)}\n`;
+    }).join('');
+}
+
+function stringifyScalar(value: string | number | boolean | null, inFlow: boolean): string {
+    if (value === null) return 'null';
+    if (typeof value !== 'string') return String(value);
+    const needsQuotes = value === '' ||
+        value !== value.trim() ||
+        /^[-?:,[\]{}#&*!|>'"%@`~]/.test(value) ||
+        /:\s|\s#/.test(value) ||
+        (inFlow && /[,[\]]/.test(value)) ||
+        ['true', 'false', 'null'].includes(value) ||
+        /^-?(\d+|\d*\.\d+)$/.test(value);
+    return needsQuotes ? JSON.stringify(value) : value;
+}
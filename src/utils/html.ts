@@ -0,0 +1,10 @@
+/**
+ * Escapes text for HTML content and double-quoted attributes
+ */
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,18 @@
+import * as vscode from 'vscode';
+import { logger } from '../services/Logger';
+
+/**
+ * Chat models the editor offers through `vscode.lm` (Copilot and other extensions). Empty
+ * outside VS Code or when the API is unavailable.
+ */
+export async function listLanguageModels(): Promise<vscode.LanguageModelChat[]> {
+    if (!vscode.lm?.selectChatModels) {
+        return [];
+    }
+    try {
+        return await vscode.lm.selectChatModels();
+    } catch (error) {
+        logger.warn('Could not list language models', error as Error);
+        return [];
+    }
+}
@@ -0,0 +1,79 @@
+/** Hash functions per signature; 64 keeps the similarity error around ±0.06 */
+const SIGNATURE_SIZE = 64;
+/** Character shingle length, short enough for one-line prompts */
+const SHINGLE_LENGTH = 5;
+
+// Fixed seeds so signatures stored on disk stay comparable across sessions
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, i) => mix32(0x9e3779b9 + i * 0x85ebca6b));
+
+/** Murmur3 finalizer: spreads the bits of a 32-bit value */
+function mix32(value: number): number {
+    let h = value | 0;
+    h ^= h >>> 16;
+    h = Math.imul(h, 0x85ebca6b);
+    h ^= h >>> 13;
+    h = Math.imul(h, 0xc2b2ae35);
+    h ^= h >>> 16;
+    return h >>> 0;
+}
+
+/** FNV-1a over UTF-16 code units */
+function hashString(text: string): number {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+}
+
+/**
+ * Lowercase with runs of whitespace collapsed, so drafts differing only in formatting compare equal
+ */
+export function normalizePrompt(text: string): string {
+    return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function shingles(normalized: string): Set<string> {
+    if (normalized.length <= SHINGLE_LENGTH) {
+        return new Set([normalized]);
+    }
+    const result = new Set<string>();
+    for (let i = 0; i + SHINGLE_LENGTH <= normalized.length; i++) {
+        result.add(normalized.slice(i, i + SHINGLE_LENGTH));
+    }
+    return result;
+}
+
+/**
+ * MinHash signature of the prompt's normalized character shingles
+ */
+export function minHashSignature(text: string): number[] {
+    const hashes = [...shingles(normalizePrompt(text))].map(hashString);
+    return SEEDS.map(seed => {
+        let min = 0xffffffff;
+        for (const hash of hashes) {
+            const value = mix32(hash ^ seed);
+            if (value < min) {
+                min = value;
+            }
+        }
+        return min;
+    });
+}
+
+/**
+ * Estimated Jaccard similarity (0-1) of the texts behind two signatures
+ */
+export function estimateSimilarity(a: number[], b: number[]): number {
+    if (a.length === 0 || a.length !== b.length) {
+        return 0;
+    }
+    let equal = 0;
+    for (let i = 0; i < a.length; i++) {
+        if (a[i] === b[i]) {
+            equal++;
+        }
+    }
+    return equal / a.length;
+}
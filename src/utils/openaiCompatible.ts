@@ -0,0 +1,28 @@
+/**
+ * Provider ids of `promptRefiner.openaiCompatible.profiles` entries: `openai-compatible.<profile id>`.
+ * A dot, not a colon, so `provider:model` fallback entries still split unambiguously.
+ */
+export const OPENAI_COMPATIBLE_PREFIX = 'openai-compatible.';
+
+/** UI model id meaning "the profile's default model, else the first one the endpoint lists" */
+export const PROFILE_DEFAULT_MODEL = 'profile-default';
+
+/** Profile ids end up in provider ids, secret keys and environment variable names */
+export const PROFILE_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export function toOpenAICompatibleProviderId(profileId: string): string {
+    return `${OPENAI_COMPATIBLE_PREFIX}${profileId}`;
+}
+
+export function isOpenAICompatibleProviderId(providerId: string): boolean {
+    return providerId.startsWith(OPENAI_COMPATIBLE_PREFIX);
+}
+
+/**
+ * The `/v1` root of an endpoint. Gateways are documented both with (`http://localhost:1234/v1`)
+ * and without (`http://localhost:4000`) the version segment, so both are accepted.
+ */
+export function openAICompatibleApiRoot(baseUrl: string): string {
+    const trimmed = baseUrl.trim().replace(/\/+$/, '');
+    return /\/v\d+$/.test(trimmed) ? trimmed : `${trimmed}/v1`;
+}
@@ -0,0 +1,78 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '../services/Logger';
+import { getApiModelId, getUiModelId } from './ModelMappings';
+
+/** USD per million tokens */
+export interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+interface PricingFile {
+    providers: Record<string, Record<string, ModelPrice>>;
+}
+
+const PRICING_FILE_PATH = path.join(__dirname, '..', '..', 'config', 'model-pricing.json');
+
+let pricingTable: PricingFile['providers'] | undefined;
+
+function loadPricingTable(): PricingFile['providers'] {
+    if (!pricingTable) {
+        try {
+            const data = JSON.parse(fs.readFileSync(PRICING_FILE_PATH, 'utf8')) as PricingFile;
+            pricingTable = data.providers ?? {};
+        } catch (error) {
+            logger.error('Failed to load model pricing table', error as Error);
+            pricingTable = {};
+        }
+    }
+    return pricingTable;
+}
+
+/**
+ * Price of a model, matched by the id as given, then its API and UI ids, then the provider's
+ * `*` entry. Undefined when the model isn't in `config/model-pricing.json`.
+ */
+export function getModelPrice(providerId: string, modelId: string): ModelPrice | undefined {
+    const prices = loadPricingTable()[providerId];
+    if (!prices) {
+        return undefined;
+    }
+    const candidates = [modelId, getApiModelId(modelId, providerId), getUiModelId(modelId, providerId), '*'];
+    for (const candidate of candidates) {
+        if (candidate && prices[candidate]) {
+            return prices[candidate];
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Estimated USD cost of one call, or undefined when the model has no known price
+ */
+export function estimateCost(
+    providerId: string,
+    modelId: string,
+    promptTokens: number,
+    completionTokens: number
+): number | undefined {
+    const price = getModelPrice(providerId, modelId);
+    if (!price) {
+        return undefined;
+    }
+    return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Cost for display: more precision for the sub-cent amounts a single refinement usually costs
+ */
+export function formatCost(cost: number): string {
+    if (cost === 0) {
+        return '$0.00';
+    }
+    if (cost < 0.01) {
+        return `$${cost.toFixed(4)}`;
+    }
+    return `$${cost.toFixed(2)}`;
+}
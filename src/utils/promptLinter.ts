@@ -0,0 +1,259 @@
+import { OutputValidator } from './OutputValidator';
+import { estimateTokens } from './tokenBudget';
+import { parseFrontMatter } from './frontMatter';
+
+export type PromptLintRule =
+    | 'missing-section'
+    | 'vague-quantifier'
+    | 'conflicting-instructions'
+    | 'unresolved-variable'
+    | 'excessive-length';
+
+export const PROMPT_LINT_RULES: PromptLintRule[] = [
+    'missing-section',
+    'vague-quantifier',
+    'conflicting-instructions',
+    'unresolved-variable',
+    'excessive-length',
+];
+
+/** 0-based line and character offsets within that line */
+export interface PromptLintRange {
+    line: number;
+    start: number;
+    end: number;
+}
+
+export interface PromptLintIssue {
+    rule: PromptLintRule;
+    severity: 'error' | 'warning' | 'info';
+    message: string;
+    range: PromptLintRange;
+    /** Section to insert, for `missing-section` */
+    section?: string;
+    /** The other half of a conflicting pair */
+    related?: { range: PromptLintRange; message: string };
+}
+
+export interface PromptLintOptions {
+    /** Estimated tokens above which the prompt is flagged as too long */
+    maxTokens: number;
+    disabledRules?: string[];
+}
+
+const VAGUE_PATTERNS: Array<{ pattern: RegExp; message: (match: string) => string }> = [
+    {
+        pattern: /\b(some|several|various|many|a few|a lot of|lots of|a bit|somewhat)\b/gi,
+        message: match => `Vague quantifier "${match}": say how many or which ones`,
+    },
+    {
+        pattern: /\b(etc\.?|and so on|and so forth)(?=\W|$)/gi,
+        message: match => `"${match}" leaves the list open-ended: name every item that matters`,
+    },
+];
+
+/**
+ * Instruction pairs that pull the model in opposite directions. The positive side of an
+ * instruction skips matches a negation turns around ("do not use bullet points").
+ */
+const CONFLICTS: Array<{ topic: string; a: RegExp; b: RegExp }> = [
+    {
+        topic: 'length',
+        a: /\b(concise|brief|succinct|keep it short)\b/i,
+        b: /\b(detailed|in[- ]depth|comprehensive|exhaustive)\b/i,
+    },
+    {
+        topic: 'tone',
+        a: /\bformal\b/i,
+        b: /\b(informal|casual|conversational)\b/i,
+    },
+    {
+        topic: 'lists',
+        a: /(?<!\b(?:not|don't|never|no|without)\s+)\b(use|with|include) (bullet points|bullets|a list|lists)\b/i,
+        b: /\b(no|avoid|without|don't use|do not use) (bullet points|bullets|lists)\b/i,
+    },
+    {
+        topic: 'code',
+        a: /(?<!\b(?:not|don't|never|no|without)\s+)\b(include|add|with|show) (code|code examples|code snippets)\b/i,
+        b: /\b(no|without|avoid|don't include|do not include) (code|code examples|code snippets)\b/i,
+    },
+];
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)?\s*\}\}/g;
+const DELIMITER = /^---\s*$/;
+
+/**
+ * First line after the YAML front matter (0 when there is none)
+ */
+export function promptBodyStartLine(text: string): number {
+    const lines = text.split(/\r?\n/);
+    if (!DELIMITER.test(lines[0] ?? '')) {
+        return 0;
+    }
+    const end = lines.findIndex((line, index) => index > 0 && DELIMITER.test(line));
+    return end === -1 ? 0 : end + 1;
+}
+
+/**
+ * Where and what to insert for a missing section, matching the header style the prompt
+ * already uses ("[Section]" or "## Section"). Objective goes first, anything else last.
+ */
+export function sectionInsertion(text: string, section: string): { line: number; character: number; text: string } {
+    const lines = text.split(/\r?\n/);
+    const bodyStart = promptBodyStartLine(text);
+    const bracketStyle = lines.slice(bodyStart).some(line => /^\[[^\]]+\]/.test(line.trim()));
+    const header = bracketStyle ? `[${section}]` : `## ${section}`;
+
+    if (section === 'Objective') {
+        return { line: bodyStart, character: 0, text: `${header}\n\n` };
+    }
+    const lastLine = lines[lines.length - 1];
+    return {
+        line: lines.length - 1,
+        character: lastLine.length,
+        text: `${lastLine.trim() ? '\n' : ''}\n${header}\n`,
+    };
+}
+
+/**
+ * Static checks for a prompt draft: required sections, vague quantifiers, conflicting
+ * instructions, unresolved `{{variables}}` and excessive length.
+ * Front matter is skipped; variables it declares count as resolved.
+ */
+export function lintPrompt(text: string, options: PromptLintOptions): PromptLintIssue[] {
+    const lines = text.split(/\r?\n/);
+    const bodyStart = promptBodyStartLine(text);
+    const body = lines.slice(bodyStart).join('\n');
+    if (!body.trim()) {
+        return [];
+    }
+
+    const disabled = new Set(options.disabledRules ?? []);
+    const issues: PromptLintIssue[] = [];
+    const proseLines = findProseLines(lines, bodyStart);
+    const firstLine = lines.findIndex((line, index) => index >= bodyStart && line.trim() !== '');
+    const wholeLine = (line: number): PromptLintRange => ({ line, start: 0, end: lines[line].length });
+
+    if (!disabled.has('missing-section')) {
+        for (const section of OutputValidator.findMissingSections(body)) {
+            issues.push({
+                rule: 'missing-section',
+                severity: 'warning',
+                message: `Missing ${section} section`,
+                range: wholeLine(firstLine),
+                section,
+            });
+        }
+    }
+
+    if (!disabled.has('vague-quantifier')) {
+        for (const line of proseLines) {
+            for (const { pattern, message } of VAGUE_PATTERNS) {
+                for (const match of lines[line].matchAll(pattern)) {
+                    const start = match.index ?? 0;
+                    issues.push({
+                        rule: 'vague-quantifier',
+                        severity: 'info',
+                        message: message(match[0]),
+                        range: { line, start, end: start + match[0].length },
+                    });
+                }
+            }
+        }
+    }
+
+    if (!disabled.has('conflicting-instructions')) {
+        for (const conflict of CONFLICTS) {
+            const a = findFirst(lines, proseLines, conflict.a);
+            const b = findFirst(lines, proseLines, conflict.b);
+            if (!a || !b) {
+                continue;
+            }
+            const aFirst = a.range.line < b.range.line || (a.range.line === b.range.line && a.range.start <= b.range.start);
+            const [first, second] = aFirst ? [a, b] : [b, a];
+            issues.push({
+                rule: 'conflicting-instructions',
+                severity: 'warning',
+                message: `"${second.text}" conflicts with "${first.text}" on line ${first.range.line + 1} (${conflict.topic})`,
+                range: second.range,
+                related: { range: first.range, message: `Conflicting ${conflict.topic} instruction` },
+            });
+        }
+    }
+
+    if (!disabled.has('unresolved-variable')) {
+        const declared = declaredVariables(text);
+        for (let line = bodyStart; line < lines.length; line++) {
+            for (const match of lines[line].matchAll(VARIABLE_PATTERN)) {
+                const name = match[1];
+                if (name && declared.has(name)) {
+                    continue;
+                }
+                const start = match.index ?? 0;
+                issues.push({
+                    rule: 'unresolved-variable',
+                    severity: 'warning',
+                    message: name
+                        ? `Unresolved template variable {{${name}}}: fill it in or declare it in the front matter`
+                        : 'Empty template placeholder {{}}',
+                    range: { line, start, end: start + match[0].length },
+                });
+            }
+        }
+    }
+
+    if (!disabled.has('excessive-length')) {
+        const tokens = estimateTokens(body);
+        if (tokens > options.maxTokens) {
+            issues.push({
+                rule: 'excessive-length',
+                severity: 'warning',
+                message: `Prompt is about ${tokens.toLocaleString()} tokens (limit ${options.maxTokens.toLocaleString()}); trim it so the key instructions stand out`,
+                range: wholeLine(firstLine),
+            });
+        }
+    }
+
+    return issues;
+}
+
+/** Body lines outside fenced code blocks */
+function findProseLines(lines: string[], bodyStart: number): number[] {
+    const prose: number[] = [];
+    let inFence = false;
+    for (let line = bodyStart; line < lines.length; line++) {
+        if (/^\s*(```|~~~)/.test(lines[line])) {
+            inFence = !inFence;
+            continue;
+        }
+        if (!inFence) {
+            prose.push(line);
+        }
+    }
+    return prose;
+}
+
+function findFirst(lines: string[], candidates: number[], pattern: RegExp): { range: PromptLintRange; text: string } | undefined {
+    for (const line of candidates) {
+        const match = pattern.exec(lines[line]);
+        if (match) {
+            const start = match.index;
+            return { range: { line, start, end: start + match[0].length }, text: match[0] };
+        }
+    }
+    return undefined;
+}
+
+/** `variables` names from the front matter of a library template */
+function declaredVariables(text: string): Set<string> {
+    try {
+        const { data } = parseFrontMatter(text);
+        const variables = Array.isArray(data.variables) ? data.variables : [];
+        return new Set(variables
+            .map(variable => typeof variable === 'string' ? variable : (variable as { name?: unknown })?.name)
+            .filter((name): name is string => typeof name === 'string'));
+    } catch {
+        // Malformed front matter: treat every placeholder as unresolved
+        return new Set();
+    }
+}
@@ -0,0 +1,239 @@
+import { isIP } from 'net';
+
+/** `secret`: credentials and keys; `pii`: personal data such as emails and card numbers */
+export type RedactionKind = 'secret' | 'pii';
+
+export interface RedactionDetector {
+    id: string;
+    /** Placeholder name: `EMAIL` gives `[REDACTED_EMAIL_1]` */
+    label: string;
+    kind: RedactionKind;
+    /** Global pattern; the whole match is replaced */
+    pattern: RegExp;
+    /** Drops matches the pattern can't rule out, such as card numbers that fail the Luhn check */
+    accept?(match: string): boolean;
+}
+
+/** A `promptRefiner.redaction.customPatterns` entry */
+export interface CustomRedactionPattern {
+    name: string;
+    pattern: string;
+    /** Extra regex flags; `g` is always added */
+    flags?: string;
+    kind?: RedactionKind;
+}
+
+export interface Redaction {
+    placeholder: string;
+    detector: string;
+    kind: RedactionKind;
+    value: string;
+}
+
+/** What was redacted from a request, without the values; kept with the refinement */
+export interface RedactionSummary {
+    placeholder: string;
+    detector: string;
+    kind: RedactionKind;
+}
+
+function passesLuhn(candidate: string): boolean {
+    const digits = candidate.replace(/\D/g, '');
+    if (digits.length < 13 || digits.length > 19) {
+        return false;
+    }
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let digit = Number(digits[digits.length - 1 - i]);
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) {
+                digit -= 9;
+            }
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+}
+
+function isPublicIp(candidate: string): boolean {
+    const version = isIP(candidate);
+    if (version === 4) {
+        return !/^(?:127\.|0\.0\.0\.0$|255\.255\.255\.255$)/.test(candidate);
+    }
+    // `::1` and `a::b` are too common in code to be worth hiding
+    return version === 6 && candidate.split(':').filter(Boolean).length >= 3;
+}
+
+/**
+ * Built-in detectors in the order they run. Longer and more specific secrets come first so a
+ * later detector never sees part of them (the password in `user:pass@host` would pass as an email).
+ */
+export const BUILTIN_REDACTION_DETECTORS: RedactionDetector[] = [
+    {
+        id: 'privateKey',
+        label: 'PRIVATE_KEY',
+        kind: 'secret',
+        pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+    },
+    {
+        id: 'connectionString',
+        label: 'PASSWORD',
+        kind: 'secret',
+        pattern: /(?<=\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:)[^\s@/]+(?=@)|(?<=\b(?:password|pwd)\s*=\s*)[^\s;'"]+/gi,
+    },
+    {
+        id: 'jwt',
+        label: 'JWT',
+        kind: 'secret',
+        pattern: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g,
+    },
+    {
+        id: 'awsKey',
+        label: 'AWS_KEY',
+        kind: 'secret',
+        pattern: /\b(?:AKIA|ASIA)[A-Z0-9]{16}\b|(?<=aws_secret_access_key["']?\s*[=:]\s*["']?)[A-Za-z0-9/+]{40}(?![A-Za-z0-9/+])/g,
+    },
+    {
+        id: 'githubToken',
+        label: 'GITHUB_TOKEN',
+        kind: 'secret',
+        pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g,
+    },
+    {
+        id: 'apiKey',
+        label: 'API_KEY',
+        kind: 'secret',
+        pattern: /\bsk-[A-Za-z0-9_-]{20,}/g,
+    },
+    {
+        id: 'email',
+        label: 'EMAIL',
+        kind: 'pii',
+        pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g,
+    },
+    {
+        id: 'ipAddress',
+        label: 'IP',
+        kind: 'pii',
+        pattern: /\b(?:\d{1,3}\.){3}\d{1,3}\b|(?<![\w:])(?:[0-9A-Fa-f]{1,4}:){2,7}:?[0-9A-Fa-f]{0,4}(?::[0-9A-Fa-f]{1,4})*(?![\w:])/g,
+        accept: isPublicIp,
+    },
+    {
+        id: 'creditCard',
+        label: 'CARD',
+        kind: 'pii',
+        // Issuer prefixes 3-6 keep millisecond timestamps out
+        pattern: /\b[3-6]\d(?:[ -]?\d){11,17}\b/g,
+        accept: passesLuhn,
+    },
+];
+
+/**
+ * Detectors for the user's patterns. Entries with an empty name or an invalid regex are
+ * returned in `invalid` instead.
+ */
+export function compileCustomPatterns(patterns: CustomRedactionPattern[]): { detectors: RedactionDetector[]; invalid: string[] } {
+    const detectors: RedactionDetector[] = [];
+    const invalid: string[] = [];
+    for (const entry of patterns) {
+        const label = (entry?.name ?? '').toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+        try {
+            if (!label || !entry.pattern) {
+                throw new Error('needs a name and a pattern');
+            }
+            const flags = [...new Set(`${entry.flags ?? ''}g`)].join('');
+            detectors.push({
+                id: `custom:${entry.name}`,
+                label,
+                kind: entry.kind === 'pii' ? 'pii' : 'secret',
+                pattern: new RegExp(entry.pattern, flags),
+            });
+        } catch (error) {
+            invalid.push(`${entry?.name || entry?.pattern || '(unnamed)'}: ${(error as Error).message}`);
+        }
+    }
+    return { detectors, invalid };
+}
+
+/**
+ * The user's patterns first, so built-in detectors don't take parts of their matches, then the
+ * built-in detectors that aren't turned off
+ */
+export function buildDetectors(disabledDetectors: string[], customPatterns: CustomRedactionPattern[]): { detectors: RedactionDetector[]; invalid: string[] } {
+    const custom = compileCustomPatterns(customPatterns);
+    return {
+        detectors: [...custom.detectors, ...BUILTIN_REDACTION_DETECTORS.filter(detector => !disabledDetectors.includes(detector.id))],
+        invalid: custom.invalid,
+    };
+}
+
+/**
+ * Replaces sensitive values with placeholders and puts them back later. One redactor serves one
+ * request: the same value always gets the same placeholder, in the prompt as in the history,
+ * and placeholders are numbered by first appearance, so the same text redacts the same way
+ * every time.
+ */
+export class Redactor {
+    private readonly byValue = new Map<string, Redaction>();
+    private readonly byPlaceholder = new Map<string, Redaction>();
+    private readonly counters = new Map<string, number>();
+
+    constructor(private readonly detectors: RedactionDetector[]) {}
+
+    public redact(text: string): string {
+        let redacted = text;
+        for (const detector of this.detectors) {
+            redacted = redacted.replace(detector.pattern, match => {
+                if (!match || (detector.accept && !detector.accept(match))) {
+                    return match;
+                }
+                return this.placeholderFor(match, detector);
+            });
+        }
+        return redacted;
+    }
+
+    /** Put the original values back; placeholders the model changed stay as they are */
+    public restore(text: string): string {
+        if (this.byPlaceholder.size === 0) {
+            return text;
+        }
+        return text.replace(/\[REDACTED_[A-Z0-9_]+_\d+\]/g, placeholder => this.byPlaceholder.get(placeholder)?.value ?? placeholder);
+    }
+
+    public get redactions(): Redaction[] {
+        return [...this.byValue.values()];
+    }
+
+    public hasSecrets(): boolean {
+        return this.redactions.some(redaction => redaction.kind === 'secret');
+    }
+
+    private placeholderFor(value: string, detector: RedactionDetector): string {
+        const existing = this.byValue.get(value);
+        if (existing) {
+            return existing.placeholder;
+        }
+        const count = (this.counters.get(detector.label) ?? 0) + 1;
+        this.counters.set(detector.label, count);
+        const redaction: Redaction = {
+            placeholder: `[REDACTED_${detector.label}_${count}]`,
+            detector: detector.id,
+            kind: detector.kind,
+            value,
+        };
+        this.byValue.set(value, redaction);
+        this.byPlaceholder.set(redaction.placeholder, redaction);
+        return redaction.placeholder;
+    }
+}
+
+/** First and last characters only, for showing a finding without repeating it */
+export function maskValue(value: string): string {
+    const flat = value.replace(/\s+/g, ' ');
+    if (flat.length <= 8) {
+        return '•'.repeat(flat.length);
+    }
+    return `${flat.slice(0, 4)}${'•'.repeat(Math.min(12, flat.length - 6))}${flat.slice(-2)}`;
+}
@@ -0,0 +1,97 @@
+import { createHash, createHmac } from 'crypto';
+
+/**
+ * AWS Signature Version 4 for single HTTP requests, enough for Bedrock-style JSON APIs
+ * without pulling in the AWS SDK.
+ */
+
+export interface AwsCredentials {
+    accessKeyId: string;
+    secretAccessKey: string;
+    sessionToken?: string;
+}
+
+export interface SignableRequest {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body: string;
+}
+
+/**
+ * Credentials stored as one secret: `ACCESS_KEY_ID:SECRET_ACCESS_KEY[:SESSION_TOKEN]`
+ */
+export function parseAwsCredentials(secret: string | undefined): AwsCredentials | undefined {
+    const [accessKeyId, secretAccessKey, sessionToken] = (secret ?? '').trim().split(':').map(part => part.trim());
+    if (!accessKeyId || !secretAccessKey) {
+        return undefined;
+    }
+    return { accessKeyId, secretAccessKey, sessionToken: sessionToken || undefined };
+}
+
+function sha256Hex(data: string): string {
+    return createHash('sha256').update(data, 'utf8').digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+    return createHmac('sha256', key).update(data, 'utf8').digest();
+}
+
+/** Percent-encoding per RFC 3986, which SigV4 requires (`encodeURIComponent` leaves `!'()*`) */
+function encodeRfc3986(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Headers for `request` with `Authorization`, `X-Amz-Date` and, for temporary credentials,
+ * `X-Amz-Security-Token` added. Every given header is signed; `Host` is signed but left out of
+ * the result because fetch sets it.
+ */
+export function signRequest(
+    request: SignableRequest,
+    options: { credentials: AwsCredentials; region: string; service: string; date?: Date },
+): Record<string, string> {
+    const { credentials, region, service } = options;
+    const url = new URL(request.url);
+    const amzDate = (options.date ?? new Date()).toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+
+    const headers: Record<string, string> = {
+        ...request.headers,
+        'X-Amz-Date': amzDate,
+        ...(credentials.sessionToken ? { 'X-Amz-Security-Token': credentials.sessionToken } : {}),
+    };
+    const canonical = new Map<string, string>([['host', url.host]]);
+    for (const [name, value] of Object.entries(headers)) {
+        canonical.set(name.toLowerCase(), value.trim().replace(/\s+/g, ' '));
+    }
+    const signedNames = [...canonical.keys()].sort();
+    const signedHeaders = signedNames.join(';');
+
+    // Services other than S3 encode the already-encoded path a second time
+    const canonicalUri = url.pathname.split('/').map(encodeRfc3986).join('/');
+    const canonicalQuery = [...url.searchParams.entries()]
+        .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+        .sort(([a, x], [b, y]) => (a === b ? (x < y ? -1 : 1) : a < b ? -1 : 1))
+        .map(([key, value]) => `${key}=${value}`)
+        .join('&');
+    const canonicalRequest = [
+        request.method.toUpperCase(),
+        canonicalUri,
+        canonicalQuery,
+        ...signedNames.map(name => `${name}:${canonical.get(name)}`),
+        '',
+        signedHeaders,
+        sha256Hex(request.body),
+    ].join('\n');
+
+    const scope = `${dateStamp}/${region}/${service}/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, dateStamp), region), service), 'aws4_request');
+    const signature = createHmac('sha256', signingKey).update(stringToSign, 'utf8').digest('hex');
+
+    return {
+        ...headers,
+        'Authorization': `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    };
+}
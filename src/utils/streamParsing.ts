@@ -0,0 +1,73 @@
+/**
+ * Helpers for reading streamed HTTP responses (Server-Sent Events and NDJSON)
+ * returned by fetch-based providers.
+ */
+
+/**
+ * Yields complete lines from a response body, decoding UTF-8 across chunk boundaries.
+ */
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) {
+                break;
+            }
+            buffer += decoder.decode(value, { stream: true });
+            let newline = buffer.indexOf('\n');
+            while (newline !== -1) {
+                yield buffer.slice(0, newline).replace(/\r$/, '');
+                buffer = buffer.slice(newline + 1);
+                newline = buffer.indexOf('\n');
+            }
+        }
+        buffer += decoder.decode();
+        if (buffer.length > 0) {
+            yield buffer.replace(/\r$/, '');
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+/**
+ * Yields the `data:` payload of each Server-Sent Event, stopping at the OpenAI-style `[DONE]` marker.
+ * Multi-line data fields are joined with newlines, per the SSE spec.
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+    let data: string[] = [];
+    for await (const line of readLines(body)) {
+        if (line === '') {
+            if (data.length > 0) {
+                const payload = data.join('\n');
+                data = [];
+                if (payload === '[DONE]') {
+                    return;
+                }
+                yield payload;
+            }
+            continue;
+        }
+        if (line.startsWith('data:')) {
+            data.push(line.slice(5).replace(/^ /, ''));
+        }
+    }
+    if (data.length > 0 && data.join('\n') !== '[DONE]') {
+        yield data.join('\n');
+    }
+}
+
+/**
+ * Parses one JSON payload from a stream, returning undefined for malformed chunks
+ * (providers occasionally interleave keep-alive comments or partial frames).
+ */
+export function parseStreamJson<T>(payload: string): T | undefined {
+    try {
+        return JSON.parse(payload) as T;
+    } catch {
+        return undefined;
+    }
+}
@@ -0,0 +1,87 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import type { TemplateVariable } from '../services/TemplateManager';
+
+/** `{{name}}` placeholders declared by the template */
+const USER_VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+/** `${name}` placeholders filled from the editor */
+const BUILTIN_VARIABLE_PATTERN = /\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+/** Either kind, so one pass fills both and never looks inside a substituted value */
+const ANY_VARIABLE_PATTERN = new RegExp(`${USER_VARIABLE_PATTERN.source}|${BUILTIN_VARIABLE_PATTERN.source}`, 'g');
+
+/** Built-in variables resolved from the active editor */
+export const BUILTIN_VARIABLES = ['selection', 'fileName', 'languageId', 'workspaceName'] as const;
+export type BuiltinVariable = typeof BUILTIN_VARIABLES[number];
+
+/**
+ * Names of the `{{name}}` placeholders used in a template body, in order of first use
+ */
+export function extractTemplateVariables(content: string): string[] {
+    const names = new Set<string>();
+    for (const match of content.matchAll(USER_VARIABLE_PATTERN)) {
+        names.add(match[1]);
+    }
+    return [...names];
+}
+
+/**
+ * Declared variables plus any placeholder the body uses without declaring it
+ */
+export function getEffectiveVariables(content: string, declared: TemplateVariable[] = []): TemplateVariable[] {
+    const known = new Set(declared.map(v => v.name));
+    const undeclared = extractTemplateVariables(content)
+        .filter(name => !known.has(name))
+        .map(name => ({ name }));
+    return [...declared, ...undeclared];
+}
+
+/**
+ * Check a value against the variable's type; returns an error message or null when valid
+ */
+export function validateVariableValue(variable: TemplateVariable, value: string): string | null {
+    const type = variable.type ?? (variable.choices?.length ? 'enum' : 'string');
+    if (type === 'number' && value.trim() !== '' && !Number.isFinite(Number(value))) {
+        return `${variable.name} must be a number`;
+    }
+    if (type === 'enum' && variable.choices?.length && !variable.choices.includes(value)) {
+        return `${variable.name} must be one of: ${variable.choices.join(', ')}`;
+    }
+    return null;
+}
+
+/**
+ * Replace `{{name}}` with the given value (or the variable's default) and `${builtin}` with
+ * editor values. Unresolved `{{name}}` placeholders become empty; unknown `${...}` are left alone
+ * so literal template text like `${HOME}` survives. Values go in as written: placeholders inside
+ * a value or the selection are not expanded.
+ */
+export function substituteTemplateVariables(
+    content: string,
+    values: Record<string, string>,
+    declared: TemplateVariable[] = [],
+    builtins: Partial<Record<BuiltinVariable, string>> = {}
+): string {
+    const defaults = new Map(declared.map(v => [v.name, v.default]));
+
+    return content.replace(ANY_VARIABLE_PATTERN, (match, userName: string | undefined, builtinName: string) => {
+        if (userName !== undefined) {
+            return values[userName] ?? defaults.get(userName) ?? '';
+        }
+        return (BUILTIN_VARIABLES as readonly string[]).includes(builtinName)
+            ? builtins[builtinName as BuiltinVariable] ?? ''
+            : match;
+    });
+}
+
+/**
+ * Values for the built-in variables from the active editor and workspace
+ */
+export function collectBuiltinVariables(): Record<BuiltinVariable, string> {
+    const editor = vscode.window.activeTextEditor;
+    return {
+        selection: editor ? editor.document.getText(editor.selection) : '',
+        fileName: editor ? path.basename(editor.document.fileName) : '',
+        languageId: editor?.document.languageId ?? '',
+        workspaceName: vscode.workspace.name ?? '',
+    };
+}
@@ -0,0 +1,39 @@
+/** Rough characters-per-token ratio used across providers when no usage data is returned */
+const CHARS_PER_TOKEN = 3.5;
+
+/**
+ * Heuristic token count for budgeting
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Cut text to fit a token budget, preferring to break at a line boundary
+ */
+export function truncateToTokens(text: string, maxTokens: number): { text: string; truncated: boolean } {
+    if (estimateTokens(text) <= maxTokens) {
+        return { text, truncated: false };
+    }
+    const maxChars = Math.max(0, Math.floor(maxTokens * CHARS_PER_TOKEN));
+    const cut = text.slice(0, maxChars);
+    const lastBreak = cut.lastIndexOf('\n');
+    return { text: lastBreak > maxChars / 2 ? cut.slice(0, lastBreak) : cut, truncated: true };
+}
+
+/**
+ * Keep whole lines, in order, until the next one would exceed the budget
+ */
+export function takeLinesWithinBudget(lines: string[], maxTokens: number): string[] {
+    const kept: string[] = [];
+    let used = 0;
+    for (const line of lines) {
+        const cost = estimateTokens(line) + 1;
+        if (used + cost > maxTokens) {
+            break;
+        }
+        kept.push(line);
+        used += cost;
+    }
+    return kept;
+}
@@ -0,0 +1,80 @@
+import type { ChatTurn } from '../providers/IAIProvider';
+import { logger } from '../services/Logger';
+import { estimateTokens } from './tokenBudget';
+
+type EncodingName = 'o200k_base' | 'cl100k_base';
+
+interface Encoder {
+    encode(text: string): number[];
+}
+
+/** OpenAI-family model prefixes and the BPE vocabulary each one uses */
+const ENCODINGS: Array<[RegExp, EncodingName]> = [
+    [/^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|o1|o3|o4)/i, 'o200k_base'],
+    [/^(gpt-4|gpt-3\.5)/i, 'cl100k_base'],
+];
+
+/** Chat framing OpenAI bills on top of the content: per message, and once to prime the reply */
+const TOKENS_PER_MESSAGE = 3;
+const REPLY_PRIMER_TOKENS = 3;
+
+export interface TokenCount {
+    tokens: number;
+    /** False when the model has no offline tokenizer and the length heuristic was used */
+    exact: boolean;
+}
+
+// The rank tables are several MB, so they load on first use and are shared afterwards
+const encoders = new Map<EncodingName, Promise<Encoder | undefined>>();
+
+/**
+ * BPE vocabulary for an OpenAI-family model, or undefined for models we can't tokenize offline.
+ * Vendor prefixes such as `openai/gpt-4o` are ignored.
+ */
+export function getEncodingForModel(modelId: string): EncodingName | undefined {
+    const bareId = modelId.slice(modelId.lastIndexOf('/') + 1);
+    return ENCODINGS.find(([pattern]) => pattern.test(bareId))?.[1];
+}
+
+function loadEncoder(name: EncodingName): Promise<Encoder | undefined> {
+    let pending = encoders.get(name);
+    if (!pending) {
+        pending = import('js-tiktoken')
+            .then(tiktoken => tiktoken.getEncoding(name) as Encoder)
+            .catch((error: unknown) => {
+                logger.warn('Offline tokenizer unavailable, estimating token counts', {
+                    encoding: name,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+                return undefined;
+            });
+        encoders.set(name, pending);
+    }
+    return pending;
+}
+
+async function encoderFor(modelId: string): Promise<Encoder | undefined> {
+    const encoding = getEncodingForModel(modelId);
+    return encoding ? loadEncoder(encoding) : undefined;
+}
+
+/**
+ * Token count of plain text as `modelId` would see it
+ */
+export async function countTokens(text: string, modelId: string): Promise<TokenCount> {
+    const encoder = await encoderFor(modelId);
+    if (!encoder) {
+        return { tokens: estimateTokens(text), exact: false };
+    }
+    return { tokens: encoder.encode(text).length, exact: true };
+}
+
+/**
+ * Prompt tokens of a chat request, including the per-message framing of chat endpoints
+ */
+export async function countChatTokens(turns: ChatTurn[], modelId: string): Promise<TokenCount> {
+    const encoder = await encoderFor(modelId);
+    const count = encoder ? (text: string) => encoder.encode(text).length : estimateTokens;
+    const tokens = turns.reduce((sum, turn) => sum + TOKENS_PER_MESSAGE + count(turn.content), REPLY_PRIMER_TOKENS);
+    return { tokens, exact: encoder !== undefined };
+}
@@ -0,0 +1,213 @@
+/**
+ * Data-driven rule sets for OutputValidator. A rule set describes the shape a refined
+ * prompt should have; teams can ship their own as workspace JSON or through plugins.
+ */
+
+/** `suggestion` findings go to ValidationResult.suggestions instead of issues */
+export type ValidationRuleSeverity = 'error' | 'warning' | 'info' | 'suggestion';
+
+export interface SectionRule {
+    name: string;
+    /** Header text that counts as this section (case-insensitive substring match) */
+    aliases: string[];
+    /** Missing required sections are warnings (errors in strict mode); optional ones suggestions */
+    required?: boolean;
+    /** Points deducted when missing; doubled for required sections in strict mode */
+    weight?: number;
+}
+
+export interface PhraseRule {
+    id: string;
+    /** Regular expressions; the rule fires once if any of them matches */
+    patterns: string[];
+    flags?: string;
+    message?: string;
+    severity?: ValidationRuleSeverity;
+    weight?: number;
+}
+
+export interface LengthRule {
+    id?: string;
+    metric: 'chars' | 'lines';
+    min?: number;
+    max?: number;
+    message?: string;
+    severity?: ValidationRuleSeverity;
+    weight?: number;
+}
+
+export interface RegexCheck {
+    id: string;
+    pattern: string;
+    flags?: string;
+    /** true: the output must match; false: the output must not match */
+    mustMatch: boolean;
+    message: string;
+    severity?: ValidationRuleSeverity;
+    weight?: number;
+}
+
+export interface ValidationRuleSet {
+    id: string;
+    name: string;
+    description?: string;
+    /** Minimum score (0-100) for a valid result */
+    passScore?: number;
+    sections?: SectionRule[];
+    forbiddenPhrases?: PhraseRule[];
+    length?: LengthRule[];
+    checks?: RegexCheck[];
+}
+
+export const DEFAULT_PASS_SCORE = 70;
+const DEFAULT_WEIGHT = 10;
+
+/**
+ * The rules OutputValidator has always applied
+ */
+export const DEFAULT_RULE_SET: ValidationRuleSet = {
+    id: 'default',
+    name: 'Default',
+    description: 'Objective and Expected Output sections, no filler, reasonable length',
+    passScore: DEFAULT_PASS_SCORE,
+    sections: [
+        { name: 'Objective', required: true, weight: 15, aliases: ['objective', 'goal', 'task'] },
+        { name: 'Context', weight: 5, aliases: ['context', 'background', 'situation'] },
+        { name: 'Constraints', weight: 5, aliases: ['constraints', 'requirements', 'rules'] },
+        { name: 'Scope', weight: 5, aliases: ['scope', 'limits', 'boundaries'] },
+        { name: 'Expected Output', required: true, weight: 15, aliases: ['expected output', 'output', 'deliverable', 'result'] },
+    ],
+    forbiddenPhrases: [
+        {
+            id: 'conversational-filler',
+            patterns: [
+                '^(sure|okay|alright|great|perfect),?\\s*',
+                'here(\'s| is) (the|your) (refined|improved|optimized|better) (prompt|version)',
+                'i(\'ve| have) (refined|improved|optimized)',
+                'let me (refine|improve|optimize)',
+            ],
+            flags: 'i',
+            message: 'Output contains conversational filler that should be removed',
+            severity: 'warning',
+            weight: 10,
+        },
+    ],
+    length: [
+        { id: 'too-short', metric: 'chars', min: 50, severity: 'warning', weight: 20, message: 'Output seems too short to be a complete refined prompt' },
+        { id: 'few-lines', metric: 'lines', min: 3, severity: 'warning', weight: 10, message: 'Output is very short - may lack sufficient detail' },
+        { id: 'many-lines', metric: 'lines', max: 100, severity: 'suggestion', weight: 5, message: 'Consider if the prompt can be more concise' },
+    ],
+    checks: [
+        {
+            id: 'wrapped-in-code-block',
+            pattern: '^\\s*```[\\s\\S]*```\\s*$',
+            mustMatch: false,
+            severity: 'warning',
+            weight: 15,
+            message: 'Output is wrapped in markdown code block - this may not be desired',
+        },
+        {
+            id: 'actionable-verbs',
+            pattern: 'create|build|implement|develop|design|write|analyze|generate',
+            flags: 'i',
+            mustMatch: true,
+            severity: 'suggestion',
+            weight: 5,
+            message: 'Consider using more actionable verbs (create, build, implement, etc.)',
+        },
+    ],
+};
+
+const SEVERITIES: ValidationRuleSeverity[] = ['error', 'warning', 'info', 'suggestion'];
+
+/**
+ * Check a rule set read from JSON and fill in rule ids. Throws with a message naming the
+ * offending rule, so bad files can be reported instead of silently ignored.
+ */
+export function normalizeRuleSet(raw: unknown, source: string): ValidationRuleSet {
+    const fail = (message: string): never => {
+        throw new Error(`Invalid validation rule set in ${source}: ${message}`);
+    };
+    if (!raw || typeof raw !== 'object') {
+        fail('expected an object');
+    }
+    const data = raw as Record<string, unknown>;
+    if (typeof data.id !== 'string' || !data.id.trim()) {
+        fail('"id" is required');
+    }
+    const id = (data.id as string).trim();
+    const name = typeof data.name === 'string' && data.name.trim() ? data.name.trim() : id;
+
+    const list = <T>(key: string): T[] => {
+        const value = data[key];
+        if (value === undefined) return [];
+        if (!Array.isArray(value)) fail(`"${key}" must be an array`);
+        return value as T[];
+    };
+    const checkSeverity = (rule: { severity?: unknown }, label: string) => {
+        if (rule.severity !== undefined && !SEVERITIES.includes(rule.severity as ValidationRuleSeverity)) {
+            fail(`${label}: severity must be one of ${SEVERITIES.join(', ')}`);
+        }
+    };
+    const checkPattern = (pattern: unknown, flags: unknown, label: string) => {
+        if (typeof pattern !== 'string') fail(`${label}: pattern must be a string`);
+        try {
+            new RegExp(pattern as string, typeof flags === 'string' ? flags : undefined);
+        } catch (error) {
+            fail(`${label}: ${(error as Error).message}`);
+        }
+    };
+
+    const sections = list<SectionRule>('sections').map((section, index) => {
+        if (typeof section?.name !== 'string' || !section.name.trim()) fail(`sections[${index}]: "name" is required`);
+        const aliases = Array.isArray(section.aliases) && section.aliases.length > 0
+            ? section.aliases.map(alias => String(alias).toLowerCase())
+            : [section.name.toLowerCase()];
+        return { ...section, aliases };
+    });
+
+    const forbiddenPhrases = list<PhraseRule>('forbiddenPhrases').map((rule, index) => {
+        const label = `forbiddenPhrases[${index}]`;
+        if (!Array.isArray(rule?.patterns) || rule.patterns.length === 0) fail(`${label}: "patterns" is required`);
+        rule.patterns.forEach(pattern => checkPattern(pattern, rule.flags, label));
+        checkSeverity(rule, label);
+        return { ...rule, id: rule.id || `phrase-${index + 1}` };
+    });
+
+    const length = list<LengthRule>('length').map((rule, index) => {
+        const label = `length[${index}]`;
+        if (rule?.metric !== 'chars' && rule?.metric !== 'lines') fail(`${label}: metric must be "chars" or "lines"`);
+        if (typeof rule.min !== 'number' && typeof rule.max !== 'number') fail(`${label}: set "min" or "max"`);
+        checkSeverity(rule, label);
+        return { ...rule, id: rule.id || `${rule.metric}-${typeof rule.min === 'number' ? 'min' : 'max'}` };
+    });
+
+    const checks = list<RegexCheck>('checks').map((rule, index) => {
+        const label = `checks[${index}]`;
+        if (typeof rule?.id !== 'string' || !rule.id) fail(`${label}: "id" is required`);
+        if (typeof rule.message !== 'string') fail(`${label}: "message" is required`);
+        checkPattern(rule.pattern, rule.flags, label);
+        checkSeverity(rule, label);
+        return { ...rule, mustMatch: rule.mustMatch !== false };
+    });
+
+    const passScore = typeof data.passScore === 'number'
+        ? Math.min(100, Math.max(0, data.passScore))
+        : DEFAULT_PASS_SCORE;
+
+    return {
+        id,
+        name,
+        description: typeof data.description === 'string' ? data.description : undefined,
+        passScore,
+        sections,
+        forbiddenPhrases,
+        length,
+        checks,
+    };
+}
+
+/** Points a rule deducts when it fires */
+export function ruleWeight(rule: { weight?: number }): number {
+    return typeof rule.weight === 'number' && rule.weight >= 0 ? rule.weight : DEFAULT_WEIGHT;
+}
@@ -5,17 +5,22 @@ import { logger } from '../services/Logger';
 import { ErrorHandler, RateLimiter, InputValidator } from '../utils/ErrorHandler';
 import { SessionManager } from '../services/SessionManager';
 import { ConfigurationManager } from '../services/ConfigurationManager';
-import { RoleId, isValidRoleId, getRoleById } from '../types/Role';
+import { TemplateManager } from '../services/TemplateManager';
+import { toChatHistory } from '../utils/conversation';
+import { DEFAULT_ROLE_ID } from '../types/Role';
+import { RoleManager } from '../services/RoleManager';
 import { Analytics } from '../services/Analytics';
 
 /**
  * Message types for webview communication
  */
 type WebviewMessage =
-  | { type: 'refinePrompt'; value: string }
+  | { type: 'refinePrompt'; value: string; bypassCache?: boolean }
+  | { type: 'cancelRefine' }
   | { type: 'editMessage'; messageId: string; newContent: string }
   | { type: 'deleteMessage'; messageId: string }
   | { type: 'reRefine'; content: string }
+  | { type: 'compareMessage'; content: string }
   | { type: 'clearSession' }
   | { type: 'searchMessages'; query: string }
   | { type: 'startEditing'; messageId: string }
@@ -35,6 +40,7 @@ type WebviewMessage =
   | { type: 'saveInputState'; value: string }
   | { type: 'loadInitialState' }
   | { type: 'openSettings' }
+  | { type: 'selectTemplate' }
   | { type: 'exportAllSessions' }
   | { type: 'clearAllSessions' }
   | { type: 'copyToClipboard'; text: string };
@@ -91,7 +97,10 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                 switch (data.type) {
                 // Message handling
                 case 'refinePrompt':
-                    await this._handleRefinePrompt(data.value);
+                    await this._handleRefinePrompt(data.value, data.bypassCache);
+                    break;
+                case 'cancelRefine':
+                    this.refineCancellation?.cancel();
                     break;
                 case 'editMessage':
                     await this._handleEditMessage(data.messageId, data.newContent);
@@ -99,6 +108,9 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                 case 'deleteMessage':
                     await this._handleDeleteMessage(data.messageId);
                     break;
+                case 'compareMessage':
+                    await vscode.commands.executeCommand('promptRefiner.compareRefinements', data.content);
+                    break;
                 case 'reRefine':
                     await this._handleReRefine(data.content);
                     break;
@@ -168,6 +180,9 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                 case 'openSettings':
                     await this._handleOpenSettings();
                     break;
+                case 'selectTemplate':
+                    await this._handleSelectTemplate();
+                    break;
                 case 'exportAllSessions':
                     await this._handleExportAllSessions();
                     break;
@@ -196,7 +211,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     /**
    * Handle prompt refinement
    */
-    private async _handleRefinePrompt(prompt: string) {
+    private async _handleRefinePrompt(prompt: string, bypassCache = false) {
         if (!prompt) return;
 
         // Rate limiting
@@ -233,6 +248,9 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             await this._notifySessionListChanged();
         }
 
+        // Earlier exchanges go to the provider as real turns so follow-ups keep their context
+        const history = toChatHistory(await this.sessionManager.getMessages(activeSession.id));
+
         // Add user message to session
         const userMessage = await this.sessionManager.addMessageToSession(activeSession.id, {
             role: 'user',
@@ -254,7 +272,8 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             textLength: prompt.length, 
             provider, 
             model,
-            sessionId: activeSession.id 
+            sessionId: activeSession.id,
+            historyTurns: history.length
         });
 
         this.refineCancellation?.cancel();
@@ -262,23 +281,44 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         const refineCts = new vscode.CancellationTokenSource();
         this.refineCancellation = refineCts;
 
+        // Placeholder assistant message that grows while the provider streams
+        const streamId = `stream-${randomBytes(8).toString('hex')}`;
+        let streamed = '';
+        this._view?.webview.postMessage({
+            type: 'streamStart',
+            message: { id: streamId, role: 'assistant', content: '', timestamp: Date.now(), provider, model }
+        });
+
         try {
             const service = PromptRefinerService.getInstance();
-            const result = await service.refine(prompt, refineCts.token);
+            const result = await service.refine(prompt, refineCts.token, {
+                history,
+                bypassCache,
+                onProgress: (partial) => {
+                    streamed = partial;
+                    this._view?.webview.postMessage({ type: 'streamDelta', streamId, content: partial });
+                },
+            });
             const refined = result.refined;
             const tokens = result.tokens;
 
-            // Add assistant message to session
+            // Add assistant message to session, attributed to whichever provider answered
             const assistantMessage = await this.sessionManager.addMessageToSession(activeSession.id, {
                 role: 'assistant',
                 content: refined,
-                provider,
-                model,
-                tokens
+                provider: result.provider,
+                model: result.model,
+                tokens,
+                promptTokens: result.usage.promptTokens,
+                completionTokens: result.usage.completionTokens,
+                cost: result.usage.cost,
+                repair: result.repair,
+                redactions: result.redactions
             });
 
             this._view?.webview.postMessage({
-                type: 'addMessage',
+                type: 'streamEnd',
+                streamId,
                 message: assistantMessage
             });
 
@@ -289,9 +329,22 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         } catch (error: unknown) {
             const err = error instanceof Error ? error : new Error(String(error));
             if (err.message === 'Operation cancelled' || refineCts.token.isCancellationRequested) {
-                logger.info('Chat refinement cancelled', { sessionId: activeSession.id });
+                logger.info('Chat refinement cancelled', { sessionId: activeSession.id, partialLength: streamed.length });
+                // Keep whatever already streamed so the user doesn't lose it
+                const partialMessage = streamed.trim()
+                    ? await this.sessionManager.addMessageToSession(activeSession.id, {
+                        role: 'assistant',
+                        content: streamed,
+                        provider,
+                        model,
+                        tokens: 0,
+                        partial: true
+                    })
+                    : undefined;
+                this._view?.webview.postMessage({ type: 'streamEnd', streamId, message: partialMessage });
                 return;
             }
+            this._view?.webview.postMessage({ type: 'streamEnd', streamId });
             const errorInfo = ErrorHandler.classifyError(err);
             logger.error('Chat refinement failed', err, errorInfo);
 
@@ -319,6 +372,14 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         }
     }
 
+    /**
+   * Reload the active session, e.g. after another view added messages to it
+   */
+    public async refresh(): Promise<void> {
+        if (!this._view) return;
+        await this._loadInitialState();
+    }
+
     /**
    * Handle message editing
    */
@@ -436,14 +497,12 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
    * Handle creating a new session
    */
     private async _handleCreateSession(name?: string, role?: string) {
-        // Validate role and cast to RoleId if valid
-        const validatedRole = role && isValidRoleId(role) ? role as RoleId : undefined;
-        const session = await this.sessionManager.createSession(name, validatedRole);
+        // Predefined or custom role; unknown ids fall back to the default
+        const roleInfo = RoleManager.getInstance().resolveRole(role);
+        const session = await this.sessionManager.createSession(name, roleInfo.id);
         
         // Track analytics
-        const roleId = validatedRole || 'programmer';
-        const roleInfo = getRoleById(roleId);
-        Analytics.getInstance().trackSessionCreated(roleId, roleInfo?.name || 'Programmer');
+        Analytics.getInstance().trackSessionCreated(roleInfo.id, roleInfo.name);
         
         await this._notifySessionListChanged();
 
@@ -479,20 +538,23 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
    * Handle requesting role selection from user
    */
     private async _handleRequestRoleSelection(name?: string) {
-        const roles = [
-            { label: '💻 Programmer', description: 'Software engineering focus', id: 'programmer' },
-            { label: '✍️ Writer', description: 'Professional writing focus', id: 'writer' },
-            { label: '🔬 Researcher', description: 'Research and analysis focus', id: 'researcher' },
-            { label: '📊 Analyst', description: 'Problem analysis focus', id: 'analyst' }
-        ];
+        const roles = RoleManager.getInstance().getAllRoles().map(role => ({
+            label: `${role.icon ?? ''} ${role.name}`.trim(),
+            description: role.description,
+            detail: role.scope === 'global' ? 'Custom role (user settings)'
+                : role.scope === 'workspace' ? 'Custom role (workspace settings)'
+                    : undefined,
+            id: role.id
+        }));
         
         const selected = await vscode.window.showQuickPick(roles, {
             placeHolder: 'Select a role for this session',
-            ignoreFocusOut: true
+            ignoreFocusOut: true,
+            matchOnDescription: true
         });
         
         // User cancelled or selected a role - create session
-        const roleId = selected?.id || 'programmer';
+        const roleId = selected?.id || DEFAULT_ROLE_ID;
         await this._handleCreateSession(name, roleId);
     }
 
@@ -640,6 +702,14 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         logger.debug('Settings panel opened from menu');
     }
 
+    /**
+     * Pick a template (and fill in its variables), then refresh the header indicator
+     */
+    private async _handleSelectTemplate() {
+        await vscode.commands.executeCommand('promptRefiner.selectTemplate');
+        await this._loadInitialState();
+    }
+
     /**
      * Handle exporting all sessions
      */
@@ -704,14 +774,18 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         const activeSession = await this.sessionManager.getActiveSession();
         const config = ConfigurationManager.getInstance();
         
-        // Get current template info
+        // Get current template info; default/strict follow the strict mode setting
         const isStrictMode = config.isStrictMode();
-        const templateName = isStrictMode ? 'Strict' : 'Normal';
+        const templateId = config.getSelectedTemplateId();
+        const customTemplate = templateId !== 'default' && templateId !== 'strict'
+            ? await TemplateManager.getInstance().getTemplate(templateId)
+            : undefined;
+        const templateName = customTemplate?.name ?? (isStrictMode ? 'Strict' : 'Normal');
     
         if (activeSession) {
             // Get role info for active session
-            const roleId = activeSession.metadata?.role || 'programmer';
-            const role = getRoleById(roleId);
+            const roleId = activeSession.metadata?.role || DEFAULT_ROLE_ID;
+            const role = RoleManager.getInstance().getRoleById(roleId);
             
             // Send session info with role
             this._view?.webview.postMessage({
@@ -773,9 +847,10 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         const activeSession = await this.sessionManager.getActiveSession();
         
         // Enrich sessions with role information
+        const roles = new Map(RoleManager.getInstance().getAllRoles().map(role => [role.id, role]));
         const sessionsWithRoles = sessions.map(session => {
-            const roleId = session.metadata?.role || 'programmer';
-            const role = getRoleById(roleId);
+            const roleId = session.metadata?.role || DEFAULT_ROLE_ID;
+            const role = roles.get(roleId);
             return {
                 ...session,
                 roleInfo: role ? {
@@ -789,7 +864,8 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         this._view?.webview.postMessage({
             type: 'sessionListChanged',
             sessions: sessionsWithRoles,
-            activeSessionId: activeSession?.id || null
+            activeSessionId: activeSession?.id || null,
+            activeSessionUsage: activeSession ? await this.sessionManager.getSessionUsage(activeSession.id) : null
         });
     }
 
@@ -861,7 +937,11 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             background: var(--vscode-badge-background);
             color: var(--vscode-badge-foreground);
             font-weight: 500;
-            cursor: default;
+            cursor: pointer;
+        }
+
+        .template-indicator:hover {
+            opacity: 0.85;
         }
 
         .template-indicator.strict {
@@ -1465,6 +1545,13 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             color: var(--vscode-descriptionForeground);
         }
 
+        .session-usage {
+            font-size: 10px;
+            color: var(--vscode-descriptionForeground);
+            margin-left: 8px;
+            margin-right: auto;
+        }
+
         .message-time {
             font-size: 10px;
             margin-left: auto;
@@ -1604,6 +1691,17 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             color: var(--vscode-descriptionForeground);
         }
 
+        .bypass-cache {
+            display: flex;
+            align-items: center;
+            gap: 4px;
+            margin-left: 8px;
+            margin-right: auto;
+            font-size: 11px;
+            color: var(--vscode-descriptionForeground);
+            cursor: pointer;
+        }
+
         .send-btn {
             padding: 8px 16px;
             background: var(--vscode-button-background);
@@ -1653,6 +1751,54 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             to { transform: rotate(360deg); }
         }
 
+        .stop-btn {
+            padding: 2px 8px;
+            background: transparent;
+            color: var(--vscode-descriptionForeground);
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 3px;
+            cursor: pointer;
+            font-size: 11px;
+        }
+
+        .stop-btn:hover {
+            color: var(--vscode-foreground);
+            border-color: var(--vscode-focusBorder);
+        }
+
+        .message.streaming .message-actions {
+            display: none;
+        }
+
+        .message.streaming .message-content::after {
+            content: '▍';
+            opacity: 0.6;
+        }
+
+        .partial-badge {
+            font-size: 10px;
+            color: var(--vscode-descriptionForeground);
+            font-style: italic;
+        }
+
+        .repair-details,
+        .redaction-details {
+            margin-top: 6px;
+            font-size: 11px;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .repair-details summary,
+        .redaction-details summary {
+            cursor: pointer;
+        }
+
+        .repair-details ul,
+        .redaction-details ul {
+            margin: 4px 0 0 16px;
+            padding: 0;
+        }
+
         /* Empty State */
         .empty-state {
             text-align: center;
@@ -1748,7 +1894,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     <div class="panel-header">
         <div class="panel-title-wrapper">
             <span class="panel-title">AI PROMPT REFINER</span>
-            <span id="template-indicator" class="template-indicator" title="Current refinement mode"></span>
+            <span id="template-indicator" class="template-indicator" title="Current template - click to change"></span>
         </div>
         <div class="panel-actions">
             <!-- New Session Button -->
@@ -1770,6 +1916,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     <div class="session-selector">
         <div class="session-header">
             <span class="session-title">RECENT SESSIONS</span>
+            <span class="session-usage" id="session-usage"></span>
             <button id="view-all-btn" class="view-all-btn">View all</button>
         </div>
 
@@ -1821,9 +1968,13 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             <textarea id="prompt-input" placeholder="Describe what you want to refine..." rows="3"></textarea>
             <div class="input-footer">
                 <span class="char-count" id="char-count">0/4000</span>
+                <label class="bypass-cache" title="Skip cached refinements and ask the model again">
+                    <input type="checkbox" id="bypass-cache"> Fresh
+                </label>
                 <div class="loading-indicator" id="loading-indicator">
                     <div class="spinner"></div>
                     <span>Refining...</span>
+                    <button type="button" class="stop-btn" id="stop-btn" title="Stop refining">Stop</button>
                 </div>
                 <button class="send-btn" id="send-btn">
                     <span>Refine</span>
@@ -1843,6 +1994,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         const charCount = document.getElementById('char-count');
         const loadingIndicator = document.getElementById('loading-indicator');
         const inputWrapper = document.getElementById('input-wrapper');
+        const stopBtn = document.getElementById('stop-btn');
         const emptyState = document.getElementById('empty-state');
         const sessionList = document.getElementById('session-list');
         const showMoreBtn = document.getElementById('show-more-btn');
@@ -1946,7 +2098,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                              data-id="\${session.id}">
                             <div class="session-item-info">
                                 <div class="session-name">
-                                    <span class="role-badge" title="\${session.roleInfo?.name || 'Programmer'}">\${roleIcon}</span>
+                                    <span class="role-badge" title="\${escapeHtml(session.roleInfo?.name || 'Programmer').replace(/"/g, '&quot;')}">\${escapeHtml(roleIcon)}</span>
                                     \${escapeHtml(session.name)}
                                 </div>
                                 <div class="session-status">\${isCompleted ? 'Completed' : 'In Progress'}</div>
@@ -2052,7 +2204,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                      data-id="\${session.id}">
                     <div class="session-info">
                         <div class="session-name-full">
-                            <span class="role-badge-full" title="\${session.roleInfo?.name || 'Programmer'}">\${roleIcon}</span>
+                            <span class="role-badge-full" title="\${escapeHtml(session.roleInfo?.name || 'Programmer').replace(/"/g, '&quot;')}">\${escapeHtml(roleIcon)}</span>
                             \${escapeHtml(session.name)}
                             \${isArchived ? '<span style="font-size: 10px; opacity: 0.6; margin-left: 8px;">(Archived)</span>' : ''}
                         </div>
@@ -2095,7 +2247,10 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             const text = promptInput.value.trim();
             if (!text || inputWrapper.classList.contains('loading')) return;
 
-            vscode.postMessage({ type: 'refinePrompt', value: text });
+            // The toggle applies to one request only
+            const bypassCache = document.getElementById('bypass-cache');
+            vscode.postMessage({ type: 'refinePrompt', value: text, bypassCache: bypassCache.checked });
+            bypassCache.checked = false;
             promptInput.value = '';
             updateCharCount();
             saveState();
@@ -2128,15 +2283,32 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             } else {
                 // Format token count with commas
                 const tokensStr = message.tokens ? message.tokens.toLocaleString() : null;
+                const costStr = typeof message.cost === 'number' ? formatCost(message.cost) : null;
+                const usageTitle = message.promptTokens !== undefined
+                    ? message.promptTokens.toLocaleString() + ' in / ' + (message.completionTokens || 0).toLocaleString() + ' out'
+                    : '';
+                // Hover shows which provider/model answered (may be a fallback)
+                const attribution = message.role === 'assistant' && message.provider
+                    ? message.provider + (message.model ? ' / ' + message.model : '')
+                    : '';
                 
                 div.innerHTML = \`
                     <div class="message-header">
-                        <span class="message-role">\${message.role}</span>
-                        \${tokensStr ? \`<span class="token-count">\${tokensStr} tokens</span>\` : ''}
+                        <span class="message-role"\${attribution ? \` title="\${escapeHtml(attribution).replace(/"/g, '&quot;')}"\` : ''}>\${message.role}</span>
+                        \${tokensStr ? \`<span class="token-count"\${usageTitle ? \` title="\${usageTitle}"\` : ''}>\${tokensStr} tokens\${costStr ? ' · ' + costStr : ''}</span>\` : ''}
+                        \${message.partial ? '<span class="partial-badge">stopped</span>' : ''}
                         <span class="message-time">\${timeStr}</span>
                     </div>
                     <div class="message-content">\${escapeHtml(message.content)}</div>
+                    \${renderRepairDetails(message.repair)}
+                    \${renderRedactionDetails(message.redactions)}
                     <div class="message-actions">
+                        \${message.role === 'user' ? \`<button type="button" class="action-btn copy-btn compare-btn" title="Compare refinements across models">
+                            <svg viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg" width="14" height="14">
+                                <rect x="3" y="4" width="7" height="16" rx="1" stroke="currentColor" stroke-width="2" fill="none"/>
+                                <rect x="14" y="4" width="7" height="16" rx="1" stroke="currentColor" stroke-width="2" fill="none"/>
+                            </svg>
+                        </button>\` : ''}
                         <button type="button" class="action-btn copy-btn" title="Copy">
                             <svg viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg" width="14" height="14">
                                 <path d="M16 4h2a2 2 0 012 2v14a2 2 0 01-2 2H6a2 2 0 01-2-2V6a2 2 0 012-2h2" stroke="currentColor" stroke-width="2" stroke-linecap="round" fill="none"/>
@@ -2150,6 +2322,52 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             return div;
         }
 
+        /** Sub-cent amounts get more digits; mirrors formatCost in utils/pricing.ts */
+        function formatCost(cost) {
+            if (cost === 0) return '$0.00';
+            return '$' + cost.toFixed(cost < 0.01 ? 4 : 2);
+        }
+
+        function renderSessionUsage(usage) {
+            const el = document.getElementById('session-usage');
+            if (!el) return;
+            const total = usage ? usage.promptTokens + usage.completionTokens : 0;
+            if (!total) {
+                el.textContent = '';
+                el.title = '';
+                return;
+            }
+            el.textContent = total.toLocaleString() + ' tokens · ' + (usage.hasUnpricedMessages ? '≥ ' : '') + formatCost(usage.cost);
+            el.title = usage.promptTokens.toLocaleString() + ' prompt / ' + usage.completionTokens.toLocaleString() + ' completion tokens this session'
+                + (usage.hasUnpricedMessages ? ' (some models have no known price)' : '');
+        }
+
+        // Score progression of an auto-repaired answer, e.g. "Auto-repaired: 55 → 72 → 85"
+        function renderRepairDetails(repair) {
+            if (!repair || !repair.rounds || repair.rounds.length < 2) {
+                return '';
+            }
+            const scores = repair.rounds.map(r => String(r.score)).join(' → ');
+            const items = repair.rounds.map(r => {
+                const label = r.round === 0 ? 'First answer' : 'Repair ' + r.round;
+                const chosen = r.round === repair.chosenRound ? ' (kept)' : '';
+                const issues = r.issues.length ? ': ' + r.issues.map(escapeHtml).join('; ') : '';
+                return '<li>' + label + ' — ' + r.score + (r.valid ? ' ✓' : '') + chosen + issues + '</li>';
+            }).join('');
+            return '<details class="repair-details"><summary>Auto-repaired: ' + scores + '</summary><ul>' + items + '</ul></details>';
+        }
+
+        function renderRedactionDetails(redactions) {
+            if (!redactions || redactions.length === 0) {
+                return '';
+            }
+            const secrets = redactions.filter(r => r.kind === 'secret').length;
+            const summary = 'Redacted ' + redactions.length + (redactions.length === 1 ? ' value' : ' values')
+                + (secrets ? ' (' + secrets + (secrets === 1 ? ' secret' : ' secrets') + ')' : '') + ' before sending';
+            const items = redactions.map(r => '<li>' + escapeHtml(r.placeholder) + ' — ' + escapeHtml(r.detector) + '</li>').join('');
+            return '<details class="redaction-details"><summary>' + summary + '</summary><ul>' + items + '</ul></details>';
+        }
+
         function escapeHtml(text) {
             const div = document.createElement('div');
             div.textContent = text;
@@ -2251,6 +2469,14 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         chatContainer.addEventListener('click', (e) => {
             const t = e.target;
             if (!t || !t.closest) return;
+            const compareBtn = t.closest('.compare-btn');
+            if (compareBtn) {
+                e.preventDefault();
+                const row = compareBtn.closest('.message');
+                const content = row && row.querySelector('.message-content')?.textContent;
+                if (content) vscode.postMessage({ type: 'compareMessage', content });
+                return;
+            }
             const copyBtn = t.closest('.copy-btn');
             if (copyBtn) {
                 e.preventDefault();
@@ -2273,6 +2499,10 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         });
 
         sendBtn.addEventListener('click', sendMessage);
+        stopBtn.addEventListener('click', () => vscode.postMessage({ type: 'cancelRefine' }));
+        document.getElementById('template-indicator').addEventListener('click', () => {
+            vscode.postMessage({ type: 'selectTemplate' });
+        });
         
         promptInput.addEventListener('keydown', (e) => {
             if (e.key === 'Enter' && !e.shiftKey) {
@@ -2345,6 +2575,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                     sessions = data.sessions || [];
                     currentSessionId = data.activeSessionId;
                     renderSessionSelector();
+                    renderSessionUsage(data.activeSessionUsage);
                     // If modal is open, refresh it
                     if (sessionListFull.classList.contains('expanded')) {
                         renderSessionListFull();
@@ -2390,6 +2621,49 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                     chatContainer.scrollTop = chatContainer.scrollHeight;
                     break;
 
+                // Streaming refinement: placeholder grows until streamEnd swaps in the saved message
+                case 'streamStart': {
+                    if (emptyState.parentNode) {
+                        emptyState.remove();
+                    }
+                    const streamEl = createMessageElement(data.message);
+                    streamEl.classList.add('streaming');
+                    chatContainer.appendChild(streamEl);
+                    chatContainer.scrollTop = chatContainer.scrollHeight;
+                    break;
+                }
+
+                case 'streamDelta': {
+                    const streamEl = chatContainer.querySelector(\`.message[data-id="\${data.streamId}"]\`);
+                    const contentEl = streamEl && streamEl.querySelector('.message-content');
+                    if (contentEl) {
+                        const atBottom = chatContainer.scrollHeight - chatContainer.scrollTop - chatContainer.clientHeight < 40;
+                        contentEl.textContent = data.content || '';
+                        if (atBottom) {
+                            chatContainer.scrollTop = chatContainer.scrollHeight;
+                        }
+                    }
+                    break;
+                }
+
+                case 'streamEnd': {
+                    const streamEl = chatContainer.querySelector(\`.message[data-id="\${data.streamId}"]\`);
+                    if (streamEl) {
+                        if (data.message) {
+                            streamEl.replaceWith(createMessageElement(data.message));
+                        } else {
+                            streamEl.remove();
+                        }
+                    } else if (data.message) {
+                        chatContainer.appendChild(createMessageElement(data.message));
+                    }
+                    if (chatContainer.children.length === 0) {
+                        chatContainer.appendChild(emptyState);
+                    }
+                    chatContainer.scrollTop = chatContainer.scrollHeight;
+                    break;
+                }
+
                 case 'updateMessage':
                     editingId = null;
                     const msgElements = document.querySelectorAll('.message');
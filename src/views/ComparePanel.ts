@@ -0,0 +1,429 @@
+import * as vscode from 'vscode';
+import { randomBytes } from 'crypto';
+import { PromptRefinerService, RefinementResult } from '../services/PromptRefinerService';
+import { SessionManager } from '../services/SessionManager';
+import { logger } from '../services/Logger';
+import { ErrorHandler } from '../utils/ErrorHandler';
+
+/**
+ * A provider/model pair to refine the prompt with
+ */
+export interface CompareTarget {
+    providerId: string;
+    /** UI or API model id */
+    modelId: string;
+    label: string;
+}
+
+/**
+ * Messages sent from the compare webview
+ */
+type CompareWebviewMessage =
+  | { type: 'cancel'; index: number }
+  | { type: 'cancelAll' }
+  | { type: 'pickWinner'; index: number };
+
+/**
+ * Webview panel that refines one prompt with several models side by side
+ * and saves the chosen result to the active chat session
+ */
+export class ComparePanel {
+    public static readonly viewType = 'promptRefiner.compare';
+    private static current: ComparePanel | undefined;
+
+    private readonly panel: vscode.WebviewPanel;
+    private readonly cancellations: vscode.CancellationTokenSource[];
+    private readonly results: Array<RefinementResult | undefined>;
+    private readonly disposables: vscode.Disposable[] = [];
+    private winnerIndex: number | undefined;
+
+    /**
+     * Open the comparison panel, replacing (and cancelling) any comparison already running
+     */
+    public static show(
+        prompt: string,
+        targets: CompareTarget[],
+        onWinnerSaved?: () => void | Promise<void>
+    ): ComparePanel {
+        ComparePanel.current?.dispose();
+
+        const panel = vscode.window.createWebviewPanel(
+            ComparePanel.viewType,
+            'Compare Refinements',
+            vscode.ViewColumn.Active,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+
+        ComparePanel.current = new ComparePanel(panel, prompt, targets, onWinnerSaved);
+        return ComparePanel.current;
+    }
+
+    private constructor(
+        panel: vscode.WebviewPanel,
+        private readonly prompt: string,
+        private readonly targets: CompareTarget[],
+        private readonly onWinnerSaved?: () => void | Promise<void>,
+    ) {
+        this.panel = panel;
+        this.cancellations = targets.map(() => new vscode.CancellationTokenSource());
+        this.results = targets.map(() => undefined);
+
+        const nonce = randomBytes(16).toString('base64');
+        this.panel.webview.html = this.getHtml(this.panel.webview, nonce);
+
+        this.disposables.push(
+            this.panel.onDidDispose(() => this.dispose()),
+            this.panel.webview.onDidReceiveMessage((data: CompareWebviewMessage) => this.handleMessage(data))
+        );
+
+        this.targets.forEach((_, index) => {
+            void this.runTarget(index);
+        });
+    }
+
+    private async handleMessage(data: CompareWebviewMessage): Promise<void> {
+        try {
+            switch (data.type) {
+            case 'cancel':
+                this.cancellations[data.index]?.cancel();
+                break;
+            case 'cancelAll':
+                this.cancellations.forEach(cts => cts.cancel());
+                break;
+            case 'pickWinner':
+                await this.saveWinner(data.index);
+                break;
+            }
+        } catch (error) {
+            logger.error('Compare panel message handling failed', error as Error);
+            vscode.window.showErrorMessage('Could not complete the comparison action. See logs for details.');
+        }
+    }
+
+    /**
+     * Refine with one target; each target has its own cancellation so a slow model can be stopped alone
+     */
+    private async runTarget(index: number): Promise<void> {
+        const target = this.targets[index];
+        const token = this.cancellations[index].token;
+        const startedAt = Date.now();
+
+        try {
+            const result = await PromptRefinerService.getInstance().refineWithModel(
+                this.prompt,
+                target.providerId,
+                target.modelId,
+                token
+            );
+            this.results[index] = result;
+            this.post({
+                type: 'result',
+                index,
+                status: 'done',
+                refined: result.refined,
+                tokens: result.tokens,
+                latencyMs: Date.now() - startedAt,
+                score: result.validation?.score,
+                valid: result.validation?.valid,
+            });
+        } catch (error: unknown) {
+            const err = error instanceof Error ? error : new Error(String(error));
+            if (err.message === 'Operation cancelled' || token.isCancellationRequested) {
+                this.post({ type: 'result', index, status: 'cancelled', latencyMs: Date.now() - startedAt });
+                return;
+            }
+            logger.warn('Comparison target failed', { provider: target.providerId, model: target.modelId, error: err.message });
+            this.post({
+                type: 'result',
+                index,
+                status: 'error',
+                error: ErrorHandler.classifyError(err).userMessage,
+                latencyMs: Date.now() - startedAt,
+            });
+        }
+    }
+
+    private async saveWinner(index: number): Promise<void> {
+        const result = this.results[index];
+        if (!result || this.winnerIndex !== undefined) {
+            return;
+        }
+
+        const sessionManager = SessionManager.getInstance();
+        let session = await sessionManager.getActiveSession();
+        if (!session) {
+            session = await sessionManager.createSession(await sessionManager.suggestSessionName(this.prompt));
+        }
+
+        // Comparing a chat message: the prompt is already in the session, only the answer is new
+        const messages = await sessionManager.getMessages(session.id);
+        if (!messages.some(message => message.role === 'user' && message.content.trim() === this.prompt)) {
+            await sessionManager.addMessageToSession(session.id, {
+                role: 'user',
+                content: this.prompt,
+                provider: result.provider,
+                model: result.model,
+                tokens: 0
+            });
+        }
+        await sessionManager.addMessageToSession(session.id, {
+            role: 'assistant',
+            content: result.refined,
+            provider: result.provider,
+            model: result.model,
+            tokens: result.tokens
+        });
+
+        this.winnerIndex = index;
+        this.post({ type: 'winnerSaved', index });
+        logger.info('Comparison winner saved', { sessionId: session.id, provider: result.provider, model: result.model });
+
+        await this.onWinnerSaved?.();
+        vscode.window.showInformationMessage(`Saved ${this.targets[index].label} result to "${session.name}"`);
+    }
+
+    private post(message: Record<string, unknown>): void {
+        void this.panel.webview.postMessage(message);
+    }
+
+    public dispose(): void {
+        if (ComparePanel.current === this) {
+            ComparePanel.current = undefined;
+        }
+        this.cancellations.forEach(cts => {
+            cts.cancel();
+            cts.dispose();
+        });
+        this.cancellations.length = 0;
+        while (this.disposables.length) {
+            this.disposables.pop()?.dispose();
+        }
+        this.panel.dispose();
+    }
+
+    private getHtml(webview: vscode.Webview, nonce: string): string {
+        const csp = [
+            'default-src \'none\'',
+            `style-src 'unsafe-inline' ${webview.cspSource}`,
+            `script-src 'nonce-${nonce}'`,
+        ].join('; ');
+        const targets = JSON.stringify(this.targets.map(t => t.label)).replace(/</g, '\\u003c');
+        const prompt = JSON.stringify(this.prompt).replace(/</g, '\\u003c');
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="${csp}">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Compare Refinements</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            color: var(--vscode-foreground);
+            padding: 16px;
+        }
+
+        .prompt {
+            white-space: pre-wrap;
+            padding: 8px 12px;
+            margin-bottom: 12px;
+            border-left: 3px solid var(--vscode-textLink-foreground);
+            background: var(--vscode-textBlockQuote-background);
+            max-height: 120px;
+            overflow: auto;
+        }
+
+        .toolbar {
+            display: flex;
+            justify-content: flex-end;
+            margin-bottom: 12px;
+        }
+
+        .grid {
+            display: grid;
+            grid-template-columns: repeat(${this.targets.length}, minmax(240px, 1fr));
+            gap: 12px;
+            overflow-x: auto;
+        }
+
+        .card {
+            display: flex;
+            flex-direction: column;
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 4px;
+            padding: 10px;
+            min-height: 200px;
+        }
+
+        .card.winner {
+            border-color: var(--vscode-focusBorder);
+            box-shadow: 0 0 0 1px var(--vscode-focusBorder);
+        }
+
+        .card-title {
+            font-weight: 600;
+            margin-bottom: 6px;
+        }
+
+        .meta {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 8px;
+            font-size: 11px;
+            color: var(--vscode-descriptionForeground);
+            margin-bottom: 8px;
+        }
+
+        .score.good { color: var(--vscode-gitDecoration-addedResourceForeground); }
+        .score.warning { color: var(--vscode-editorWarning-foreground); }
+        .score.bad { color: var(--vscode-editorError-foreground); }
+
+        .output {
+            flex: 1;
+            white-space: pre-wrap;
+            font-family: var(--vscode-editor-font-family);
+            font-size: var(--vscode-editor-font-size);
+            overflow: auto;
+            max-height: 60vh;
+        }
+
+        .output.error {
+            color: var(--vscode-errorForeground);
+        }
+
+        .actions {
+            display: flex;
+            gap: 6px;
+            margin-top: 8px;
+        }
+
+        button {
+            padding: 4px 10px;
+            border: none;
+            border-radius: 2px;
+            cursor: pointer;
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+        }
+
+        button.primary {
+            background: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+        }
+
+        button:disabled {
+            opacity: 0.5;
+            cursor: default;
+        }
+    </style>
+</head>
+<body>
+    <div class="prompt" id="prompt"></div>
+    <div class="toolbar">
+        <button type="button" id="cancel-all">Cancel remaining</button>
+    </div>
+    <div class="grid" id="grid"></div>
+
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        const labels = ${targets};
+        const grid = document.getElementById('grid');
+        const cancelAllBtn = document.getElementById('cancel-all');
+        let pending = labels.length;
+
+        document.getElementById('prompt').textContent = ${prompt};
+
+        labels.forEach((label, index) => {
+            const card = document.createElement('div');
+            card.className = 'card';
+            card.dataset.index = String(index);
+            card.innerHTML =
+                '<div class="card-title"></div>' +
+                '<div class="meta"><span class="status">Refining…</span></div>' +
+                '<div class="output"></div>' +
+                '<div class="actions">' +
+                '<button type="button" class="cancel-btn">Cancel</button>' +
+                '<button type="button" class="primary pick-btn" disabled>Use this</button>' +
+                '</div>';
+            card.querySelector('.card-title').textContent = label;
+            grid.appendChild(card);
+        });
+
+        function scoreClass(score) {
+            return score >= 80 ? 'good' : score >= 60 ? 'warning' : 'bad';
+        }
+
+        function renderResult(data) {
+            const card = grid.querySelector('.card[data-index="' + data.index + '"]');
+            if (!card) return;
+            const meta = card.querySelector('.meta');
+            const output = card.querySelector('.output');
+            const latency = (data.latencyMs / 1000).toFixed(1) + 's';
+            meta.innerHTML = '';
+
+            const addMeta = (text, className) => {
+                const span = document.createElement('span');
+                span.textContent = text;
+                if (className) span.className = className;
+                meta.appendChild(span);
+            };
+
+            if (data.status === 'done') {
+                addMeta((data.tokens || 0).toLocaleString() + ' tokens');
+                addMeta(latency);
+                if (typeof data.score === 'number') {
+                    addMeta('Score ' + data.score + '/100', 'score ' + scoreClass(data.score));
+                }
+                output.textContent = data.refined;
+                card.querySelector('.pick-btn').disabled = false;
+            } else if (data.status === 'cancelled') {
+                addMeta('Cancelled after ' + latency);
+            } else {
+                addMeta('Failed after ' + latency);
+                output.textContent = data.error || 'Refinement failed';
+                output.classList.add('error');
+            }
+            card.querySelector('.cancel-btn').disabled = true;
+
+            pending--;
+            cancelAllBtn.disabled = pending <= 0;
+        }
+
+        grid.addEventListener('click', (e) => {
+            const t = e.target;
+            if (!t || !t.closest) return;
+            const card = t.closest('.card');
+            if (!card) return;
+            const index = Number(card.dataset.index);
+            if (t.closest('.cancel-btn')) {
+                vscode.postMessage({ type: 'cancel', index });
+            } else if (t.closest('.pick-btn')) {
+                vscode.postMessage({ type: 'pickWinner', index });
+            }
+        });
+
+        cancelAllBtn.addEventListener('click', () => vscode.postMessage({ type: 'cancelAll' }));
+
+        window.addEventListener('message', (event) => {
+            const data = event.data;
+            switch (data.type) {
+                case 'result':
+                    renderResult(data);
+                    break;
+                case 'winnerSaved': {
+                    const card = grid.querySelector('.card[data-index="' + data.index + '"]');
+                    if (card) {
+                        card.classList.add('winner');
+                        card.querySelector('.pick-btn').textContent = 'Saved to chat';
+                    }
+                    grid.querySelectorAll('.pick-btn').forEach(btn => { btn.disabled = true; });
+                    break;
+                }
+            }
+        });
+    </script>
+</body>
+</html>`;
+    }
+}
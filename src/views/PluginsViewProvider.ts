@@ -0,0 +1,72 @@
+import * as vscode from 'vscode';
+import { PERMISSION_DESCRIPTIONS, PluginInfo, PluginManager, PluginStatus } from '../plugins/PluginManager';
+
+const STATUS_LABELS: Record<PluginStatus, string> = {
+    active: 'Active',
+    disabled: 'Disabled',
+    failed: 'Failed',
+    denied: 'Permissions denied',
+};
+
+const STATUS_ICONS: Record<PluginStatus, string> = {
+    active: 'pass',
+    disabled: 'circle-slash',
+    failed: 'error',
+    denied: 'shield',
+};
+
+/**
+ * Loaded plugins with their status, permissions and last error. The checkbox turns a plugin
+ * on or off; checking a failed or denied plugin starts it again.
+ */
+export class PluginsViewProvider implements vscode.TreeDataProvider<PluginInfo>, vscode.Disposable {
+    public static readonly viewType = 'promptRefiner.pluginsView';
+
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+    private readonly subscription: vscode.Disposable;
+
+    constructor() {
+        this.subscription = PluginManager.getInstance().onDidChange(() => this.changeEmitter.fire());
+    }
+
+    public getChildren(element?: PluginInfo): PluginInfo[] {
+        return element ? [] : PluginManager.getInstance().getPlugins();
+    }
+
+    public getTreeItem(info: PluginInfo): vscode.TreeItem {
+        const { plugin, status } = info;
+        const item = new vscode.TreeItem(plugin.name);
+        item.id = plugin.id;
+        item.description = `${plugin.version} · ${STATUS_LABELS[status]}`;
+        item.iconPath = new vscode.ThemeIcon(STATUS_ICONS[status]);
+        item.checkboxState = status === 'active'
+            ? vscode.TreeItemCheckboxState.Checked
+            : vscode.TreeItemCheckboxState.Unchecked;
+        item.contextValue = `plugin.${status}`;
+
+        const permissions = info.permissions.length > 0
+            ? info.permissions.map(permission => `- ${PERMISSION_DESCRIPTIONS[permission]}`).join('\n')
+            : 'None';
+        item.tooltip = new vscode.MarkdownString(
+            `**${plugin.name}** ${plugin.version}${plugin.author ? ` by ${plugin.author}` : ''}\n\n`
+            + (plugin.description ? `${plugin.description}\n\n` : '')
+            + `**Source:** ${info.source === 'workspace' ? 'workspace plugin folder' : 'extension'}\n\n`
+            + `**Plugin API permissions:**\n${permissions}\n\n`
+            + '_These limit what the plugin API does for it, not what its code can do._'
+            + (info.error ? `\n\n**Error:** ${info.error}` : '')
+        );
+        return item;
+    }
+
+    public async onDidChangeCheckboxState(event: vscode.TreeCheckboxChangeEvent<PluginInfo>): Promise<void> {
+        for (const [info, state] of event.items) {
+            await PluginManager.getInstance().setEnabled(info.plugin.id, state === vscode.TreeItemCheckboxState.Checked);
+        }
+    }
+
+    public dispose(): void {
+        this.subscription.dispose();
+        this.changeEmitter.dispose();
+    }
+}
@@ -4,6 +4,9 @@ import { ConfigurationManager } from '../services/ConfigurationManager';
 import { logger } from '../services/Logger';
 import { InputValidator } from '../utils/ErrorHandler';
 import { listOllamaModelTags } from '../utils/ollamaTags';
+import { listLanguageModels } from '../utils/languageModels';
+import { OPENAI_COMPATIBLE_PREFIX, PROFILE_DEFAULT_MODEL } from '../utils/openaiCompatible';
+import { ModelRegistry } from '../services/ModelRegistry';
 import { t } from '../i18n';
 
 export class SettingsViewProvider implements vscode.WebviewViewProvider {
@@ -107,6 +110,7 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
         // Get configuration status for ALL providers
         const allProvidersStatus = await config.getAllProvidersConfigurationStatus();
         const configuredCount = await config.getConfiguredProviderCount();
+        const openAICompatibleProfiles = config.getOpenAICompatibleProfiles();
 
         const providers = [
             // { id: 'public', name: t('provider') + ': ' + 'Free (DDG/HF)', description: 'No API key required. Uses free public models. [TEMPORARILY DISABLED]' },
@@ -114,7 +118,15 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
             { id: 'openai', name: t('provider') + ': ' + 'OpenAI', description: 'Requires OpenAI API key (sk-...).' },
             { id: 'gemini', name: t('provider') + ': ' + 'Google Gemini', description: 'Requires Google AI API key.' },
             { id: 'groq', name: t('provider') + ': ' + 'Groq', description: 'Requires Groq API key. Fast inference.' },
-            { id: 'ollama', name: t('provider') + ': ' + 'Ollama (Local)', description: 'Runs locally. No API key needed.' }
+            { id: 'ollama', name: t('provider') + ': ' + 'Ollama (Local)', description: 'Runs locally. No API key needed.' },
+            { id: 'vscode-lm', name: t('provider') + ': ' + 'VS Code Language Models', description: 'Models the editor provides, e.g. GitHub Copilot. No API key needed.' },
+            { id: 'azure-openai', name: t('provider') + ': ' + 'Azure OpenAI', description: 'Deployments from promptRefiner.azureOpenAI.*. Uses the resource key, or Microsoft sign-in when authentication is entraId.' },
+            { id: 'bedrock', name: t('provider') + ': ' + 'AWS Bedrock', description: 'Models from promptRefiner.bedrock.*, called through the Converse API with SigV4-signed requests.' },
+            ...openAICompatibleProfiles.map(profile => ({
+                id: profile.providerId,
+                name: t('provider') + ': ' + profile.name,
+                description: `OpenAI-compatible endpoint at ${profile.baseUrl}.`
+            }))
         ];
 
         const modelsByProvider: Record<string, {id: string, name: string, description: string}[]> = {
@@ -163,6 +175,44 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
             ];
         }
 
+        const languageModels = await listLanguageModels();
+        modelsByProvider['vscode-lm'] = [
+            { id: 'vscode-lm-auto', name: 'Auto (first available model)', description: 'Uses the first chat model the editor offers.' },
+            ...languageModels.map(model => ({
+                id: model.id,
+                name: model.name,
+                description: `${model.vendor} · ${model.family}`,
+            })),
+        ];
+
+        const azure = config.getAzureOpenAISettings();
+        modelsByProvider['azure-openai'] = azure.deployments.map(deployment => ({
+            id: deployment,
+            name: deployment,
+            description: `Deployment on ${azure.endpoint || 'the configured resource'} (api-version ${azure.apiVersion})`,
+        }));
+        const azureKeyHint = azure.authentication === 'entraId'
+            ? 'Not needed: you sign in with your Microsoft account (authentication is entraId).'
+            : 'Key 1 or Key 2 from the resource\'s "Keys and Endpoint" page.';
+        const bedrock = config.getBedrockSettings();
+        modelsByProvider.bedrock = bedrock.models.map(modelId => ({
+            id: modelId,
+            name: modelId,
+            description: `Bedrock model in ${bedrock.region}`,
+        }));
+
+        for (const profile of openAICompatibleProfiles) {
+            const served = await ModelRegistry.getInstance().getSupportedModels(profile.providerId);
+            modelsByProvider[profile.providerId] = [
+                {
+                    id: PROFILE_DEFAULT_MODEL,
+                    name: profile.defaultModel ? `Profile default (${profile.defaultModel})` : 'Auto (first listed model)',
+                    description: 'Uses the profile\'s defaultModel, or the first model the endpoint lists.',
+                },
+                ...served.map(model => ({ id: model.id, name: model.name, description: model.description })),
+            ];
+        }
+
         const ollamaListStatus =
             ollamaTags.length > 0
                 ? `${ollamaTags.length} local model(s) detected for this endpoint.`
@@ -312,7 +362,7 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
                         <div class="hint" id="model-hint"></div>
                     </div>
 
-                    <div id="api-key-group" class="form-group ${currentProvider === 'public' || currentProvider === 'ollama' ? 'hidden' : ''}">
+                    <div id="api-key-group" class="form-group ${currentProvider === 'public' || currentProvider === 'ollama' || currentProvider === 'vscode-lm' ? 'hidden' : ''}">
                         <label for="api-key-input">${t('apiKey')}</label>
                         <input type="password" id="api-key-input" placeholder="${hasKey ? '******** (saved)' : 'Enter your API key here...'}" value="">
                         <div class="hint" id="key-hint"></div>
@@ -402,7 +452,7 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
                         modelHint.textContent = selectedModel?.description || '';
                         
                         // Show/hide API key field
-                        const needsKey = provider !== 'ollama';
+                        const needsKey = provider !== 'ollama' && provider !== 'vscode-lm';
                         apiKeyGroup.classList.toggle('hidden', !needsKey);
                         ollamaGroup.classList.toggle('hidden', provider !== 'ollama');
 
@@ -419,6 +469,12 @@ export class SettingsViewProvider implements vscode.WebviewViewProvider {
                             keyHint.textContent = 'Get your API key at makersuite.google.com';
                         } else if (provider === 'groq') {
                             keyHint.textContent = 'Get your API key at console.groq.com';
+                        } else if (provider === 'azure-openai') {
+                            keyHint.textContent = ${JSON.stringify(azureKeyHint)};
+                        } else if (provider === 'bedrock') {
+                            keyHint.textContent = 'ACCESS_KEY_ID:SECRET_ACCESS_KEY, plus :SESSION_TOKEN for temporary credentials.';
+                        } else if (provider.startsWith('${OPENAI_COMPATIBLE_PREFIX}')) {
+                            keyHint.textContent = 'Optional. Sent as a Bearer token; leave empty if the gateway has no authentication.';
                         } else {
                             keyHint.textContent = '';
                         }